@@ -0,0 +1,74 @@
+"use client";
+
+import Link from "next/link";
+import { AlertTriangle, Bell } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { computeGoalProgress } from "@/lib/writing-goals";
+import { useGoalSnapshots } from "@/hooks/use-writing-stats";
+import { Role } from "@/types/auth";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useAuthStore } from "@/stores/auth/auth-store";
+
+// 与“小说管理”菜单的可见角色保持一致
+const NOVEL_ROLES: string[] = [Role.ADMIN, Role.SUPER_ADMIN];
+
+function GoalNotifications() {
+  const { data: snapshots } = useGoalSnapshots();
+  const items = (snapshots ?? []).flatMap((snapshot) =>
+    computeGoalProgress(snapshot).alerts.map((alert) => ({ ...alert, snapshot })),
+  );
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button size="icon" variant="outline" className="relative" aria-label="通知">
+          <Bell />
+          {items.length > 0 && (
+            <span className="bg-destructive absolute -top-1 -right-1 flex h-4 min-w-4 items-center justify-center rounded-full px-1 text-[10px] text-white">
+              {items.length > 99 ? "99+" : items.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="border-b px-4 py-2 text-sm font-medium">写作目标提醒</div>
+        {items.length ? (
+          <ul className="max-h-80 overflow-y-auto">
+            {items.map((item) => (
+              <li key={`${item.snapshot.novelId}-${item.message}`} className="border-b last:border-b-0">
+                <Link
+                  href={`/dashboard/novel/${item.snapshot.novelId}`}
+                  className="hover:bg-muted flex gap-2 px-4 py-3 text-sm"
+                >
+                  <AlertTriangle
+                    className={cn(
+                      "mt-0.5 h-4 w-4 shrink-0",
+                      item.level === "danger" ? "text-destructive" : "text-amber-600 dark:text-amber-500",
+                    )}
+                  />
+                  <span className="flex min-w-0 flex-col gap-0.5">
+                    <span className="truncate font-medium">{item.snapshot.novelName}</span>
+                    <span className="text-muted-foreground text-xs">{item.message}</span>
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-muted-foreground px-4 py-6 text-center text-sm">暂无未达成的写作目标</p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+/**
+ * 顶栏通知区：目前展示未达成的写作目标
+ */
+export function NotificationCenter() {
+  const user = useAuthStore((s) => s.user);
+  if (!user?.role || !NOVEL_ROLES.includes(user.role)) return null;
+  return <GoalNotifications />;
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { useChapters, useScenes } from "@/hooks/use-chapters";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+// Radix Select 不支持空字符串作为选项值，用占位值表示“不关联”
+const NONE_VALUE = "__none__";
+
+interface ChapterSelectProps {
+  novelId?: string;
+  value?: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+export function ChapterSelect({ novelId, value, onChange, disabled }: ChapterSelectProps) {
+  const { data: chapters = [], isLoading, error } = useChapters(novelId);
+
+  const placeholder = !novelId
+    ? "请先选择关联小说"
+    : error
+      ? "章节加载失败"
+      : isLoading
+        ? "加载中..."
+        : chapters.length
+          ? "选择章节"
+          : "该小说暂无章节";
+
+  return (
+    <Select
+      value={value || NONE_VALUE}
+      onValueChange={(next) => onChange(next === NONE_VALUE ? "" : next)}
+      disabled={disabled || !novelId || !chapters.length}
+    >
+      <SelectTrigger className="w-full">
+        <SelectValue placeholder={placeholder}>{value ? undefined : placeholder}</SelectValue>
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NONE_VALUE}>不关联章节</SelectItem>
+        {chapters.map((chapter, index) => (
+          <SelectItem key={chapter.chapterId} value={chapter.chapterId}>
+            第 {index + 1} 章 · {chapter.title}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface SceneSelectProps {
+  chapterId?: string;
+  value?: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+export function SceneSelect({ chapterId, value, onChange, disabled }: SceneSelectProps) {
+  const { data: scenes = [], isLoading, error } = useScenes(chapterId);
+
+  const placeholder = !chapterId
+    ? "请先选择章节"
+    : error
+      ? "场景加载失败"
+      : isLoading
+        ? "加载中..."
+        : scenes.length
+          ? "选择场景"
+          : "该章节暂无场景";
+
+  return (
+    <Select
+      value={value || NONE_VALUE}
+      onValueChange={(next) => onChange(next === NONE_VALUE ? "" : next)}
+      disabled={disabled || !chapterId || !scenes.length}
+    >
+      <SelectTrigger className="w-full">
+        <SelectValue placeholder={placeholder}>{value ? undefined : placeholder}</SelectValue>
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NONE_VALUE}>不关联场景</SelectItem>
+        {scenes.map((scene, index) => (
+          <SelectItem key={scene.sceneId} value={scene.sceneId}>
+            场景 {index + 1} · {scene.title}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
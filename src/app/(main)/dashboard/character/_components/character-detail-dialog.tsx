@@ -324,6 +324,7 @@ export function CharacterDetailDialog({ open, loading, character, error, onClose
             currentCharacterName={character.name}
             relatedCharacterId={selectedRelationship.characterId}
             relatedCharacterName={selectedRelationship.name}
+            onChanged={() => refreshRelationships()}
           />
         ) : null}
       </DialogContent>
@@ -1,17 +1,21 @@
 "use client";
 
 import * as React from "react";
-import useSWR from "swr";
-import { RefreshCcw } from "lucide-react";
+import useSWR, { useSWRConfig } from "swr";
+import { Pencil, RefreshCcw, Trash2 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Drawer, DrawerClose, DrawerContent, DrawerFooter, DrawerHeader, DrawerTitle } from "@/components/ui/drawer";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getCurrentRelationshipsKey, getRelationshipEventsKey } from "@/hooks/use-novel-relationships";
 import { CharacterRelationshipHistoryEvent } from "@/types/work";
 import { useFetchWithAuth } from "@/utils/fetch-with-auth";
 
+import { RelationshipEventDeleteDialog } from "./relationship-event-delete-dialog";
+import { RelationshipEventEditDialog } from "./relationship-event-edit-dialog";
+
 interface RelationshipHistoryListResponse {
   data: CharacterRelationshipHistoryEvent[];
   total: number;
@@ -27,6 +31,8 @@ interface CharacterRelationshipDrawerProps {
   currentCharacterName: string;
   relatedCharacterId: string;
   relatedCharacterName?: string;
+  // 修改或删除事件后通知上层刷新关系列表
+  onChanged?: () => void;
 }
 
 const DEFAULT_PAGE = 1;
@@ -98,10 +104,14 @@ export function CharacterRelationshipDrawer({
   currentCharacterName,
   relatedCharacterId,
   relatedCharacterName,
+  onChanged,
 }: CharacterRelationshipDrawerProps) {
   const fetchWithAuth = useFetchWithAuth();
+  const { mutate: globalMutate } = useSWRConfig();
   const [page, setPage] = React.useState(DEFAULT_PAGE);
   const [limit, setLimit] = React.useState(DEFAULT_LIMIT);
+  const [editingEvent, setEditingEvent] = React.useState<CharacterRelationshipHistoryEvent | null>(null);
+  const [deletingEvent, setDeletingEvent] = React.useState<CharacterRelationshipHistoryEvent | null>(null);
 
   React.useEffect(() => {
     if (!open) {
@@ -157,6 +167,16 @@ export function CharacterRelationshipDrawer({
     if (queryKey) mutate();
   };
 
+  // 事件变化后刷新本列表、所属作品的关系图数据与上层列表
+  const handleEventChanged = (item: CharacterRelationshipHistoryEvent) => {
+    mutate();
+    if (item.novelId) {
+      globalMutate(getRelationshipEventsKey(item.novelId));
+      globalMutate(getCurrentRelationshipsKey(item.novelId));
+    }
+    onChanged?.();
+  };
+
   const handlePrevPage = () => {
     setPage((prev) => Math.max(1, prev - 1));
   };
@@ -227,10 +247,23 @@ export function CharacterRelationshipDrawer({
                       <div className="flex flex-wrap items-center justify-between gap-2">
                         <div className="flex items-center gap-2">
                           <Badge variant="secondary">{item.newRelType || item.prevRelType || "未标记"}</Badge>
+                          {item.corrections?.length ? (
+                            <Badge variant="outline">已修正 {item.corrections.length} 次</Badge>
+                          ) : null}
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <span className="text-muted-foreground mr-1 text-xs">
+                            发生时间：{formatDateTime(item.occurredAt)}
+                          </span>
+                          <Button size="icon" variant="ghost" className="size-8" onClick={() => setEditingEvent(item)}>
+                            <Pencil className="h-4 w-4" />
+                            <span className="sr-only">修改</span>
+                          </Button>
+                          <Button size="icon" variant="ghost" className="size-8" onClick={() => setDeletingEvent(item)}>
+                            <Trash2 className="h-4 w-4" />
+                            <span className="sr-only">删除</span>
+                          </Button>
                         </div>
-                        <span className="text-muted-foreground text-xs">
-                          发生时间：{formatDateTime(item.occurredAt)}
-                        </span>
                       </div>
                       <div className="text-muted-foreground grid gap-1 text-sm">
                         <span>变更前关系：{item.prevRelType || "-"}</span>
@@ -240,6 +273,11 @@ export function CharacterRelationshipDrawer({
                         <span>记录小说：{item.novelName || "-"}</span>
                         <span>记录人：{item.createdByName || "-"}</span>
                         <span>记录时间：{formatDateTime(item.createdAt)}</span>
+                        {item.updatedBy || item.updatedByName ? (
+                          <span>
+                            最近修正：{item.updatedByName || item.updatedBy}（{formatDateTime(item.updatedAt)}）
+                          </span>
+                        ) : null}
                       </div>
                       {item.reason?.trim() ? (
                         <div className="bg-muted text-muted-foreground rounded-md px-3 py-2 text-sm">
@@ -255,6 +293,17 @@ export function CharacterRelationshipDrawer({
                           {item.notes}
                         </div>
                       ) : null}
+                      {item.corrections?.length ? (
+                        <div className="text-muted-foreground space-y-1 border-t pt-2 text-xs">
+                          <span className="text-foreground font-medium">修正记录：</span>
+                          {item.corrections.map((correction, index) => (
+                            <div key={`${correction.correctedAt}-${index}`}>
+                              {formatDateTime(correction.correctedAt)} ·{" "}
+                              {correction.correctedByName || correction.correctedBy || "-"}：{correction.note}
+                            </div>
+                          ))}
+                        </div>
+                      ) : null}
                     </div>
                   ))}
                 </div>
@@ -282,6 +331,26 @@ export function CharacterRelationshipDrawer({
             </div>
           </div>
         </div>
+        <RelationshipEventEditDialog
+          open={Boolean(editingEvent)}
+          onOpenChange={(value) => {
+            if (!value) setEditingEvent(null);
+          }}
+          event={editingEvent}
+          onSaved={() => {
+            if (editingEvent) handleEventChanged(editingEvent);
+          }}
+        />
+        <RelationshipEventDeleteDialog
+          open={Boolean(deletingEvent)}
+          onOpenChange={(value) => {
+            if (!value) setDeletingEvent(null);
+          }}
+          event={deletingEvent}
+          onDeleted={() => {
+            if (deletingEvent) handleEventChanged(deletingEvent);
+          }}
+        />
         <DrawerFooter className="shrink-0 border-t px-6 py-4">
           <DrawerClose asChild>
             <Button variant="outline">关闭</Button>
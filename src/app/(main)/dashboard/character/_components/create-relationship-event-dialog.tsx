@@ -17,7 +17,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
@@ -26,16 +26,18 @@ import { cn } from "@/lib/utils";
 import { useFetchWithAuth } from "@/utils/fetch-with-auth";
 import { Character } from "@/types/work";
 
+import { ChapterSelect, SceneSelect } from "./chapter-scene-select";
 import { NovelSelect } from "./novel-select";
+import { RelationshipTypeSelect } from "./relationship-type-select";
 
 const formSchema = z
   .object({
     characterAId: z.string({ required_error: "请选择角色A" }).min(1, "请选择角色A"),
     characterBId: z.string({ required_error: "请选择角色B" }).min(1, "请选择角色B"),
-    newRelType: z.string({ required_error: "请输入新的关系类型" }).min(1, "请输入新的关系类型"),
+    newRelType: z.string({ required_error: "请选择新的关系类型" }).min(1, "请选择新的关系类型"),
     reason: z.string().max(500, "原因请控制在500个字符以内").optional().or(z.literal("")),
-    chapterId: z.string().max(120, "章节ID请控制在120个字符以内").optional().or(z.literal("")),
-    sceneId: z.string().max(120, "场景ID请控制在120个字符以内").optional().or(z.literal("")),
+    chapterId: z.string().max(120, "章节ID格式不正确").optional().or(z.literal("")),
+    sceneId: z.string().max(120, "场景ID格式不正确").optional().or(z.literal("")),
     novelId: z.string().max(120, "小说ID请控制在120个字符以内").optional().or(z.literal("")),
     occurredAt: z.string().max(64, "发生时间格式不正确").optional().or(z.literal("")),
     notes: z.string().max(1000, "备注请控制在1000个字符以内").optional().or(z.literal("")),
@@ -264,6 +266,7 @@ export function CreateRelationshipEventDialog({
   const characterAId = form.watch("characterAId");
   const characterBId = form.watch("characterBId");
   const selectedNovelId = form.watch("novelId");
+  const selectedChapterId = form.watch("chapterId");
 
   const initialOptions = React.useMemo(() => {
     return [...initialCharacters].sort((a, b) => a.name.localeCompare(b.name, "zh-Hans-CN"));
@@ -387,8 +390,15 @@ export function CreateRelationshipEventDialog({
                 <FormItem>
                   <FormLabel>变更后的关系类型</FormLabel>
                   <FormControl>
-                    <Input placeholder="例如：朋友 / 敌对" {...field} value={field.value ?? ""} />
+                    <RelationshipTypeSelect
+                      value={field.value}
+                      onChange={field.onChange}
+                      novelId={selectedNovelId || undefined}
+                    />
                   </FormControl>
+                  <FormDescription>
+                    有方向的类型按“角色A 是 角色B 的…”理解，如选择“师父”表示角色A是角色B的师父。
+                  </FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
@@ -408,15 +418,44 @@ export function CreateRelationshipEventDialog({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="novelId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>关联小说（可选）</FormLabel>
+                  <FormControl>
+                    <NovelSelect
+                      value={field.value || undefined}
+                      onChange={(val) => {
+                        field.onChange(val ?? "");
+                        // 章节与场景归属于小说，切换小说后需重新选择
+                        form.setValue("chapterId", "");
+                        form.setValue("sceneId", "");
+                      }}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
               <FormField
                 control={form.control}
                 name="chapterId"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>章节ID（可选）</FormLabel>
+                    <FormLabel>关联章节（可选）</FormLabel>
                     <FormControl>
-                      <Input placeholder="与章节关联时填写" {...field} value={field.value ?? ""} />
+                      <ChapterSelect
+                        novelId={selectedNovelId || undefined}
+                        value={field.value}
+                        onChange={(value) => {
+                          field.onChange(value);
+                          form.setValue("sceneId", "");
+                        }}
+                      />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -428,9 +467,13 @@ export function CreateRelationshipEventDialog({
                 name="sceneId"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>场景ID（可选）</FormLabel>
+                    <FormLabel>关联场景（可选）</FormLabel>
                     <FormControl>
-                      <Input placeholder="与场景关联时填写" {...field} value={field.value ?? ""} />
+                      <SceneSelect
+                        chapterId={selectedChapterId || undefined}
+                        value={field.value}
+                        onChange={field.onChange}
+                      />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -438,20 +481,6 @@ export function CreateRelationshipEventDialog({
               />
             </div>
 
-            <FormField
-              control={form.control}
-              name="novelId"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>关联小说（可选）</FormLabel>
-                  <FormControl>
-                    <NovelSelect value={field.value || undefined} onChange={(val) => field.onChange(val ?? "")} />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
             <FormField
               control={form.control}
               name="occurredAt"
@@ -1,7 +1,7 @@
 "use client";
 
 import * as React from "react";
-import { Search, SlidersHorizontal, Plus, EllipsisVertical, RefreshCcw, FileText, Link2 } from "lucide-react";
+import { Search, SlidersHorizontal, Plus, EllipsisVertical, RefreshCcw, FileText, Link2, Tags } from "lucide-react";
 import { ColumnDef } from "@tanstack/react-table";
 import { toast } from "sonner";
 
@@ -28,6 +28,7 @@ import { CharacterDetailDialog } from "./character-detail-dialog";
 import { CreateCharacterDialog } from "./create-product-dialog";
 import { EditCharacterDialog } from "./edit-work-dialog";
 import { CreateRelationshipEventDialog } from "./create-relationship-event-dialog";
+import { RelationshipTypeCatalogDialog } from "./relationship-type-catalog-dialog";
 
 interface CharacterTableProps {
   data: Character[];
@@ -72,6 +73,7 @@ export function CharacterDataTable({
   const [detailData, setDetailData] = React.useState<Character | null>(null);
   const [detailError, setDetailError] = React.useState<string | null>(null);
   const [relationshipOpen, setRelationshipOpen] = React.useState(false);
+  const [typeCatalogOpen, setTypeCatalogOpen] = React.useState(false);
   const [relationshipInitial, setRelationshipInitial] = React.useState<{
     characterAId?: string;
     characterBId?: string;
@@ -400,6 +402,9 @@ export function CharacterDataTable({
               >
                 <Link2 className="mr-2 h-4 w-4" /> 创建关系事件
               </Button>
+              <Button size="sm" variant="outline" onClick={() => setTypeCatalogOpen(true)}>
+                <Tags className="mr-2 h-4 w-4" /> 关系类型
+              </Button>
               <Button size="sm" onClick={() => setCreateOpen(true)}>
                 <Plus className="mr-2 h-4 w-4" /> 新增角色
               </Button>
@@ -476,6 +481,12 @@ export function CharacterDataTable({
           onRefresh?.();
         }}
       />
+
+      <RelationshipTypeCatalogDialog
+        open={typeCatalogOpen}
+        onOpenChange={setTypeCatalogOpen}
+        initialNovelId={novelFilter.trim() || undefined}
+      />
     </div>
   );
 }
@@ -19,6 +19,7 @@ import {
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { RecordConflict, RecordConflictDialog, RecordConflictField } from "@/components/record-conflict-dialog";
 import { useFetchWithAuth } from "@/utils/fetch-with-auth";
 import { Character } from "@/types/work";
 
@@ -34,6 +35,31 @@ const schema = z.object({
 
 export type EditCharacterInput = z.infer<typeof schema>;
 
+const CONFLICT_FIELDS: RecordConflictField<EditCharacterInput>[] = [
+  { key: "name", label: "角色名称" },
+  { key: "role", label: "角色定位" },
+  { key: "traits", label: "性格特质" },
+  { key: "background", label: "角色背景" },
+  { key: "novelId", label: "所属小说 ID" },
+];
+
+const convertTraits = (input: Partial<Character> | null): string[] => {
+  if (!input?.traits) return [];
+  if (Array.isArray(input.traits)) return input.traits.filter(Boolean).map((item) => item.toString());
+  return String(input.traits)
+    .split(/\n|,|、/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+};
+
+const toFormValues = (character: Partial<Character> | null): EditCharacterInput => ({
+  name: character?.name || "",
+  role: character?.role?.toString() || "",
+  traits: convertTraits(character),
+  background: character?.background || "",
+  novelId: character?.novelId || "",
+});
+
 export function EditCharacterDialog({
   open,
   onOpenChange,
@@ -48,39 +74,32 @@ export function EditCharacterDialog({
   const fetchWithAuth = useFetchWithAuth();
   const [submitting, setSubmitting] = React.useState(false);
   const [traitDraft, setTraitDraft] = React.useState("");
-
-  const convertTraits = React.useCallback((input: Character | null): string[] => {
-    if (!input?.traits) return [];
-    if (Array.isArray(input.traits)) return input.traits.filter(Boolean).map((item) => item.toString());
-    return String(input.traits)
-      .split(/\n|,|、/)
-      .map((item) => item.trim())
-      .filter(Boolean);
-  }, []);
+  // 编辑所基于的角色数据，保存时以其 updatedAt 作为前置条件
+  const [baseCharacter, setBaseCharacter] = React.useState<Partial<Character> | null>(character);
+  const [conflict, setConflict] = React.useState<RecordConflict<EditCharacterInput> | null>(null);
 
   const form = useForm<EditCharacterInput>({
     resolver: zodResolver(schema),
-    defaultValues: {
-      name: character?.name || "",
-      role: character?.role?.toString() || "",
-      traits: convertTraits(character),
-      background: character?.background || "",
-      novelId: character?.novelId || "",
-    },
+    defaultValues: toFormValues(character),
   });
 
   React.useEffect(() => {
-    form.reset({
-      name: character?.name || "",
-      role: character?.role?.toString() || "",
-      traits: convertTraits(character),
-      background: character?.background || "",
-      novelId: character?.novelId || "",
-    });
+    form.reset(toFormValues(character));
     setTraitDraft("");
-  }, [character?.characterId, convertTraits, form, open]);
+    setBaseCharacter(character);
+    setConflict(null);
+  }, [character?.characterId, form, open]);
 
-  const handleSubmit = form.handleSubmit(async (values) => {
+  const fetchLatestCharacter = async (characterId: string) => {
+    const res = await fetchWithAuth(`/api/v1/novels/characters/${characterId}`);
+    if (!res.ok) {
+      throw new Error(`获取最新角色信息失败: ${res.status} ${res.statusText}`);
+    }
+    const json = await res.json();
+    return (json?.success ? json.data : json) as Character;
+  };
+
+  const saveCharacter = async (values: EditCharacterInput, base: Partial<Character> | null) => {
     if (!character?.characterId) return;
     setSubmitting(true);
     try {
@@ -97,6 +116,7 @@ export function EditCharacterDialog({
       if (background !== undefined) payload.background = background;
       if (novelId !== undefined) payload.novelId = novelId;
       payload.traits = traits;
+      payload.expectedUpdatedAt = base?.updatedAt;
 
       const res = await fetchWithAuth(`/api/v1/novels/characters/${character.characterId}`, {
         method: "PUT",
@@ -104,6 +124,18 @@ export function EditCharacterDialog({
         body: JSON.stringify(payload),
       });
 
+      // 角色已被他人修改：取回最新数据进行三方合并
+      if (res.status === 409) {
+        const latest = await fetchLatestCharacter(character.characterId);
+        setConflict({
+          base: toFormValues(base),
+          mine: values,
+          theirs: toFormValues(latest),
+          theirsUpdatedAt: latest.updatedAt,
+        });
+        return;
+      }
+
       if (!res.ok) {
         const err = await res.json().catch(() => ({}) as any);
         const message = err?.message?.message || err?.message || `更新失败: ${res.status} ${res.statusText}`;
@@ -111,6 +143,7 @@ export function EditCharacterDialog({
       }
 
       toast.success("角色已更新");
+      setConflict(null);
       onOpenChange(false);
       onUpdated?.();
     } catch (e: any) {
@@ -118,169 +151,192 @@ export function EditCharacterDialog({
     } finally {
       setSubmitting(false);
     }
-  });
+  };
+
+  const handleSubmit = form.handleSubmit((values) => saveCharacter(values, baseCharacter));
+
+  // 以服务器最新数据为新的基准，保存合并结果
+  const handleMergeConfirm = async (merged: EditCharacterInput) => {
+    if (!conflict) return;
+    const nextBase = { ...baseCharacter, ...conflict.theirs, updatedAt: conflict.theirsUpdatedAt };
+    form.reset(merged);
+    setBaseCharacter(nextBase);
+    await saveCharacter(merged, nextBase);
+  };
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-xl">
-        <DialogHeader>
-          <DialogTitle>编辑角色</DialogTitle>
-          <DialogDescription>更新角色的名称、定位、特质等信息。</DialogDescription>
-        </DialogHeader>
-        <Form {...form}>
-          <form onSubmit={handleSubmit} className="grid grid-cols-1 gap-4">
-            <FormField
-              control={form.control}
-              name="name"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>角色名称</FormLabel>
-                  <FormControl>
-                    <Input placeholder="输入角色名称" {...field} value={field.value ?? ""} />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-xl">
+          <DialogHeader>
+            <DialogTitle>编辑角色</DialogTitle>
+            <DialogDescription>更新角色的名称、定位、特质等信息。</DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={handleSubmit} className="grid grid-cols-1 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>角色名称</FormLabel>
+                    <FormControl>
+                      <Input placeholder="输入角色名称" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
 
-            <FormField
-              control={form.control}
-              name="role"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>角色定位</FormLabel>
-                  <FormControl>
-                    <Input placeholder="例如：主角 / 反派 / 配角" {...field} value={field.value ?? ""} />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+              <FormField
+                control={form.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>角色定位</FormLabel>
+                    <FormControl>
+                      <Input placeholder="例如：主角 / 反派 / 配角" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
 
-            <FormField
-              control={form.control}
-              name="traits"
-              render={({ field }) => {
-                const traits = field.value ?? [];
+              <FormField
+                control={form.control}
+                name="traits"
+                render={({ field }) => {
+                  const traits = field.value ?? [];
 
-                const handleAddTrait = () => {
-                  const value = traitDraft.trim();
-                  if (!value) return;
-                  if (traits.includes(value)) {
-                    toast.warning("该特质已存在");
+                  const handleAddTrait = () => {
+                    const value = traitDraft.trim();
+                    if (!value) return;
+                    if (traits.includes(value)) {
+                      toast.warning("该特质已存在");
+                      setTraitDraft("");
+                      return;
+                    }
+                    const next = [...traits, value];
+                    field.onChange(next);
                     setTraitDraft("");
-                    return;
-                  }
-                  const next = [...traits, value];
-                  field.onChange(next);
-                  setTraitDraft("");
-                };
+                  };
 
-                const handleRemoveTrait = (index: number) => {
-                  const next = traits.filter((_, i) => i !== index);
-                  field.onChange(next);
-                };
+                  const handleRemoveTrait = (index: number) => {
+                    const next = traits.filter((_, i) => i !== index);
+                    field.onChange(next);
+                  };
 
-                return (
-                  <FormItem>
-                    <FormLabel>性格特质</FormLabel>
-                    <FormControl>
-                      <div className="space-y-3">
-                        {traits.length ? (
-                          <div className="flex flex-wrap gap-2">
-                            {traits.map((trait, index) => (
-                              <span
-                                key={`${trait}-${index}`}
-                                className="bg-muted text-muted-foreground flex items-center gap-1 rounded-md px-2 py-1 text-xs"
-                              >
-                                <span className="text-foreground text-sm">{trait}</span>
-                                <button
-                                  type="button"
-                                  onClick={() => handleRemoveTrait(index)}
-                                  className="text-muted-foreground hover:text-foreground transition"
-                                  aria-label={`移除特质 ${trait}`}
+                  return (
+                    <FormItem>
+                      <FormLabel>性格特质</FormLabel>
+                      <FormControl>
+                        <div className="space-y-3">
+                          {traits.length ? (
+                            <div className="flex flex-wrap gap-2">
+                              {traits.map((trait, index) => (
+                                <span
+                                  key={`${trait}-${index}`}
+                                  className="bg-muted text-muted-foreground flex items-center gap-1 rounded-md px-2 py-1 text-xs"
                                 >
-                                  <X className="h-3.5 w-3.5" />
-                                </button>
-                              </span>
-                            ))}
+                                  <span className="text-foreground text-sm">{trait}</span>
+                                  <button
+                                    type="button"
+                                    onClick={() => handleRemoveTrait(index)}
+                                    className="text-muted-foreground hover:text-foreground transition"
+                                    aria-label={`移除特质 ${trait}`}
+                                  >
+                                    <X className="h-3.5 w-3.5" />
+                                  </button>
+                                </span>
+                              ))}
+                            </div>
+                          ) : (
+                            <div className="text-muted-foreground text-sm">暂未添加特质</div>
+                          )}
+                          <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+                            <Input
+                              placeholder="输入特质，回车或点击添加"
+                              value={traitDraft}
+                              onChange={(event) => setTraitDraft(event.target.value)}
+                              onKeyDown={(event) => {
+                                if (event.key === "Enter") {
+                                  event.preventDefault();
+                                  handleAddTrait();
+                                }
+                              }}
+                            />
+                            <Button type="button" variant="outline" onClick={handleAddTrait}>
+                              添加特质
+                            </Button>
                           </div>
-                        ) : (
-                          <div className="text-muted-foreground text-sm">暂未添加特质</div>
-                        )}
-                        <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
-                          <Input
-                            placeholder="输入特质，回车或点击添加"
-                            value={traitDraft}
-                            onChange={(event) => setTraitDraft(event.target.value)}
-                            onKeyDown={(event) => {
-                              if (event.key === "Enter") {
-                                event.preventDefault();
-                                handleAddTrait();
-                              }
-                            }}
-                          />
-                          <Button type="button" variant="outline" onClick={handleAddTrait}>
-                            添加特质
-                          </Button>
+                          <p className="text-muted-foreground text-xs">
+                            建议输入 1-100 字符的关键词，重复项会自动忽略。
+                          </p>
                         </div>
-                        <p className="text-muted-foreground text-xs">建议输入 1-100 字符的关键词，重复项会自动忽略。</p>
-                      </div>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  );
+                }}
+              />
+
+              <FormField
+                control={form.control}
+                name="background"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>角色背景</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        placeholder="补充角色的成长经历、关键事件等"
+                        className="min-h-28"
+                        {...field}
+                        value={field.value ?? ""}
+                      />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
-                );
-              }}
-            />
+                )}
+              />
 
-            <FormField
-              control={form.control}
-              name="background"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>角色背景</FormLabel>
-                  <FormControl>
-                    <Textarea
-                      placeholder="补充角色的成长经历、关键事件等"
-                      className="min-h-28"
-                      {...field}
-                      value={field.value ?? ""}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <FormField
-              control={form.control}
-              name="novelId"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>所属小说 ID</FormLabel>
-                  <FormControl>
-                    <NovelSelect
-                      value={field.value ? field.value : undefined}
-                      onChange={(val) => field.onChange(val ?? "")}
-                      open={open}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+              <FormField
+                control={form.control}
+                name="novelId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>所属小说 ID</FormLabel>
+                    <FormControl>
+                      <NovelSelect
+                        value={field.value ? field.value : undefined}
+                        onChange={(val) => field.onChange(val ?? "")}
+                        open={open}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
 
-            <DialogFooter className="mt-2">
-              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
-                取消
-              </Button>
-              <Button type="submit" disabled={submitting}>
-                {submitting ? "保存中..." : "保存修改"}
-              </Button>
-            </DialogFooter>
-          </form>
-        </Form>
-      </DialogContent>
-    </Dialog>
+              <DialogFooter className="mt-2">
+                <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+                  取消
+                </Button>
+                <Button type="submit" disabled={submitting}>
+                  {submitting ? "保存中..." : "保存修改"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+      <RecordConflictDialog
+        label="角色"
+        fields={CONFLICT_FIELDS}
+        conflict={conflict}
+        submitting={submitting}
+        onCancel={() => setConflict(null)}
+        onConfirm={handleMergeConfirm}
+      />
+    </>
   );
 }
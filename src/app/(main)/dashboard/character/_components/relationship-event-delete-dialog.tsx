@@ -0,0 +1,121 @@
+"use client";
+
+import * as React from "react";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+
+import { deleteRelationshipEvent, recomputeCurrentRelationship } from "@/hooks/use-novel-relationships";
+import { CharacterRelationshipHistoryEvent } from "@/types/work";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Textarea } from "@/components/ui/textarea";
+
+const formSchema = z.object({
+  correctionNote: z.string().trim().min(1, "请填写删除原因").max(200, "删除原因请控制在200个字符以内"),
+});
+
+type RelationshipEventDeleteFormValues = z.infer<typeof formSchema>;
+
+interface RelationshipEventDeleteDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  event: CharacterRelationshipHistoryEvent | null;
+  onDeleted?: () => void;
+}
+
+/**
+ * 删除单条关系事件：删除原因与操作人一起记入审计记录，删除后重新计算这对人物的当前关系
+ */
+export function RelationshipEventDeleteDialog({
+  open,
+  onOpenChange,
+  event,
+  onDeleted,
+}: RelationshipEventDeleteDialogProps) {
+  const [submitting, setSubmitting] = React.useState(false);
+
+  const form = useForm<RelationshipEventDeleteFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { correctionNote: "" },
+  });
+
+  React.useEffect(() => {
+    if (open) form.reset({ correctionNote: "" });
+  }, [event, form, open]);
+
+  const onSubmit = async (values: RelationshipEventDeleteFormValues) => {
+    if (!event) return;
+    try {
+      setSubmitting(true);
+      const res = await deleteRelationshipEvent(event.eventId, values.correctionNote.trim());
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        const message = errorData?.message?.message || `删除关系事件失败: ${res.status} ${res.statusText}`;
+        throw new Error(message);
+      }
+      const recomputed = await recomputeCurrentRelationship({
+        novelId: event.novelId,
+        characterAId: event.characterAId,
+        characterBId: event.characterBId,
+      });
+      onOpenChange(false);
+      onDeleted?.();
+      if (!recomputed.ok) throw new Error("关系事件已删除，但重新计算当前关系失败，请稍后重试");
+      toast.success("关系事件已删除");
+    } catch (deleteError) {
+      toast.error(deleteError instanceof Error ? deleteError.message : "删除关系事件失败");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>删除关系事件</DialogTitle>
+          <DialogDescription>
+            删除“{event?.prevRelType || "无"} → {event?.newRelType || "解除关系"}
+            ”后将按剩余事件重新计算这对人物的当前关系。
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="grid gap-4">
+            <FormField
+              control={form.control}
+              name="correctionNote"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>删除原因</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} placeholder="如：重复录入、关联了错误的人物" {...field} disabled={submitting} />
+                  </FormControl>
+                  <FormDescription>将与操作人一起记入审计记录。</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+                取消
+              </Button>
+              <Button type="submit" variant="destructive" disabled={submitting}>
+                {submitting ? "删除中..." : "确认删除"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,269 @@
+"use client";
+
+import * as React from "react";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+
+import { recomputeCurrentRelationship, updateRelationshipEvent } from "@/hooks/use-novel-relationships";
+import { CharacterRelationshipHistoryEvent, UpdateRelationshipEventDto } from "@/types/work";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+
+import { ChapterSelect, SceneSelect } from "./chapter-scene-select";
+import { RelationshipTypeSelect } from "./relationship-type-select";
+
+const formSchema = z.object({
+  newRelType: z.string().min(1, "请选择变更后的关系类型"),
+  reason: z.string().max(500, "原因请控制在500个字符以内"),
+  chapterId: z.string(),
+  sceneId: z.string(),
+  occurredAt: z.string(),
+  notes: z.string().max(1000, "备注请控制在1000个字符以内"),
+  correctionNote: z.string().trim().min(1, "请填写修改说明").max(200, "修改说明请控制在200个字符以内"),
+});
+
+type RelationshipEventFormValues = z.infer<typeof formSchema>;
+type EditableField = Exclude<keyof RelationshipEventFormValues, "correctionNote">;
+
+const EDITABLE_FIELDS: EditableField[] = ["newRelType", "reason", "chapterId", "sceneId", "occurredAt", "notes"];
+
+interface RelationshipEventEditDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  event: CharacterRelationshipHistoryEvent | null;
+  onSaved?: () => void;
+}
+
+// ISO 时间转为 datetime-local 输入框使用的本地时间
+const toDateTimeInput = (value?: string) => {
+  const date = value ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) return "";
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const toFormValues = (event?: CharacterRelationshipHistoryEvent | null): RelationshipEventFormValues => ({
+  newRelType: event?.newRelType ?? "",
+  reason: event?.reason ?? "",
+  chapterId: event?.chapterId ?? "",
+  sceneId: event?.sceneId ?? "",
+  occurredAt: toDateTimeInput(event?.occurredAt),
+  notes: event?.notes ?? "",
+  correctionNote: "",
+});
+
+/**
+ * 修正单条关系事件：只提交有变化的字段，保存后重新计算这对人物的当前关系
+ */
+export function RelationshipEventEditDialog({ open, onOpenChange, event, onSaved }: RelationshipEventEditDialogProps) {
+  const [submitting, setSubmitting] = React.useState(false);
+
+  const form = useForm<RelationshipEventFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: toFormValues(event),
+  });
+
+  React.useEffect(() => {
+    if (open) form.reset(toFormValues(event));
+  }, [event, form, open]);
+
+  const selectedChapterId = form.watch("chapterId");
+
+  const onSubmit = async (values: RelationshipEventFormValues) => {
+    if (!event) return;
+    const original = toFormValues(event);
+    const changed = EDITABLE_FIELDS.filter((key) => values[key].trim() !== original[key].trim());
+    if (!changed.length) {
+      toast.warning("没有需要保存的修改");
+      return;
+    }
+
+    // 发生时间只能修改，不能清空
+    if (changed.includes("occurredAt") && !values.occurredAt.trim()) {
+      form.setError("occurredAt", { message: "请填写事件发生时间" });
+      return;
+    }
+
+    const body: UpdateRelationshipEventDto = { correctionNote: values.correctionNote.trim() };
+    changed.forEach((key) => {
+      body[key] = values[key].trim();
+    });
+    if (body.occurredAt) {
+      const date = new Date(body.occurredAt);
+      if (Number.isNaN(date.getTime())) {
+        form.setError("occurredAt", { message: "发生时间格式无效" });
+        return;
+      }
+      body.occurredAt = date.toISOString();
+    }
+
+    try {
+      setSubmitting(true);
+      const res = await updateRelationshipEvent(event.eventId, body);
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        const message = errorData?.message?.message || `修改关系事件失败: ${res.status} ${res.statusText}`;
+        throw new Error(message);
+      }
+      const recomputed = await recomputeCurrentRelationship({
+        novelId: event.novelId,
+        characterAId: event.characterAId,
+        characterBId: event.characterBId,
+      });
+      onOpenChange(false);
+      onSaved?.();
+      if (!recomputed.ok) throw new Error("关系事件已修改，但重新计算当前关系失败，请稍后重试");
+      toast.success("关系事件已修改");
+    } catch (saveError) {
+      toast.error(saveError instanceof Error ? saveError.message : "修改关系事件失败");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>修改关系事件</DialogTitle>
+          <DialogDescription>修改会记录操作人与修改说明，保存后将按事件重新计算这对人物的当前关系。</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="grid gap-4">
+            <FormField
+              control={form.control}
+              name="newRelType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>变更后的关系类型</FormLabel>
+                  <FormControl>
+                    <RelationshipTypeSelect
+                      value={field.value}
+                      onChange={field.onChange}
+                      novelId={event?.novelId}
+                      disabled={submitting}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="occurredAt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>事件发生时间</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" {...field} disabled={submitting} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="chapterId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>关联章节</FormLabel>
+                    <FormControl>
+                      <ChapterSelect
+                        novelId={event?.novelId}
+                        value={field.value}
+                        onChange={(value) => {
+                          field.onChange(value);
+                          form.setValue("sceneId", "");
+                        }}
+                        disabled={submitting}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="sceneId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>关联场景</FormLabel>
+                    <FormControl>
+                      <SceneSelect
+                        chapterId={selectedChapterId || undefined}
+                        value={field.value}
+                        onChange={field.onChange}
+                        disabled={submitting}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>关系变更原因</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} {...field} disabled={submitting} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>补充备注</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} disabled={submitting} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="correctionNote"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>修改说明</FormLabel>
+                  <FormControl>
+                    <Input placeholder="如：更正错别字、发生时间录入有误" {...field} disabled={submitting} />
+                  </FormControl>
+                  <FormDescription>将与操作人一起记入该事件的修正记录。</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+                取消
+              </Button>
+              <Button type="submit" disabled={submitting}>
+                {submitting ? "保存中..." : "保存修改"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import * as React from "react";
+import { toast } from "sonner";
+import { ArrowLeftRight, ArrowRight, GitMerge, Pencil, Plus, Trash2 } from "lucide-react";
+
+import { useRelationshipTypes } from "@/hooks/use-novel-relationships";
+import { getInverseType } from "@/lib/relationship-types";
+import { RelationshipType } from "@/types/work";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { fetchWithAuth } from "@/utils/fetch-with-auth";
+
+import { NovelSelect } from "./novel-select";
+import { RelationshipTypeFormDialog } from "./relationship-type-form-dialog";
+import { RelationshipTypeMergeDialog } from "./relationship-type-merge-dialog";
+import { RelationshipTypeDot } from "./relationship-type-select";
+
+interface RelationshipTypeCatalogDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // 打开时默认管理的作品，为空时管理全局类型
+  initialNovelId?: string;
+}
+
+/**
+ * 关系类型目录管理：维护全局或作品专属的关系类型，并合并关系事件中的不规范写法
+ */
+export function RelationshipTypeCatalogDialog({
+  open,
+  onOpenChange,
+  initialNovelId,
+}: RelationshipTypeCatalogDialogProps) {
+  const [novelId, setNovelId] = React.useState<string | undefined>(initialNovelId);
+  const [formOpen, setFormOpen] = React.useState(false);
+  const [editing, setEditing] = React.useState<RelationshipType | null>(null);
+  const [mergeOpen, setMergeOpen] = React.useState(false);
+  const { data: types = [], error, isLoading, mutate } = useRelationshipTypes(novelId);
+
+  React.useEffect(() => {
+    if (open) setNovelId(initialNovelId);
+  }, [open, initialNovelId]);
+
+  // 作品范围下全局类型只读，需切换到全局范围编辑
+  const isEditable = (type: RelationshipType) => (type.novelId || undefined) === novelId;
+
+  const openForm = (type: RelationshipType | null) => {
+    setEditing(type);
+    setFormOpen(true);
+  };
+
+  const handleDelete = async (type: RelationshipType) => {
+    if (!confirm(`确定删除关系类型“${type.label}”吗？已有的关系事件不受影响。`)) return;
+    try {
+      const res = await fetchWithAuth(
+        `/api/v1/novels/characters/relationships/types/${encodeURIComponent(type.relTypeId)}`,
+        { method: "DELETE" },
+      );
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        const message = errorData?.message?.message || `删除关系类型失败: ${res.status} ${res.statusText}`;
+        throw new Error(message);
+      }
+      toast.success("关系类型已删除");
+      mutate();
+    } catch (deleteError) {
+      toast.error(deleteError instanceof Error ? deleteError.message : "删除关系类型失败");
+    }
+  };
+
+  const renderDirection = (type: RelationshipType) => {
+    if (!type.directed) {
+      return (
+        <span className="text-muted-foreground flex items-center gap-1 text-xs">
+          <ArrowLeftRight className="h-3 w-3" />
+          双向
+        </span>
+      );
+    }
+    return (
+      <span className="text-muted-foreground flex items-center gap-1 text-xs">
+        <ArrowRight className="h-3 w-3" />
+        反向：{getInverseType(types, type)?.label ?? "未设置"}
+      </span>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>关系类型目录</DialogTitle>
+          <DialogDescription>
+            创建关系事件时只能从目录中选择类型。全局类型适用于所有作品，也可以为单个作品添加专属类型。
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+          <div className="grid gap-2">
+            <Label>适用范围</Label>
+            <NovelSelect value={novelId} onChange={setNovelId} placeholder="全局（所有作品）" />
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => setMergeOpen(true)} disabled={!types.length}>
+              <GitMerge className="mr-2 h-4 w-4" />
+              合并旧写法
+            </Button>
+            <Button size="sm" onClick={() => openForm(null)}>
+              <Plus className="mr-2 h-4 w-4" />
+              新建类型
+            </Button>
+          </div>
+        </div>
+        {isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : error ? (
+          <p className="text-muted-foreground text-sm">加载关系类型失败: {error.message}</p>
+        ) : !types.length ? (
+          <p className="text-muted-foreground text-sm">目录中还没有关系类型，点击“新建类型”开始添加。</p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {types.map((type) => (
+              <li key={type.relTypeId} className="flex flex-wrap items-center gap-3 px-3 py-2 text-sm">
+                <RelationshipTypeDot color={type.color} />
+                <span className="font-medium">{type.label}</span>
+                {renderDirection(type)}
+                {type.aliases?.length ? (
+                  <span className="text-muted-foreground truncate text-xs">别名：{type.aliases.join("、")}</span>
+                ) : null}
+                <div className="ml-auto flex items-center gap-1">
+                  {novelId && <Badge variant="outline">{type.novelId ? "本作品" : "全局"}</Badge>}
+                  {isEditable(type) && (
+                    <>
+                      <Button size="icon" variant="ghost" className="size-8" onClick={() => openForm(type)}>
+                        <Pencil className="h-4 w-4" />
+                        <span className="sr-only">编辑</span>
+                      </Button>
+                      <Button size="icon" variant="ghost" className="size-8" onClick={() => handleDelete(type)}>
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">删除</span>
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        <RelationshipTypeFormDialog
+          open={formOpen}
+          onOpenChange={setFormOpen}
+          novelId={novelId}
+          types={types}
+          relationshipType={editing}
+          onSaved={() => mutate()}
+        />
+        <RelationshipTypeMergeDialog open={mergeOpen} onOpenChange={setMergeOpen} novelId={novelId} types={types} />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,268 @@
+"use client";
+
+import * as React from "react";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+
+import { findRelationshipType, RELATIONSHIP_TYPE_COLORS } from "@/lib/relationship-types";
+import { cn } from "@/lib/utils";
+import { RelationshipType, RelationshipTypeDto } from "@/types/work";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { fetchWithAuth } from "@/utils/fetch-with-auth";
+
+import { RelationshipTypeDot } from "./relationship-type-select";
+
+// Select 不支持空字符串作为选项值
+const NO_INVERSE = "__none__";
+
+const formSchema = z.object({
+  label: z.string().trim().min(1, "请输入类型名称").max(20, "类型名称不能超过20个字符"),
+  color: z.string().min(1, "请选择颜色"),
+  directed: z.boolean(),
+  inverseTypeId: z.string(),
+  aliases: z.string().max(200, "别名不能超过200个字符").optional().or(z.literal("")),
+});
+
+type RelationshipTypeFormValues = z.infer<typeof formSchema>;
+
+interface RelationshipTypeFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // 为空时新建全局类型
+  novelId?: string;
+  // 同一范围内已有的类型，用于选择反向类型与检查重名
+  types: RelationshipType[];
+  // 传入时为编辑，否则为新建
+  relationshipType?: RelationshipType | null;
+  onSaved?: () => void;
+}
+
+const toFormValues = (type?: RelationshipType | null): RelationshipTypeFormValues => ({
+  label: type?.label ?? "",
+  color: type?.color ?? RELATIONSHIP_TYPE_COLORS[0],
+  directed: type?.directed ?? false,
+  inverseTypeId: type?.inverseTypeId ?? NO_INVERSE,
+  aliases: type?.aliases?.join("，") ?? "",
+});
+
+// 别名支持中英文逗号、顿号分隔
+const parseAliases = (value?: string) => [
+  ...new Set(
+    (value ?? "")
+      .split(/[,，、]/)
+      .map((item) => item.trim())
+      .filter(Boolean),
+  ),
+];
+
+export function RelationshipTypeFormDialog({
+  open,
+  onOpenChange,
+  novelId,
+  types,
+  relationshipType,
+  onSaved,
+}: RelationshipTypeFormDialogProps) {
+  const [submitting, setSubmitting] = React.useState(false);
+  const isEdit = Boolean(relationshipType);
+
+  const form = useForm<RelationshipTypeFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: toFormValues(relationshipType),
+  });
+
+  React.useEffect(() => {
+    if (open) form.reset(toFormValues(relationshipType));
+  }, [relationshipType, form, open]);
+
+  const directed = form.watch("directed");
+  const inverseOptions = types.filter((type) => type.relTypeId !== relationshipType?.relTypeId && type.directed);
+
+  const onSubmit = async (values: RelationshipTypeFormValues) => {
+    const label = values.label.trim();
+    const duplicate = findRelationshipType(
+      types.filter((type) => type.relTypeId !== relationshipType?.relTypeId),
+      label,
+    );
+    if (duplicate) {
+      form.setError("label", { message: `与已有类型“${duplicate.label}”重复，可将其作为别名或合并` });
+      return;
+    }
+
+    const body: RelationshipTypeDto = {
+      label,
+      color: values.color,
+      directed: values.directed,
+      inverseTypeId: values.directed && values.inverseTypeId !== NO_INVERSE ? values.inverseTypeId : undefined,
+      aliases: parseAliases(values.aliases),
+      novelId,
+    };
+
+    try {
+      setSubmitting(true);
+      const res = await fetchWithAuth(
+        relationshipType
+          ? `/api/v1/novels/characters/relationships/types/${encodeURIComponent(relationshipType.relTypeId)}`
+          : "/api/v1/novels/characters/relationships/types",
+        {
+          method: relationshipType ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        },
+      );
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        const message =
+          errorData?.message?.message || `${isEdit ? "更新" : "创建"}关系类型失败: ${res.status} ${res.statusText}`;
+        throw new Error(message);
+      }
+      toast.success(isEdit ? "关系类型已更新" : "关系类型已创建");
+      onOpenChange(false);
+      onSaved?.();
+    } catch (saveError) {
+      const message = saveError instanceof Error ? saveError.message : `${isEdit ? "更新" : "创建"}关系类型失败`;
+      toast.error(message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{isEdit ? "编辑关系类型" : "新建关系类型"}</DialogTitle>
+          <DialogDescription>
+            {novelId ? "该类型仅在当前作品中可用。" : "全局类型在所有作品中可用。"}
+            修改名称不会改写已有的关系事件，如需统一旧写法请使用“合并”。
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="grid gap-4">
+            <FormField
+              control={form.control}
+              name="label"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>类型名称</FormLabel>
+                  <FormControl>
+                    <Input placeholder="如：朋友、师父" {...field} disabled={submitting} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="color"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>颜色</FormLabel>
+                  <div className="flex flex-wrap gap-2">
+                    {RELATIONSHIP_TYPE_COLORS.map((color) => (
+                      <button
+                        key={color}
+                        type="button"
+                        aria-label={`选择颜色 ${color}`}
+                        aria-pressed={field.value === color}
+                        onClick={() => field.onChange(color)}
+                        disabled={submitting}
+                        className={cn(
+                          "rounded-full p-1 ring-offset-2 transition",
+                          field.value === color && "ring-primary ring-2",
+                        )}
+                      >
+                        <RelationshipTypeDot color={color} className="h-5 w-5" />
+                      </button>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="directed"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-md border p-3">
+                  <div className="space-y-1">
+                    <FormLabel>有方向</FormLabel>
+                    <FormDescription>如“师父 → 徒弟”；关闭表示双方对等，如“朋友”。</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} disabled={submitting} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            {directed && (
+              <FormField
+                control={form.control}
+                name="inverseTypeId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>反向类型</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange} disabled={submitting}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_INVERSE}>暂不设置</SelectItem>
+                        {inverseOptions.map((type) => (
+                          <SelectItem key={type.relTypeId} value={type.relTypeId}>
+                            <RelationshipTypeDot color={type.color} />
+                            {type.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>角色B对角色A的关系，如“师父”的反向类型为“徒弟”。</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <FormField
+              control={form.control}
+              name="aliases"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>别名（可选）</FormLabel>
+                  <FormControl>
+                    <Input placeholder="多个别名用逗号分隔，如：好友，friend" {...field} disabled={submitting} />
+                  </FormControl>
+                  <FormDescription>搜索时可按别名找到该类型，合并工具也会据此给出建议。</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+                取消
+              </Button>
+              <Button type="submit" disabled={submitting}>
+                {submitting ? "保存中..." : isEdit ? "保存修改" : "创建类型"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import * as React from "react";
+import { useSWRConfig } from "swr";
+import { toast } from "sonner";
+
+import {
+  isCurrentRelationshipsKey,
+  isRelationshipEventsKey,
+  isRelationshipTypesKey,
+  useRelationshipEvents,
+} from "@/hooks/use-novel-relationships";
+import { collectUncatalogedRelTypes } from "@/lib/relationship-types";
+import { MergeRelationshipTypesDto, RelationshipType } from "@/types/work";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { fetchWithAuth } from "@/utils/fetch-with-auth";
+
+import { RelationshipTypeDot } from "./relationship-type-select";
+
+interface RelationshipTypeMergeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // 为空时处理全部作品的关系事件
+  novelId?: string;
+  types: RelationshipType[];
+}
+
+/**
+ * 合并工具：把事件中不在目录里的写法（如“好友”“friend”）统一改写为目录中的类型
+ */
+export function RelationshipTypeMergeDialog({ open, onOpenChange, novelId, types }: RelationshipTypeMergeDialogProps) {
+  const { mutate } = useSWRConfig();
+  const { data: events, error, isLoading } = useRelationshipEvents(novelId, open);
+  const [targetTypeId, setTargetTypeId] = React.useState("");
+  const [selected, setSelected] = React.useState<string[]>([]);
+  const [submitting, setSubmitting] = React.useState(false);
+
+  const scopeLabel = novelId ? "本作品" : "全部作品";
+  const values = React.useMemo(() => collectUncatalogedRelTypes(types, events ?? []), [types, events]);
+
+  React.useEffect(() => {
+    if (open) {
+      setTargetTypeId("");
+      setSelected([]);
+    }
+  }, [open]);
+
+  // 选择目标类型时自动勾选别名匹配到该类型的写法
+  const handleTargetChange = (value: string) => {
+    setTargetTypeId(value);
+    setSelected(values.filter((item) => item.suggestion?.relTypeId === value).map((item) => item.value));
+  };
+
+  const toggleValue = (value: string, checked: boolean) => {
+    setSelected((prev) => (checked ? [...prev, value] : prev.filter((item) => item !== value)));
+  };
+
+  const handleMerge = async () => {
+    const target = types.find((type) => type.relTypeId === targetTypeId);
+    if (!target || !selected.length) return;
+    if (!confirm(`确定将 ${selected.map((value) => `“${value}”`).join("、")} 合并为“${target.label}”吗？`)) return;
+
+    const body: MergeRelationshipTypesDto = { targetTypeId, sourceValues: selected, novelId };
+    try {
+      setSubmitting(true);
+      const res = await fetchWithAuth("/api/v1/novels/characters/relationships/types/merge", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        const message = errorData?.message?.message || `合并关系类型失败: ${res.status} ${res.statusText}`;
+        throw new Error(message);
+      }
+      toast.success(`已合并为“${target.label}”`);
+      setSelected([]);
+      // 合并会改写多个作品（或全部作品列表中）的事件与当前关系，并为目标类型新增别名，相关缓存一并刷新
+      mutate((key) => isRelationshipEventsKey(key) || isCurrentRelationshipsKey(key) || isRelationshipTypesKey(key));
+    } catch (mergeError) {
+      toast.error(mergeError instanceof Error ? mergeError.message : "合并关系类型失败");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>合并关系类型</DialogTitle>
+          <DialogDescription>
+            以下写法出现在{scopeLabel}
+            的关系事件中，但不在目录里。合并后相关事件与当前关系会改用目标类型，原写法记为目标类型的别名。
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4">
+          <div className="grid gap-2">
+            <Label>合并为</Label>
+            <Select value={targetTypeId} onValueChange={handleTargetChange} disabled={submitting}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="选择目录中的类型" />
+              </SelectTrigger>
+              <SelectContent>
+                {types.map((type) => (
+                  <SelectItem key={type.relTypeId} value={type.relTypeId}>
+                    <RelationshipTypeDot color={type.color} />
+                    {type.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {isLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : error ? (
+            <p className="text-muted-foreground text-sm">加载关系事件失败: {error.message}</p>
+          ) : !values.length ? (
+            <p className="text-muted-foreground text-sm">关系事件中的类型都已在目录中，无需合并。</p>
+          ) : (
+            <ul className="max-h-72 divide-y overflow-y-auto rounded-md border">
+              {values.map((item) => (
+                <li key={item.value} className="flex items-center gap-3 px-3 py-2 text-sm">
+                  <Checkbox
+                    id={`merge-${item.value}`}
+                    checked={selected.includes(item.value)}
+                    onCheckedChange={(checked) => toggleValue(item.value, checked === true)}
+                    disabled={submitting}
+                  />
+                  <Label htmlFor={`merge-${item.value}`} className="flex-1 font-normal">
+                    {item.value}
+                  </Label>
+                  {item.suggestion && <Badge variant="outline">建议：{item.suggestion.label}</Badge>}
+                  <span className="text-muted-foreground text-xs tabular-nums">{item.count} 次</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            关闭
+          </Button>
+          <Button onClick={handleMerge} disabled={submitting || !targetTypeId || !selected.length}>
+            {submitting ? "合并中..." : `合并 ${selected.length} 项`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
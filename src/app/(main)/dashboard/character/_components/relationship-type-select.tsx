@@ -0,0 +1,114 @@
+"use client";
+
+import * as React from "react";
+import { ArrowRight, Check, ChevronsUpDown } from "lucide-react";
+
+import { useRelationshipTypes } from "@/hooks/use-novel-relationships";
+import { getInverseType, mergeRelationshipTypeScopes } from "@/lib/relationship-types";
+import { cn } from "@/lib/utils";
+import { RelationshipType } from "@/types/work";
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+interface RelationshipTypeSelectProps {
+  // 关系事件中保存的是类型名称
+  value?: string;
+  onChange: (label: string) => void;
+  // 传入作品时可选择该作品的专属类型
+  novelId?: string;
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+export function RelationshipTypeDot({ color, className }: { color?: string; className?: string }) {
+  return (
+    <span
+      className={cn("inline-block h-2.5 w-2.5 shrink-0 rounded-full", className)}
+      style={{ backgroundColor: color }}
+    />
+  );
+}
+
+/**
+ * 从关系类型目录中选择关系类型，有方向的类型同时展示其反向类型
+ */
+export function RelationshipTypeSelect({
+  value,
+  onChange,
+  novelId,
+  placeholder = "选择关系类型",
+  disabled,
+}: RelationshipTypeSelectProps) {
+  const [open, setOpen] = React.useState(false);
+  const { data, isLoading, error } = useRelationshipTypes(novelId);
+
+  const types = React.useMemo(() => mergeRelationshipTypeScopes(data ?? []), [data]);
+  const groups = [
+    { heading: "本作品", items: types.filter((type) => type.novelId) },
+    { heading: "全局", items: types.filter((type) => !type.novelId) },
+  ].filter((group) => group.items.length);
+  const selected = types.find((type) => type.label === value);
+
+  const renderInverse = (type: RelationshipType) => {
+    if (!type.directed) return <span className="text-muted-foreground text-xs">双向</span>;
+    const inverse = getInverseType(data ?? [], type);
+    return (
+      <span className="text-muted-foreground flex items-center gap-1 text-xs">
+        <ArrowRight className="h-3 w-3" />
+        反向：{inverse?.label ?? "未设置"}
+      </span>
+    );
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          disabled={disabled}
+          className={cn("w-full justify-between", !value && "text-muted-foreground")}
+        >
+          <span className="flex items-center gap-2 truncate">
+            {selected && <RelationshipTypeDot color={selected.color} />}
+            {value || placeholder}
+            {value && !selected && !isLoading && <span className="text-muted-foreground text-xs">（不在目录中）</span>}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="p-0" align="start">
+        <Command>
+          <CommandInput placeholder="搜索关系类型或别名" />
+          <CommandList>
+            <CommandEmpty>
+              {error ? error.message : isLoading ? "加载中..." : "目录中没有匹配的类型，可在“关系类型”中添加"}
+            </CommandEmpty>
+            {groups.map((group) => (
+              <CommandGroup key={group.heading} heading={group.heading}>
+                {group.items.map((type) => (
+                  <CommandItem
+                    key={type.relTypeId}
+                    value={[type.label, ...(type.aliases ?? [])].join(" ")}
+                    onSelect={() => {
+                      onChange(type.label);
+                      setOpen(false);
+                    }}
+                  >
+                    <Check className={cn("mr-2 h-4 w-4", value === type.label ? "opacity-100" : "opacity-0")} />
+                    <RelationshipTypeDot color={type.color} className="mr-2" />
+                    <span className="flex-1">{type.label}</span>
+                    {renderInverse(type)}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            ))}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
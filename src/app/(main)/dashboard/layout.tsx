@@ -18,6 +18,7 @@ import {
 
 import { AccountSwitcher } from "./_components/sidebar/account-switcher";
 import { LayoutControls } from "./_components/sidebar/layout-controls";
+import { NotificationCenter } from "./_components/sidebar/notification-center";
 import { SearchDialog } from "./_components/sidebar/search-dialog";
 import { ThemeSwitcher } from "./_components/sidebar/theme-switcher";
 
@@ -57,6 +58,7 @@ export default async function Layout({ children }: Readonly<{ children: ReactNod
               <SearchDialog />
             </div>
             <div className="flex items-center gap-2">
+              <NotificationCenter />
               <LayoutControls {...layoutPreferences} />
               <ThemeSwitcher />
               <AccountSwitcher />
@@ -0,0 +1,182 @@
+"use client";
+
+import * as React from "react";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+
+import { fetchWithAuth } from "@/utils/fetch-with-auth";
+import { CHAPTER_STATUS_LABEL } from "@/lib/enum-labels";
+import { Chapter, ChapterStatus, CreateChapterRequest, UpdateChapterRequest } from "@/types/chapter";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+
+const formSchema = z.object({
+  title: z.string().trim().min(1, "请输入章节标题").max(100, "章节标题不能超过100个字符"),
+  summary: z.string().max(1000, "章节梗概不能超过1000个字符").optional().or(z.literal("")),
+  status: z.nativeEnum(ChapterStatus),
+});
+
+type ChapterFormValues = z.infer<typeof formSchema>;
+
+interface ChapterFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  novelId: string;
+  // 传入时为编辑，否则为新建
+  chapter?: Chapter | null;
+  onSaved?: (chapter: Chapter | null) => void | Promise<void>;
+}
+
+const toFormValues = (chapter?: Chapter | null): ChapterFormValues => ({
+  title: chapter?.title ?? "",
+  summary: chapter?.summary ?? "",
+  status: chapter?.status ?? ChapterStatus.PLANNED,
+});
+
+export function ChapterFormDialog({ open, onOpenChange, novelId, chapter, onSaved }: ChapterFormDialogProps) {
+  const [submitting, setSubmitting] = React.useState(false);
+  const isEdit = Boolean(chapter);
+
+  const form = useForm<ChapterFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: toFormValues(chapter),
+  });
+
+  React.useEffect(() => {
+    if (open) form.reset(toFormValues(chapter));
+  }, [chapter, form, open]);
+
+  const onSubmit = async (values: ChapterFormValues) => {
+    const fields = { title: values.title.trim(), summary: values.summary?.trim() ?? "", status: values.status };
+    const body: CreateChapterRequest | UpdateChapterRequest = chapter
+      ? { ...fields, expectedUpdatedAt: chapter.updatedAt }
+      : { ...fields, novelId };
+
+    try {
+      setSubmitting(true);
+      const res = await fetchWithAuth(
+        chapter ? `/api/v1/novels/chapters/${encodeURIComponent(chapter.chapterId)}` : "/api/v1/novels/chapters",
+        {
+          method: chapter ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        },
+      );
+
+      if (res.status === 409) {
+        throw new Error("章节已被其他人修改，请刷新后重试");
+      }
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        const message =
+          errorData?.message?.message || `${isEdit ? "更新" : "创建"}章节失败: ${res.status} ${res.statusText}`;
+        throw new Error(message);
+      }
+
+      const json = await res.json().catch(() => null);
+      const saved = (json?.success ? json.data : json) as Chapter | null;
+      toast.success(isEdit ? "章节已更新" : "章节已创建");
+      onOpenChange(false);
+      await onSaved?.(saved);
+    } catch (saveError) {
+      const message = saveError instanceof Error ? saveError.message : `${isEdit ? "更新" : "创建"}章节失败`;
+      toast.error(message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{isEdit ? "编辑章节" : "新建章节"}</DialogTitle>
+          <DialogDescription>
+            {isEdit ? "修改章节标题、梗概与写作状态。" : "新章节将添加到章节列表末尾。"}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="grid gap-4">
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>章节标题</FormLabel>
+                  <FormControl>
+                    <Input placeholder="如：初入江湖" {...field} disabled={submitting} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="status"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>写作状态</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange} disabled={submitting}>
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {Object.values(ChapterStatus).map((value) => (
+                        <SelectItem key={value} value={value}>
+                          {CHAPTER_STATUS_LABEL[value]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="summary"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>章节梗概（可选）</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="本章的主要情节..."
+                      className="min-h-24"
+                      {...field}
+                      value={field.value ?? ""}
+                      disabled={submitting}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+                取消
+              </Button>
+              <Button type="submit" disabled={submitting}>
+                {submitting ? "保存中..." : isEdit ? "保存修改" : "创建章节"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,144 @@
+"use client";
+
+import * as React from "react";
+import useSWR from "swr";
+
+import { useNovelCharacters } from "@/hooks/use-novel-relationships";
+import { fetchWithAuth } from "@/utils/fetch-with-auth";
+import { OutlineLatestVersions } from "@/types/outline";
+import { Character } from "@/types/work";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+import { getOutlineChapters, OutlineChapter } from "./outline-utils";
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: unknown;
+}
+
+// 正文生成所需的上下文：对应的大纲章节与出场人物（后端据此读取人物当前状态与关系）
+export interface ChapterProseContext {
+  outlineChapter: OutlineChapter | null;
+  characterIds: string[];
+}
+
+interface ChapterProseFieldsProps {
+  novelId: string;
+  value: ChapterProseContext;
+  onChange: (value: ChapterProseContext) => void;
+  // 默认选中的大纲章节序号，通常为章节在作品中的顺序
+  suggestedIndex?: number;
+  disabled?: boolean;
+}
+
+const outlineFetcher = async (url: string) => {
+  const res = await fetchWithAuth(url);
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    const message = errorData?.message?.message || `获取大纲失败: ${res.status} ${res.statusText}`;
+    throw new Error(message);
+  }
+  const json = (await res.json()) as ApiResponse<OutlineLatestVersions>;
+  return json?.success ? json.data : (json as unknown as OutlineLatestVersions);
+};
+
+// 按大纲标注的出场人物姓名匹配人物
+const matchCharacterIds = (chapter: OutlineChapter, characters: Character[]) =>
+  characters.filter((character) => chapter.characterNames.includes(character.name)).map((item) => item.characterId);
+
+/**
+ * 正文生成的额外参数：从已发布大纲中选择章节，并勾选本章出场人物
+ */
+export function ChapterProseFields({ novelId, value, onChange, suggestedIndex, disabled }: ChapterProseFieldsProps) {
+  const encodedNovelId = encodeURIComponent(novelId);
+  const { data: outline, error: outlineError } = useSWR<OutlineLatestVersions>(
+    `/api/v1/novels/outlines/latest?novelId=${encodedNovelId}`,
+    outlineFetcher,
+    { revalidateOnFocus: false },
+  );
+  const { data: characters = [], error: charactersError } = useNovelCharacters(novelId);
+
+  const outlineChapters = React.useMemo(
+    () => getOutlineChapters(outline?.published?.content),
+    [outline?.published?.content],
+  );
+
+  const selectChapter = React.useCallback(
+    (chapter: OutlineChapter | null) => {
+      const matched = chapter ? matchCharacterIds(chapter, characters) : [];
+      onChange({ outlineChapter: chapter, characterIds: matched.length ? matched : value.characterIds });
+    },
+    [characters, onChange, value.characterIds],
+  );
+
+  // 大纲加载后默认选中与当前章节顺序对应的大纲章节
+  const suggestedChapter = suggestedIndex === undefined ? undefined : outlineChapters[suggestedIndex];
+  const hasSelection = Boolean(value.outlineChapter);
+  React.useEffect(() => {
+    if (!hasSelection && suggestedChapter) selectChapter(suggestedChapter);
+  }, [hasSelection, selectChapter, suggestedChapter]);
+
+  const toggleCharacter = (characterId: string, checked: boolean) => {
+    const characterIds = checked
+      ? [...value.characterIds, characterId]
+      : value.characterIds.filter((item) => item !== characterId);
+    onChange({ ...value, characterIds });
+  };
+
+  return (
+    <div className="flex flex-col gap-4 rounded-md border p-3">
+      <div className="flex flex-col gap-2">
+        <Label>大纲章节</Label>
+        <Select
+          value={value.outlineChapter?.key ?? ""}
+          onValueChange={(key) => selectChapter(outlineChapters.find((item) => item.key === key) ?? null)}
+          disabled={disabled || !outlineChapters.length}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue placeholder={outlineChapters.length ? "选择要撰写的大纲章节" : "暂无已发布的大纲章节"} />
+          </SelectTrigger>
+          <SelectContent>
+            {outlineChapters.map((chapter, index) => (
+              <SelectItem key={chapter.key} value={chapter.key}>
+                {index + 1}. {chapter.title || "未命名章节"}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {outlineError && <p className="text-destructive text-xs">{outlineError.message}</p>}
+        {value.outlineChapter?.summary && (
+          <p className="text-muted-foreground max-h-24 overflow-y-auto text-xs whitespace-pre-wrap">
+            {value.outlineChapter.summary}
+          </p>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Label>出场人物</Label>
+        {charactersError ? (
+          <p className="text-destructive text-xs">{charactersError.message}</p>
+        ) : characters.length ? (
+          <div className="flex max-h-32 flex-wrap gap-x-4 gap-y-2 overflow-y-auto">
+            {characters.map((character) => (
+              <label key={character.characterId} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={value.characterIds.includes(character.characterId)}
+                  onCheckedChange={(checked) => toggleCharacter(character.characterId, checked === true)}
+                  disabled={disabled}
+                />
+                {character.name}
+                {character.role && <span className="text-muted-foreground text-xs">{character.role}</span>}
+              </label>
+            ))}
+          </div>
+        ) : (
+          <p className="text-muted-foreground text-xs">该作品暂无人物。</p>
+        )}
+        <p className="text-muted-foreground text-xs">生成时将参考所选人物的设定与当前关系状态。</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+"use client";
+
+import * as React from "react";
+
+import {
+  clamp,
+  GraphViewport,
+  RelationshipGraphEdge,
+  RelationshipGraphNode,
+  tickForceLayout,
+} from "@/lib/relationship-graph";
+import { cn } from "@/lib/utils";
+
+export const GRAPH_VIEWPORT: GraphViewport = { width: 800, height: 520 };
+
+const NODE_RADIUS = 18;
+const ALPHA_DECAY = 0.97;
+const ALPHA_MIN = 0.02;
+// 拖动或仅关系变化时保持少量活力，让相邻节点跟随调整而不打乱整体布局
+const GENTLE_ALPHA = 0.3;
+const ARROW_LENGTH = 10;
+const ARROW_HALF_WIDTH = 5;
+
+// 有向关系的箭头：尖端落在目标节点边缘
+const toArrowPoints = (source: RelationshipGraphNode, target: RelationshipGraphNode) => {
+  const dx = target.x - source.x;
+  const dy = target.y - source.y;
+  const length = Math.hypot(dx, dy) || 1;
+  const ux = dx / length;
+  const uy = dy / length;
+  const tipX = target.x - ux * NODE_RADIUS;
+  const tipY = target.y - uy * NODE_RADIUS;
+  const baseX = tipX - ux * ARROW_LENGTH;
+  const baseY = tipY - uy * ARROW_LENGTH;
+  return [
+    [tipX, tipY],
+    [baseX - uy * ARROW_HALF_WIDTH, baseY + ux * ARROW_HALF_WIDTH],
+    [baseX + uy * ARROW_HALF_WIDTH, baseY - ux * ARROW_HALF_WIDTH],
+  ]
+    .map((point) => point.join(","))
+    .join(" ");
+};
+
+interface CharacterRelationshipGraphProps {
+  nodes: RelationshipGraphNode[];
+  edges: RelationshipGraphEdge[];
+  colorOf: (relType: string) => string;
+  // 有向关系从 source 指向 target 画出箭头
+  isDirected?: (relType: string) => boolean;
+  // 需要突出显示的边，如时间线当前一步发生变化的关系
+  highlightedEdgeIds?: Set<string>;
+  onNodeClick?: (nodeId: string) => void;
+}
+
+/**
+ * 力导向人物关系图：节点可拖动（松开后固定在原处），点击节点触发 onNodeClick
+ */
+export function CharacterRelationshipGraph({
+  nodes,
+  edges,
+  colorOf,
+  isDirected,
+  highlightedEdgeIds,
+  onNodeClick,
+}: CharacterRelationshipGraphProps) {
+  const svgRef = React.useRef<SVGSVGElement>(null);
+  const frameRef = React.useRef<number | null>(null);
+  const alphaRef = React.useRef(0);
+  const dragRef = React.useRef<{ id: string; moved: boolean } | null>(null);
+  const [, setFrame] = React.useState(0);
+  const [hoveredId, setHoveredId] = React.useState<string | null>(null);
+  const layoutNodesRef = React.useRef<RelationshipGraphNode[] | null>(null);
+
+  const byId = React.useMemo(() => new Map(nodes.map((node) => [node.id, node])), [nodes]);
+
+  const run = React.useCallback(
+    (alpha: number) => {
+      alphaRef.current = Math.max(alphaRef.current, alpha);
+      if (frameRef.current !== null) return;
+      const step = () => {
+        tickForceLayout(nodes, edges, alphaRef.current, GRAPH_VIEWPORT);
+        alphaRef.current *= ALPHA_DECAY;
+        setFrame((frame) => frame + 1);
+        frameRef.current = alphaRef.current > ALPHA_MIN ? requestAnimationFrame(step) : null;
+      };
+      frameRef.current = requestAnimationFrame(step);
+    },
+    [nodes, edges],
+  );
+
+  // 节点变化时完整重新布局，只有边变化（如时间线回放）时轻微调整
+  React.useEffect(() => {
+    run(layoutNodesRef.current === nodes ? GENTLE_ALPHA : 1);
+    layoutNodesRef.current = nodes;
+    return () => {
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    };
+  }, [run, nodes]);
+
+  const toSvgPoint = (event: React.PointerEvent) => {
+    const matrix = svgRef.current?.getScreenCTM();
+    if (!matrix) return null;
+    return new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+  };
+
+  const handlePointerDown = (event: React.PointerEvent, nodeId: string) => {
+    event.preventDefault();
+    svgRef.current?.setPointerCapture(event.pointerId);
+    dragRef.current = { id: nodeId, moved: false };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const node = drag ? byId.get(drag.id) : undefined;
+    const point = node ? toSvgPoint(event) : null;
+    if (!drag || !node || !point) return;
+    drag.moved = true;
+    node.pinned = true;
+    node.x = clamp(point.x, NODE_RADIUS, GRAPH_VIEWPORT.width - NODE_RADIUS);
+    node.y = clamp(point.y, NODE_RADIUS, GRAPH_VIEWPORT.height - NODE_RADIUS);
+    run(GENTLE_ALPHA);
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (svgRef.current?.hasPointerCapture(event.pointerId)) svgRef.current.releasePointerCapture(event.pointerId);
+    // 未移动视为点击
+    if (drag && !drag.moved) onNodeClick?.(drag.id);
+  };
+
+  const isDimmed = (edge: RelationshipGraphEdge) =>
+    Boolean(hoveredId) && edge.source !== hoveredId && edge.target !== hoveredId;
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${GRAPH_VIEWPORT.width} ${GRAPH_VIEWPORT.height}`}
+      className="bg-muted/30 h-auto w-full touch-none rounded-md border select-none"
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      role="img"
+      aria-label="人物关系图"
+    >
+      <g>
+        {edges.map((edge) => {
+          const source = byId.get(edge.source);
+          const target = byId.get(edge.target);
+          if (!source || !target) return null;
+          const color = colorOf(edge.relType);
+          const highlighted = highlightedEdgeIds?.has(edge.id);
+          return (
+            <g key={edge.id} className={cn("transition-opacity", isDimmed(edge) && "opacity-20")}>
+              {highlighted && (
+                <line
+                  x1={source.x}
+                  y1={source.y}
+                  x2={target.x}
+                  y2={target.y}
+                  stroke={color}
+                  strokeWidth={10}
+                  strokeOpacity={0.25}
+                  strokeLinecap="round"
+                  className="animate-pulse"
+                />
+              )}
+              <line
+                x1={source.x}
+                y1={source.y}
+                x2={target.x}
+                y2={target.y}
+                stroke={color}
+                strokeWidth={highlighted ? 3 : 2}
+              />
+              {isDirected?.(edge.relType) && <polygon points={toArrowPoints(source, target)} fill={color} />}
+              <text
+                x={(source.x + target.x) / 2}
+                y={(source.y + target.y) / 2}
+                textAnchor="middle"
+                dominantBaseline="central"
+                fill={color}
+                stroke="var(--background)"
+                strokeWidth={4}
+                paintOrder="stroke"
+                className={cn("text-[11px]", highlighted ? "font-bold" : "font-medium")}
+              >
+                {edge.relType}
+              </text>
+            </g>
+          );
+        })}
+      </g>
+      <g>
+        {nodes.map((node) => (
+          <g
+            key={node.id}
+            transform={`translate(${node.x}, ${node.y})`}
+            className="cursor-pointer"
+            role="button"
+            tabIndex={0}
+            aria-label={`查看人物 ${node.label}`}
+            onPointerDown={(event) => handlePointerDown(event, node.id)}
+            onPointerEnter={() => setHoveredId(node.id)}
+            onPointerLeave={() => setHoveredId(null)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter" || event.key === " ") {
+                event.preventDefault();
+                onNodeClick?.(node.id);
+              }
+            }}
+          >
+            <circle
+              r={NODE_RADIUS}
+              className={cn("fill-background stroke-primary", node.pinned && "stroke-[3px]")}
+              strokeWidth={2}
+            />
+            <text textAnchor="middle" dominantBaseline="central" className="fill-foreground text-xs font-semibold">
+              {node.label.slice(0, 1)}
+            </text>
+            <text
+              y={NODE_RADIUS + 12}
+              textAnchor="middle"
+              stroke="var(--background)"
+              strokeWidth={4}
+              paintOrder="stroke"
+              className="fill-foreground text-xs"
+            >
+              {node.label}
+            </text>
+          </g>
+        ))}
+      </g>
+    </svg>
+  );
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import * as React from "react";
+
+import { MergeResolution, mergeThreeWay, resolveThreeWayMerge } from "@/lib/three-way-merge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+import { ThreeWayMergeView } from "./three-way-merge-view";
+import { DraftConflict, DraftConflictChoice } from "./use-draft-autosave";
+import { VersionDiffView } from "./version-diff-view";
+
+interface DraftConflictDialogProps {
+  // 资源名称，如“世界观”“大纲”
+  label: string;
+  conflict: DraftConflict | null;
+  onResolve: (choice: DraftConflictChoice, merged?: string) => void;
+  formatContent?: (content?: string) => string;
+  // 校验合并结果，返回错误信息时禁止采用
+  validate?: (content: string) => string | null;
+}
+
+const formatDateTime = (value?: string) => (value ? new Date(value).toLocaleString("zh-CN") : "--");
+
+const formatRawContent = (content?: string) => content ?? "";
+
+/**
+ * 服务器草稿在编辑期间发生变化（如生成任务完成、他人保存）时，基于共同基准进行三方合并，或由用户决定保留哪一份
+ */
+export function DraftConflictDialog({
+  label,
+  conflict,
+  onResolve,
+  formatContent = formatRawContent,
+  validate,
+}: DraftConflictDialogProps) {
+  const [resolutions, setResolutions] = React.useState<Record<number, MergeResolution>>({});
+
+  React.useEffect(() => {
+    setResolutions({});
+  }, [conflict]);
+
+  const merge = React.useMemo(
+    () =>
+      conflict
+        ? mergeThreeWay(formatContent(conflict.base), formatContent(conflict.local), formatContent(conflict.server))
+        : null,
+    [conflict, formatContent],
+  );
+  const mergedContent = React.useMemo(
+    () => (merge ? resolveThreeWayMerge(merge.chunks, resolutions) : ""),
+    [merge, resolutions],
+  );
+  const mergeError = merge && validate ? validate(mergedContent) : null;
+
+  return (
+    <Dialog open={Boolean(conflict)}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-5xl" showCloseButton={false}>
+        <DialogHeader>
+          <DialogTitle>{label}草稿已在服务器更新</DialogTitle>
+          <DialogDescription>
+            {`服务器上的草稿已于 ${formatDateTime(conflict?.serverUpdatedAt)} 更新，与你尚未保存的修改不一致。`}
+            {merge?.conflictCount
+              ? `有 ${merge.conflictCount} 处修改相互冲突，请逐个选择后采用合并结果。`
+              : "双方的修改互不冲突，可直接采用合并结果。"}
+          </DialogDescription>
+        </DialogHeader>
+        {conflict && merge && (
+          <Tabs defaultValue="merge">
+            <TabsList>
+              <TabsTrigger value="merge">三方合并</TabsTrigger>
+              <TabsTrigger value="diff">服务器与我的修改对比</TabsTrigger>
+            </TabsList>
+            <TabsContent value="merge" className="space-y-2">
+              <ThreeWayMergeView
+                chunks={merge.chunks}
+                resolutions={resolutions}
+                onResolve={(id, resolution) => setResolutions((prev) => ({ ...prev, [id]: resolution }))}
+              />
+              {mergeError && <p className="text-destructive text-xs">合并结果无效：{mergeError}</p>}
+            </TabsContent>
+            <TabsContent value="diff">
+              <VersionDiffView
+                oldText={formatContent(conflict.server)}
+                newText={formatContent(conflict.local)}
+                oldLabel="服务器草稿"
+                newLabel="我的修改"
+              />
+            </TabsContent>
+          </Tabs>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onResolve("server")}>
+            使用服务器版本
+          </Button>
+          <Button variant="outline" onClick={() => onResolve("local")}>
+            仅保留我的修改
+          </Button>
+          <Button onClick={() => onResolve("merged", mergedContent)} disabled={Boolean(mergeError)}>
+            采用合并结果
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
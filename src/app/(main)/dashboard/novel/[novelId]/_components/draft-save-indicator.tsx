@@ -0,0 +1,22 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+
+interface DraftSaveIndicatorProps {
+  isDirty: boolean;
+  localSavedAt: string | null;
+}
+
+const formatTime = (value: string) => new Date(value).toLocaleTimeString("zh-CN");
+
+export function DraftSaveIndicator({ isDirty, localSavedAt }: DraftSaveIndicatorProps) {
+  if (!isDirty) {
+    return <span className="text-muted-foreground text-xs">已与服务器同步</span>;
+  }
+
+  return (
+    <Badge variant="outline" className="border-amber-500/50 text-amber-600">
+      未保存{localSavedAt ? ` · 已暂存到本地 ${formatTime(localSavedAt)}` : ""}
+    </Badge>
+  );
+}
@@ -0,0 +1,132 @@
+import { fetchWithAuth } from "@/utils/fetch-with-auth";
+import { getChapterKey, getScenesKey } from "@/hooks/use-chapters";
+import { fetchNovelCharacters } from "@/hooks/use-novel-relationships";
+import { formatChapterTitle } from "@/lib/chapter-title";
+import { ExportAppendix, ExportManuscript } from "@/lib/novel-export";
+import { Chapter, Scene } from "@/types/chapter";
+import { OutlineLatestVersions } from "@/types/outline";
+import { Character, Work } from "@/types/work";
+import { WorldbuildingLatestVersions } from "@/types/worldbuilding";
+
+import { outlineToMarkdown } from "./outline-utils";
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: unknown;
+}
+
+export type ExportAppendixKey = "worldbuilding" | "outline" | "characters";
+
+export const EXPORT_APPENDIX_OPTIONS: { value: ExportAppendixKey; label: string }[] = [
+  { value: "worldbuilding", label: "世界观设定" },
+  { value: "outline", label: "大纲" },
+  { value: "characters", label: "人物设定" },
+];
+
+interface LoadManuscriptOptions {
+  work: Work;
+  chapters: Chapter[];
+  // 章节 ID → 正文章节序号，由作品的全部章节计算
+  chapterNumbers: Map<string, number>;
+  appendices: ExportAppendixKey[];
+  // 包含草稿时附录优先使用最新草稿，否则仅使用已发布版本
+  includeDrafts: boolean;
+}
+
+const fetchData = async <T>(url: string, label: string): Promise<T> => {
+  const res = await fetchWithAuth(url);
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    const message = errorData?.message?.message || `获取${label}失败: ${res.status} ${res.statusText}`;
+    throw new Error(message);
+  }
+  const json = (await res.json()) as ApiResponse<T>;
+  return json?.success ? json.data : (json as unknown as T);
+};
+
+// 章节没有正文时按顺序拼接各场景内容，与阅读模式一致
+const loadChapterContent = async (chapter: Chapter) => {
+  const detail = await fetchData<Chapter>(getChapterKey(chapter.chapterId), `章节「${chapter.title}」`);
+  if (detail?.content?.trim()) return detail.content;
+  const scenes = await fetchData<Scene[]>(getScenesKey(chapter.chapterId), `章节「${chapter.title}」的场景`);
+  return (Array.isArray(scenes) ? [...scenes].sort((a, b) => a.order - b.order) : [])
+    .map((scene) => scene.content?.trim())
+    .filter(Boolean)
+    .join("\n\n");
+};
+
+const formatTraits = (traits?: string[] | string) => (Array.isArray(traits) ? traits.join("、") : traits);
+
+const charactersToMarkdown = (characters: Character[]) =>
+  characters
+    .map((character) => {
+      const fields = [
+        character.role && `- 角色：${character.role}`,
+        formatTraits(character.traits) && `- 特征：${formatTraits(character.traits)}`,
+      ].filter(Boolean);
+      return [`## ${character.name}`, fields.join("\n"), character.background?.trim()].filter(Boolean).join("\n\n");
+    })
+    .join("\n\n");
+
+const loadAppendix = async (
+  key: ExportAppendixKey,
+  novelId: string,
+  includeDrafts: boolean,
+): Promise<ExportAppendix | null> => {
+  const encodedNovelId = encodeURIComponent(novelId);
+  const label = EXPORT_APPENDIX_OPTIONS.find((item) => item.value === key)?.label ?? key;
+
+  if (key === "worldbuilding") {
+    const latest = await fetchData<WorldbuildingLatestVersions>(
+      `/api/v1/novels/worldbuildings/latest?novelId=${encodedNovelId}`,
+      "世界观",
+    );
+    const version = (includeDrafts ? latest?.draft : null) ?? latest?.published;
+    return version?.content?.trim() ? { id: key, title: label, content: version.content } : null;
+  }
+
+  if (key === "outline") {
+    const latest = await fetchData<OutlineLatestVersions>(
+      `/api/v1/novels/outlines/latest?novelId=${encodedNovelId}`,
+      "大纲",
+    );
+    const version = (includeDrafts ? latest?.draft : null) ?? latest?.published;
+    const content = outlineToMarkdown(version?.content);
+    return content ? { id: key, title: label, content } : null;
+  }
+
+  const characters = await fetchNovelCharacters(novelId);
+  return characters.length ? { id: key, title: label, content: charactersToMarkdown(characters) } : null;
+};
+
+/**
+ * 拉取所选章节正文与附录，组装为与接口无关的导出数据
+ */
+export async function loadExportManuscript({
+  work,
+  chapters,
+  chapterNumbers,
+  appendices,
+  includeDrafts,
+}: LoadManuscriptOptions): Promise<ExportManuscript> {
+  const [contents, appendixList] = await Promise.all([
+    Promise.all(chapters.map(loadChapterContent)),
+    Promise.all(appendices.map((key) => loadAppendix(key, work.novelId, includeDrafts))),
+  ]);
+
+  return {
+    id: work.novelId,
+    title: work.title,
+    description: work.description,
+    language: work.language || "zh-CN",
+    exportedAt: new Date().toISOString(),
+    // 按作品内的章节序号编号，取消勾选部分章节或排除草稿后编号保持不变
+    chapters: chapters.map((chapter, index) => ({
+      id: chapter.chapterId,
+      title: formatChapterTitle(chapterNumbers.get(chapter.chapterId), chapter.title),
+      content: contents[index] ?? "",
+    })),
+    appendices: appendixList.filter((item): item is ExportAppendix => Boolean(item)),
+  };
+}
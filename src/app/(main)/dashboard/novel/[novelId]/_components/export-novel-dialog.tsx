@@ -0,0 +1,238 @@
+"use client";
+
+import * as React from "react";
+import { toast } from "sonner";
+import { Download } from "lucide-react";
+
+import { useChapters } from "@/hooks/use-chapters";
+import { formatChapterTitle, getChapterNumbers } from "@/lib/chapter-title";
+import { CHAPTER_STATUS_LABEL } from "@/lib/enum-labels";
+import { EXPORT_FORMAT_OPTIONS, ExportFormat, exportManuscript } from "@/lib/novel-export";
+import { formatWordCount } from "@/lib/word-count";
+import { ChapterStatus } from "@/types/chapter";
+import { Work } from "@/types/work";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Switch } from "@/components/ui/switch";
+
+import { EXPORT_APPENDIX_OPTIONS, ExportAppendixKey, loadExportManuscript } from "./export-manuscript";
+
+interface ExportNovelDialogProps {
+  work: Work;
+}
+
+const downloadFile = (fileName: string, mimeType: string, data: Uint8Array) => {
+  const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // 给浏览器留出开始下载的时间再释放
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * 导出作品：选择格式、章节与附录，在浏览器端打包后下载
+ */
+export function ExportNovelDialog({ work }: ExportNovelDialogProps) {
+  const [open, setOpen] = React.useState(false);
+  const { data: chapters = [], error, isLoading } = useChapters(open ? work.novelId : null);
+  const [format, setFormat] = React.useState<ExportFormat>("epub");
+  const [includeDrafts, setIncludeDrafts] = React.useState(false);
+  const [selectedIds, setSelectedIds] = React.useState<string[]>([]);
+  const [appendices, setAppendices] = React.useState<ExportAppendixKey[]>([]);
+  const [exporting, setExporting] = React.useState(false);
+
+  // 未完成的章节视为草稿
+  const isDraft = React.useCallback(
+    (status: ChapterStatus) => !includeDrafts && status !== ChapterStatus.COMPLETED,
+    [includeDrafts],
+  );
+  const availableChapters = React.useMemo(
+    () => chapters.filter((chapter) => !isDraft(chapter.status)),
+    [chapters, isDraft],
+  );
+
+  // 序号按作品的全部章节计算，只导出部分章节时编号不变
+  const chapterNumbers = React.useMemo(() => getChapterNumbers(chapters), [chapters]);
+
+  // 打开或切换草稿开关时默认全选可导出的章节
+  const availableKey = availableChapters.map((chapter) => chapter.chapterId).join(",");
+  React.useEffect(() => {
+    if (open) setSelectedIds(availableKey ? availableKey.split(",") : []);
+  }, [availableKey, open]);
+
+  const selectedChapters = availableChapters.filter((chapter) => selectedIds.includes(chapter.chapterId));
+  const selectedWords = selectedChapters.reduce((sum, chapter) => sum + (chapter.wordCount ?? 0), 0);
+  const allSelected = availableChapters.length > 0 && selectedChapters.length === availableChapters.length;
+
+  const toggleChapter = (chapterId: string, checked: boolean) => {
+    setSelectedIds((prev) => (checked ? [...prev, chapterId] : prev.filter((id) => id !== chapterId)));
+  };
+
+  const toggleAppendix = (key: ExportAppendixKey, checked: boolean) => {
+    setAppendices((prev) => (checked ? [...prev, key] : prev.filter((item) => item !== key)));
+  };
+
+  const handleExport = async () => {
+    if (!selectedChapters.length && !appendices.length) {
+      toast.error("请至少选择一个章节或附录");
+      return;
+    }
+    try {
+      setExporting(true);
+      const manuscript = await loadExportManuscript({
+        work,
+        chapters: selectedChapters,
+        chapterNumbers,
+        appendices: EXPORT_APPENDIX_OPTIONS.map((item) => item.value).filter((key) => appendices.includes(key)),
+        includeDrafts,
+      });
+      const file = await exportManuscript(manuscript, format);
+      downloadFile(file.fileName, file.mimeType, file.data);
+      toast.success(`已开始下载：${file.fileName}`);
+      setOpen(false);
+    } catch (exportError) {
+      const message = exportError instanceof Error ? exportError.message : "导出失败，请稍后重试";
+      toast.error(message);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !exporting && setOpen(next)}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Download className="mr-2 h-4 w-4" />
+          导出
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>导出作品</DialogTitle>
+          <DialogDescription>在浏览器中打包《{work.title}》的正文与附录，不会上传到服务器。</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex max-h-[65vh] flex-col gap-5 overflow-y-auto pr-1">
+          <div className="flex flex-col gap-2">
+            <Label>格式</Label>
+            <RadioGroup
+              value={format}
+              onValueChange={(value) => setFormat(value as ExportFormat)}
+              className="grid grid-cols-2 gap-2"
+            >
+              {EXPORT_FORMAT_OPTIONS.map((option) => (
+                <label key={option.value} className="flex items-center gap-2 rounded-md border p-2 text-sm">
+                  <RadioGroupItem value={option.value} />
+                  {option.label}
+                </label>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="flex items-center justify-between gap-3 rounded-md border p-3">
+            <div className="space-y-1">
+              <Label htmlFor="export-include-drafts">包含草稿</Label>
+              <p className="text-muted-foreground text-xs">
+                开启后可导出未完成的章节，附录优先使用最新草稿；关闭时仅导出已完成章节与已发布的设定。
+              </p>
+            </div>
+            <Switch id="export-include-drafts" checked={includeDrafts} onCheckedChange={setIncludeDrafts} />
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+              <Label>章节</Label>
+              <span className="text-muted-foreground text-xs">
+                已选 {selectedChapters.length} 章 · {formatWordCount(selectedWords)}
+              </span>
+            </div>
+            {error ? (
+              <p className="text-destructive text-xs">{error.message}</p>
+            ) : isLoading ? (
+              <p className="text-muted-foreground text-xs">加载章节中...</p>
+            ) : chapters.length ? (
+              <div className="rounded-md border">
+                <label className="flex items-center gap-2 border-b px-3 py-2 text-sm font-medium">
+                  <Checkbox
+                    checked={allSelected}
+                    onCheckedChange={(checked) =>
+                      setSelectedIds(checked === true ? availableChapters.map((chapter) => chapter.chapterId) : [])
+                    }
+                    disabled={!availableChapters.length}
+                  />
+                  全选
+                </label>
+                <div className="max-h-56 overflow-y-auto">
+                  {chapters.map((chapter) => {
+                    const disabled = isDraft(chapter.status);
+                    return (
+                      <label
+                        key={chapter.chapterId}
+                        className="flex items-center gap-2 px-3 py-1.5 text-sm data-[disabled=true]:opacity-50"
+                        data-disabled={disabled}
+                      >
+                        <Checkbox
+                          checked={!disabled && selectedIds.includes(chapter.chapterId)}
+                          onCheckedChange={(checked) => toggleChapter(chapter.chapterId, checked === true)}
+                          disabled={disabled}
+                        />
+                        <span className="min-w-0 flex-1 truncate">
+                          {formatChapterTitle(chapterNumbers.get(chapter.chapterId), chapter.title)}
+                        </span>
+                        <span className="text-muted-foreground shrink-0 text-xs">
+                          {CHAPTER_STATUS_LABEL[chapter.status] ?? chapter.status} ·{" "}
+                          {formatWordCount(chapter.wordCount ?? 0)}
+                        </span>
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+            ) : (
+              <p className="text-muted-foreground text-xs">该作品暂无章节，可仅导出附录。</p>
+            )}
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <Label>附录</Label>
+            <div className="flex flex-wrap gap-x-5 gap-y-2">
+              {EXPORT_APPENDIX_OPTIONS.map((option) => (
+                <label key={option.value} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={appendices.includes(option.value)}
+                    onCheckedChange={(checked) => toggleAppendix(option.value, checked === true)}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={exporting}>
+            取消
+          </Button>
+          <Button onClick={handleExport} disabled={exporting || isLoading}>
+            {exporting ? "打包中..." : "导出并下载"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
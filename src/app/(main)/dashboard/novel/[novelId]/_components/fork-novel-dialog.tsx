@@ -0,0 +1,178 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { Check, GitFork } from "lucide-react";
+
+import { ForkWorkDto, Work } from "@/types/work";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useFetchWithAuth } from "@/utils/fetch-with-auth";
+
+// 后端统一响应包装
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  timestamp?: string;
+  message?: unknown;
+}
+
+const formSchema = z.object({
+  title: z.string().trim().min(1, "请输入新作品标题").max(100, "标题不能超过100个字符"),
+  description: z.string().max(1000, "简介不能超过1000个字符"),
+});
+
+type ForkNovelInput = z.infer<typeof formSchema>;
+
+// 派生时一并复制的内容，仅用于提示
+const COPIED_ASSETS = [
+  "作品信息与题材、标签等元数据",
+  "大纲（已发布版本与草稿）",
+  "世界观（已发布版本与草稿）",
+  "人物设定",
+  "人物关系的当前状态",
+];
+
+const toFormValues = (work: Work): ForkNovelInput => ({
+  title: `${work.title}（分支）`,
+  description: work.description || "",
+});
+
+/**
+ * 派生作品：复制当前作品的设定资产为一部新作品，用于尝试不同的故事走向而不影响原作
+ */
+export function ForkNovelDialog({ work }: { work: Work }) {
+  const router = useRouter();
+  const fetchWithAuth = useFetchWithAuth();
+  const [open, setOpen] = React.useState(false);
+  const [submitting, setSubmitting] = React.useState(false);
+
+  const form = useForm<ForkNovelInput>({
+    resolver: zodResolver(formSchema),
+    defaultValues: toFormValues(work),
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) form.reset(toFormValues(work));
+    setOpen(next);
+  };
+
+  const onSubmit = async (values: ForkNovelInput) => {
+    setSubmitting(true);
+    try {
+      const body: ForkWorkDto = { title: values.title, description: values.description.trim() || undefined };
+      const res = await fetchWithAuth(`/api/v1/novels/works/${work.novelId}/fork`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        const message = errorData?.message?.message || `派生作品失败: ${res.status} ${res.statusText}`;
+        throw new Error(message);
+      }
+      const json = await res.json().catch(() => null);
+      const data = (json?.success ? (json as ApiResponse<{ work: Work } | Work>).data : json) as
+        | { work: Work }
+        | Work
+        | null;
+      const forked = data && "work" in data ? data.work : data;
+      if (!forked?.novelId) throw new Error("派生作品接口未返回作品 ID");
+
+      toast.success(`已派生新作品《${forked.title || values.title}》`);
+      setOpen(false);
+      router.push(`/dashboard/novel/${forked.novelId}`);
+    } catch (forkError) {
+      toast.error(forkError instanceof Error ? forkError.message : "派生作品失败");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <GitFork className="mr-2 h-4 w-4" />
+          派生作品
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>派生作品</DialogTitle>
+          <DialogDescription>
+            基于《{work.title}》复制出一部新作品，可在新作品中尝试不同走向，原作品不受影响。
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="grid gap-4">
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>新作品标题</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>简介（可选）</FormLabel>
+                  <FormControl>
+                    <Textarea className="min-h-20" placeholder="说明这个分支要尝试的方向..." {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="bg-muted/50 rounded-md border p-3 text-sm">
+              <p className="mb-2 font-medium">将复制以下内容</p>
+              <ul className="text-muted-foreground space-y-1">
+                {COPIED_ASSETS.map((item) => (
+                  <li key={item} className="flex items-center gap-2">
+                    <Check className="h-3.5 w-3.5 shrink-0" />
+                    {item}
+                  </li>
+                ))}
+              </ul>
+              <p className="text-muted-foreground mt-2 text-xs">章节正文与生成任务不会复制，新作品从草稿状态开始。</p>
+            </div>
+
+            <DialogFooter className="mt-2">
+              <Button type="button" variant="outline" onClick={() => setOpen(false)} disabled={submitting}>
+                取消
+              </Button>
+              <Button type="submit" disabled={submitting}>
+                {submitting ? "派生中..." : "派生作品"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,316 @@
+"use client";
+
+import * as React from "react";
+import useSWR from "swr";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { History } from "lucide-react";
+
+import { fetchWithAuth } from "@/utils/fetch-with-auth";
+import { OutlineLatestVersions } from "@/types/outline";
+import { TaskItem } from "@/types/task";
+import { TaskType, Work } from "@/types/work";
+import { WorldbuildingLatestVersions } from "@/types/worldbuilding";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Drawer,
+  DrawerClose,
+  DrawerContent,
+  DrawerDescription,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle,
+  DrawerTrigger,
+} from "@/components/ui/drawer";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+import {
+  addRecentPrompt,
+  buildPromptVariables,
+  fillPromptTemplate,
+  getEmptyPromptVariables,
+  getRecentPrompts,
+  PROMPT_VARIABLES,
+} from "./prompt-template-utils";
+import {
+  GenerationOptionsFields,
+  generationOptionsSchema,
+  getDefaultGenerationOptions,
+} from "./generation-options-fields";
+import { PromptTemplatePicker } from "./prompt-template-picker";
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: unknown;
+}
+
+interface GenerateDrawerProps {
+  type: TaskType;
+  novelId: string;
+  work?: Work | null;
+  title: string;
+  description: string;
+  placeholder?: string;
+  hint?: string;
+  // 额外的表单项与请求参数，如正文生成需要选择大纲章节与出场人物
+  extraFields?: React.ReactNode;
+  extraBody?: Record<string, unknown>;
+  // 额外参数不完整时的提示，存在时阻止提交
+  extraError?: string | null;
+  // 参数为后端创建的生成任务 ID，用于跟踪进度
+  onSubmitted?: (taskId: string | null) => void | Promise<void>;
+}
+
+// 各生成类型对应的名称与触发接口
+const GENERATION_TARGETS: Record<TaskType, { label: string; endpoint: string }> = {
+  [TaskType.WORLDBUILDING]: { label: "世界观", endpoint: "/api/v1/novels/generation/worldbuilding" },
+  [TaskType.SCENARIO_OUTLINE]: { label: "大纲", endpoint: "/api/v1/novels/generation/scenario-outline" },
+  [TaskType.CHAPTER_PROSE]: { label: "正文", endpoint: "/api/v1/novels/generation/chapter-prose" },
+};
+
+const formSchema = z.object({
+  prompt: z.string().trim().min(1, "请输入生成提示词"),
+  options: generationOptionsSchema,
+});
+
+type GenerateFormValues = z.infer<typeof formSchema>;
+
+// 仅用于读取已发布内容作为模板变量，与面板共用同一个 SWR key
+const latestFetcher = async <T,>(url: string) => {
+  const res = await fetchWithAuth(url);
+  if (!res.ok) {
+    throw new Error(`获取最新版本失败: ${res.status} ${res.statusText}`);
+  }
+  const json = (await res.json()) as ApiResponse<T>;
+  return json?.success ? json.data : (json as unknown as T);
+};
+
+export function GenerateDrawer({
+  type,
+  novelId,
+  work,
+  title,
+  description,
+  placeholder,
+  hint,
+  extraFields,
+  extraBody,
+  extraError,
+  onSubmitted,
+}: GenerateDrawerProps) {
+  const target = GENERATION_TARGETS[type];
+  const textareaRef = React.useRef<HTMLTextAreaElement | null>(null);
+  const [open, setOpen] = React.useState(false);
+  // 表单位于抽屉外层，关闭抽屉时保留输入，只有提交成功后才清空
+  const form = useForm<GenerateFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { prompt: "", options: getDefaultGenerationOptions(type) },
+  });
+  const prompt = form.watch("prompt");
+  const setPrompt = React.useCallback(
+    (value: string) => form.setValue("prompt", value, { shouldValidate: form.formState.isSubmitted }),
+    [form],
+  );
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [recentPrompts, setRecentPrompts] = React.useState<string[]>([]);
+
+  const encodedNovelId = encodeURIComponent(novelId);
+  const { data: worldbuilding } = useSWR<WorldbuildingLatestVersions>(
+    open ? `/api/v1/novels/worldbuildings/latest?novelId=${encodedNovelId}` : null,
+    latestFetcher,
+    { revalidateOnFocus: false },
+  );
+  const { data: outline } = useSWR<OutlineLatestVersions>(
+    open ? `/api/v1/novels/outlines/latest?novelId=${encodedNovelId}` : null,
+    latestFetcher,
+    { revalidateOnFocus: false },
+  );
+
+  const variables = React.useMemo(
+    () =>
+      buildPromptVariables(work, {
+        publishedWorldbuilding: worldbuilding?.published?.content,
+        publishedOutline: outline?.published?.content,
+      }),
+    [outline?.published?.content, work, worldbuilding?.published?.content],
+  );
+  const filledPrompt = React.useMemo(() => fillPromptTemplate(prompt, variables), [prompt, variables]);
+  const emptyVariables = React.useMemo(() => getEmptyPromptVariables(prompt, variables), [prompt, variables]);
+
+  React.useEffect(() => {
+    if (open) setRecentPrompts(getRecentPrompts(novelId, type));
+  }, [novelId, open, type]);
+
+  // 在光标处插入变量占位符
+  const insertVariable = (key: string) => {
+    const token = `{{${key}}}`;
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? prompt.length;
+    const end = textarea?.selectionEnd ?? prompt.length;
+    setPrompt(`${prompt.slice(0, start)}${token}${prompt.slice(end)}`);
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const onSubmit = async (values: GenerateFormValues) => {
+    if (extraError) {
+      toast.error(extraError);
+      return;
+    }
+    const filledPrompt = fillPromptTemplate(values.prompt, variables);
+
+    try {
+      setIsSubmitting(true);
+      const res = await fetchWithAuth(target.endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ ...extraBody, prompt: filledPrompt, novelId, options: values.options }),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        const message =
+          errorData?.message?.message ||
+          errorData?.message ||
+          `触发${target.label}生成失败: ${res.status} ${res.statusText}`;
+        throw new Error(typeof message === "string" ? message : `触发${target.label}生成失败`);
+      }
+
+      const json = (await res.json().catch(() => null)) as ApiResponse<Partial<TaskItem>> | null;
+      const createdTask = json?.success ? json.data : (json as unknown as Partial<TaskItem> | null);
+
+      toast.success("已提交生成请求");
+      setRecentPrompts(addRecentPrompt(novelId, type, values.prompt));
+      setOpen(false);
+      // 保留本次的生成参数，便于连续生成
+      form.reset({ prompt: "", options: values.options });
+      await onSubmitted?.(createdTask?.taskId ?? null);
+    } catch (generateError) {
+      const message = generateError instanceof Error ? generateError.message : `触发${target.label}生成失败`;
+      toast.error(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Drawer direction="right" open={open} onOpenChange={setOpen}>
+      <DrawerTrigger asChild>
+        <Button size="sm">生成{target.label}</Button>
+      </DrawerTrigger>
+      <DrawerContent className="sm:max-w-xl">
+        <DrawerHeader>
+          <DrawerTitle>{title}</DrawerTitle>
+          <DrawerDescription>{description}</DrawerDescription>
+        </DrawerHeader>
+        <Form {...form}>
+          <form className="flex h-full min-h-0 flex-1 flex-col" onSubmit={form.handleSubmit(onSubmit)}>
+            <div className="flex flex-1 flex-col gap-4 overflow-y-auto px-4">
+              {extraFields}
+
+              <PromptTemplatePicker type={type} prompt={prompt} onApply={setPrompt} disabled={isSubmitting} />
+
+              <div className="flex flex-col gap-2">
+                <FormField
+                  control={form.control}
+                  name="prompt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>生成提示词</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          {...field}
+                          ref={(element) => {
+                            field.ref(element);
+                            textareaRef.current = element;
+                          }}
+                          placeholder={placeholder}
+                          className="min-h-[160px]"
+                          disabled={isSubmitting}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="flex flex-wrap items-center gap-1.5">
+                  <span className="text-muted-foreground text-xs">插入变量：</span>
+                  {PROMPT_VARIABLES.map((variable) => (
+                    <Badge
+                      key={variable.key}
+                      asChild
+                      variant="outline"
+                      className="hover:bg-muted cursor-pointer font-normal"
+                    >
+                      <button type="button" onClick={() => insertVariable(variable.key)} disabled={isSubmitting}>
+                        {variable.label}
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+                {emptyVariables.length > 0 && (
+                  <p className="text-xs text-amber-600">以下变量当前为空，将以空白替换：{emptyVariables.join("、")}</p>
+                )}
+                {hint && <p className="text-muted-foreground text-xs">{hint}</p>}
+              </div>
+
+              <GenerationOptionsFields type={type} disabled={isSubmitting} />
+
+              {filledPrompt !== prompt && (
+                <div className="flex flex-col gap-2">
+                  <Label>实际发送内容</Label>
+                  <pre className="bg-muted/50 max-h-40 overflow-auto rounded-md border p-3 text-xs whitespace-pre-wrap">
+                    {filledPrompt}
+                  </pre>
+                </div>
+              )}
+
+              {recentPrompts.length > 0 && (
+                <div className="flex flex-col gap-2">
+                  <Label className="flex items-center gap-1">
+                    <History className="h-3.5 w-3.5" />
+                    最近使用
+                  </Label>
+                  <div className="flex flex-col gap-1">
+                    {recentPrompts.map((item) => (
+                      <button
+                        key={item}
+                        type="button"
+                        onClick={() => setPrompt(item)}
+                        className="hover:bg-muted truncate rounded-md border px-3 py-1.5 text-left text-xs"
+                        title={item}
+                        disabled={isSubmitting}
+                      >
+                        {item}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+            <DrawerFooter>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "提交中..." : "提交生成"}
+              </Button>
+              <DrawerClose asChild>
+                <Button type="button" variant="outline" disabled={isSubmitting}>
+                  取消
+                </Button>
+              </DrawerClose>
+            </DrawerFooter>
+          </form>
+        </Form>
+      </DrawerContent>
+    </Drawer>
+  );
+}
@@ -0,0 +1,228 @@
+"use client";
+
+import * as React from "react";
+import { z } from "zod";
+import { useFormContext } from "react-hook-form";
+import { ChevronDown } from "lucide-react";
+
+import { GENERATION_LENGTH_LABEL, GENERATION_POV_LABEL } from "@/lib/enum-labels";
+import { cn } from "@/lib/utils";
+import { GenerationLength, GenerationOptions, GenerationPov } from "@/types/generation";
+import { TaskType } from "@/types/work";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+
+export const generationOptionsSchema = z.object({
+  length: z.nativeEnum(GenerationLength),
+  tone: z.string().max(50, "基调不能超过50个字符").optional(),
+  genre: z.string().max(50, "题材不能超过50个字符").optional(),
+  pov: z.nativeEnum(GenerationPov),
+  chapterCount: z.number().int("章节数需为整数").min(1, "章节数至少为1").max(500, "章节数不能超过500").optional(),
+  creativity: z.number().min(0).max(1),
+  context: z.object({
+    includeWorldbuilding: z.boolean(),
+    includeOutline: z.boolean(),
+    includeCharacters: z.boolean(),
+  }),
+}) satisfies z.ZodType<GenerationOptions>;
+
+// 大纲生成默认参考世界观；正文生成同时参考世界观与大纲；世界观生成默认只参考人物设定
+export const getDefaultGenerationOptions = (type: TaskType): GenerationOptions => ({
+  length: GenerationLength.MEDIUM,
+  tone: "",
+  genre: "",
+  pov: GenerationPov.THIRD_LIMITED,
+  chapterCount: undefined,
+  creativity: 0.7,
+  context: {
+    includeWorldbuilding: type !== TaskType.WORLDBUILDING,
+    includeOutline: type === TaskType.CHAPTER_PROSE,
+    includeCharacters: true,
+  },
+});
+
+const CONTEXT_FIELDS = [
+  { name: "options.context.includeWorldbuilding", label: "已发布世界观" },
+  { name: "options.context.includeOutline", label: "已发布大纲" },
+  { name: "options.context.includeCharacters", label: "人物列表" },
+] as const;
+
+interface GenerationOptionsFieldsProps {
+  type: TaskType;
+  disabled?: boolean;
+}
+
+/**
+ * 生成参数表单项，需放在包含 options 字段的 react-hook-form 表单内
+ */
+export function GenerationOptionsFields({ type, disabled }: GenerationOptionsFieldsProps) {
+  const form = useFormContext<{ options: GenerationOptions }>();
+  const [open, setOpen] = React.useState(false);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-md border">
+      <CollapsibleTrigger asChild>
+        <Button type="button" variant="ghost" className="w-full justify-between px-3">
+          <span className="text-sm font-medium">生成参数</span>
+          <ChevronDown className={cn("h-4 w-4 transition-transform", open && "rotate-180")} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="grid gap-4 border-t p-3 sm:grid-cols-2">
+        <FormField
+          control={form.control}
+          name="options.length"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>篇幅</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange} disabled={disabled}>
+                <FormControl>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {Object.values(GenerationLength).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {GENERATION_LENGTH_LABEL[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="options.pov"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>叙事视角</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange} disabled={disabled}>
+                <FormControl>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {Object.values(GenerationPov).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {GENERATION_POV_LABEL[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="options.genre"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>题材</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="例如：东方玄幻、赛博朋克"
+                  {...field}
+                  value={field.value ?? ""}
+                  disabled={disabled}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="options.tone"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>基调</FormLabel>
+              <FormControl>
+                <Input placeholder="例如：热血、悬疑、温情" {...field} value={field.value ?? ""} disabled={disabled} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {type === TaskType.SCENARIO_OUTLINE && (
+          <FormField
+            control={form.control}
+            name="options.chapterCount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>目标章节数</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="不限"
+                    value={field.value ?? ""}
+                    onChange={(event) =>
+                      field.onChange(event.target.value === "" ? undefined : Number(event.target.value))
+                    }
+                    onBlur={field.onBlur}
+                    disabled={disabled}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+        <FormField
+          control={form.control}
+          name="options.creativity"
+          render={({ field }) => (
+            <FormItem className={type === TaskType.SCENARIO_OUTLINE ? undefined : "sm:col-span-2"}>
+              <FormLabel>创造性：{Math.round(field.value * 100)}%</FormLabel>
+              <FormControl>
+                <Slider
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={[field.value]}
+                  onValueChange={([value]) => field.onChange(value)}
+                  disabled={disabled}
+                  className="py-2"
+                />
+              </FormControl>
+              <p className="text-muted-foreground text-xs">数值越高越发散，越低越贴近已有设定。</p>
+            </FormItem>
+          )}
+        />
+        <div className="space-y-2 sm:col-span-2">
+          <div className="text-sm font-medium">参考现有设定</div>
+          <div className="flex flex-wrap gap-4">
+            {CONTEXT_FIELDS.map((item) => (
+              <FormField
+                key={item.name}
+                control={form.control}
+                name={item.name}
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                        disabled={disabled}
+                      />
+                    </FormControl>
+                    <FormLabel className="font-normal">{item.label}</FormLabel>
+                  </FormItem>
+                )}
+              />
+            ))}
+          </div>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import * as React from "react";
+import { AlertCircle, CheckCircle2, Loader2, X } from "lucide-react";
+
+import { TaskItem, TaskStatus } from "@/types/task";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+
+interface GenerationTaskStatusProps {
+  // 资源名称，如“世界观”“大纲”
+  label: string;
+  taskId: string;
+  task?: TaskItem;
+  error?: Error;
+  onDismiss: () => void;
+}
+
+const statusConfig: Record<
+  TaskStatus,
+  { label: string; variant: "default" | "secondary" | "destructive" | "outline" }
+> = {
+  queued: { label: "排队中", variant: "outline" },
+  running: { label: "生成中", variant: "secondary" },
+  success: { label: "已完成", variant: "default" },
+  failed: { label: "失败", variant: "destructive" },
+};
+
+/**
+ * 生成任务进度：展示排队/运行状态与实时输出，失败时展示错误信息
+ */
+export function GenerationTaskStatus({ label, taskId, task, error, onDismiss }: GenerationTaskStatusProps) {
+  const outputRef = React.useRef<HTMLPreElement>(null);
+  const status = task?.status ?? "queued";
+  const config = statusConfig[status];
+  const isActive = status === "queued" || status === "running";
+
+  // 新内容到达时自动滚动到底部
+  React.useEffect(() => {
+    const output = outputRef.current;
+    if (output) output.scrollTop = output.scrollHeight;
+  }, [task?.partialOutput]);
+
+  if (status === "failed") {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle className="flex items-center justify-between gap-2">
+          <span>{label}生成失败</span>
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onDismiss}>
+            <X className="h-4 w-4" />
+            <span className="sr-only">关闭</span>
+          </Button>
+        </AlertTitle>
+        <AlertDescription>
+          <p>{task?.error?.message || "任务执行失败，请稍后重试。"}</p>
+          <p className="font-mono text-xs opacity-80">任务 ID：{taskId}</p>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm">
+          {isActive ? (
+            <Loader2 className="text-muted-foreground h-4 w-4 animate-spin" />
+          ) : (
+            <CheckCircle2 className="h-4 w-4 text-green-600" />
+          )}
+          <span className="font-medium">{isActive ? `正在生成${label}` : `${label}已生成，草稿已更新`}</span>
+          <Badge variant={config.variant}>{config.label}</Badge>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-muted-foreground font-mono text-xs">任务 ID：{taskId}</span>
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onDismiss} title="关闭">
+            <X className="h-4 w-4" />
+            <span className="sr-only">关闭</span>
+          </Button>
+        </div>
+      </div>
+      {isActive && typeof task?.progress === "number" && <Progress value={task.progress} />}
+      {error && <p className="text-destructive text-xs">{error.message}，将继续重试。</p>}
+      {isActive && (
+        <pre
+          ref={outputRef}
+          className="bg-muted/50 max-h-64 overflow-auto rounded-md border p-3 text-xs whitespace-pre-wrap"
+        >
+          {task?.partialOutput || (status === "queued" ? "任务排队中，开始生成后将在此实时显示内容..." : "等待输出...")}
+        </pre>
+      )}
+    </div>
+  );
+}
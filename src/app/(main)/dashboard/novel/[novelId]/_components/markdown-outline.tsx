@@ -0,0 +1,43 @@
+"use client";
+
+import { MarkdownHeading, stripMarkdownInline } from "@/lib/markdown";
+import { cn } from "@/lib/utils";
+
+interface MarkdownOutlineProps {
+  headings: MarkdownHeading[];
+  activeId?: string | null;
+  onSelect: (heading: MarkdownHeading) => void;
+  className?: string;
+}
+
+/**
+ * 标题目录：按层级缩进，点击后由调用方负责滚动到对应章节
+ */
+export function MarkdownOutline({ headings, activeId, onSelect, className }: MarkdownOutlineProps) {
+  if (!headings.length) {
+    return <p className={cn("text-muted-foreground text-xs", className)}>使用 # 标题划分章节后，这里会生成目录。</p>;
+  }
+
+  const minLevel = Math.min(...headings.map((heading) => heading.level));
+
+  return (
+    <nav className={cn("flex flex-col gap-0.5 text-sm", className)} aria-label="章节目录">
+      {headings.map((heading) => (
+        <button
+          key={heading.id}
+          type="button"
+          onClick={() => onSelect(heading)}
+          className={cn(
+            "hover:bg-muted truncate rounded px-2 py-1 text-left transition-colors",
+            heading.level === minLevel ? "font-medium" : "text-muted-foreground",
+            activeId === heading.id && "bg-muted text-foreground",
+          )}
+          style={{ paddingLeft: `${(heading.level - minLevel) * 12 + 8}px` }}
+          title={stripMarkdownInline(heading.text)}
+        >
+          {stripMarkdownInline(heading.text)}
+        </button>
+      ))}
+    </nav>
+  );
+}
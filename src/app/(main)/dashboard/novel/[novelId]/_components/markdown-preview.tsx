@@ -0,0 +1,164 @@
+"use client";
+
+import * as React from "react";
+
+import { MarkdownBlock, MarkdownInline, parseMarkdownInline } from "@/lib/markdown";
+import { cn } from "@/lib/utils";
+
+interface MarkdownPreviewProps {
+  blocks: MarkdownBlock[];
+  className?: string;
+  emptyText?: string;
+}
+
+const HEADING_CLASS: Record<number, string> = {
+  1: "text-2xl font-bold",
+  2: "border-b pb-1 text-xl font-semibold",
+  3: "text-lg font-semibold",
+  4: "text-base font-semibold",
+  5: "text-sm font-semibold",
+  6: "text-muted-foreground text-sm font-semibold",
+};
+
+function InlineContent({ text }: { text: string }) {
+  const tokens = React.useMemo(() => parseMarkdownInline(text), [text]);
+  return <InlineTokens tokens={tokens} />;
+}
+
+function InlineTokens({ tokens }: { tokens: MarkdownInline[] }) {
+  return (
+    <>
+      {tokens.map((token, index) => {
+        switch (token.type) {
+          case "text":
+            return <React.Fragment key={index}>{token.value}</React.Fragment>;
+          case "code":
+            return (
+              <code key={index} className="bg-muted rounded px-1 py-0.5 font-mono text-[0.9em]">
+                {token.value}
+              </code>
+            );
+          case "strong":
+            return (
+              <strong key={index} className="font-semibold">
+                <InlineTokens tokens={token.children} />
+              </strong>
+            );
+          case "em":
+            return (
+              <em key={index}>
+                <InlineTokens tokens={token.children} />
+              </em>
+            );
+          case "del":
+            return (
+              <del key={index}>
+                <InlineTokens tokens={token.children} />
+              </del>
+            );
+          case "link":
+            return (
+              <a
+                key={index}
+                href={token.href}
+                target={token.href.startsWith("#") ? undefined : "_blank"}
+                rel="noreferrer"
+                className="text-primary underline underline-offset-4"
+              >
+                <InlineTokens tokens={token.children} />
+              </a>
+            );
+        }
+      })}
+    </>
+  );
+}
+
+function BlockContent({ block }: { block: MarkdownBlock }) {
+  switch (block.type) {
+    case "heading": {
+      const Tag = `h${block.level}` as "h1";
+      return (
+        <Tag id={block.id} className={cn("scroll-mt-4", HEADING_CLASS[block.level])}>
+          <InlineContent text={block.text} />
+        </Tag>
+      );
+    }
+    case "paragraph":
+      return (
+        <p className="leading-7 whitespace-pre-wrap">
+          <InlineContent text={block.text} />
+        </p>
+      );
+    case "list": {
+      const List = block.ordered ? "ol" : "ul";
+      return (
+        <List className={cn("space-y-1 pl-6", block.ordered ? "list-decimal" : "list-disc")}>
+          {block.items.map((item, index) => (
+            <li key={index} className="leading-7 whitespace-pre-wrap">
+              <InlineContent text={item} />
+            </li>
+          ))}
+        </List>
+      );
+    }
+    case "blockquote":
+      return (
+        <blockquote className="text-muted-foreground border-l-4 pl-4 whitespace-pre-wrap italic">
+          <InlineContent text={block.text} />
+        </blockquote>
+      );
+    case "code":
+      return (
+        <pre className="bg-muted overflow-x-auto rounded-md p-3 font-mono text-xs">
+          <code>{block.value}</code>
+        </pre>
+      );
+    case "table":
+      return (
+        <div className="overflow-x-auto">
+          <table className="w-full border-collapse text-sm">
+            <thead>
+              <tr>
+                {block.header.map((cell, index) => (
+                  <th key={index} className="bg-muted/50 border px-3 py-1.5 text-left font-medium">
+                    <InlineContent text={cell} />
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {block.header.map((_, cellIndex) => (
+                    <td key={cellIndex} className="border px-3 py-1.5 align-top">
+                      <InlineContent text={row[cellIndex] ?? ""} />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case "hr":
+      return <hr className="border-border" />;
+  }
+}
+
+/**
+ * 渲染 parseMarkdown 的解析结果；解析放在调用方，便于与标题目录共享同一份数据
+ */
+export function MarkdownPreview({ blocks, className, emptyText = "暂无内容" }: MarkdownPreviewProps) {
+  if (!blocks.length) {
+    return <p className={cn("text-muted-foreground text-sm", className)}>{emptyText}</p>;
+  }
+
+  return (
+    <div className={cn("space-y-4 text-sm break-words", className)}>
+      {blocks.map((block) => (
+        <BlockContent key={`${block.type}-${block.line}`} block={block} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+"use client";
+
+import * as React from "react";
+import { toast } from "sonner";
+import { WandSparkles } from "lucide-react";
+
+import { getMarkdownHeadings, getMarkdownSectionRange, MarkdownHeading, parseMarkdown } from "@/lib/markdown";
+import { cn } from "@/lib/utils";
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+import { MarkdownOutline } from "./markdown-outline";
+import { MarkdownPreview } from "./markdown-preview";
+import { getTextareaSelection, snapRangeToLines, TextRange } from "./section-utils";
+
+type EditorLayout = "edit" | "split" | "preview";
+
+interface MarkdownSplitEditorProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  disabled?: boolean;
+  className?: string;
+  // 提供时显示“局部重新生成”，参数为已按整行对齐的选区
+  onRegenerateSection?: (range: TextRange) => void;
+}
+
+// 标题所在行的字符偏移量，用于把光标移动到该行
+const getLineOffset = (text: string, line: number) =>
+  text
+    .split("\n")
+    .slice(0, line)
+    .reduce((acc, item) => acc + item.length + 1, 0);
+
+export function MarkdownSplitEditor({
+  id,
+  value,
+  onChange,
+  placeholder,
+  disabled,
+  className,
+  onRegenerateSection,
+}: MarkdownSplitEditorProps) {
+  const textareaRef = React.useRef<HTMLTextAreaElement>(null);
+  const previewRef = React.useRef<HTMLDivElement>(null);
+  const [layout, setLayout] = React.useState<EditorLayout>("split");
+  const [activeId, setActiveId] = React.useState<string | null>(null);
+
+  // 预览渲染与目录共用一次解析结果
+  const deferredValue = React.useDeferredValue(value);
+  const blocks = React.useMemo(() => parseMarkdown(deferredValue, `${id}-heading`), [deferredValue, id]);
+  const headings = React.useMemo(() => getMarkdownHeadings(blocks), [blocks]);
+
+  // 根据预览区滚动位置高亮当前所在章节
+  const handlePreviewScroll = React.useCallback(() => {
+    const container = previewRef.current;
+    if (!container || !headings.length) return;
+    const top = container.scrollTop + 16;
+    let current: string | null = headings[0].id;
+    headings.forEach((heading) => {
+      const element = container.querySelector<HTMLElement>(`#${heading.id}`);
+      if (element && element.offsetTop <= top) current = heading.id;
+    });
+    setActiveId(current);
+  }, [headings]);
+
+  const handleSelectHeading = (heading: MarkdownHeading) => {
+    setActiveId(heading.id);
+
+    const container = previewRef.current;
+    const element = container?.querySelector<HTMLElement>(`#${heading.id}`);
+    if (container && element) {
+      container.scrollTo({ top: element.offsetTop - 8, behavior: "smooth" });
+    }
+
+    const textarea = textareaRef.current;
+    if (textarea && layout !== "preview") {
+      const offset = getLineOffset(value, heading.line);
+      const lineHeight = parseFloat(window.getComputedStyle(textarea).lineHeight) || 20;
+      textarea.focus({ preventScroll: true });
+      textarea.setSelectionRange(offset, offset);
+      textarea.scrollTop = Math.max(heading.line * lineHeight - 8, 0);
+    }
+  };
+
+  // 有选区时按选区，否则取光标（预览模式下为当前目录项）所在的标题章节
+  const handleRegenerateSection = () => {
+    if (!onRegenerateSection) return;
+    const selection = getTextareaSelection(textareaRef.current);
+    const activeHeading = headings.find((heading) => heading.id === activeId);
+    let range: TextRange | null = null;
+    if (selection && selection.end > selection.start) {
+      range = snapRangeToLines(value, selection);
+    } else if (selection) {
+      range = getMarkdownSectionRange(value, selection.start);
+    } else if (activeHeading) {
+      range = getMarkdownSectionRange(value, getLineOffset(value, activeHeading.line));
+    }
+    if (!range) {
+      toast.error("请先选中需要重新生成的内容，或将光标放在某个标题章节内");
+      return;
+    }
+    onRegenerateSection(range);
+  };
+
+  const editor = (
+    <Textarea
+      id={id}
+      ref={textareaRef}
+      value={value}
+      onChange={(event) => onChange(event.target.value)}
+      placeholder={placeholder}
+      className="h-full min-h-0 resize-none rounded-none border-0 font-mono text-sm leading-6 shadow-none focus-visible:ring-0"
+      disabled={disabled}
+    />
+  );
+
+  const preview = (
+    <div ref={previewRef} onScroll={handlePreviewScroll} className="relative h-full overflow-y-auto p-4">
+      <MarkdownPreview blocks={blocks} emptyText="在左侧输入 Markdown 内容后，这里会实时预览。" />
+    </div>
+  );
+
+  return (
+    <div className={cn("flex flex-col gap-3", className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-muted-foreground text-xs">支持 Markdown：# 标题、列表、表格、引用、**粗体** 等。</span>
+        <div className="flex flex-wrap items-center gap-2">
+          {onRegenerateSection && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-8 text-xs"
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={handleRegenerateSection}
+              disabled={disabled || !value.trim()}
+            >
+              <WandSparkles className="mr-1 h-3 w-3" />
+              局部重新生成
+            </Button>
+          )}
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            value={layout}
+            onValueChange={(next) => next && setLayout(next as EditorLayout)}
+          >
+            <ToggleGroupItem value="edit" className="px-3 text-xs">
+              编辑
+            </ToggleGroupItem>
+            <ToggleGroupItem value="split" className="px-3 text-xs">
+              分栏
+            </ToggleGroupItem>
+            <ToggleGroupItem value="preview" className="px-3 text-xs">
+              预览
+            </ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+      </div>
+
+      <div className="flex h-[560px] gap-3">
+        <aside className="hidden w-48 shrink-0 overflow-y-auto rounded-md border p-2 md:block">
+          <div className="text-muted-foreground mb-2 px-2 text-xs font-medium">目录</div>
+          <MarkdownOutline headings={headings} activeId={activeId} onSelect={handleSelectHeading} />
+        </aside>
+        <div className="min-w-0 flex-1 overflow-hidden rounded-md border">
+          {layout === "split" ? (
+            <ResizablePanelGroup direction="horizontal" autoSaveId={`${id}-layout`}>
+              <ResizablePanel defaultSize={50} minSize={25}>
+                {editor}
+              </ResizablePanel>
+              <ResizableHandle withHandle />
+              <ResizablePanel defaultSize={50} minSize={25}>
+                {preview}
+              </ResizablePanel>
+            </ResizablePanelGroup>
+          ) : layout === "edit" ? (
+            editor
+          ) : (
+            preview
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
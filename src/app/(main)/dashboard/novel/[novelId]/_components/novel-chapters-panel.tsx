@@ -0,0 +1,342 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { FilePen, Pencil, Plus, RefreshCcw, Trash2 } from "lucide-react";
+
+import { fetchWithAuth } from "@/utils/fetch-with-auth";
+import { useChapters, useScenes } from "@/hooks/use-chapters";
+import { CHAPTER_STATUS_BADGE, CHAPTER_STATUS_LABEL } from "@/lib/enum-labels";
+import { cn } from "@/lib/utils";
+import { formatWordCount } from "@/lib/word-count";
+import { Chapter, ChapterStatus, ReorderRequest, Scene } from "@/types/chapter";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardAction, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+
+import { ChapterFormDialog } from "./chapter-form-dialog";
+import { SceneFormDialog } from "./scene-form-dialog";
+import { SortableList } from "./sortable-list";
+
+interface NovelChaptersPanelProps {
+  novelId: string;
+}
+
+// 对话框状态：item 为空表示新建
+interface FormDialogState<T> {
+  open: boolean;
+  item: T | null;
+}
+
+const getChapterId = (chapter: Chapter) => chapter.chapterId;
+const getSceneId = (scene: Scene) => scene.sceneId;
+
+// 拖拽后按新顺序重写 order，便于乐观更新
+const withOrder = <T extends { order: number }>(items: T[]) =>
+  items.map((item, index) => ({ ...item, order: index + 1 }));
+
+const requestJson = async (url: string, method: "PUT" | "DELETE", failure: string, body?: unknown) => {
+  const res = await fetchWithAuth(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    const message = errorData?.message?.message || `${failure}: ${res.status} ${res.statusText}`;
+    throw new Error(message);
+  }
+};
+
+/**
+ * 章节与场景管理：章节、场景的增删改，拖拽排序，字数与写作状态统计
+ */
+export function NovelChaptersPanel({ novelId }: NovelChaptersPanelProps) {
+  const { data: chapters = [], error, isLoading, mutate: mutateChapters } = useChapters(novelId);
+  const [selectedChapterId, setSelectedChapterId] = React.useState<string | null>(null);
+  const selectedChapter = chapters.find((chapter) => chapter.chapterId === selectedChapterId) ?? chapters[0];
+  const {
+    data: scenes = [],
+    error: scenesError,
+    isLoading: isScenesLoading,
+    mutate: mutateScenes,
+  } = useScenes(selectedChapter?.chapterId);
+
+  const [chapterDialog, setChapterDialog] = React.useState<FormDialogState<Chapter>>({ open: false, item: null });
+  const [sceneDialog, setSceneDialog] = React.useState<FormDialogState<Scene>>({ open: false, item: null });
+
+  const stats = React.useMemo(
+    () => ({
+      wordCount: chapters.reduce((sum, chapter) => sum + (chapter.wordCount ?? 0), 0),
+      completed: chapters.filter((chapter) => chapter.status === ChapterStatus.COMPLETED).length,
+    }),
+    [chapters],
+  );
+
+  // 场景变化会影响章节字数与场景数，一并刷新
+  const refreshScenes = React.useCallback(async () => {
+    await Promise.all([mutateScenes(), mutateChapters()]);
+  }, [mutateChapters, mutateScenes]);
+
+  const handleReorderChapters = async (next: Chapter[]) => {
+    const ordered = withOrder(next);
+    const body: ReorderRequest = { ids: ordered.map(getChapterId) };
+    await mutateChapters(ordered, { revalidate: false });
+    try {
+      await requestJson(
+        `/api/v1/novels/chapters/reorder?novelId=${encodeURIComponent(novelId)}`,
+        "PUT",
+        "调整章节顺序失败",
+        body,
+      );
+    } catch (reorderError) {
+      toast.error(reorderError instanceof Error ? reorderError.message : "调整章节顺序失败");
+    } finally {
+      await mutateChapters();
+    }
+  };
+
+  const handleReorderScenes = async (next: Scene[]) => {
+    if (!selectedChapter) return;
+    const ordered = withOrder(next);
+    const body: ReorderRequest = { ids: ordered.map(getSceneId) };
+    await mutateScenes(ordered, { revalidate: false });
+    try {
+      await requestJson(
+        `/api/v1/novels/chapters/${encodeURIComponent(selectedChapter.chapterId)}/scenes/reorder`,
+        "PUT",
+        "调整场景顺序失败",
+        body,
+      );
+    } catch (reorderError) {
+      toast.error(reorderError instanceof Error ? reorderError.message : "调整场景顺序失败");
+    } finally {
+      await mutateScenes();
+    }
+  };
+
+  const handleDeleteChapter = async (chapter: Chapter) => {
+    if (!confirm(`确认删除章节“${chapter.title}”及其下所有场景吗？`)) return;
+    try {
+      await requestJson(`/api/v1/novels/chapters/${encodeURIComponent(chapter.chapterId)}`, "DELETE", "删除章节失败");
+      toast.success("章节已删除");
+      if (chapter.chapterId === selectedChapterId) setSelectedChapterId(null);
+      await mutateChapters();
+    } catch (deleteError) {
+      toast.error(deleteError instanceof Error ? deleteError.message : "删除章节失败");
+    }
+  };
+
+  const handleDeleteScene = async (scene: Scene) => {
+    if (!confirm(`确认删除场景“${scene.title}”吗？`)) return;
+    try {
+      await requestJson(`/api/v1/novels/scenes/${encodeURIComponent(scene.sceneId)}`, "DELETE", "删除场景失败");
+      toast.success("场景已删除");
+      await refreshScenes();
+    } catch (deleteError) {
+      toast.error(deleteError instanceof Error ? deleteError.message : "删除场景失败");
+    }
+  };
+
+  const handleChapterSaved = async (saved: Chapter | null) => {
+    if (saved?.chapterId && !chapterDialog.item) setSelectedChapterId(saved.chapterId);
+    await mutateChapters();
+  };
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>加载章节失败：{error.message}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="text-muted-foreground flex flex-wrap items-center gap-x-6 gap-y-1 text-sm">
+        <span>共 {chapters.length} 章</span>
+        <span>已完成 {stats.completed} 章</span>
+        <span>总字数 {formatWordCount(stats.wordCount)}</span>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+        <Card>
+          <CardHeader>
+            <CardTitle>章节</CardTitle>
+            <CardDescription>拖拽左侧手柄调整章节顺序。</CardDescription>
+            <CardAction className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => void mutateChapters()} disabled={isLoading}>
+                <RefreshCcw className="h-4 w-4" />
+                刷新
+              </Button>
+              <Button size="sm" onClick={() => setChapterDialog({ open: true, item: null })}>
+                <Plus className="h-4 w-4" />
+                新建章节
+              </Button>
+            </CardAction>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-2">
+                {[...Array(4)].map((_, index) => (
+                  <Skeleton key={index} className="h-14 w-full" />
+                ))}
+              </div>
+            ) : chapters.length ? (
+              <SortableList
+                items={chapters}
+                getId={getChapterId}
+                onReorder={handleReorderChapters}
+                renderItem={(chapter, index) => (
+                  <div
+                    role="button"
+                    tabIndex={0}
+                    onClick={() => setSelectedChapterId(chapter.chapterId)}
+                    onKeyDown={(event) => event.key === "Enter" && setSelectedChapterId(chapter.chapterId)}
+                    className={cn(
+                      "hover:bg-muted/50 flex items-start justify-between gap-2 rounded-md border p-3 transition-colors",
+                      chapter.chapterId === selectedChapter?.chapterId && "border-primary bg-muted/50",
+                    )}
+                  >
+                    <div className="min-w-0 space-y-1">
+                      <div className="truncate text-sm font-medium">
+                        第 {index + 1} 章 · {chapter.title}
+                      </div>
+                      <div className="text-muted-foreground flex flex-wrap items-center gap-2 text-xs">
+                        <Badge variant={CHAPTER_STATUS_BADGE[chapter.status]}>
+                          {CHAPTER_STATUS_LABEL[chapter.status] ?? chapter.status}
+                        </Badge>
+                        <span>{chapter.sceneCount ?? 0} 个场景</span>
+                        <span>{formatWordCount(chapter.wordCount ?? 0)}</span>
+                      </div>
+                    </div>
+                    <div className="flex shrink-0 gap-1" onClick={(event) => event.stopPropagation()}>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" title="撰写正文" asChild>
+                        <Link href={`/dashboard/novel/${novelId}/chapters/${chapter.chapterId}`}>
+                          <FilePen className="h-3.5 w-3.5" />
+                        </Link>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        title="编辑章节"
+                        onClick={() => setChapterDialog({ open: true, item: chapter })}
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-destructive h-7 w-7"
+                        title="删除章节"
+                        onClick={() => void handleDeleteChapter(chapter)}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              />
+            ) : (
+              <p className="text-muted-foreground py-8 text-center text-sm">暂无章节，点击“新建章节”开始规划。</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="truncate">{selectedChapter ? `${selectedChapter.title} · 场景` : "场景"}</CardTitle>
+            <CardDescription>
+              {selectedChapter?.summary || (selectedChapter ? "拖拽左侧手柄调整场景顺序。" : "请先选择章节。")}
+            </CardDescription>
+            <CardAction>
+              <Button size="sm" onClick={() => setSceneDialog({ open: true, item: null })} disabled={!selectedChapter}>
+                <Plus className="h-4 w-4" />
+                新建场景
+              </Button>
+            </CardAction>
+          </CardHeader>
+          <CardContent>
+            {!selectedChapter ? (
+              <p className="text-muted-foreground py-8 text-center text-sm">暂无章节。</p>
+            ) : scenesError ? (
+              <p className="text-destructive text-sm">加载场景失败：{scenesError.message}</p>
+            ) : isScenesLoading ? (
+              <div className="space-y-2">
+                {[...Array(3)].map((_, index) => (
+                  <Skeleton key={index} className="h-16 w-full" />
+                ))}
+              </div>
+            ) : scenes.length ? (
+              <SortableList
+                items={scenes}
+                getId={getSceneId}
+                onReorder={handleReorderScenes}
+                renderItem={(scene, index) => (
+                  <div className="flex items-start justify-between gap-2 rounded-md border p-3">
+                    <div className="min-w-0 space-y-1">
+                      <div className="truncate text-sm font-medium">
+                        场景 {index + 1} · {scene.title}
+                      </div>
+                      {scene.summary && <p className="text-muted-foreground line-clamp-2 text-xs">{scene.summary}</p>}
+                      <div className="text-muted-foreground flex flex-wrap items-center gap-2 text-xs">
+                        <Badge variant={CHAPTER_STATUS_BADGE[scene.status]}>
+                          {CHAPTER_STATUS_LABEL[scene.status] ?? scene.status}
+                        </Badge>
+                        <span>{formatWordCount(scene.wordCount ?? 0)}</span>
+                      </div>
+                    </div>
+                    <div className="flex shrink-0 gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        title="编辑场景"
+                        onClick={() => setSceneDialog({ open: true, item: scene })}
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-destructive h-7 w-7"
+                        title="删除场景"
+                        onClick={() => void handleDeleteScene(scene)}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              />
+            ) : (
+              <p className="text-muted-foreground py-8 text-center text-sm">本章暂无场景。</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <ChapterFormDialog
+        open={chapterDialog.open}
+        onOpenChange={(open) => setChapterDialog((prev) => ({ ...prev, open }))}
+        novelId={novelId}
+        chapter={chapterDialog.item}
+        onSaved={handleChapterSaved}
+      />
+      {selectedChapter && (
+        <SceneFormDialog
+          open={sceneDialog.open}
+          onOpenChange={(open) => setSceneDialog((prev) => ({ ...prev, open }))}
+          novelId={novelId}
+          chapterId={selectedChapter.chapterId}
+          scene={sceneDialog.item}
+          onSaved={refreshScenes}
+        />
+      )}
+    </div>
+  );
+}
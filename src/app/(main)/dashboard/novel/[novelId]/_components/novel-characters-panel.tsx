@@ -0,0 +1,330 @@
+"use client";
+
+import * as React from "react";
+import { toast } from "sonner";
+import { LayoutGrid, RefreshCcw } from "lucide-react";
+
+import { useChapters } from "@/hooks/use-chapters";
+import {
+  useCurrentRelationships,
+  useNovelCharacters,
+  useRelationshipEvents,
+  useRelationshipTypes,
+} from "@/hooks/use-novel-relationships";
+import { buildGraphEdges, buildRelationshipGraph, collectRelTypes, resetGraphLayout } from "@/lib/relationship-graph";
+import {
+  buildTimelineSteps,
+  getEventPairKey,
+  RelationshipTimelineMode,
+  replayRelationships,
+} from "@/lib/relationship-timeline";
+import { findRelationshipType } from "@/lib/relationship-types";
+import { cn } from "@/lib/utils";
+import { Character } from "@/types/work";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { fetchWithAuth } from "@/utils/fetch-with-auth";
+
+import { CharacterDetailDialog } from "../../../character/_components/character-detail-dialog";
+import { CharacterRelationshipGraph, GRAPH_VIEWPORT } from "./character-relationship-graph";
+import { RelationshipConsistencyReport } from "./relationship-consistency-report";
+import { RelationshipTimelineBar } from "./relationship-timeline-bar";
+
+const CHART_COLOR_COUNT = 5;
+
+// 后端统一响应包装
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  timestamp?: string;
+  message?: unknown;
+}
+
+const readErrorMessage = async (res: Response, label: string) => {
+  const errorData = await res.json().catch(() => ({}));
+  return errorData?.message?.message || `${label}: ${res.status} ${res.statusText}`;
+};
+
+/**
+ * 作品人物关系图：按关系类型筛选，拖动节点调整布局，点击人物查看详情；开启时间线后可回放关系演变
+ */
+export function NovelCharactersPanel({ novelId }: { novelId: string }) {
+  const {
+    data: characters,
+    error: charactersError,
+    isLoading: charactersLoading,
+    mutate: refreshCharacters,
+  } = useNovelCharacters(novelId);
+  const {
+    data: relationships,
+    error: relationshipsError,
+    isLoading: relationshipsLoading,
+    mutate: refreshRelationships,
+  } = useCurrentRelationships(novelId);
+  // 关系事件与章节同时用于时间线回放和一致性检查
+  const {
+    data: events,
+    error: eventsError,
+    isLoading: eventsLoading,
+    mutate: refreshEvents,
+  } = useRelationshipEvents(novelId);
+  const { data: chapters, error: chaptersError } = useChapters(novelId);
+  const { data: relationshipTypes, isLoading: relationshipTypesLoading } = useRelationshipTypes(novelId);
+
+  const cardRef = React.useRef<HTMLDivElement>(null);
+  const [timelineOn, setTimelineOn] = React.useState(false);
+  const [timelineMode, setTimelineMode] = React.useState<RelationshipTimelineMode>("chapter");
+  const [stepIndex, setStepIndex] = React.useState(0);
+  // 从一致性报告定位的事件：等待时间线就绪后跳转到所在的一步
+  const [pendingFocusId, setPendingFocusId] = React.useState<string | null>(null);
+  const [focusedEventId, setFocusedEventId] = React.useState<string | null>(null);
+
+  const [layoutVersion, setLayoutVersion] = React.useState(0);
+  const [selectedTypes, setSelectedTypes] = React.useState<string[]>([]);
+  const [detailOpen, setDetailOpen] = React.useState(false);
+  const [detailLoading, setDetailLoading] = React.useState(false);
+  const [detailData, setDetailData] = React.useState<Character | null>(null);
+  const [detailError, setDetailError] = React.useState<string | null>(null);
+
+  // 历史事件涉及的角色也作为节点，保证回放时每条关系都能画出
+  const eventCharacterIds = React.useMemo(
+    () => (events ?? []).flatMap((event) => [event.characterAId, event.characterBId]),
+    [events],
+  );
+  const graph = React.useMemo(
+    () => buildRelationshipGraph(characters ?? [], relationships ?? [], GRAPH_VIEWPORT, eventCharacterIds),
+    [characters, relationships, eventCharacterIds],
+  );
+
+  const timeline = React.useMemo(
+    () => buildTimelineSteps(events ?? [], chapters ?? [], timelineMode),
+    [events, chapters, timelineMode],
+  );
+  // 步骤变化（切换模式、数据刷新）后回到最后一步；章节模式不回放未关联章节的事件，最后一步可能与当前关系不同
+  React.useEffect(() => {
+    setStepIndex(Math.max(timeline.steps.length - 1, 0));
+  }, [timeline.steps.length, timelineMode]);
+
+  React.useEffect(() => {
+    if (!pendingFocusId || !events || (!chapters && !chaptersError)) return;
+    const index = timeline.steps.findIndex((step) => step.events.some((event) => event.eventId === pendingFocusId));
+    // 未关联章节的事件只能在日期模式下找到
+    if (index < 0 && timelineMode === "chapter") {
+      setTimelineMode("date");
+      return;
+    }
+    if (index < 0) {
+      toast.error("未找到该事件，可能已被删除");
+    } else {
+      setStepIndex(index);
+      setFocusedEventId(pendingFocusId);
+    }
+    setPendingFocusId(null);
+  }, [pendingFocusId, events, chapters, chaptersError, timeline.steps, timelineMode]);
+
+  const handleLocate = (eventId: string) => {
+    setTimelineOn(true);
+    setSelectedTypes([]);
+    setPendingFocusId(eventId);
+    cardRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+  };
+
+  const currentStep = timelineOn ? timeline.steps[stepIndex] : undefined;
+  const edges = React.useMemo(
+    () => (timelineOn ? buildGraphEdges(replayRelationships(timeline.steps, stepIndex)) : graph.edges),
+    [timelineOn, timeline.steps, stepIndex, graph.edges],
+  );
+  const highlightedEdgeIds = React.useMemo(
+    () => new Set(currentStep?.events.map(getEventPairKey) ?? []),
+    [currentStep],
+  );
+  const relTypes = React.useMemo(() => collectRelTypes(edges), [edges]);
+
+  // 目录中的类型使用目录颜色；其余按当前关系与历史事件中出现过的全部类型分配，回放时同一类型颜色不变
+  const colorTypes = React.useMemo(() => {
+    const types = collectRelTypes(graph.edges).map((item) => item.relType);
+    (events ?? []).forEach((event) => {
+      const relType = event.newRelType?.trim();
+      if (relType && !types.includes(relType)) types.push(relType);
+    });
+    return types;
+  }, [graph.edges, events]);
+  const colorOf = React.useCallback(
+    (relType: string) => {
+      const catalogType = findRelationshipType(relationshipTypes ?? [], relType);
+      if (catalogType) return catalogType.color;
+      const index = colorTypes.indexOf(relType);
+      return `var(--chart-${(Math.max(index, 0) % CHART_COLOR_COUNT) + 1})`;
+    },
+    [colorTypes, relationshipTypes],
+  );
+
+  // 目录中的有向关系（如师父→徒弟）在图中画出箭头
+  const isDirected = React.useCallback(
+    (relType: string) => Boolean(findRelationshipType(relationshipTypes ?? [], relType)?.directed),
+    [relationshipTypes],
+  );
+
+  const nameOf = React.useCallback(
+    (characterId: string) => graph.nodes.find((node) => node.id === characterId)?.label || characterId,
+    [graph.nodes],
+  );
+
+  // 筛选关系类型时只保留相关人物，未筛选时展示全部人物
+  const visible = React.useMemo(() => {
+    if (!selectedTypes.length) return { nodes: graph.nodes, edges };
+    const filtered = edges.filter((edge) => selectedTypes.includes(edge.relType));
+    const ids = new Set(filtered.flatMap((edge) => [edge.source, edge.target]));
+    return { nodes: graph.nodes.filter((node) => ids.has(node.id)), edges: filtered };
+  }, [graph.nodes, edges, selectedTypes]);
+
+  // 清除手动固定的位置，重新挂载关系图以重新开始布局
+  const handleRelayout = () => {
+    resetGraphLayout(graph.nodes, GRAPH_VIEWPORT);
+    setLayoutVersion((version) => version + 1);
+  };
+
+  const toggleType = (relType: string) => {
+    setSelectedTypes((prev) => (prev.includes(relType) ? prev.filter((item) => item !== relType) : [...prev, relType]));
+  };
+
+  const openCharacter = async (characterId: string) => {
+    setDetailError(null);
+    setDetailOpen(true);
+    setDetailLoading(true);
+    setDetailData(characters?.find((item) => item.characterId === characterId) ?? null);
+    try {
+      const res = await fetchWithAuth(`/api/v1/novels/characters/${characterId}`);
+      if (!res.ok) throw new Error(await readErrorMessage(res, "获取人物详情失败"));
+      const json = await res.json().catch(() => null);
+      setDetailData((json?.success ? (json as ApiResponse<Character>).data : json) as Character);
+    } catch (loadError) {
+      setDetailData(null);
+      setDetailError(loadError instanceof Error ? loadError.message : "获取人物详情失败");
+    } finally {
+      setDetailLoading(false);
+    }
+  };
+
+  const loading = charactersLoading || relationshipsLoading || eventsLoading;
+  const error = charactersError || relationshipsError || eventsError;
+
+  return (
+    <div ref={cardRef} className="flex scroll-mt-4 flex-col gap-6">
+      <Card className="shadow-xs">
+        <CardHeader className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+          <div className="space-y-1.5">
+            <CardTitle>人物关系图</CardTitle>
+            <CardDescription>按关系类型筛选，拖动人物调整位置（松开后固定），点击人物查看详情。</CardDescription>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="mr-2 flex items-center gap-2">
+              <Switch id="relationship-timeline" checked={timelineOn} onCheckedChange={setTimelineOn} />
+              <Label htmlFor="relationship-timeline">时间线回放</Label>
+            </div>
+            <Button size="sm" variant="outline" onClick={handleRelayout} disabled={loading}>
+              <LayoutGrid className="mr-2 h-4 w-4" />
+              重新布局
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => {
+                refreshCharacters();
+                refreshRelationships();
+                refreshEvents();
+              }}
+              disabled={loading}
+            >
+              <RefreshCcw className="mr-2 h-4 w-4" />
+              刷新
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading ? (
+            <Skeleton className="aspect-[800/520] w-full" />
+          ) : error ? (
+            <p className="text-muted-foreground text-sm">加载人物关系失败: {error.message}</p>
+          ) : !graph.nodes.length ? (
+            <p className="text-muted-foreground text-sm">该作品还没有人物，可在“角色管理”中添加人物与关系。</p>
+          ) : (
+            <>
+              {relTypes.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <Button
+                    size="sm"
+                    variant={selectedTypes.length ? "ghost" : "secondary"}
+                    onClick={() => setSelectedTypes([])}
+                  >
+                    全部关系
+                  </Button>
+                  {relTypes.map(({ relType, count }) => (
+                    <Button
+                      key={relType}
+                      size="sm"
+                      variant="outline"
+                      aria-pressed={selectedTypes.includes(relType)}
+                      className={cn(selectedTypes.includes(relType) && "border-primary bg-muted")}
+                      onClick={() => toggleType(relType)}
+                    >
+                      <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: colorOf(relType) }} />
+                      {relType}
+                      <span className="text-muted-foreground tabular-nums">{count}</span>
+                    </Button>
+                  ))}
+                </div>
+              )}
+              {timelineOn && (
+                <RelationshipTimelineBar
+                  mode={timelineMode}
+                  onModeChange={setTimelineMode}
+                  steps={timeline.steps}
+                  index={stepIndex}
+                  onIndexChange={setStepIndex}
+                  unplaced={timeline.unplaced}
+                  nameOf={nameOf}
+                  focusedEventId={focusedEventId}
+                />
+              )}
+              <CharacterRelationshipGraph
+                key={layoutVersion}
+                nodes={visible.nodes}
+                edges={visible.edges}
+                colorOf={colorOf}
+                isDirected={isDirected}
+                highlightedEdgeIds={highlightedEdgeIds}
+                onNodeClick={openCharacter}
+              />
+              <p className="text-muted-foreground text-xs">
+                共 {visible.nodes.length} 位人物、{visible.edges.length} 条关系
+                {relTypes.length ? "" : timelineOn ? "，此时尚无人物关系" : "，暂无人物关系记录"}
+              </p>
+            </>
+          )}
+        </CardContent>
+        <CharacterDetailDialog
+          open={detailOpen}
+          loading={detailLoading}
+          character={detailData}
+          error={detailError}
+          onClose={() => setDetailOpen(false)}
+        />
+      </Card>
+      {!loading && !error && !relationshipTypesLoading && (
+        <RelationshipConsistencyReport
+          novelId={novelId}
+          events={events ?? []}
+          chapters={chapters ?? []}
+          characters={characters ?? []}
+          relationships={relationships ?? []}
+          relationshipTypes={relationshipTypes ?? []}
+          onLocate={handleLocate}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,29 +1,33 @@
 "use client";
 
 import * as React from "react";
-import useSWR from "swr";
+import useSWR, { useSWRConfig } from "swr";
 import { toast } from "sonner";
 import { AlertCircle, RefreshCcw } from "lucide-react";
 
 import { fetchWithAuth } from "@/utils/fetch-with-auth";
+import { useUnsavedChangesGuard } from "@/hooks/use-unsaved-changes-guard";
+import { TaskType, Work } from "@/types/work";
 import { OutlineLatestVersions, OutlineStatus } from "@/types/outline";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import {
-  Drawer,
-  DrawerClose,
-  DrawerContent,
-  DrawerDescription,
-  DrawerFooter,
-  DrawerHeader,
-  DrawerTitle,
-  DrawerTrigger,
-} from "@/components/ui/drawer";
+
+import { formatOutlineContent, getOutlineContentError } from "./outline-utils";
+import { OutlineDraftEditor } from "./outline-draft-editor";
+import { SectionRegenerateDialog, SectionSnapshot } from "./section-regenerate-dialog";
+import { TextRange } from "./section-utils";
+import { DraftConflictDialog } from "./draft-conflict-dialog";
+import { DraftSaveIndicator } from "./draft-save-indicator";
+import { GenerateDrawer } from "./generate-drawer";
+import { GenerationTaskStatus } from "./generation-task-status";
+import { useDraftAutosave } from "./use-draft-autosave";
+import { useGenerationTask } from "./use-generation-task";
+import { VersionHistory } from "./version-history";
+import { OUTLINE_VERSION_RESOURCE } from "./version-resources";
 
 interface ApiResponse<T> {
   success: boolean;
@@ -33,6 +37,7 @@ interface ApiResponse<T> {
 
 interface NovelOutlinePanelProps {
   novelId?: string;
+  work?: Work | null;
 }
 
 const fetcher = async (url: string) => {
@@ -58,49 +63,62 @@ const statusVariantMap: Record<OutlineStatus, "default" | "secondary"> = {
 
 const formatDateTime = (value?: string) => (value ? new Date(value).toLocaleString("zh-CN") : "--");
 
-const formatOutlineContent = (content?: string) => {
-  if (!content) {
-    return "";
-  }
-
-  try {
-    return JSON.stringify(JSON.parse(content), null, 2);
-  } catch {
-    return content;
-  }
-};
-
-export function NovelOutlinePanel({ novelId }: NovelOutlinePanelProps) {
+export function NovelOutlinePanel({ novelId, work }: NovelOutlinePanelProps) {
   const shouldFetch = novelId ? `/api/v1/novels/outlines/latest?novelId=${encodeURIComponent(novelId)}` : null;
 
   const { data, error, isLoading, isValidating, mutate } = useSWR<OutlineLatestVersions>(shouldFetch, fetcher, {
     revalidateOnFocus: false,
   });
 
+  const { mutate: globalMutate } = useSWRConfig();
+
   const draft = data?.draft;
   const published = data?.published;
 
-  const [draftContent, setDraftContent] = React.useState("");
+  const draftEditor = useDraftAutosave(
+    `draftAutosave:${novelId}:outline`,
+    draft ? { id: draft.outlineId, content: draft.content ?? "", updatedAt: draft.updatedAt } : null,
+  );
+  const { content: draftContent, setContent: setDraftContent, isDirty, baseUpdatedAt, markSaved } = draftEditor;
+  useUnsavedChangesGuard(isDirty);
   const [isSaving, setIsSaving] = React.useState(false);
   const [isPublishing, setIsPublishing] = React.useState(false);
-  const [isGenerateDrawerOpen, setIsGenerateDrawerOpen] = React.useState(false);
-  const [generatePrompt, setGeneratePrompt] = React.useState("");
-  const [isGenerating, setIsGenerating] = React.useState(false);
+  const [sectionSnapshot, setSectionSnapshot] = React.useState<SectionSnapshot | null>(null);
+  const [isSectionDialogOpen, setIsSectionDialogOpen] = React.useState(false);
+
+  // 最新版本与历史版本分属不同的 SWR key，保存/发布后需要一并刷新
+  const refreshAll = React.useCallback(async () => {
+    await Promise.all([
+      mutate(),
+      globalMutate((key) => typeof key === "string" && key.startsWith(`${OUTLINE_VERSION_RESOURCE.listEndpoint}?`)),
+    ]);
+  }, [globalMutate, mutate]);
+
+  const handleRegenerateSection = React.useCallback(
+    (range: TextRange) => {
+      setSectionSnapshot({ content: draftContent, range });
+      setIsSectionDialogOpen(true);
+    },
+    [draftContent],
+  );
 
-  React.useEffect(() => {
-    setDraftContent(draft?.content ?? "");
-  }, [draft?.content]);
+  const generationTask = useGenerationTask(novelId ?? "", TaskType.SCENARIO_OUTLINE, refreshAll);
+  const { track: trackGenerationTask } = generationTask;
 
-  const handleRefresh = React.useCallback(() => {
-    void mutate();
-  }, [mutate]);
+  const handleGenerateSubmitted = React.useCallback(
+    async (taskId: string | null) => {
+      if (taskId) {
+        trackGenerationTask(taskId);
+      } else {
+        await refreshAll();
+      }
+    },
+    [refreshAll, trackGenerationTask],
+  );
 
-  const handleDrawerOpenChange = React.useCallback((open: boolean) => {
-    setIsGenerateDrawerOpen(open);
-    if (!open) {
-      setGeneratePrompt("");
-    }
-  }, []);
+  const handleRefresh = React.useCallback(() => {
+    void refreshAll();
+  }, [refreshAll]);
 
   const handleSaveDraft = React.useCallback(async () => {
     if (!draft?.outlineId) {
@@ -113,6 +131,12 @@ export function NovelOutlinePanel({ novelId }: NovelOutlinePanelProps) {
       return;
     }
 
+    const contentError = getOutlineContentError(draftContent);
+    if (contentError) {
+      toast.error(contentError);
+      return;
+    }
+
     try {
       setIsSaving(true);
       const res = await fetchWithAuth(`/api/v1/novels/outlines/${draft.outlineId}`, {
@@ -123,24 +147,33 @@ export function NovelOutlinePanel({ novelId }: NovelOutlinePanelProps) {
         body: JSON.stringify({
           content: draftContent,
           novelId: draft.novelId ?? novelId,
+          expectedUpdatedAt: baseUpdatedAt ?? undefined,
         }),
       });
 
+      // 草稿已被他人修改：刷新后由冲突对话框进行三方合并
+      if (res.status === 409) {
+        toast.error("大纲草稿已被其他人修改，请合并后重新保存");
+        await refreshAll();
+        return;
+      }
+
       if (!res.ok) {
         const errorData = await res.json().catch(() => ({}));
         const message = errorData?.message?.message || `保存大纲失败: ${res.status} ${res.statusText}`;
         throw new Error(message);
       }
 
+      markSaved(draftContent);
       toast.success("大纲草稿已保存");
-      await mutate();
+      await refreshAll();
     } catch (saveError) {
       const message = saveError instanceof Error ? saveError.message : "保存大纲失败";
       toast.error(message);
     } finally {
       setIsSaving(false);
     }
-  }, [draft?.outlineId, draft?.novelId, draftContent, mutate, novelId]);
+  }, [baseUpdatedAt, draft?.novelId, draft?.outlineId, draftContent, markSaved, novelId, refreshAll]);
 
   const handlePublishDraft = React.useCallback(async () => {
     if (!draft?.outlineId) {
@@ -148,6 +181,12 @@ export function NovelOutlinePanel({ novelId }: NovelOutlinePanelProps) {
       return;
     }
 
+    // 发布的是服务器上的草稿，本地修改需先保存
+    if (isDirty) {
+      toast.error("草稿有未保存的修改，请先保存草稿");
+      return;
+    }
+
     try {
       setIsPublishing(true);
       const res = await fetchWithAuth(`/api/v1/novels/outlines/drafts/${draft.outlineId}/publish`, {
@@ -161,59 +200,14 @@ export function NovelOutlinePanel({ novelId }: NovelOutlinePanelProps) {
       }
 
       toast.success("草稿已发布为正式版");
-      await mutate();
+      await refreshAll();
     } catch (publishError) {
       const message = publishError instanceof Error ? publishError.message : "发布草稿失败";
       toast.error(message);
     } finally {
       setIsPublishing(false);
     }
-  }, [draft?.outlineId, mutate]);
-
-  const handleGenerateSubmit = React.useCallback(
-    async (event: React.FormEvent<HTMLFormElement>) => {
-      event.preventDefault();
-
-      if (!novelId) {
-        toast.error("缺少小说 ID，无法生成大纲");
-        return;
-      }
-
-      if (!generatePrompt.trim()) {
-        toast.error("请输入生成提示词");
-        return;
-      }
-
-      try {
-        setIsGenerating(true);
-        const res = await fetchWithAuth("/api/v1/novels/generation/scenario-outline", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ prompt: generatePrompt, novelId }),
-        });
-
-        if (!res.ok) {
-          const errorData = await res.json().catch(() => ({}));
-          const message =
-            errorData?.message?.message || errorData?.message || `触发大纲生成失败: ${res.status} ${res.statusText}`;
-          throw new Error(typeof message === "string" ? message : "触发大纲生成失败");
-        }
-
-        toast.success("已提交生成请求");
-        setIsGenerateDrawerOpen(false);
-        setGeneratePrompt("");
-        await mutate();
-      } catch (generateError) {
-        const message = generateError instanceof Error ? generateError.message : "触发大纲生成失败";
-        toast.error(message);
-      } finally {
-        setIsGenerating(false);
-      }
-    },
-    [generatePrompt, mutate, novelId],
-  );
+  }, [draft?.outlineId, isDirty, refreshAll]);
 
   if (!novelId) {
     return (
@@ -249,48 +243,21 @@ export function NovelOutlinePanel({ novelId }: NovelOutlinePanelProps) {
       <div className="flex flex-col justify-between gap-3 sm:flex-row sm:items-center">
         <div>
           <h3 className="text-lg font-semibold">小说大纲版本</h3>
-          <p className="text-muted-foreground text-sm">查看最新发布版本与草稿版本，可在线编辑草稿内容并触发生成。</p>
+          <p className="text-muted-foreground text-sm">
+            查看最新发布版本与草稿版本，可在线编辑草稿内容、触发生成并对比历史版本。
+          </p>
         </div>
         <div className="flex flex-wrap items-center gap-2">
-          <Drawer direction="right" open={isGenerateDrawerOpen} onOpenChange={handleDrawerOpenChange}>
-            <DrawerTrigger asChild>
-              <Button size="sm">生成大纲</Button>
-            </DrawerTrigger>
-            <DrawerContent className="sm:max-w-xl">
-              <DrawerHeader>
-                <DrawerTitle>生成小说大纲</DrawerTitle>
-                <DrawerDescription>输入提示词，生成新的大纲草稿内容。</DrawerDescription>
-              </DrawerHeader>
-              <form className="flex h-full flex-1 flex-col" onSubmit={handleGenerateSubmit}>
-                <div className="flex flex-1 flex-col gap-4 px-4">
-                  <div className="flex flex-col gap-2">
-                    <Label htmlFor="outline-generate-prompt">生成提示词</Label>
-                    <Textarea
-                      id="outline-generate-prompt"
-                      value={generatePrompt}
-                      onChange={(event) => setGeneratePrompt(event.target.value)}
-                      placeholder="例如：写一部赛博朋克风格的成长故事，主角是一名黑客少年。"
-                      className="min-h-[160px]"
-                      disabled={isGenerating}
-                    />
-                    <p className="text-muted-foreground text-xs">
-                      提供越具体的背景、人物、冲突信息，生成结果越贴合创作需求。
-                    </p>
-                  </div>
-                </div>
-                <DrawerFooter>
-                  <Button type="submit" disabled={isGenerating}>
-                    {isGenerating ? "提交中..." : "提交生成"}
-                  </Button>
-                  <DrawerClose asChild>
-                    <Button type="button" variant="outline" disabled={isGenerating}>
-                      取消
-                    </Button>
-                  </DrawerClose>
-                </DrawerFooter>
-              </form>
-            </DrawerContent>
-          </Drawer>
+          <GenerateDrawer
+            type={TaskType.SCENARIO_OUTLINE}
+            novelId={novelId}
+            work={work}
+            title="生成小说大纲"
+            description="输入提示词，生成新的大纲草稿内容。"
+            placeholder="例如：写一部赛博朋克风格的成长故事，主角是一名黑客少年。"
+            hint="提供越具体的背景、人物、冲突信息，生成结果越贴合创作需求。"
+            onSubmitted={handleGenerateSubmitted}
+          />
           <Button variant="outline" size="sm" onClick={handleRefresh} disabled={isValidating}>
             <RefreshCcw className="mr-2 h-4 w-4" />
             刷新数据
@@ -298,6 +265,16 @@ export function NovelOutlinePanel({ novelId }: NovelOutlinePanelProps) {
         </div>
       </div>
 
+      {generationTask.taskId && (
+        <GenerationTaskStatus
+          label="大纲"
+          taskId={generationTask.taskId}
+          task={generationTask.task}
+          error={generationTask.error}
+          onDismiss={generationTask.dismiss}
+        />
+      )}
+
       <div className="grid gap-6 lg:grid-cols-2">
         <Card className="h-full">
           <CardHeader>
@@ -343,17 +320,14 @@ export function NovelOutlinePanel({ novelId }: NovelOutlinePanelProps) {
               <>
                 <div className="flex flex-wrap items-center gap-3">
                   <Badge variant={statusVariantMap[draft.status]}>{statusLabelMap[draft.status]}</Badge>
+                  <DraftSaveIndicator isDirty={isDirty} localSavedAt={draftEditor.localSavedAt} />
                 </div>
-                <div className="flex flex-col gap-2">
-                  <Label htmlFor="outline-draft-content">草稿正文</Label>
-                  <Textarea
-                    id="outline-draft-content"
-                    value={draftContent}
-                    onChange={(event) => setDraftContent(event.target.value)}
-                    placeholder="请输入小说大纲草稿内容，可以使用 Markdown 或 JSON 结构"
-                    className="min-h-[240px]"
-                  />
-                </div>
+                <OutlineDraftEditor
+                  value={draftContent}
+                  onChange={setDraftContent}
+                  disabled={isSaving}
+                  onRegenerateSection={handleRegenerateSection}
+                />
                 <div className="flex items-center justify-end gap-3">
                   <Button variant="outline" onClick={handlePublishDraft} disabled={isPublishing || isSaving}>
                     {isPublishing ? "发布中..." : "保存为正式版"}
@@ -369,6 +343,35 @@ export function NovelOutlinePanel({ novelId }: NovelOutlinePanelProps) {
           </CardContent>
         </Card>
       </div>
+
+      <DraftConflictDialog
+        label="大纲"
+        conflict={draftEditor.conflict}
+        onResolve={draftEditor.resolveConflict}
+        formatContent={formatOutlineContent}
+        validate={getOutlineContentError}
+      />
+
+      <SectionRegenerateDialog
+        open={isSectionDialogOpen}
+        onOpenChange={setIsSectionDialogOpen}
+        novelId={novelId}
+        label="大纲"
+        endpoint="/api/v1/novels/generation/scenario-outline/section"
+        snapshot={sectionSnapshot}
+        onApply={setDraftContent}
+        validate={getOutlineContentError}
+      />
+
+      <VersionHistory
+        novelId={novelId}
+        resource={OUTLINE_VERSION_RESOURCE}
+        current={{
+          draft: draft ? OUTLINE_VERSION_RESOURCE.toEntry(draft) : null,
+          published: published ? OUTLINE_VERSION_RESOURCE.toEntry(published) : null,
+        }}
+        onRestored={refreshAll}
+      />
     </div>
   );
 }
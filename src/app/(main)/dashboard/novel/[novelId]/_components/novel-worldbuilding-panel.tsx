@@ -1,29 +1,34 @@
 "use client";
 
 import * as React from "react";
-import useSWR from "swr";
+import useSWR, { useSWRConfig } from "swr";
 import { toast } from "sonner";
 import { AlertCircle, RefreshCcw } from "lucide-react";
 
 import { fetchWithAuth } from "@/utils/fetch-with-auth";
+import { useUnsavedChangesGuard } from "@/hooks/use-unsaved-changes-guard";
+import { TaskType, Work } from "@/types/work";
+import { parseMarkdown } from "@/lib/markdown";
 import { WorldbuildingLatestVersions, WorldbuildingStatus } from "@/types/worldbuilding";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import {
-  Drawer,
-  DrawerClose,
-  DrawerContent,
-  DrawerDescription,
-  DrawerFooter,
-  DrawerHeader,
-  DrawerTitle,
-  DrawerTrigger,
-} from "@/components/ui/drawer";
+
+import { MarkdownPreview } from "./markdown-preview";
+import { MarkdownSplitEditor } from "./markdown-split-editor";
+import { SectionRegenerateDialog, SectionSnapshot } from "./section-regenerate-dialog";
+import { TextRange } from "./section-utils";
+import { DraftConflictDialog } from "./draft-conflict-dialog";
+import { DraftSaveIndicator } from "./draft-save-indicator";
+import { GenerateDrawer } from "./generate-drawer";
+import { GenerationTaskStatus } from "./generation-task-status";
+import { useDraftAutosave } from "./use-draft-autosave";
+import { useGenerationTask } from "./use-generation-task";
+import { VersionHistory } from "./version-history";
+import { WORLDBUILDING_VERSION_RESOURCE } from "./version-resources";
 
 interface ApiResponse<T> {
   success: boolean;
@@ -33,6 +38,7 @@ interface ApiResponse<T> {
 
 interface NovelWorldbuildingPanelProps {
   novelId?: string;
+  work?: Work | null;
 }
 
 const fetcher = async (url: string) => {
@@ -58,37 +64,69 @@ const statusVariantMap: Record<WorldbuildingStatus, "default" | "secondary"> = {
 
 const formatDateTime = (value?: string) => (value ? new Date(value).toLocaleString("zh-CN") : "--");
 
-export function NovelWorldbuildingPanel({ novelId }: NovelWorldbuildingPanelProps) {
+export function NovelWorldbuildingPanel({ novelId, work }: NovelWorldbuildingPanelProps) {
   const shouldFetch = novelId ? `/api/v1/novels/worldbuildings/latest?novelId=${encodeURIComponent(novelId)}` : null;
 
   const { data, error, isLoading, isValidating, mutate } = useSWR<WorldbuildingLatestVersions>(shouldFetch, fetcher, {
     revalidateOnFocus: false,
   });
 
+  const { mutate: globalMutate } = useSWRConfig();
+
   const draft = data?.draft;
   const published = data?.published;
 
-  const [draftContent, setDraftContent] = React.useState("");
+  const draftEditor = useDraftAutosave(
+    `draftAutosave:${novelId}:worldbuilding`,
+    draft ? { id: draft.worldbuildingId, content: draft.content, updatedAt: draft.updatedAt } : null,
+  );
+  const { content: draftContent, setContent: setDraftContent, isDirty, baseUpdatedAt, markSaved } = draftEditor;
+  useUnsavedChangesGuard(isDirty);
   const [isSaving, setIsSaving] = React.useState(false);
   const [isPublishing, setIsPublishing] = React.useState(false);
-  const [isGenerateDrawerOpen, setIsGenerateDrawerOpen] = React.useState(false);
-  const [generatePrompt, setGeneratePrompt] = React.useState("");
-  const [isGenerating, setIsGenerating] = React.useState(false);
+  const [sectionSnapshot, setSectionSnapshot] = React.useState<SectionSnapshot | null>(null);
+  const [isSectionDialogOpen, setIsSectionDialogOpen] = React.useState(false);
 
-  React.useEffect(() => {
-    setDraftContent(draft?.content ?? "");
-  }, [draft?.content]);
+  const publishedBlocks = React.useMemo(
+    () => parseMarkdown(published?.content ?? "", "worldbuilding-published-heading"),
+    [published?.content],
+  );
 
-  const handleRefresh = React.useCallback(() => {
-    void mutate();
-  }, [mutate]);
+  // 最新版本与历史版本分属不同的 SWR key，保存/发布/恢复后需要一并刷新
+  const refreshAll = React.useCallback(async () => {
+    await Promise.all([
+      mutate(),
+      globalMutate(
+        (key) => typeof key === "string" && key.startsWith(`${WORLDBUILDING_VERSION_RESOURCE.listEndpoint}?`),
+      ),
+    ]);
+  }, [globalMutate, mutate]);
+
+  const handleRegenerateSection = React.useCallback(
+    (range: TextRange) => {
+      setSectionSnapshot({ content: draftContent, range });
+      setIsSectionDialogOpen(true);
+    },
+    [draftContent],
+  );
 
-  const handleDrawerOpenChange = React.useCallback((open: boolean) => {
-    setIsGenerateDrawerOpen(open);
-    if (!open) {
-      setGeneratePrompt("");
-    }
-  }, []);
+  const generationTask = useGenerationTask(novelId ?? "", TaskType.WORLDBUILDING, refreshAll);
+  const { track: trackGenerationTask } = generationTask;
+
+  const handleGenerateSubmitted = React.useCallback(
+    async (taskId: string | null) => {
+      if (taskId) {
+        trackGenerationTask(taskId);
+      } else {
+        await refreshAll();
+      }
+    },
+    [refreshAll, trackGenerationTask],
+  );
+
+  const handleRefresh = React.useCallback(() => {
+    void refreshAll();
+  }, [refreshAll]);
 
   const handleSaveDraft = React.useCallback(async () => {
     if (!draft?.worldbuildingId) {
@@ -108,24 +146,32 @@ export function NovelWorldbuildingPanel({ novelId }: NovelWorldbuildingPanelProp
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ content: draftContent }),
+        body: JSON.stringify({ content: draftContent, expectedUpdatedAt: baseUpdatedAt ?? undefined }),
       });
 
+      // 草稿已被他人修改：刷新后由冲突对话框进行三方合并
+      if (res.status === 409) {
+        toast.error("世界观草稿已被其他人修改，请合并后重新保存");
+        await refreshAll();
+        return;
+      }
+
       if (!res.ok) {
         const errorData = await res.json().catch(() => ({}));
         const message = errorData?.message?.message || `保存草稿失败: ${res.status} ${res.statusText}`;
         throw new Error(message);
       }
 
+      markSaved(draftContent);
       toast.success("草稿已保存");
-      await mutate();
+      await refreshAll();
     } catch (saveError) {
       const message = saveError instanceof Error ? saveError.message : "保存草稿失败";
       toast.error(message);
     } finally {
       setIsSaving(false);
     }
-  }, [draft?.worldbuildingId, draftContent, mutate]);
+  }, [baseUpdatedAt, draft?.worldbuildingId, draftContent, markSaved, refreshAll]);
 
   const handlePublishDraft = React.useCallback(async () => {
     if (!draft?.worldbuildingId) {
@@ -133,6 +179,12 @@ export function NovelWorldbuildingPanel({ novelId }: NovelWorldbuildingPanelProp
       return;
     }
 
+    // 发布的是服务器上的草稿，本地修改需先保存
+    if (isDirty) {
+      toast.error("草稿有未保存的修改，请先保存草稿");
+      return;
+    }
+
     try {
       setIsPublishing(true);
       const res = await fetchWithAuth(`/api/v1/novels/worldbuildings/drafts/${draft.worldbuildingId}/publish`, {
@@ -146,59 +198,14 @@ export function NovelWorldbuildingPanel({ novelId }: NovelWorldbuildingPanelProp
       }
 
       toast.success("草稿已发布为正式版");
-      await mutate();
+      await refreshAll();
     } catch (publishError) {
       const message = publishError instanceof Error ? publishError.message : "发布草稿失败";
       toast.error(message);
     } finally {
       setIsPublishing(false);
     }
-  }, [draft?.worldbuildingId, mutate]);
-
-  const handleGenerateSubmit = React.useCallback(
-    async (event: React.FormEvent<HTMLFormElement>) => {
-      event.preventDefault();
-
-      if (!novelId) {
-        toast.error("缺少小说 ID，无法生成世界观");
-        return;
-      }
-
-      if (!generatePrompt.trim()) {
-        toast.error("请输入生成提示词");
-        return;
-      }
-
-      try {
-        setIsGenerating(true);
-        const res = await fetchWithAuth("/api/v1/novels/generation/worldbuilding", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ prompt: generatePrompt, novelId }),
-        });
-
-        if (!res.ok) {
-          const errorData = await res.json().catch(() => ({}));
-          const message =
-            errorData?.message?.message || errorData?.message || `触发世界观生成失败: ${res.status} ${res.statusText}`;
-          throw new Error(typeof message === "string" ? message : "触发世界观生成失败");
-        }
-
-        toast.success("已提交生成请求");
-        setIsGenerateDrawerOpen(false);
-        setGeneratePrompt("");
-        await mutate();
-      } catch (generateError) {
-        const message = generateError instanceof Error ? generateError.message : "触发世界观生成失败";
-        toast.error(message);
-      } finally {
-        setIsGenerating(false);
-      }
-    },
-    [generatePrompt, mutate, novelId],
-  );
+  }, [draft?.worldbuildingId, isDirty, refreshAll]);
 
   if (!novelId) {
     return (
@@ -234,48 +241,21 @@ export function NovelWorldbuildingPanel({ novelId }: NovelWorldbuildingPanelProp
       <div className="flex flex-col justify-between gap-3 sm:flex-row sm:items-center">
         <div>
           <h3 className="text-lg font-semibold">小说世界观版本</h3>
-          <p className="text-muted-foreground text-sm">查看最新发布版本与草稿版本，并可在线编辑草稿内容。</p>
+          <p className="text-muted-foreground text-sm">
+            查看最新发布版本与草稿版本，可在线编辑草稿内容，并回溯或恢复历史版本。
+          </p>
         </div>
         <div className="flex flex-wrap items-center gap-2">
-          <Drawer direction="right" open={isGenerateDrawerOpen} onOpenChange={handleDrawerOpenChange}>
-            <DrawerTrigger asChild>
-              <Button size="sm">生成世界观</Button>
-            </DrawerTrigger>
-            <DrawerContent className="sm:max-w-xl">
-              <DrawerHeader>
-                <DrawerTitle>生成小说世界观</DrawerTitle>
-                <DrawerDescription>输入提示词，生成新的世界观草稿内容。</DrawerDescription>
-              </DrawerHeader>
-              <form className="flex h-full flex-1 flex-col" onSubmit={handleGenerateSubmit}>
-                <div className="flex flex-1 flex-col gap-4 px-4">
-                  <div className="flex flex-col gap-2">
-                    <Label htmlFor="worldbuilding-generate-prompt">生成提示词</Label>
-                    <Textarea
-                      id="worldbuilding-generate-prompt"
-                      value={generatePrompt}
-                      onChange={(event) => setGeneratePrompt(event.target.value)}
-                      placeholder="例如：描绘一个拥有多颗卫星的奇幻世界，其科技水平介于蒸汽朋克与魔法之间。"
-                      className="min-h-[160px]"
-                      disabled={isGenerating}
-                    />
-                    <p className="text-muted-foreground text-xs">
-                      提供越具体的背景、人物、冲突信息，生成结果越贴合创作需求。
-                    </p>
-                  </div>
-                </div>
-                <DrawerFooter>
-                  <Button type="submit" disabled={isGenerating}>
-                    {isGenerating ? "提交中..." : "提交生成"}
-                  </Button>
-                  <DrawerClose asChild>
-                    <Button type="button" variant="outline" disabled={isGenerating}>
-                      取消
-                    </Button>
-                  </DrawerClose>
-                </DrawerFooter>
-              </form>
-            </DrawerContent>
-          </Drawer>
+          <GenerateDrawer
+            type={TaskType.WORLDBUILDING}
+            novelId={novelId}
+            work={work}
+            title="生成小说世界观"
+            description="输入提示词，生成新的世界观草稿内容。"
+            placeholder="例如：描绘一个拥有多颗卫星的奇幻世界，其科技水平介于蒸汽朋克与魔法之间。"
+            hint="提供越具体的背景、人物、冲突信息，生成结果越贴合创作需求。"
+            onSubmitted={handleGenerateSubmitted}
+          />
           <Button variant="outline" size="sm" onClick={handleRefresh} disabled={isValidating}>
             <RefreshCcw className="mr-2 h-4 w-4" />
             刷新数据
@@ -283,7 +263,18 @@ export function NovelWorldbuildingPanel({ novelId }: NovelWorldbuildingPanelProp
         </div>
       </div>
 
-      <div className="grid gap-6 lg:grid-cols-2">
+      {generationTask.taskId && (
+        <GenerationTaskStatus
+          label="世界观"
+          taskId={generationTask.taskId}
+          task={generationTask.task}
+          error={generationTask.error}
+          onDismiss={generationTask.dismiss}
+        />
+      )}
+
+      {/* 世界观正文较长，两张卡片纵向排列，给分栏编辑器留出宽度 */}
+      <div className="grid gap-6">
         <Card className="h-full">
           <CardHeader>
             <CardTitle>已发布版本</CardTitle>
@@ -310,8 +301,8 @@ export function NovelWorldbuildingPanel({ novelId }: NovelWorldbuildingPanelProp
                 )}
                 <div>
                   <Label className="text-muted-foreground text-xs font-medium tracking-wider uppercase">正文内容</Label>
-                  <div className="bg-muted/50 mt-2 max-h-80 overflow-auto rounded-md border p-4 text-sm whitespace-pre-wrap">
-                    {published.content}
+                  <div className="bg-muted/50 mt-2 max-h-96 overflow-auto rounded-md border p-4">
+                    <MarkdownPreview blocks={publishedBlocks} />
                   </div>
                 </div>
                 <div className="text-muted-foreground flex flex-wrap gap-4 text-xs">
@@ -336,15 +327,24 @@ export function NovelWorldbuildingPanel({ novelId }: NovelWorldbuildingPanelProp
               <>
                 <div className="flex flex-wrap items-center gap-3">
                   <Badge variant={statusVariantMap[draft.status]}>{statusLabelMap[draft.status]}</Badge>
+                  <DraftSaveIndicator isDirty={isDirty} localSavedAt={draftEditor.localSavedAt} />
                   <span className="text-muted-foreground text-xs">ID: {draft.worldbuildingId}</span>
                 </div>
                 <div>
-                  <Label className="text-muted-foreground text-xs font-medium tracking-wider uppercase">草稿内容</Label>
-                  <Textarea
+                  <Label
+                    htmlFor="worldbuilding-draft-content"
+                    className="text-muted-foreground text-xs font-medium tracking-wider uppercase"
+                  >
+                    草稿内容
+                  </Label>
+                  <MarkdownSplitEditor
+                    id="worldbuilding-draft-content"
                     value={draftContent}
-                    onChange={(event) => setDraftContent(event.target.value)}
-                    placeholder="请输入小说世界观草稿内容"
-                    className="mt-2 min-h-[240px]"
+                    onChange={setDraftContent}
+                    placeholder="请输入小说世界观草稿内容，可用 # 标题划分地理、势力、魔法体系等章节"
+                    disabled={isSaving}
+                    className="mt-2"
+                    onRegenerateSection={handleRegenerateSection}
                   />
                 </div>
                 <div className="text-muted-foreground flex flex-wrap gap-4 text-xs">
@@ -367,6 +367,28 @@ export function NovelWorldbuildingPanel({ novelId }: NovelWorldbuildingPanelProp
           </CardContent>
         </Card>
       </div>
+
+      <DraftConflictDialog label="世界观" conflict={draftEditor.conflict} onResolve={draftEditor.resolveConflict} />
+
+      <SectionRegenerateDialog
+        open={isSectionDialogOpen}
+        onOpenChange={setIsSectionDialogOpen}
+        novelId={novelId}
+        label="世界观"
+        endpoint="/api/v1/novels/generation/worldbuilding/section"
+        snapshot={sectionSnapshot}
+        onApply={setDraftContent}
+      />
+
+      <VersionHistory
+        novelId={novelId}
+        resource={WORLDBUILDING_VERSION_RESOURCE}
+        current={{
+          draft: draft ? WORLDBUILDING_VERSION_RESOURCE.toEntry(draft) : null,
+          published: published ? WORLDBUILDING_VERSION_RESOURCE.toEntry(published) : null,
+        }}
+        onRestored={refreshAll}
+      />
     </div>
   );
 }
@@ -0,0 +1,185 @@
+"use client";
+
+import * as React from "react";
+import { AlertCircle, WandSparkles } from "lucide-react";
+import { toast } from "sonner";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+import {
+  OutlineDocument,
+  countOutlineNodes,
+  looksLikeJson,
+  outlineFromMarkdown,
+  parseJsonWithLocation,
+  serializeOutlineDocument,
+  toOutlineDocument,
+} from "./outline-utils";
+import { OutlineTreeEditor } from "./outline-tree-editor";
+import { getTextareaSelection, snapRangeToLines, TextRange } from "./section-utils";
+
+type EditorMode = "structured" | "raw";
+
+interface OutlineDraftEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  // 提供时显示“局部重新生成”，参数为已按整行对齐的选区
+  onRegenerateSection?: (range: TextRange) => void;
+}
+
+// 空内容或合法 JSON 才能进入结构化模式
+const tryParseDocument = (text: string): OutlineDocument | null => {
+  if (!text.trim()) return toOutlineDocument({});
+  if (!looksLikeJson(text)) return null;
+  const result = parseJsonWithLocation(text);
+  return result.ok ? toOutlineDocument(result.value) : null;
+};
+
+export function OutlineDraftEditor({ value, onChange, disabled, onRegenerateSection }: OutlineDraftEditorProps) {
+  const textareaRef = React.useRef<HTMLTextAreaElement>(null);
+  // 记录由树编辑器序列化出的文本，用于区分“自身回写”与“外部替换”
+  const lastSerializedRef = React.useRef<string | null>(null);
+  const [doc, setDoc] = React.useState<OutlineDocument | null>(() => tryParseDocument(value));
+  const [mode, setMode] = React.useState<EditorMode>(() => (tryParseDocument(value) ? "structured" : "raw"));
+
+  // 草稿被外部替换（如刷新、恢复版本）时重新解析结构
+  React.useEffect(() => {
+    if (value === lastSerializedRef.current) return;
+    const parsed = tryParseDocument(value);
+    setDoc(parsed);
+    if (!parsed) setMode("raw");
+  }, [value]);
+
+  const jsonError = React.useMemo(() => {
+    if (mode !== "raw" || !looksLikeJson(value)) return null;
+    const result = parseJsonWithLocation(value);
+    return result.ok ? null : result;
+  }, [mode, value]);
+
+  const handleTreeChange = React.useCallback(
+    (next: OutlineDocument) => {
+      const text = serializeOutlineDocument(next);
+      lastSerializedRef.current = text;
+      setDoc(next);
+      onChange(text);
+    },
+    [onChange],
+  );
+
+  const handleModeChange = (next: string) => {
+    if (next === "structured") {
+      const parsed = tryParseDocument(value);
+      if (!parsed) return;
+      lastSerializedRef.current = value;
+      setDoc(parsed);
+    }
+    if (next) setMode(next as EditorMode);
+  };
+
+  const handleConvertMarkdown = () => {
+    handleTreeChange(outlineFromMarkdown(value));
+    setMode("structured");
+  };
+
+  const handleLocateError = () => {
+    const textarea = textareaRef.current;
+    if (!textarea || !jsonError) return;
+    textarea.focus();
+    textarea.setSelectionRange(jsonError.offset, Math.min(jsonError.offset + 1, value.length));
+  };
+
+  // 结构化模式下没有文本选区，需要先切换到文本模式选择片段（如某几章）
+  const handleRegenerateSection = () => {
+    if (!onRegenerateSection) return;
+    const selection = getTextareaSelection(textareaRef.current);
+    if (mode !== "raw" || !selection || selection.end <= selection.start) {
+      setMode("raw");
+      toast.error("请在 JSON / Markdown 模式下选中需要重新生成的片段");
+      return;
+    }
+    onRegenerateSection(snapRangeToLines(value, selection));
+  };
+
+  const canUseStructured = Boolean(tryParseDocument(value));
+  const isMarkdown = Boolean(value.trim()) && !looksLikeJson(value);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Label htmlFor="outline-draft-content">草稿正文</Label>
+        <div className="flex flex-wrap items-center gap-2">
+          {onRegenerateSection && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-8 text-xs"
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={handleRegenerateSection}
+              disabled={disabled || !value.trim()}
+            >
+              <WandSparkles className="mr-1 h-3 w-3" />
+              局部重新生成
+            </Button>
+          )}
+          <ToggleGroup type="single" size="sm" variant="outline" value={mode} onValueChange={handleModeChange}>
+            <ToggleGroupItem value="structured" className="px-3 text-xs" disabled={!canUseStructured}>
+              结构化编辑
+            </ToggleGroupItem>
+            <ToggleGroupItem value="raw" className="px-3 text-xs">
+              JSON / Markdown
+            </ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+      </div>
+
+      {mode === "structured" && doc ? (
+        <>
+          <p className="text-muted-foreground text-xs">
+            共 {countOutlineNodes(doc.nodes)} 个节点，拖动左侧手柄可调整同级顺序，修改会同步为 JSON 草稿。
+          </p>
+          <OutlineTreeEditor value={doc} onChange={handleTreeChange} disabled={disabled} />
+        </>
+      ) : (
+        <>
+          <Textarea
+            id="outline-draft-content"
+            ref={textareaRef}
+            value={value}
+            onChange={(event) => onChange(event.target.value)}
+            placeholder="请输入小说大纲草稿内容，可以使用 Markdown 或 JSON 结构"
+            className="min-h-[240px] font-mono text-sm"
+            aria-invalid={Boolean(jsonError)}
+            disabled={disabled}
+          />
+          {jsonError && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+                <span>
+                  JSON 格式错误：第 {jsonError.line} 行，第 {jsonError.column} 列。{jsonError.message}
+                </span>
+                <Button type="button" variant="outline" size="sm" onClick={handleLocateError}>
+                  定位到错误
+                </Button>
+              </AlertDescription>
+            </Alert>
+          )}
+          {isMarkdown && (
+            <div className="text-muted-foreground flex flex-wrap items-center justify-between gap-2 text-xs">
+              <span>当前为 Markdown 文本，可按标题层级转换为结构化大纲。</span>
+              <Button type="button" variant="outline" size="sm" onClick={handleConvertMarkdown} disabled={disabled}>
+                转换为结构化大纲
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+"use client";
+
+import * as React from "react";
+import {
+  DndContext,
+  KeyboardSensor,
+  MouseSensor,
+  TouchSensor,
+  closestCenter,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from "@dnd-kit/core";
+import { restrictToVerticalAxis } from "@dnd-kit/modifiers";
+import { SortableContext, arrayMove, useSortable, verticalListSortingStrategy } from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { ChevronDown, ChevronRight, GripVertical, Plus, StickyNote, Trash2 } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+
+import {
+  OUTLINE_LEVEL_LABELS,
+  OutlineDocument,
+  OutlineNode,
+  createOutlineNode,
+  getDefaultChildKey,
+  removeOutlineNode,
+  updateOutlineNode,
+} from "./outline-utils";
+
+interface OutlineTreeEditorProps {
+  value: OutlineDocument;
+  onChange: (value: OutlineDocument) => void;
+  disabled?: boolean;
+}
+
+interface TreeActions {
+  updateNode: (id: string, updater: (node: OutlineNode) => OutlineNode) => void;
+  removeNode: (id: string) => void;
+  reorder: (parentId: string | null, activeId: string, overId: string) => void;
+  disabled?: boolean;
+}
+
+const TreeActionsContext = React.createContext<TreeActions | null>(null);
+
+const useTreeActions = () => {
+  const actions = React.useContext(TreeActionsContext);
+  if (!actions) throw new Error("useTreeActions must be used within OutlineTreeEditor");
+  return actions;
+};
+
+function OutlineNodeList({
+  nodes,
+  parentId,
+  levelKey,
+  depth,
+}: {
+  nodes: OutlineNode[];
+  parentId: string | null;
+  levelKey?: string;
+  depth: number;
+}) {
+  const { reorder } = useTreeActions();
+  const sensors = useSensors(useSensor(MouseSensor, {}), useSensor(TouchSensor, {}), useSensor(KeyboardSensor, {}));
+  const ids = React.useMemo(() => nodes.map((node) => node.id), [nodes]);
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (over && active.id !== over.id) {
+      reorder(parentId, String(active.id), String(over.id));
+    }
+  };
+
+  return (
+    <DndContext
+      collisionDetection={closestCenter}
+      modifiers={[restrictToVerticalAxis]}
+      onDragEnd={handleDragEnd}
+      sensors={sensors}
+      id={`outline-tree-${parentId ?? "root"}`}
+    >
+      <SortableContext items={ids} strategy={verticalListSortingStrategy}>
+        <div className="space-y-2">
+          {nodes.map((node, index) => (
+            <OutlineNodeItem key={node.id} node={node} index={index} levelKey={levelKey} depth={depth} />
+          ))}
+        </div>
+      </SortableContext>
+    </DndContext>
+  );
+}
+
+function OutlineNodeItem({
+  node,
+  index,
+  levelKey,
+  depth,
+}: {
+  node: OutlineNode;
+  index: number;
+  levelKey?: string;
+  depth: number;
+}) {
+  const { updateNode, removeNode, disabled } = useTreeActions();
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: node.id });
+  const [collapsed, setCollapsed] = React.useState(false);
+  const [showNote, setShowNote] = React.useState(Boolean(node.note));
+
+  const levelLabel = (levelKey && OUTLINE_LEVEL_LABELS[levelKey]) || "节点";
+  const childLevelKey = node.childKey ?? getDefaultChildKey(depth + 1);
+
+  const handleAddChild = () => {
+    updateNode(node.id, (current) => ({
+      ...current,
+      plain: false,
+      childKey: current.childKey ?? childLevelKey,
+      children: [...current.children, createOutlineNode()],
+    }));
+    setCollapsed(false);
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      data-dragging={isDragging}
+      className="bg-background relative z-0 rounded-md border data-[dragging=true]:z-10 data-[dragging=true]:opacity-80"
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+    >
+      <div className="flex items-center gap-1 p-2">
+        <Button
+          {...attributes}
+          {...listeners}
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="text-muted-foreground size-7 cursor-grab hover:bg-transparent"
+          disabled={disabled}
+        >
+          <GripVertical className="size-3" />
+          <span className="sr-only">拖动排序</span>
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="size-7"
+          onClick={() => setCollapsed((prev) => !prev)}
+        >
+          {collapsed ? <ChevronRight className="size-4" /> : <ChevronDown className="size-4" />}
+          <span className="sr-only">{collapsed ? "展开" : "折叠"}</span>
+        </Button>
+        <Badge variant="outline" className="shrink-0">
+          {levelLabel} {index + 1}
+        </Badge>
+        <Input
+          value={node.title}
+          onChange={(event) => updateNode(node.id, (current) => ({ ...current, title: event.target.value }))}
+          placeholder={`${levelLabel}标题`}
+          className="h-8 flex-1"
+          disabled={disabled}
+        />
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className={cn("size-7", (showNote || node.note) && "text-primary")}
+          onClick={() => setShowNote((prev) => !prev)}
+          title="批注"
+        >
+          <StickyNote className="size-4" />
+          <span className="sr-only">批注</span>
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="size-7"
+          onClick={handleAddChild}
+          disabled={disabled}
+          title={`添加${OUTLINE_LEVEL_LABELS[childLevelKey] ?? "子节点"}`}
+        >
+          <Plus className="size-4" />
+          <span className="sr-only">添加子节点</span>
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="text-destructive size-7"
+          onClick={() => removeNode(node.id)}
+          disabled={disabled}
+          title="删除"
+        >
+          <Trash2 className="size-4" />
+          <span className="sr-only">删除</span>
+        </Button>
+      </div>
+
+      {!collapsed && (
+        <div className="space-y-2 px-3 pb-3 pl-10">
+          <Textarea
+            value={node.summary}
+            onChange={(event) => updateNode(node.id, (current) => ({ ...current, summary: event.target.value }))}
+            placeholder="内容概要"
+            className="min-h-16 text-sm"
+            disabled={disabled}
+          />
+          {(showNote || node.note) && (
+            <Textarea
+              value={node.note}
+              onChange={(event) => updateNode(node.id, (current) => ({ ...current, note: event.target.value }))}
+              placeholder="批注：记录修改意见或创作备忘"
+              className="min-h-12 border-amber-500/40 bg-amber-500/5 text-sm"
+              disabled={disabled}
+            />
+          )}
+          {node.children.length > 0 && (
+            <OutlineNodeList nodes={node.children} parentId={node.id} levelKey={childLevelKey} depth={depth + 1} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function OutlineTreeEditor({ value, onChange, disabled }: OutlineTreeEditorProps) {
+  const valueRef = React.useRef(value);
+  valueRef.current = value;
+
+  const actions = React.useMemo<TreeActions>(() => {
+    const commit = (nodes: OutlineNode[]) => onChange({ ...valueRef.current, nodes });
+    return {
+      disabled,
+      updateNode: (id, updater) => commit(updateOutlineNode(valueRef.current.nodes, id, updater)),
+      removeNode: (id) => commit(removeOutlineNode(valueRef.current.nodes, id)),
+      reorder: (parentId, activeId, overId) => {
+        const move = (list: OutlineNode[]) => {
+          const oldIndex = list.findIndex((node) => node.id === activeId);
+          const newIndex = list.findIndex((node) => node.id === overId);
+          return oldIndex < 0 || newIndex < 0 ? list : arrayMove(list, oldIndex, newIndex);
+        };
+        if (!parentId) {
+          commit(move(valueRef.current.nodes));
+          return;
+        }
+        commit(
+          updateOutlineNode(valueRef.current.nodes, parentId, (node) => ({ ...node, children: move(node.children) })),
+        );
+      },
+    };
+  }, [disabled, onChange]);
+
+  const rootLevelKey = value.rootKey ?? getDefaultChildKey(0);
+
+  return (
+    <TreeActionsContext.Provider value={actions}>
+      <div className="space-y-3">
+        {value.nodes.length ? (
+          <OutlineNodeList nodes={value.nodes} parentId={null} levelKey={rootLevelKey} depth={0} />
+        ) : (
+          <p className="text-muted-foreground rounded-md border border-dashed p-4 text-center text-sm">
+            大纲暂无内容，点击下方按钮添加第一个{OUTLINE_LEVEL_LABELS[rootLevelKey] ?? "节点"}。
+          </p>
+        )}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...value, nodes: [...value.nodes, createOutlineNode()] })}
+          disabled={disabled}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          添加{OUTLINE_LEVEL_LABELS[rootLevelKey] ?? "节点"}
+        </Button>
+      </div>
+    </TreeActionsContext.Provider>
+  );
+}
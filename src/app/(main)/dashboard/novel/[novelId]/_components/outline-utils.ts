@@ -0,0 +1,348 @@
+// 大纲内容相关的纯函数工具
+
+// 大纲多为 JSON 结构，展示与对比前统一格式化为缩进形式
+export const formatOutlineContent = (content?: string) => {
+  if (!content) {
+    return "";
+  }
+
+  try {
+    return JSON.stringify(JSON.parse(content), null, 2);
+  } catch {
+    return content;
+  }
+};
+
+// ============ JSON 校验（带出错位置） ============
+
+export type JsonParseResult =
+  | { ok: true; value: unknown }
+  | { ok: false; message: string; line: number; column: number; offset: number };
+
+export const looksLikeJson = (text: string) => /^\s*[[{]/.test(text);
+
+const offsetToLocation = (text: string, offset: number) => {
+  const before = text.slice(0, offset).split("\n");
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+};
+
+const locationToOffset = (text: string, line: number, column: number) => {
+  const lines = text.split("\n").slice(0, line - 1);
+  return lines.reduce((acc, item) => acc + item.length + 1, 0) + column - 1;
+};
+
+/**
+ * 解析 JSON，失败时从引擎报错中提取出错的行列位置
+ * 兼容 V8（at position N / line X column Y）与 Firefox（at line X column Y）两种报错格式
+ */
+export function parseJsonWithLocation(text: string): JsonParseResult {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const lineColumn = /line (\d+) column (\d+)/.exec(message);
+    if (lineColumn) {
+      const line = Number(lineColumn[1]);
+      const column = Number(lineColumn[2]);
+      return { ok: false, message, line, column, offset: locationToOffset(text, line, column) };
+    }
+    const position = /position (\d+)/.exec(message);
+    const offset = position ? Number(position[1]) : text.length;
+    return { ok: false, message, offset, ...offsetToLocation(text, offset) };
+  }
+}
+
+/**
+ * 保存前校验大纲内容：以 { 或 [ 开头的内容必须是合法 JSON，Markdown 文本不做限制
+ */
+export function getOutlineContentError(text: string): string | null {
+  if (!looksLikeJson(text)) return null;
+  const result = parseJsonWithLocation(text);
+  return result.ok ? null : `大纲 JSON 格式错误（第 ${result.line} 行，第 ${result.column} 列）`;
+}
+
+// ============ 结构化大纲树 ============
+
+export interface OutlineNode {
+  id: string;
+  title: string;
+  summary: string;
+  note: string;
+  children: OutlineNode[];
+  // 子节点在原始对象中的字段名，如 chapters / beats
+  childKey?: string;
+  // 原始字段名，保证回写时与生成结果保持一致
+  keys: { title: string; summary: string; note: string };
+  // 原始对象中未识别的字段，序列化时原样写回
+  extra: Record<string, unknown>;
+  // 原始字段顺序，避免每次保存都产生无意义的差异
+  keyOrder?: string[];
+  // 原始数据为纯字符串（常见于节拍列表）
+  plain?: boolean;
+}
+
+export interface OutlineDocument {
+  nodes: OutlineNode[];
+  // 根节点列表所在字段；为空表示 JSON 根即数组
+  rootKey?: string;
+  rootExtra: Record<string, unknown>;
+}
+
+const CHILD_KEYS = ["acts", "volumes", "chapters", "scenes", "beats", "sections", "children"];
+const TITLE_KEYS = ["title", "name", "heading"];
+const SUMMARY_KEYS = ["summary", "description", "synopsis", "content"];
+const NOTE_KEYS = ["note", "notes", "annotation"];
+
+// 新增子层级时按深度选用的默认字段名：幕 → 章 → 节拍
+const DEFAULT_CHILD_KEYS = ["acts", "chapters", "beats"];
+
+export const OUTLINE_LEVEL_LABELS: Record<string, string> = {
+  acts: "幕",
+  volumes: "卷",
+  chapters: "章",
+  scenes: "场景",
+  beats: "节拍",
+  sections: "小节",
+  children: "节点",
+};
+
+let nodeSeed = 0;
+export const createOutlineNodeId = () => `outline-node-${Date.now().toString(36)}-${nodeSeed++}`;
+
+export const getDefaultChildKey = (depth: number) => DEFAULT_CHILD_KEYS[depth] ?? "children";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const pickKey = (record: Record<string, unknown>, candidates: string[], fallback: string) =>
+  candidates.find((key) => typeof record[key] === "string") ?? fallback;
+
+export function createOutlineNode(title = ""): OutlineNode {
+  return {
+    id: createOutlineNodeId(),
+    title,
+    summary: "",
+    note: "",
+    children: [],
+    keys: { title: "title", summary: "summary", note: "note" },
+    extra: {},
+  };
+}
+
+function toOutlineNode(value: unknown): OutlineNode {
+  if (!isRecord(value)) {
+    return { ...createOutlineNode(value === null || value === undefined ? "" : String(value)), plain: true };
+  }
+
+  const keys = {
+    title: pickKey(value, TITLE_KEYS, "title"),
+    summary: pickKey(value, SUMMARY_KEYS, "summary"),
+    note: pickKey(value, NOTE_KEYS, "note"),
+  };
+  const readText = (key: string) => (typeof value[key] === "string" ? value[key] : "");
+  const textKeys = Object.values(keys).filter((key) => typeof value[key] === "string");
+  const childKey = CHILD_KEYS.find((key) => Array.isArray(value[key]));
+  const extra: Record<string, unknown> = {};
+  Object.entries(value).forEach(([key, item]) => {
+    if (key === childKey || textKeys.includes(key)) return;
+    extra[key] = item;
+  });
+
+  return {
+    id: createOutlineNodeId(),
+    title: readText(keys.title),
+    summary: readText(keys.summary),
+    note: readText(keys.note),
+    children: childKey ? (value[childKey] as unknown[]).map(toOutlineNode) : [],
+    childKey,
+    keys,
+    extra,
+    keyOrder: Object.keys(value),
+  };
+}
+
+/**
+ * 将已解析的 JSON 转换为可编辑的大纲树
+ */
+export function toOutlineDocument(value: unknown): OutlineDocument {
+  if (Array.isArray(value)) {
+    return { nodes: value.map(toOutlineNode), rootExtra: {} };
+  }
+  if (!isRecord(value)) {
+    return { nodes: [], rootKey: getDefaultChildKey(0), rootExtra: {} };
+  }
+  const rootKey = CHILD_KEYS.find((key) => Array.isArray(value[key])) ?? getDefaultChildKey(0);
+  const rootExtra = { ...value };
+  delete rootExtra[rootKey];
+  const items = Array.isArray(value[rootKey]) ? (value[rootKey] as unknown[]) : [];
+  return { nodes: items.map(toOutlineNode), rootKey, rootExtra };
+}
+
+/**
+ * 将 Markdown 标题层级转换为大纲树，标题下的正文并入摘要
+ */
+export function outlineFromMarkdown(text: string): OutlineDocument {
+  const root: OutlineNode[] = [];
+  const stack: Array<{ level: number; node: OutlineNode }> = [];
+
+  text.split("\n").forEach((line) => {
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line.trim());
+    if (heading) {
+      const level = heading[1].length;
+      const node = createOutlineNode(heading[2].trim());
+      while (stack.length && stack[stack.length - 1].level >= level) stack.pop();
+      const parent = stack[stack.length - 1]?.node;
+      if (parent) {
+        parent.childKey = parent.childKey ?? getDefaultChildKey(stack.length);
+        parent.children.push(node);
+      } else {
+        root.push(node);
+      }
+      stack.push({ level, node });
+      return;
+    }
+    const current = stack[stack.length - 1]?.node;
+    if (current && line.trim()) {
+      current.summary = current.summary ? `${current.summary}\n${line.trim()}` : line.trim();
+    }
+  });
+
+  return { nodes: root, rootKey: getDefaultChildKey(0), rootExtra: {} };
+}
+
+function fromOutlineNode(node: OutlineNode): unknown {
+  const hasDetail = node.summary || node.note || node.children.length || Object.keys(node.extra).length;
+  if (node.plain && !hasDetail) {
+    return node.title;
+  }
+  const fields: Record<string, unknown> = { ...node.extra, [node.keys.title]: node.title };
+  if (node.summary) fields[node.keys.summary] = node.summary;
+  if (node.note) fields[node.keys.note] = node.note;
+  if (node.children.length) {
+    fields[node.childKey ?? "children"] = node.children.map(fromOutlineNode);
+  }
+  // 先按原始顺序输出已有字段，新增字段追加在末尾
+  const order = [...(node.keyOrder ?? []), node.keys.title, node.keys.summary, node.keys.note];
+  const result: Record<string, unknown> = {};
+  [...order, ...Object.keys(fields)].forEach((key) => {
+    if (key in fields && !(key in result)) result[key] = fields[key];
+  });
+  return result;
+}
+
+/**
+ * 大纲树序列化为格式化后的 JSON 文本
+ */
+export function serializeOutlineDocument(doc: OutlineDocument): string {
+  const nodes = doc.nodes.map(fromOutlineNode);
+  const value = doc.rootKey ? { ...doc.rootExtra, [doc.rootKey]: nodes } : nodes;
+  return JSON.stringify(value, null, 2);
+}
+
+// ============ 树的不可变更新 ============
+
+export function updateOutlineNode(
+  nodes: OutlineNode[],
+  id: string,
+  updater: (node: OutlineNode) => OutlineNode,
+): OutlineNode[] {
+  return nodes.map((node) => {
+    if (node.id === id) return updater(node);
+    if (!node.children.length) return node;
+    return { ...node, children: updateOutlineNode(node.children, id, updater) };
+  });
+}
+
+export function removeOutlineNode(nodes: OutlineNode[], id: string): OutlineNode[] {
+  return nodes
+    .filter((node) => node.id !== id)
+    .map((node) => (node.children.length ? { ...node, children: removeOutlineNode(node.children, id) } : node));
+}
+
+export function countOutlineNodes(nodes: OutlineNode[]): number {
+  return nodes.reduce((acc, node) => acc + 1 + countOutlineNodes(node.children), 0);
+}
+
+// ============ 大纲章节（供正文生成选择） ============
+
+export interface OutlineChapter {
+  // 在大纲树中的位置，如 "0.2"，用于稳定标识所选章节
+  key: string;
+  title: string;
+  summary: string;
+  // 大纲中标注的出场人物（characters / roles 字段）
+  characterNames: string[];
+}
+
+const CHARACTER_KEYS = ["characters", "roles", "cast"];
+
+const readCharacterNames = (extra: Record<string, unknown>) => {
+  const key = CHARACTER_KEYS.find((item) => Array.isArray(extra[item]));
+  if (!key) return [];
+  return (extra[key] as unknown[])
+    .map((item) => (isRecord(item) ? (item.name ?? item.title) : item))
+    .filter((item): item is string => typeof item === "string" && Boolean(item.trim()));
+};
+
+/**
+ * 提取大纲中的章节：优先取 chapters 层级的节点，大纲没有该层级时取根节点
+ */
+export function getOutlineChapters(content?: string): OutlineChapter[] {
+  if (!content?.trim()) return [];
+  const parsed = looksLikeJson(content) ? parseJsonWithLocation(content) : null;
+  const doc = parsed ? (parsed.ok ? toOutlineDocument(parsed.value) : null) : outlineFromMarkdown(content);
+  if (!doc) return [];
+
+  const toChapter = (node: OutlineNode, key: string): OutlineChapter => ({
+    key,
+    title: node.title,
+    summary: node.summary,
+    characterNames: readCharacterNames(node.extra),
+  });
+
+  const chapters: OutlineChapter[] = [];
+  const walk = (nodes: OutlineNode[], childKey: string | undefined, path: string) => {
+    nodes.forEach((node, index) => {
+      const key = path ? `${path}.${index}` : String(index);
+      if (childKey === "chapters") {
+        chapters.push(toChapter(node, key));
+        return;
+      }
+      walk(node.children, node.childKey, key);
+    });
+  };
+  walk(doc.nodes, doc.rootKey, "");
+
+  return chapters.length ? chapters : doc.nodes.map((node, index) => toChapter(node, String(index)));
+}
+
+// ============ 大纲导出 ============
+
+const outlineNodeToMarkdown = (node: OutlineNode, depth: number): string[] => {
+  const title = node.title || "未命名节点";
+  const detail = [node.summary, node.note && `备注：${node.note}`].filter(Boolean);
+  // 前两层输出为标题，更深的层级输出为列表
+  if (depth < 2) {
+    return [
+      `${"#".repeat(depth + 1)} ${title}`,
+      ...detail,
+      ...node.children.flatMap((child) => outlineNodeToMarkdown(child, depth + 1)),
+    ];
+  }
+  const indent = "  ".repeat(depth - 2);
+  const line = `${indent}- **${title}**${detail.length ? `：${detail.join(" ").replace(/\n+/g, " ")}` : ""}`;
+  return [[line, ...node.children.flatMap((child) => outlineNodeToMarkdown(child, depth + 1))].join("\n")];
+};
+
+/**
+ * 大纲转换为 Markdown 文本，用于导出附录；本身为 Markdown 的大纲原样返回
+ */
+export function outlineToMarkdown(content?: string): string {
+  if (!content?.trim()) return "";
+  if (!looksLikeJson(content)) return content.trim();
+  const parsed = parseJsonWithLocation(content);
+  if (!parsed.ok) return content.trim();
+  return toOutlineDocument(parsed.value)
+    .nodes.flatMap((node) => outlineNodeToMarkdown(node, 0))
+    .join("\n\n");
+}
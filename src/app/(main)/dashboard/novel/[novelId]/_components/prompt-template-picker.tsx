@@ -0,0 +1,245 @@
+"use client";
+
+import * as React from "react";
+import useSWR from "swr";
+import { toast } from "sonner";
+import { BookmarkPlus, Share2, Trash2 } from "lucide-react";
+
+import { fetchWithAuth } from "@/utils/fetch-with-auth";
+import { useAuthStore } from "@/stores/auth/auth-store";
+import { CreatePromptTemplateRequest, PromptTemplate, UpdatePromptTemplateRequest } from "@/types/prompt-template";
+import { TaskType } from "@/types/work";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: unknown;
+}
+
+interface PromptTemplatePickerProps {
+  type: TaskType;
+  // 当前输入框中的提示词，用于“存为模板”
+  prompt: string;
+  onApply: (content: string) => void;
+  disabled?: boolean;
+}
+
+const TEMPLATE_ENDPOINT = "/api/v1/novels/prompt-templates";
+
+const fetcher = async (url: string) => {
+  const res = await fetchWithAuth(url);
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    const message = errorData?.message?.message || `获取提示词模板失败: ${res.status} ${res.statusText}`;
+    throw new Error(message);
+  }
+  const json = (await res.json()) as ApiResponse<PromptTemplate[]>;
+  return json?.success ? json.data : (json as unknown as PromptTemplate[]);
+};
+
+const requestTemplate = async (url: string, init: RequestInit, action: string) => {
+  const res = await fetchWithAuth(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init.headers },
+  });
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    const message = errorData?.message?.message || `${action}失败: ${res.status} ${res.statusText}`;
+    throw new Error(message);
+  }
+};
+
+export function PromptTemplatePicker({ type, prompt, onApply, disabled }: PromptTemplatePickerProps) {
+  const user = useAuthStore((state) => state.user);
+  const { data: templates = [], mutate } = useSWR<PromptTemplate[]>(
+    `${TEMPLATE_ENDPOINT}?type=${encodeURIComponent(type)}`,
+    fetcher,
+    { revalidateOnFocus: false },
+  );
+
+  const [selectedId, setSelectedId] = React.useState<string>("");
+  const [isSaveOpen, setIsSaveOpen] = React.useState(false);
+  const [name, setName] = React.useState("");
+  const [shared, setShared] = React.useState(false);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  const selected = templates.find((template) => template.templateId === selectedId);
+  // 共享模板对所有成员可见，但只有创建者可以修改
+  const isOwner = Boolean(selected && user && selected.createdBy === user.userId);
+
+  const handleSelect = (templateId: string) => {
+    setSelectedId(templateId);
+    const template = templates.find((item) => item.templateId === templateId);
+    if (template) onApply(template.content);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error("请填写模板名称");
+      return;
+    }
+    const payload: CreatePromptTemplateRequest = { name: name.trim(), type, content: prompt, shared };
+    try {
+      setIsSubmitting(true);
+      await requestTemplate(TEMPLATE_ENDPOINT, { method: "POST", body: JSON.stringify(payload) }, "保存模板");
+      toast.success(shared ? "模板已保存并共享给团队" : "模板已保存");
+      setIsSaveOpen(false);
+      await mutate();
+    } catch (saveError) {
+      toast.error(saveError instanceof Error ? saveError.message : "保存模板失败");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleToggleShared = async () => {
+    if (!selected) return;
+    const payload: UpdatePromptTemplateRequest = { shared: !selected.shared };
+    try {
+      await requestTemplate(
+        `${TEMPLATE_ENDPOINT}/${selected.templateId}`,
+        { method: "PUT", body: JSON.stringify(payload) },
+        "更新模板",
+      );
+      toast.success(payload.shared ? "模板已共享给团队" : "已取消共享");
+      await mutate();
+    } catch (updateError) {
+      toast.error(updateError instanceof Error ? updateError.message : "更新模板失败");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    try {
+      await requestTemplate(`${TEMPLATE_ENDPOINT}/${selected.templateId}`, { method: "DELETE" }, "删除模板");
+      toast.success("模板已删除");
+      setSelectedId("");
+      await mutate();
+    } catch (deleteError) {
+      toast.error(deleteError instanceof Error ? deleteError.message : "删除模板失败");
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <Label>提示词模板</Label>
+      <div className="flex items-center gap-2">
+        <Select value={selectedId} onValueChange={handleSelect} disabled={disabled || !templates.length}>
+          <SelectTrigger className="min-w-0 flex-1">
+            <SelectValue placeholder={templates.length ? "选择模板填入提示词" : "暂无模板"} />
+          </SelectTrigger>
+          <SelectContent>
+            {templates.map((template) => (
+              <SelectItem key={template.templateId} value={template.templateId}>
+                {template.name}
+                {template.shared && <span className="text-muted-foreground ml-1 text-xs">（团队）</span>}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {isOwner && (
+          <>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className={selected?.shared ? "text-primary" : undefined}
+              onClick={handleToggleShared}
+              title={selected?.shared ? "取消共享" : "共享给团队"}
+              disabled={disabled}
+            >
+              <Share2 className="h-4 w-4" />
+              <span className="sr-only">{selected?.shared ? "取消共享" : "共享给团队"}</span>
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="text-destructive"
+              onClick={handleDelete}
+              title="删除模板"
+              disabled={disabled}
+            >
+              <Trash2 className="h-4 w-4" />
+              <span className="sr-only">删除模板</span>
+            </Button>
+          </>
+        )}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            setName("");
+            setShared(false);
+            setIsSaveOpen(true);
+          }}
+          disabled={disabled || !prompt.trim()}
+        >
+          <BookmarkPlus className="mr-1 h-4 w-4" />
+          存为模板
+        </Button>
+      </div>
+      {selected && (
+        <p className="text-muted-foreground text-xs">
+          {selected.shared ? "团队共享模板" : "个人模板"}
+          {selected.createdByName && ` · 创建人：${selected.createdByName}`}
+        </p>
+      )}
+
+      <Dialog open={isSaveOpen} onOpenChange={(open) => !isSubmitting && setIsSaveOpen(open)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>保存为提示词模板</DialogTitle>
+            <DialogDescription>模板中的 {"{{变量}}"} 会在使用时替换为当前作品的信息。</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="prompt-template-name">模板名称</Label>
+              <Input
+                id="prompt-template-name"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                placeholder="例如：东方玄幻世界观"
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="prompt-template-shared">共享给团队</Label>
+                <p className="text-muted-foreground text-xs">开启后团队成员都可以使用该模板。</p>
+              </div>
+              <Switch
+                id="prompt-template-shared"
+                checked={shared}
+                onCheckedChange={setShared}
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsSaveOpen(false)} disabled={isSubmitting}>
+              取消
+            </Button>
+            <Button onClick={handleSave} disabled={isSubmitting}>
+              {isSubmitting ? "保存中..." : "保存模板"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+// 提示词模板变量与最近使用记录
+
+import { Work } from "@/types/work";
+
+export type PromptVariableKey = "title" | "description" | "publishedWorldbuilding" | "publishedOutline";
+
+export type PromptVariableValues = Record<PromptVariableKey, string>;
+
+export const PROMPT_VARIABLES: Array<{ key: PromptVariableKey; label: string }> = [
+  { key: "title", label: "作品标题" },
+  { key: "description", label: "作品描述" },
+  { key: "publishedWorldbuilding", label: "已发布世界观" },
+  { key: "publishedOutline", label: "已发布大纲" },
+];
+
+const VARIABLE_RE = /\{\{\s*(\w+)\s*\}\}/g;
+
+export const buildPromptVariables = (
+  work?: Work | null,
+  extra?: Partial<PromptVariableValues>,
+): PromptVariableValues => ({
+  title: work?.title ?? "",
+  description: work?.description ?? "",
+  publishedWorldbuilding: extra?.publishedWorldbuilding ?? "",
+  publishedOutline: extra?.publishedOutline ?? "",
+});
+
+/**
+ * 用当前作品信息替换模板中的 {{变量}}，未知变量原样保留
+ */
+export function fillPromptTemplate(content: string, values: PromptVariableValues): string {
+  return content.replace(VARIABLE_RE, (raw, key: string) => (key in values ? values[key as PromptVariableKey] : raw));
+}
+
+// 模板中引用了但当前没有值的变量，用于提示用户
+export function getEmptyPromptVariables(content: string, values: PromptVariableValues): string[] {
+  const keys = new Set<string>();
+  for (const match of content.matchAll(VARIABLE_RE)) {
+    const key = match[1] as PromptVariableKey;
+    if (key in values && !values[key].trim()) keys.add(key);
+  }
+  return PROMPT_VARIABLES.filter((item) => keys.has(item.key)).map((item) => item.label);
+}
+
+// ============ 最近使用的提示词（按作品与生成类型存储在本地） ============
+
+const RECENT_PROMPT_LIMIT = 10;
+
+const getRecentPromptKey = (novelId: string, type: string) => `recentPrompts:${novelId}:${type}`;
+
+export function getRecentPrompts(novelId: string, type: string): string[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const raw = localStorage.getItem(getRecentPromptKey(novelId, type));
+    const list = raw ? (JSON.parse(raw) as unknown) : [];
+    return Array.isArray(list) ? list.filter((item): item is string => typeof item === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+export function addRecentPrompt(novelId: string, type: string, prompt: string): string[] {
+  const next = [prompt, ...getRecentPrompts(novelId, type).filter((item) => item !== prompt)].slice(
+    0,
+    RECENT_PROMPT_LIMIT,
+  );
+  try {
+    localStorage.setItem(getRecentPromptKey(novelId, type), JSON.stringify(next));
+  } catch {
+    // 存储空间不足时忽略，不影响生成
+  }
+  return next;
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import * as React from "react";
+import { useSWRConfig } from "swr";
+import { toast } from "sonner";
+import { CircleCheck, Crosshair, Wrench } from "lucide-react";
+
+import {
+  deleteRelationshipEvent,
+  getCurrentRelationshipsKey,
+  getRelationshipEventsKey,
+  recomputeCurrentRelationship,
+  updateRelationshipEvent,
+} from "@/hooks/use-novel-relationships";
+import {
+  checkRelationshipConsistency,
+  CONSISTENCY_ISSUE_LABEL,
+  ConsistencyFix,
+  ConsistencyIssue,
+  ConsistencyIssueType,
+} from "@/lib/relationship-consistency";
+import { Chapter } from "@/types/chapter";
+import {
+  Character,
+  CharacterRelationshipCurrent,
+  CharacterRelationshipHistoryEvent,
+  RelationshipType,
+} from "@/types/work";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+const ISSUE_ORDER = Object.keys(CONSISTENCY_ISSUE_LABEL) as ConsistencyIssueType[];
+
+const FIX_LABEL: Record<ConsistencyFix["kind"], string> = {
+  "update-prev": "修正原关系",
+  "delete-event": "删除事件",
+  "recompute-pair": "按事件重算",
+};
+
+interface RelationshipConsistencyReportProps {
+  novelId: string;
+  events: CharacterRelationshipHistoryEvent[];
+  chapters: Chapter[];
+  characters: Character[];
+  relationships: CharacterRelationshipCurrent[];
+  relationshipTypes: RelationshipType[];
+  // 在关系时间线中定位到该事件
+  onLocate: (eventId: string) => void;
+}
+
+/**
+ * 作品人物关系的一致性报告：每条问题可一键修复或定位到对应事件
+ */
+export function RelationshipConsistencyReport({
+  novelId,
+  events,
+  chapters,
+  characters,
+  relationships,
+  relationshipTypes,
+  onLocate,
+}: RelationshipConsistencyReportProps) {
+  const { mutate } = useSWRConfig();
+  const [fixingId, setFixingId] = React.useState<string | null>(null);
+
+  const issues = React.useMemo(
+    () => checkRelationshipConsistency({ novelId, events, chapters, characters, relationships, relationshipTypes }),
+    [novelId, events, chapters, characters, relationships, relationshipTypes],
+  );
+  const sorted = React.useMemo(
+    () => [...issues].sort((a, b) => ISSUE_ORDER.indexOf(a.type) - ISSUE_ORDER.indexOf(b.type)),
+    [issues],
+  );
+  const counts = ISSUE_ORDER.map((type) => ({ type, count: issues.filter((issue) => issue.type === type).length }));
+
+  const requestFix = (fix: ConsistencyFix) => {
+    if (fix.kind === "update-prev") {
+      return updateRelationshipEvent(fix.eventId, {
+        prevRelType: fix.prevRelType,
+        correctionNote: "一致性检查：按此前的关系修正原关系",
+      });
+    }
+    if (fix.kind === "delete-event") {
+      return deleteRelationshipEvent(fix.eventId, "一致性检查：删除重复或跨作品的事件");
+    }
+    return recomputeCurrentRelationship({ novelId, characterAId: fix.characterAId, characterBId: fix.characterBId });
+  };
+
+  const handleFix = async (issue: ConsistencyIssue) => {
+    const { fix } = issue;
+    if (!fix) return;
+    if (fix.kind === "delete-event" && !confirm("确定删除该关系事件吗？删除后将重新计算这对人物的当前关系。")) return;
+    setFixingId(issue.id);
+    try {
+      const res = await requestFix(fix);
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        const message = errorData?.message?.message || `${FIX_LABEL[fix.kind]}失败: ${res.status} ${res.statusText}`;
+        throw new Error(message);
+      }
+      // 修正或删除事件后按剩余事件重算该对人物的当前关系
+      const event = "eventId" in fix ? events.find((item) => item.eventId === fix.eventId) : undefined;
+      const recomputed = event
+        ? await recomputeCurrentRelationship({
+            novelId,
+            characterAId: event.characterAId,
+            characterBId: event.characterBId,
+          })
+        : null;
+      mutate(getRelationshipEventsKey(novelId));
+      mutate(getCurrentRelationshipsKey(novelId));
+      if (recomputed && !recomputed.ok) throw new Error(`已${FIX_LABEL[fix.kind]}，但重新计算当前关系失败，请稍后重试`);
+      toast.success(`已${FIX_LABEL[fix.kind]}`);
+    } catch (fixError) {
+      toast.error(fixError instanceof Error ? fixError.message : `${FIX_LABEL[fix.kind]}失败`);
+    } finally {
+      setFixingId(null);
+    }
+  };
+
+  return (
+    <Card className="shadow-xs">
+      <CardHeader>
+        <CardTitle>关系一致性检查</CardTitle>
+        <CardDescription>
+          按发生时间回放本作品的关系事件，检查前后矛盾、重复、跨作品人物与双向不一致的记录。
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {issues.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {counts
+              .filter((item) => item.count)
+              .map((item) => (
+                <Badge key={item.type} variant="outline">
+                  {CONSISTENCY_ISSUE_LABEL[item.type]} {item.count}
+                </Badge>
+              ))}
+          </div>
+        )}
+        {sorted.length ? (
+          <ul className="divide-y rounded-md border">
+            {sorted.map((issue) => (
+              <li key={issue.id} className="flex flex-col gap-2 p-3 md:flex-row md:items-center md:justify-between">
+                <div className="flex min-w-0 items-start gap-2 text-sm">
+                  <Badge variant={issue.type === "order" ? "outline" : "secondary"} className="shrink-0">
+                    {CONSISTENCY_ISSUE_LABEL[issue.type]}
+                  </Badge>
+                  <span>{issue.message}</span>
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  {issue.eventId && (
+                    <Button size="sm" variant="ghost" onClick={() => onLocate(issue.eventId as string)}>
+                      <Crosshair className="mr-1 h-4 w-4" />
+                      定位
+                    </Button>
+                  )}
+                  {issue.fix && (
+                    <Button
+                      size="sm"
+                      variant={issue.fix.kind === "delete-event" ? "destructive" : "outline"}
+                      onClick={() => handleFix(issue)}
+                      disabled={Boolean(fixingId)}
+                    >
+                      <Wrench className="mr-1 h-4 w-4" />
+                      {fixingId === issue.id ? "处理中..." : FIX_LABEL[issue.fix.kind]}
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-muted-foreground flex items-center gap-2 text-sm">
+            <CircleCheck className="h-4 w-4 text-emerald-600" />
+            未发现问题，共检查 {events.length} 条关系事件。
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import * as React from "react";
+import { ArrowRight, ChevronLeft, ChevronRight, Pause, Play } from "lucide-react";
+
+import {
+  RELATIONSHIP_TIMELINE_MODE_LABEL,
+  RelationshipTimelineMode,
+  RelationshipTimelineStep,
+} from "@/lib/relationship-timeline";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+
+// 自动播放时每一步停留的时间
+const PLAY_INTERVAL_MS = 1500;
+
+interface RelationshipTimelineBarProps {
+  mode: RelationshipTimelineMode;
+  onModeChange: (mode: RelationshipTimelineMode) => void;
+  steps: RelationshipTimelineStep[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  // 章节模式下无法归入章节、因此不参与回放的事件数
+  unplaced: number;
+  nameOf: (characterId: string) => string;
+  // 从一致性报告定位的事件，在列表中突出显示
+  focusedEventId?: string | null;
+}
+
+/**
+ * 关系时间线拖动条：切换回放的章节/日期，并列出当前这一步发生的关系变化
+ */
+export function RelationshipTimelineBar({
+  mode,
+  onModeChange,
+  steps,
+  index,
+  onIndexChange,
+  unplaced,
+  nameOf,
+  focusedEventId,
+}: RelationshipTimelineBarProps) {
+  const [playing, setPlaying] = React.useState(false);
+  const lastIndex = steps.length - 1;
+  const step = steps[index];
+
+  // 播放到最后一步自动停止
+  React.useEffect(() => {
+    if (!playing) return;
+    if (index >= lastIndex) {
+      setPlaying(false);
+      return;
+    }
+    const timer = window.setTimeout(() => onIndexChange(index + 1), PLAY_INTERVAL_MS);
+    return () => window.clearTimeout(timer);
+  }, [playing, index, lastIndex, onIndexChange]);
+
+  const togglePlay = () => {
+    // 已在末尾时从头开始播放
+    if (!playing && index >= lastIndex) onIndexChange(0);
+    setPlaying((value) => !value);
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={mode} onValueChange={(value) => onModeChange(value as RelationshipTimelineMode)}>
+          <SelectTrigger size="sm" className="w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(RELATIONSHIP_TIMELINE_MODE_LABEL) as RelationshipTimelineMode[]).map((value) => (
+              <SelectItem key={value} value={value}>
+                {RELATIONSHIP_TIMELINE_MODE_LABEL[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="icon"
+          variant="outline"
+          className="size-8"
+          onClick={() => onIndexChange(index - 1)}
+          disabled={index <= 0}
+          aria-label="上一步"
+        >
+          <ChevronLeft />
+        </Button>
+        <Button
+          size="icon"
+          variant="outline"
+          className="size-8"
+          onClick={togglePlay}
+          disabled={!steps.length}
+          aria-label={playing ? "暂停" : "播放"}
+        >
+          {playing ? <Pause /> : <Play />}
+        </Button>
+        <Button
+          size="icon"
+          variant="outline"
+          className="size-8"
+          onClick={() => onIndexChange(index + 1)}
+          disabled={index >= lastIndex}
+          aria-label="下一步"
+        >
+          <ChevronRight />
+        </Button>
+        <span className="text-sm font-medium">{step?.label ?? "暂无事件"}</span>
+        {steps.length > 0 && (
+          <span className="text-muted-foreground text-xs tabular-nums">
+            {index + 1} / {steps.length}
+          </span>
+        )}
+      </div>
+
+      {steps.length > 1 && (
+        <Slider
+          min={0}
+          max={lastIndex}
+          step={1}
+          value={[index]}
+          onValueChange={([value]) => {
+            setPlaying(false);
+            onIndexChange(value);
+          }}
+          aria-label="时间线位置"
+        />
+      )}
+
+      {step ? (
+        <ul className="space-y-1.5 text-sm">
+          {step.events.map((event) => (
+            <li
+              key={event.eventId}
+              className={cn(
+                "flex flex-wrap items-center gap-1.5 rounded-md",
+                event.eventId === focusedEventId && "bg-muted ring-primary px-2 py-1 ring-1",
+              )}
+            >
+              <span className="font-medium">
+                {nameOf(event.characterAId)} — {nameOf(event.characterBId)}
+              </span>
+              <Badge variant="outline">{event.prevRelType || "无"}</Badge>
+              <ArrowRight className="text-muted-foreground h-3.5 w-3.5" />
+              <Badge variant={event.newRelType ? "secondary" : "outline"}>{event.newRelType || "解除关系"}</Badge>
+              {event.reason && <span className="text-muted-foreground text-xs">{event.reason}</span>}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-muted-foreground text-sm">
+          {mode === "chapter" ? "还没有关联章节的关系事件。" : "还没有关系事件。"}
+        </p>
+      )}
+      {mode === "chapter" && unplaced > 0 && (
+        <p className="text-muted-foreground text-xs">
+          另有 {unplaced} 条事件未关联章节，未计入回放，最后一步可能与当前关系不同；可切换为“按日期”查看完整演变。
+        </p>
+      )}
+    </div>
+  );
+}
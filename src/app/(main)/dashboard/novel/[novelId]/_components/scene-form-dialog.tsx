@@ -0,0 +1,213 @@
+"use client";
+
+import * as React from "react";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+
+import { fetchWithAuth } from "@/utils/fetch-with-auth";
+import { CHAPTER_STATUS_LABEL } from "@/lib/enum-labels";
+import { countWords, formatWordCount } from "@/lib/word-count";
+import { ChapterStatus, CreateSceneRequest, Scene, UpdateSceneRequest } from "@/types/chapter";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+
+const formSchema = z.object({
+  title: z.string().trim().min(1, "请输入场景标题").max(100, "场景标题不能超过100个字符"),
+  summary: z.string().max(1000, "场景梗概不能超过1000个字符").optional().or(z.literal("")),
+  content: z.string().optional().or(z.literal("")),
+  status: z.nativeEnum(ChapterStatus),
+});
+
+type SceneFormValues = z.infer<typeof formSchema>;
+
+interface SceneFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  novelId: string;
+  chapterId: string;
+  // 传入时为编辑，否则为新建
+  scene?: Scene | null;
+  onSaved?: () => void | Promise<void>;
+}
+
+const toFormValues = (scene?: Scene | null): SceneFormValues => ({
+  title: scene?.title ?? "",
+  summary: scene?.summary ?? "",
+  content: scene?.content ?? "",
+  status: scene?.status ?? ChapterStatus.PLANNED,
+});
+
+export function SceneFormDialog({ open, onOpenChange, novelId, chapterId, scene, onSaved }: SceneFormDialogProps) {
+  const [submitting, setSubmitting] = React.useState(false);
+  const isEdit = Boolean(scene);
+
+  const form = useForm<SceneFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: toFormValues(scene),
+  });
+  const content = form.watch("content");
+  const wordCount = React.useMemo(() => countWords(content), [content]);
+
+  React.useEffect(() => {
+    if (open) form.reset(toFormValues(scene));
+  }, [form, open, scene]);
+
+  const onSubmit = async (values: SceneFormValues) => {
+    const fields = {
+      title: values.title.trim(),
+      summary: values.summary?.trim() ?? "",
+      content: values.content ?? "",
+      status: values.status,
+    };
+    const body: CreateSceneRequest | UpdateSceneRequest = scene
+      ? { ...fields, expectedUpdatedAt: scene.updatedAt }
+      : { ...fields, novelId, chapterId };
+
+    try {
+      setSubmitting(true);
+      const res = await fetchWithAuth(
+        scene ? `/api/v1/novels/scenes/${encodeURIComponent(scene.sceneId)}` : "/api/v1/novels/scenes",
+        {
+          method: scene ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        },
+      );
+
+      if (res.status === 409) {
+        throw new Error("场景已被其他人修改，请刷新后重试");
+      }
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        const message =
+          errorData?.message?.message || `${isEdit ? "更新" : "创建"}场景失败: ${res.status} ${res.statusText}`;
+        throw new Error(message);
+      }
+
+      toast.success(isEdit ? "场景已更新" : "场景已创建");
+      onOpenChange(false);
+      await onSaved?.();
+    } catch (saveError) {
+      const message = saveError instanceof Error ? saveError.message : `${isEdit ? "更新" : "创建"}场景失败`;
+      toast.error(message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{isEdit ? "编辑场景" : "新建场景"}</DialogTitle>
+          <DialogDescription>场景是章节内的最小叙事单元，字数按场景正文统计。</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="grid gap-4">
+            <div className="grid gap-4 sm:grid-cols-[minmax(0,1fr)_160px]">
+              <FormField
+                control={form.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>场景标题</FormLabel>
+                    <FormControl>
+                      <Input placeholder="如：客栈夜谈" {...field} disabled={submitting} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="status"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>写作状态</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange} disabled={submitting}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.values(ChapterStatus).map((value) => (
+                          <SelectItem key={value} value={value}>
+                            {CHAPTER_STATUS_LABEL[value]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="summary"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>场景梗概（可选）</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="出场人物、地点与主要事件..."
+                      className="min-h-16"
+                      {...field}
+                      value={field.value ?? ""}
+                      disabled={submitting}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="content"
+              render={({ field }) => (
+                <FormItem>
+                  <div className="flex items-center justify-between">
+                    <FormLabel>场景正文（可选）</FormLabel>
+                    <span className="text-muted-foreground text-xs">{formatWordCount(wordCount)}</span>
+                  </div>
+                  <FormControl>
+                    <Textarea
+                      placeholder="在此撰写场景正文..."
+                      className="min-h-64 text-sm leading-6"
+                      {...field}
+                      value={field.value ?? ""}
+                      disabled={submitting}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+                取消
+              </Button>
+              <Button type="submit" disabled={submitting}>
+                {submitting ? "保存中..." : isEdit ? "保存修改" : "创建场景"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
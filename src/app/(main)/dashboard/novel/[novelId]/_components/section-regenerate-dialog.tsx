@@ -0,0 +1,286 @@
+"use client";
+
+import * as React from "react";
+import { toast } from "sonner";
+import { AlertCircle, Check, X } from "lucide-react";
+
+import { fetchWithAuth } from "@/utils/fetch-with-auth";
+import { DiffHunk, DiffLine, diffLines, getDiffHunks, mergeDiffHunks } from "@/lib/text-diff";
+import { cn } from "@/lib/utils";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+import { getSectionContext, replaceRange, TextRange } from "./section-utils";
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: unknown;
+}
+
+interface SectionRegenerateResult {
+  content: string;
+}
+
+export interface SectionSnapshot {
+  content: string;
+  range: TextRange;
+}
+
+interface SectionRegenerateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  novelId: string;
+  // 资源名称，如“世界观”“大纲”
+  label: string;
+  endpoint: string;
+  // 打开时的草稿快照与选区，避免生成期间草稿变化导致区间错位
+  snapshot: SectionSnapshot | null;
+  onApply: (content: string) => void;
+  // 合并结果的额外校验，如大纲 JSON 格式
+  validate?: (content: string) => string | null;
+}
+
+const lineClassMap: Record<DiffLine["type"], string> = {
+  equal: "text-muted-foreground",
+  added: "bg-green-500/10 text-green-700 dark:text-green-400",
+  removed: "bg-red-500/10 text-red-700 dark:text-red-400",
+};
+
+const linePrefixMap: Record<DiffLine["type"], string> = {
+  equal: " ",
+  added: "+",
+  removed: "-",
+};
+
+function HunkLines({ lines }: { lines: DiffLine[] }) {
+  return (
+    <>
+      {lines.map((line, index) => (
+        <div key={`${line.type}-${index}`} className={cn("flex min-h-5", lineClassMap[line.type])}>
+          <span className="w-4 shrink-0 select-none">{linePrefixMap[line.type]}</span>
+          <span className="flex-1 break-all whitespace-pre-wrap">{line.value}</span>
+        </div>
+      ))}
+    </>
+  );
+}
+
+function HunkCard({ hunk, accepted, onToggle }: { hunk: DiffHunk; accepted: boolean; onToggle: () => void }) {
+  return (
+    <div className={cn("rounded-md border", !accepted && "opacity-60")}>
+      <div className="bg-muted/50 flex items-center justify-between gap-2 border-b px-3 py-1.5">
+        <div className="flex items-center gap-2 text-xs">
+          <span className="font-medium">变更 {hunk.id + 1}</span>
+          <span className="text-green-600">+{hunk.added.length}</span>
+          <span className="text-red-600">-{hunk.removed.length}</span>
+          <Badge variant={accepted ? "default" : "outline"}>{accepted ? "已接受" : "已拒绝"}</Badge>
+        </div>
+        <Button type="button" variant="ghost" size="sm" className="h-7 text-xs" onClick={onToggle}>
+          {accepted ? <X className="mr-1 h-3 w-3" /> : <Check className="mr-1 h-3 w-3" />}
+          {accepted ? "拒绝" : "接受"}
+        </Button>
+      </div>
+      <div className="overflow-x-auto p-2 font-mono text-xs leading-5">
+        <HunkLines lines={hunk.before} />
+        <HunkLines lines={hunk.removed} />
+        <HunkLines lines={hunk.added} />
+        <HunkLines lines={hunk.after} />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 局部重新生成：将选中片段与前后文一并提交，返回结果按变更块逐一确认后合并进草稿
+ */
+export function SectionRegenerateDialog({
+  open,
+  onOpenChange,
+  novelId,
+  label,
+  endpoint,
+  snapshot,
+  onApply,
+  validate,
+}: SectionRegenerateDialogProps) {
+  const [prompt, setPrompt] = React.useState("");
+  const [isGenerating, setIsGenerating] = React.useState(false);
+  const [generated, setGenerated] = React.useState<string | null>(null);
+  const [accepted, setAccepted] = React.useState<Set<number>>(new Set());
+
+  React.useEffect(() => {
+    setGenerated(null);
+  }, [snapshot]);
+
+  const context = React.useMemo(
+    () => (snapshot ? getSectionContext(snapshot.content, snapshot.range) : null),
+    [snapshot],
+  );
+
+  const lines = React.useMemo(() => {
+    if (!snapshot || generated === null) return [];
+    return diffLines(snapshot.content, replaceRange(snapshot.content, snapshot.range, generated));
+  }, [generated, snapshot]);
+  const hunks = React.useMemo(() => getDiffHunks(lines), [lines]);
+  const merged = React.useMemo(() => mergeDiffHunks(lines, accepted), [accepted, lines]);
+  const mergeError = generated !== null && validate ? validate(merged) : null;
+
+  React.useEffect(() => {
+    setAccepted(new Set(hunks.map((hunk) => hunk.id)));
+  }, [hunks]);
+
+  const handleGenerate = async () => {
+    if (!context) return;
+    if (!prompt.trim()) {
+      toast.error("请输入重新生成的要求");
+      return;
+    }
+
+    try {
+      setIsGenerating(true);
+      const res = await fetchWithAuth(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ novelId, prompt, ...context }),
+      });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        const message = errorData?.message?.message || `重新生成${label}片段失败: ${res.status} ${res.statusText}`;
+        throw new Error(message);
+      }
+      const json = (await res.json()) as ApiResponse<SectionRegenerateResult>;
+      const result = json?.success ? json.data : (json as unknown as SectionRegenerateResult);
+      if (typeof result?.content !== "string") {
+        throw new Error("生成结果为空");
+      }
+      setGenerated(result.content.replace(/\n+$/, ""));
+    } catch (generateError) {
+      const message = generateError instanceof Error ? generateError.message : `重新生成${label}片段失败`;
+      toast.error(message);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const toggleHunk = (id: number) => {
+    setAccepted((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleApply = () => {
+    onApply(merged);
+    toast.success(`已合并 ${accepted.size} 处变更，保存草稿后生效`);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isGenerating && onOpenChange(value)}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>局部重新生成{label}</DialogTitle>
+          <DialogDescription>
+            仅重写选中的片段，前后文会一并提交作为参考。生成结果按变更块展示，可逐块接受或拒绝。
+          </DialogDescription>
+        </DialogHeader>
+
+        {generated === null ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>选中片段</Label>
+              <pre className="bg-muted/50 max-h-60 overflow-auto rounded-md border p-3 text-xs whitespace-pre-wrap">
+                {context?.section || "（空）"}
+              </pre>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="section-regenerate-prompt">重新生成要求</Label>
+              <Textarea
+                id="section-regenerate-prompt"
+                value={prompt}
+                onChange={(event) => setPrompt(event.target.value)}
+                placeholder="例如：补充该势力的历史渊源，并让其与北境王国的冲突更加尖锐。"
+                className="min-h-[120px]"
+                disabled={isGenerating}
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <span className="text-muted-foreground text-xs">
+                {hunks.length ? `共 ${hunks.length} 处变更，已接受 ${accepted.size} 处` : "生成结果与原片段一致"}
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setAccepted(new Set(hunks.map((hunk) => hunk.id)))}
+                >
+                  全部接受
+                </Button>
+                <Button type="button" variant="outline" size="sm" onClick={() => setAccepted(new Set())}>
+                  全部拒绝
+                </Button>
+              </div>
+            </div>
+            <div className="max-h-[480px] space-y-3 overflow-y-auto">
+              {hunks.map((hunk) => (
+                <HunkCard
+                  key={hunk.id}
+                  hunk={hunk}
+                  accepted={accepted.has(hunk.id)}
+                  onToggle={() => toggleHunk(hunk.id)}
+                />
+              ))}
+            </div>
+            {mergeError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{mergeError}，合并后请在草稿中修正。</AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isGenerating}>
+            取消
+          </Button>
+          {generated === null ? (
+            <Button onClick={handleGenerate} disabled={isGenerating || !context}>
+              {isGenerating ? "生成中..." : "开始生成"}
+            </Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => setGenerated(null)}>
+                调整要求重新生成
+              </Button>
+              <Button onClick={handleApply} disabled={!accepted.size}>
+                合并到草稿
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,42 @@
+// 局部重新生成相关的文本区间工具
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface SectionContext {
+  section: string;
+  contextBefore: string;
+  contextAfter: string;
+}
+
+// 传给生成接口的上下文长度上限，避免整篇长文随请求发送
+export const SECTION_CONTEXT_LIMIT = 2000;
+
+/**
+ * 将选区扩展到完整的行，保证替换与差异对比都按行对齐
+ */
+export function snapRangeToLines(text: string, range: TextRange): TextRange {
+  const start = text.lastIndexOf("\n", Math.max(range.start - 1, 0));
+  const lineStart = range.start === 0 || start < 0 ? 0 : start + 1;
+  // 选区以换行结尾时不再吞下一行
+  const endAnchor = range.end > range.start && text[range.end - 1] === "\n" ? range.end - 1 : range.end;
+  const end = text.indexOf("\n", endAnchor);
+  return { start: lineStart, end: end < 0 ? text.length : end };
+}
+
+export function getSectionContext(text: string, range: TextRange, limit = SECTION_CONTEXT_LIMIT): SectionContext {
+  return {
+    section: text.slice(range.start, range.end),
+    contextBefore: text.slice(Math.max(range.start - limit, 0), range.start),
+    contextAfter: text.slice(range.end, range.end + limit),
+  };
+}
+
+export function replaceRange(text: string, range: TextRange, replacement: string) {
+  return `${text.slice(0, range.start)}${replacement}${text.slice(range.end)}`;
+}
+
+export const getTextareaSelection = (textarea: HTMLTextAreaElement | null): TextRange | null =>
+  textarea ? { start: textarea.selectionStart, end: textarea.selectionEnd } : null;
@@ -0,0 +1,93 @@
+"use client";
+
+import * as React from "react";
+import {
+  closestCenter,
+  DndContext,
+  KeyboardSensor,
+  MouseSensor,
+  TouchSensor,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from "@dnd-kit/core";
+import { restrictToVerticalAxis } from "@dnd-kit/modifiers";
+import { SortableContext, arrayMove, useSortable, verticalListSortingStrategy } from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { GripVertical } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+
+interface SortableListProps<T> {
+  items: T[];
+  getId: (item: T) => string;
+  // 参数为拖拽后的完整顺序
+  onReorder: (items: T[]) => void;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  disabled?: boolean;
+  className?: string;
+}
+
+function SortableRow({ id, disabled, children }: { id: string; disabled?: boolean; children: React.ReactNode }) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id, disabled });
+
+  return (
+    <div
+      ref={setNodeRef}
+      data-dragging={isDragging}
+      className="relative z-0 flex items-start gap-1 data-[dragging=true]:z-10 data-[dragging=true]:opacity-80"
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+    >
+      <Button
+        {...attributes}
+        {...listeners}
+        type="button"
+        variant="ghost"
+        size="icon"
+        className="text-muted-foreground mt-2 size-7 shrink-0 cursor-grab hover:bg-transparent"
+        disabled={disabled}
+      >
+        <GripVertical className="size-3.5" />
+        <span className="sr-only">拖拽排序</span>
+      </Button>
+      <div className="min-w-0 flex-1">{children}</div>
+    </div>
+  );
+}
+
+/**
+ * 可拖拽排序的纵向列表，每行左侧为拖拽手柄
+ */
+export function SortableList<T>({ items, getId, onReorder, renderItem, disabled, className }: SortableListProps<T>) {
+  const sensors = useSensors(useSensor(MouseSensor, {}), useSensor(TouchSensor, {}), useSensor(KeyboardSensor, {}));
+  const ids = React.useMemo(() => items.map(getId), [getId, items]);
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over || active.id === over.id) return;
+    const oldIndex = ids.indexOf(String(active.id));
+    const newIndex = ids.indexOf(String(over.id));
+    if (oldIndex < 0 || newIndex < 0) return;
+    onReorder(arrayMove(items, oldIndex, newIndex));
+  };
+
+  return (
+    <DndContext
+      collisionDetection={closestCenter}
+      modifiers={[restrictToVerticalAxis]}
+      onDragEnd={handleDragEnd}
+      sensors={sensors}
+    >
+      <SortableContext items={ids} strategy={verticalListSortingStrategy}>
+        <div className={cn("space-y-2", className)}>
+          {items.map((item, index) => (
+            <SortableRow key={ids[index]} id={ids[index]} disabled={disabled}>
+              {renderItem(item, index)}
+            </SortableRow>
+          ))}
+        </div>
+      </SortableContext>
+    </DndContext>
+  );
+}
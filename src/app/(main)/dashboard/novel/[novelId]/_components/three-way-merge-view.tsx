@@ -0,0 +1,106 @@
+"use client";
+
+import * as React from "react";
+
+import { MergeChunk, MergeResolution } from "@/lib/three-way-merge";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+interface ThreeWayMergeViewProps {
+  chunks: MergeChunk[];
+  resolutions: Readonly<Record<number, MergeResolution>>;
+  onResolve: (id: number, resolution: MergeResolution) => void;
+  mineLabel?: string;
+  theirsLabel?: string;
+}
+
+// 未冲突区域过长时只保留首尾若干行
+const STABLE_CONTEXT = 3;
+
+function StableLines({ lines }: { lines: string[] }) {
+  const omitted = lines.length - STABLE_CONTEXT * 2;
+  const visible = omitted > 1 ? [...lines.slice(0, STABLE_CONTEXT), null, ...lines.slice(-STABLE_CONTEXT)] : lines;
+
+  return (
+    <div className="text-muted-foreground px-3 py-1">
+      {visible.map((line, index) =>
+        line === null ? (
+          <div key={index} className="py-0.5 font-sans italic">
+            … 省略 {omitted} 行未冲突内容 …
+          </div>
+        ) : (
+          <div key={index} className="min-h-5 break-all whitespace-pre-wrap">
+            {line}
+          </div>
+        ),
+      )}
+    </div>
+  );
+}
+
+function ConflictColumn({ label, lines, active }: { label: string; lines: string[]; active?: boolean }) {
+  return (
+    <div className={active ? "bg-primary/5" : undefined}>
+      <div className="bg-muted/50 border-b px-2 py-1 font-sans font-medium">{label}</div>
+      <div className="px-2 py-1">
+        {lines.length ? (
+          lines.map((line, index) => (
+            <div key={index} className="min-h-5 break-all whitespace-pre-wrap">
+              {line}
+            </div>
+          ))
+        ) : (
+          <div className="text-muted-foreground font-sans italic">（已删除）</div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 三方合并结果：未冲突内容已自动合并，冲突块逐个选择采用哪一方
+ */
+export function ThreeWayMergeView({
+  chunks,
+  resolutions,
+  onResolve,
+  mineLabel = "我的修改",
+  theirsLabel = "服务器版本",
+}: ThreeWayMergeViewProps) {
+  return (
+    <div className="max-h-[480px] overflow-auto rounded-md border font-mono text-xs leading-5">
+      {chunks.map((chunk, index) => {
+        if (chunk.type === "stable") return <StableLines key={`stable-${index}`} lines={chunk.lines} />;
+        const resolution = resolutions[chunk.id] ?? "mine";
+        return (
+          <div key={`conflict-${chunk.id}`} className="my-1 border-y border-amber-500/40 bg-amber-500/5">
+            <div className="flex flex-wrap items-center justify-between gap-2 px-3 py-1.5 font-sans">
+              <span className="font-medium text-amber-700 dark:text-amber-400">冲突 {chunk.id + 1}</span>
+              <ToggleGroup
+                type="single"
+                size="sm"
+                variant="outline"
+                value={resolution}
+                onValueChange={(value) => value && onResolve(chunk.id, value as MergeResolution)}
+              >
+                <ToggleGroupItem value="mine" className="px-3 text-xs">
+                  采用{mineLabel}
+                </ToggleGroupItem>
+                <ToggleGroupItem value="theirs" className="px-3 text-xs">
+                  采用{theirsLabel}
+                </ToggleGroupItem>
+                <ToggleGroupItem value="both" className="px-3 text-xs">
+                  两者都保留
+                </ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+            <div className="grid grid-cols-3 divide-x border-t">
+              <ConflictColumn label="共同基准" lines={chunk.base} />
+              <ConflictColumn label={mineLabel} lines={chunk.mine} active={resolution !== "theirs"} />
+              <ConflictColumn label={theirsLabel} lines={chunk.theirs} active={resolution !== "mine"} />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import * as React from "react";
+import { toast } from "sonner";
+
+interface ServerDraft {
+  id: string;
+  content: string;
+  updatedAt: string;
+}
+
+// 本地暂存的草稿，baseContent 为开始编辑时的服务器内容，用于判断服务器是否已变化
+interface StoredDraft {
+  draftId: string;
+  content: string;
+  baseContent: string;
+  baseUpdatedAt?: string;
+  savedAt: string;
+}
+
+// base 为本地修改所基于的服务器内容，用于三方合并
+export interface DraftConflict {
+  base: string;
+  local: string;
+  server: string;
+  serverUpdatedAt: string;
+}
+
+export type DraftConflictChoice = "local" | "server" | "merged";
+
+const AUTOSAVE_DELAY = 800;
+
+const readStoredDraft = (key: string): StoredDraft | null => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as StoredDraft) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 草稿编辑状态：本地修改防抖暂存到 localStorage，服务器草稿变化时不覆盖未保存的修改，而是给出冲突提示
+ */
+export function useDraftAutosave(storageKey: string, serverDraft: ServerDraft | null | undefined) {
+  const [content, setContent] = React.useState("");
+  // 当前编辑所基于的服务器内容
+  const [baseline, setBaseline] = React.useState("");
+  // 基准内容对应的服务器更新时间，保存时作为前置条件，防止覆盖他人的修改
+  const [baseUpdatedAt, setBaseUpdatedAt] = React.useState<string | null>(null);
+  const [conflict, setConflict] = React.useState<DraftConflict | null>(null);
+  const [localSavedAt, setLocalSavedAt] = React.useState<string | null>(null);
+
+  const contentRef = React.useRef(content);
+  contentRef.current = content;
+  const baselineRef = React.useRef(baseline);
+  baselineRef.current = baseline;
+  const restoredRef = React.useRef(false);
+
+  const serverId = serverDraft?.id;
+  const serverContent = serverDraft?.content ?? "";
+  const serverUpdatedAt = serverDraft?.updatedAt ?? "";
+
+  React.useEffect(() => {
+    if (!serverId) return;
+
+    // 首次加载：恢复同一草稿上未保存的本地修改
+    if (!restoredRef.current) {
+      restoredRef.current = true;
+      const stored = readStoredDraft(storageKey);
+      if (stored && stored.draftId === serverId && stored.content !== serverContent) {
+        setBaseline(stored.baseContent);
+        setContent(stored.content);
+        setLocalSavedAt(stored.savedAt);
+        if (stored.baseContent === serverContent) {
+          setBaseUpdatedAt(serverUpdatedAt);
+          toast.info("已恢复上次未保存的本地草稿");
+        } else {
+          setBaseUpdatedAt(stored.baseUpdatedAt ?? null);
+          setConflict({ base: stored.baseContent, local: stored.content, server: serverContent, serverUpdatedAt });
+        }
+        return;
+      }
+      setBaseline(serverContent);
+      setBaseUpdatedAt(serverUpdatedAt);
+      setContent(serverContent);
+      return;
+    }
+
+    // 内容未变（如自己刚保存成功）时只更新基准时间
+    if (serverContent === baselineRef.current) {
+      setBaseUpdatedAt(serverUpdatedAt);
+      return;
+    }
+    const local = contentRef.current;
+    // 没有本地修改，或修改结果与服务器一致时直接采用服务器内容
+    if (local === baselineRef.current || local === serverContent) {
+      setBaseline(serverContent);
+      setBaseUpdatedAt(serverUpdatedAt);
+      setContent(serverContent);
+      return;
+    }
+    setConflict({ base: baselineRef.current, local, server: serverContent, serverUpdatedAt });
+  }, [serverContent, serverId, serverUpdatedAt, storageKey]);
+
+  const isDirty = content !== baseline;
+
+  // 防抖暂存本地修改；恢复到与服务器一致时清除暂存
+  React.useEffect(() => {
+    if (!serverId) return;
+    const timer = window.setTimeout(() => {
+      if (!isDirty) {
+        localStorage.removeItem(storageKey);
+        setLocalSavedAt(null);
+        return;
+      }
+      const savedAt = new Date().toISOString();
+      const stored: StoredDraft = {
+        draftId: serverId,
+        content,
+        baseContent: baseline,
+        baseUpdatedAt: baseUpdatedAt ?? undefined,
+        savedAt,
+      };
+      try {
+        localStorage.setItem(storageKey, JSON.stringify(stored));
+        setLocalSavedAt(savedAt);
+      } catch {
+        // 存储空间不足时放弃暂存，仍可手动保存
+      }
+    }, AUTOSAVE_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [baseUpdatedAt, baseline, content, isDirty, serverId, storageKey]);
+
+  const resolveConflict = React.useCallback(
+    (choice: DraftConflictChoice, merged?: string) => {
+      if (!conflict) return;
+      // 保留本地修改或采用合并结果时以最新服务器内容为基准，保存即基于服务器最新版本
+      setBaseline(conflict.server);
+      setBaseUpdatedAt(conflict.serverUpdatedAt);
+      if (choice === "server") {
+        setContent(conflict.server);
+      } else if (choice === "merged" && merged !== undefined) {
+        setContent(merged);
+      }
+      setConflict(null);
+    },
+    [conflict],
+  );
+
+  // 保存成功后以已保存内容为基准，随后的服务器刷新不会误判为冲突
+  const markSaved = React.useCallback((saved: string, updatedAt?: string) => {
+    setBaseline(saved);
+    if (updatedAt) setBaseUpdatedAt(updatedAt);
+  }, []);
+
+  return { content, setContent, isDirty, localSavedAt, baseUpdatedAt, conflict, resolveConflict, markSaved };
+}
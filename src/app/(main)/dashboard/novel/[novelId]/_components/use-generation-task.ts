@@ -0,0 +1,83 @@
+"use client";
+
+import * as React from "react";
+import useSWR from "swr";
+
+import { fetchWithAuth } from "@/utils/fetch-with-auth";
+import { isTaskFinished, TaskItem } from "@/types/task";
+import { TaskType } from "@/types/work";
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: unknown;
+}
+
+// 运行中的任务轮询间隔
+const POLL_INTERVAL = 2000;
+
+const fetcher = async (url: string) => {
+  const res = await fetchWithAuth(url);
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    const message = errorData?.message?.message || `获取生成任务失败: ${res.status} ${res.statusText}`;
+    throw new Error(message);
+  }
+  const json = (await res.json()) as ApiResponse<TaskItem>;
+  return json?.success ? json.data : (json as unknown as TaskItem);
+};
+
+// 切换标签页会卸载面板，用 sessionStorage 记住正在跟踪的任务；scope 用于区分同类型的不同目标（如章节）
+const getStorageKey = (novelId: string, type: TaskType, scope?: string) =>
+  scope ? `generationTask:${novelId}:${type}:${scope}` : `generationTask:${novelId}:${type}`;
+
+/**
+ * 跟踪最近一次提交的生成任务：轮询任务状态与部分输出，成功时回调一次
+ */
+export function useGenerationTask(
+  novelId: string,
+  type: TaskType,
+  onSuccess?: () => void | Promise<void>,
+  scope?: string,
+) {
+  const storageKey = getStorageKey(novelId, type, scope);
+  const [taskId, setTaskId] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    setTaskId(sessionStorage.getItem(storageKey));
+  }, [storageKey]);
+
+  const { data: task, error } = useSWR<TaskItem>(
+    taskId ? `/api/v1/novels/generation/tasks/${encodeURIComponent(taskId)}` : null,
+    fetcher,
+    {
+      refreshInterval: (latest) => (isTaskFinished(latest?.status) ? 0 : POLL_INTERVAL),
+      revalidateOnFocus: false,
+    },
+  );
+
+  const track = React.useCallback(
+    (nextTaskId: string) => {
+      sessionStorage.setItem(storageKey, nextTaskId);
+      setTaskId(nextTaskId);
+    },
+    [storageKey],
+  );
+
+  const dismiss = React.useCallback(() => {
+    sessionStorage.removeItem(storageKey);
+    setTaskId(null);
+  }, [storageKey]);
+
+  // 只在状态首次变为 success 时刷新草稿，避免重复触发
+  const onSuccessRef = React.useRef(onSuccess);
+  onSuccessRef.current = onSuccess;
+  const handledTaskRef = React.useRef<string | null>(null);
+  React.useEffect(() => {
+    if (task?.status !== "success" || handledTaskRef.current === task.taskId) return;
+    handledTaskRef.current = task.taskId;
+    void onSuccessRef.current?.();
+  }, [task?.status, task?.taskId]);
+
+  return { taskId, task: task?.taskId === taskId ? task : undefined, error, track, dismiss };
+}
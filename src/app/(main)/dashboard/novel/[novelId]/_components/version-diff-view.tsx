@@ -0,0 +1,112 @@
+"use client";
+
+import * as React from "react";
+
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { cn } from "@/lib/utils";
+import { DiffLine, diffLines, getDiffStats, toSideBySideRows } from "@/lib/text-diff";
+
+type DiffViewMode = "inline" | "split";
+
+interface VersionDiffViewProps {
+  oldText: string;
+  newText: string;
+  oldLabel?: string;
+  newLabel?: string;
+  className?: string;
+}
+
+const lineClassMap: Record<DiffLine["type"], string> = {
+  equal: "",
+  added: "bg-green-500/10 text-green-700 dark:text-green-400",
+  removed: "bg-red-500/10 text-red-700 dark:text-red-400",
+};
+
+const linePrefixMap: Record<DiffLine["type"], string> = {
+  equal: " ",
+  added: "+",
+  removed: "-",
+};
+
+function DiffCell({ line, side }: { line?: DiffLine; side: "old" | "new" }) {
+  if (!line) {
+    return <div className="bg-muted/40 min-h-5" />;
+  }
+  const lineNumber = side === "old" ? line.oldLineNumber : line.newLineNumber;
+  return (
+    <div className={cn("flex min-h-5", lineClassMap[line.type])}>
+      <span className="text-muted-foreground w-10 shrink-0 pr-2 text-right select-none">{lineNumber ?? ""}</span>
+      <span className="flex-1 break-all whitespace-pre-wrap">{line.value}</span>
+    </div>
+  );
+}
+
+export function VersionDiffView({
+  oldText,
+  newText,
+  oldLabel = "对比基准",
+  newLabel = "对比目标",
+  className,
+}: VersionDiffViewProps) {
+  const [mode, setMode] = React.useState<DiffViewMode>("inline");
+
+  const lines = React.useMemo(() => diffLines(oldText, newText), [oldText, newText]);
+  const stats = React.useMemo(() => getDiffStats(lines), [lines]);
+  const rows = React.useMemo(() => (mode === "split" ? toSideBySideRows(lines) : []), [lines, mode]);
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-muted-foreground flex flex-wrap items-center gap-3 text-xs">
+          <span className="text-green-600">+{stats.added} 行</span>
+          <span className="text-red-600">-{stats.removed} 行</span>
+          {!stats.added && !stats.removed && <span>两个版本内容一致</span>}
+        </div>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={mode}
+          onValueChange={(value) => value && setMode(value as DiffViewMode)}
+        >
+          <ToggleGroupItem value="inline" className="px-3 text-xs">
+            合并视图
+          </ToggleGroupItem>
+          <ToggleGroupItem value="split" className="px-3 text-xs">
+            左右对照
+          </ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <div className="max-h-[480px] overflow-auto rounded-md border font-mono text-xs leading-5">
+        {mode === "inline" ? (
+          <div className="min-w-fit">
+            {lines.map((line, index) => (
+              <div key={`${line.type}-${index}`} className={cn("flex min-h-5", lineClassMap[line.type])}>
+                <span className="text-muted-foreground w-10 shrink-0 pr-2 text-right select-none">
+                  {line.oldLineNumber ?? ""}
+                </span>
+                <span className="text-muted-foreground w-10 shrink-0 pr-2 text-right select-none">
+                  {line.newLineNumber ?? ""}
+                </span>
+                <span className="w-4 shrink-0 select-none">{linePrefixMap[line.type]}</span>
+                <span className="flex-1 break-all whitespace-pre-wrap">{line.value}</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 divide-x">
+            <div className="bg-muted/50 sticky top-0 border-b px-2 py-1 font-sans font-medium">{oldLabel}</div>
+            <div className="bg-muted/50 sticky top-0 border-b px-2 py-1 font-sans font-medium">{newLabel}</div>
+            {rows.map((row, index) => (
+              <React.Fragment key={index}>
+                <DiffCell line={row.left} side="old" />
+                <DiffCell line={row.right} side="new" />
+              </React.Fragment>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+"use client";
+
+import * as React from "react";
+import useSWR from "swr";
+import { History, RefreshCcw, RotateCcw } from "lucide-react";
+
+import { fetchWithAuth } from "@/utils/fetch-with-auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toGenerationOptionTags } from "@/lib/enum-labels";
+import { cn } from "@/lib/utils";
+
+import { VersionDiffView } from "./version-diff-view";
+import { VersionRestoreDialog } from "./version-restore-dialog";
+import { VERSION_STATUS_LABEL, VersionEntry, VersionResourceConfig, VersionRestoreTarget } from "./version-resources";
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: unknown;
+}
+
+interface VersionListResponse<T> {
+  data: T[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+interface VersionHistoryProps<T> {
+  novelId: string;
+  resource: VersionResourceConfig<T>;
+  // 当前最新的草稿/正式版，用于恢复前的差异确认
+  current: Partial<Record<VersionRestoreTarget, VersionEntry | null>>;
+  onRestored?: () => void | Promise<void>;
+}
+
+const PAGE_SIZE = 20;
+
+const createFetcher = (label: string) => async (url: string) => {
+  const res = await fetchWithAuth(url);
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    const message = errorData?.message?.message || `获取${label}历史版本失败: ${res.status} ${res.statusText}`;
+    throw new Error(message);
+  }
+  const json = await res.json();
+  return (json?.success ? (json as ApiResponse<unknown>).data : json) as VersionListResponse<unknown>;
+};
+
+const formatDateTime = (value?: string) => (value ? new Date(value).toLocaleString("zh-CN") : "--");
+
+const versionLabel = (version: VersionEntry) =>
+  `${VERSION_STATUS_LABEL[version.status] ?? version.status} · ${formatDateTime(version.createdAt)}`;
+
+function VersionMeta({ title, version }: { title: string; version: VersionEntry | null }) {
+  return (
+    <div className="bg-muted/30 space-y-2 rounded-md border p-3 text-xs">
+      <div className="text-sm font-medium">{title}</div>
+      {version ? (
+        <>
+          <div className="text-muted-foreground">{versionLabel(version)}</div>
+          <div className="text-muted-foreground font-mono">ID: {version.id}</div>
+          {version.title && <div className="text-muted-foreground">标题：{version.title}</div>}
+          <div className="text-muted-foreground">
+            来源任务：<span className="font-mono">{version.sourceTaskId || "手动编辑"}</span>
+          </div>
+          <div>
+            <Label className="text-muted-foreground text-xs">生成提示词</Label>
+            <p className="mt-1 max-h-24 overflow-auto whitespace-pre-wrap">{version.prompt || "-"}</p>
+          </div>
+          {version.options && (
+            <div>
+              <Label className="text-muted-foreground text-xs">生成参数</Label>
+              <div className="mt-1 flex flex-wrap gap-1">
+                {toGenerationOptionTags(version.options).map((tag) => (
+                  <Badge key={tag} variant="outline" className="font-normal">
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      ) : (
+        <div className="text-muted-foreground">请在左侧时间线中选择版本。</div>
+      )}
+    </div>
+  );
+}
+
+export function VersionHistory<T>({ novelId, resource, current, onRestored }: VersionHistoryProps<T>) {
+  const [page, setPage] = React.useState(1);
+  const [baseVersion, setBaseVersion] = React.useState<VersionEntry | null>(null);
+  const [compareVersion, setCompareVersion] = React.useState<VersionEntry | null>(null);
+  const [restoreVersion, setRestoreVersion] = React.useState<VersionEntry | null>(null);
+  const [restoreOpen, setRestoreOpen] = React.useState(false);
+  const fetcher = React.useMemo(() => createFetcher(resource.label), [resource.label]);
+
+  const query = new URLSearchParams({
+    novelId,
+    page: String(page),
+    limit: String(PAGE_SIZE),
+    sortBy: "createdAt",
+    sortOrder: "desc",
+  });
+
+  const { data, error, isLoading, isValidating, mutate } = useSWR<VersionListResponse<unknown>>(
+    `${resource.listEndpoint}?${query.toString()}`,
+    fetcher,
+    {
+      keepPreviousData: true,
+      revalidateOnFocus: false,
+    },
+  );
+
+  const versions = React.useMemo(() => (data?.data ?? []).map((item) => resource.toEntry(item as T)), [data, resource]);
+  const totalPages = data?.totalPages ?? 0;
+
+  // 首次加载时默认对比最近两个版本
+  React.useEffect(() => {
+    if (page !== 1 || baseVersion || compareVersion || !versions.length) return;
+    setCompareVersion(versions[0]);
+    setBaseVersion(versions[1] ?? null);
+  }, [versions, page, baseVersion, compareVersion]);
+
+  const handleRestoreClick = (version: VersionEntry) => {
+    setRestoreVersion(version);
+    setRestoreOpen(true);
+  };
+
+  const handleRestored = async () => {
+    await Promise.all([mutate(), onRestored?.()]);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-4 w-4" />
+            版本历史
+          </CardTitle>
+          <CardDescription>
+            按时间倒序列出全部{resource.label}版本，选择任意两个版本查看差异，或将历史版本恢复为草稿/正式版。
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => mutate()} disabled={isValidating}>
+          <RefreshCcw className="mr-2 h-4 w-4" />
+          刷新历史
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div className="text-destructive text-sm">{error.message}</div>
+        ) : isLoading && !versions.length ? (
+          <div className="space-y-3">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-16 w-full" />
+          </div>
+        ) : !versions.length ? (
+          <p className="text-muted-foreground text-sm">暂无历史版本。</p>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-[320px_1fr]">
+            <div className="flex flex-col gap-3">
+              <ol className="relative max-h-[560px] space-y-3 overflow-y-auto border-l pl-4">
+                {versions.map((version) => {
+                  const isBase = baseVersion?.id === version.id;
+                  const isCompare = compareVersion?.id === version.id;
+                  return (
+                    <li
+                      key={version.id}
+                      className={cn(
+                        "relative space-y-2 rounded-md border p-3",
+                        (isBase || isCompare) && "border-primary bg-primary/5",
+                      )}
+                    >
+                      <span className="bg-border absolute top-4 -left-[21px] h-2.5 w-2.5 rounded-full" />
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant={version.status === "published" ? "default" : "secondary"}>
+                          {VERSION_STATUS_LABEL[version.status] ?? version.status}
+                        </Badge>
+                        <span className="text-muted-foreground text-xs">{formatDateTime(version.createdAt)}</span>
+                      </div>
+                      <p className="text-muted-foreground line-clamp-2 text-xs">{version.prompt || "无生成提示词"}</p>
+                      <div className="text-muted-foreground text-xs">
+                        {version.sourceTaskId ? `任务 ${version.sourceTaskId}` : "手动编辑"}
+                        {version.createdBy ? ` · ${version.createdBy}` : ""}
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant={isBase ? "default" : "outline"}
+                          className="h-7 px-2 text-xs"
+                          onClick={() => setBaseVersion(version)}
+                        >
+                          设为基准 A
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant={isCompare ? "default" : "outline"}
+                          className="h-7 px-2 text-xs"
+                          onClick={() => setCompareVersion(version)}
+                        >
+                          设为目标 B
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-7 px-2 text-xs"
+                          onClick={() => handleRestoreClick(version)}
+                        >
+                          <RotateCcw className="mr-1 h-3 w-3" />
+                          恢复
+                        </Button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+              <div className="text-muted-foreground flex items-center justify-between text-xs">
+                <span>
+                  第 {page} / {Math.max(totalPages, 1)} 页
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage((prev) => Math.max(1, prev - 1))}
+                    disabled={isValidating || page <= 1}
+                  >
+                    上一页
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage((prev) => prev + 1)}
+                    disabled={isValidating || page >= totalPages}
+                  >
+                    下一页
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            <div className="min-w-0 space-y-4">
+              <div className="grid gap-3 md:grid-cols-2">
+                <VersionMeta title="基准版本 A" version={baseVersion} />
+                <VersionMeta title="目标版本 B" version={compareVersion} />
+              </div>
+              {baseVersion && compareVersion ? (
+                <VersionDiffView
+                  oldText={resource.formatContent(baseVersion.content)}
+                  newText={resource.formatContent(compareVersion.content)}
+                  oldLabel={`A · ${versionLabel(baseVersion)}`}
+                  newLabel={`B · ${versionLabel(compareVersion)}`}
+                />
+              ) : (
+                <p className="text-muted-foreground text-sm">至少需要选择两个版本才能查看差异。</p>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+      <VersionRestoreDialog
+        open={restoreOpen}
+        onOpenChange={setRestoreOpen}
+        resource={resource}
+        version={restoreVersion}
+        current={current}
+        onRestored={handleRestored}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,79 @@
+// 大纲与世界观共用的版本管理配置
+// 两类资源字段命名不同（outlineId / worldbuildingId），统一归一化为 VersionEntry 后交给版本历史组件
+
+import { GenerationOptions } from "@/types/generation";
+import { OutlineVersion } from "@/types/outline";
+import { Worldbuilding } from "@/types/worldbuilding";
+
+import { formatOutlineContent } from "./outline-utils";
+
+export type VersionStatus = "draft" | "published";
+
+// 恢复目标：恢复为草稿，或直接恢复为正式版
+export type VersionRestoreTarget = VersionStatus;
+
+export interface VersionEntry {
+  id: string;
+  status: VersionStatus;
+  title?: string;
+  content: string;
+  prompt?: string;
+  options?: GenerationOptions;
+  sourceTaskId?: string;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
+}
+
+export interface VersionResourceConfig<T> {
+  // 用于文案拼接，如“大纲”“世界观”
+  label: string;
+  // 历史版本列表接口，支持 novelId / page / limit 查询
+  listEndpoint: string;
+  toEntry: (item: T) => VersionEntry;
+  // 展示与对比前的内容格式化
+  formatContent: (content?: string) => string;
+}
+
+export const getRestoreEndpoint = <T>(resource: VersionResourceConfig<T>, id: string) =>
+  `${resource.listEndpoint}/${encodeURIComponent(id)}/restore`;
+
+export const VERSION_STATUS_LABEL: Record<VersionStatus, string> = {
+  draft: "草稿",
+  published: "已发布",
+};
+
+export const OUTLINE_VERSION_RESOURCE: VersionResourceConfig<OutlineVersion> = {
+  label: "大纲",
+  listEndpoint: "/api/v1/novels/outlines",
+  toEntry: (item) => ({
+    id: item.outlineId,
+    status: item.status,
+    content: item.content ?? "",
+    prompt: item.prompt,
+    options: item.options,
+    sourceTaskId: item.sourceTaskId,
+    createdAt: item.createdAt,
+    updatedAt: item.updatedAt,
+    createdBy: item.createdBy,
+  }),
+  formatContent: formatOutlineContent,
+};
+
+export const WORLDBUILDING_VERSION_RESOURCE: VersionResourceConfig<Worldbuilding> = {
+  label: "世界观",
+  listEndpoint: "/api/v1/novels/worldbuildings",
+  toEntry: (item) => ({
+    id: item.worldbuildingId,
+    status: item.status,
+    title: item.title,
+    content: item.content,
+    prompt: item.prompt,
+    options: item.options,
+    sourceTaskId: item.sourceTaskId,
+    createdAt: item.createdAt,
+    updatedAt: item.updatedAt,
+    createdBy: item.createdBy,
+  }),
+  formatContent: (content) => content ?? "",
+};
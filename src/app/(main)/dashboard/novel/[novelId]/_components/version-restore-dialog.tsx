@@ -0,0 +1,134 @@
+"use client";
+
+import * as React from "react";
+import { toast } from "sonner";
+
+import { fetchWithAuth } from "@/utils/fetch-with-auth";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+
+import {
+  getRestoreEndpoint,
+  VERSION_STATUS_LABEL,
+  VersionEntry,
+  VersionResourceConfig,
+  VersionRestoreTarget,
+} from "./version-resources";
+import { VersionDiffView } from "./version-diff-view";
+
+interface VersionRestoreDialogProps<T> {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  resource: VersionResourceConfig<T>;
+  version: VersionEntry | null;
+  current: Partial<Record<VersionRestoreTarget, VersionEntry | null>>;
+  onRestored?: () => void | Promise<void>;
+}
+
+const formatDateTime = (value?: string) => (value ? new Date(value).toLocaleString("zh-CN") : "--");
+
+export function VersionRestoreDialog<T>({
+  open,
+  onOpenChange,
+  resource,
+  version,
+  current,
+  onRestored,
+}: VersionRestoreDialogProps<T>) {
+  const [target, setTarget] = React.useState<VersionRestoreTarget>("draft");
+  const [submitting, setSubmitting] = React.useState(false);
+
+  React.useEffect(() => {
+    if (open) setTarget("draft");
+  }, [open, version?.id]);
+
+  const currentTarget = current[target] ?? null;
+
+  const handleConfirm = async () => {
+    if (!version) return;
+    try {
+      setSubmitting(true);
+      const res = await fetchWithAuth(getRestoreEndpoint(resource, version.id), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ target }),
+      });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        const message = errorData?.message?.message || `恢复${resource.label}版本失败: ${res.status} ${res.statusText}`;
+        throw new Error(message);
+      }
+      toast.success(target === "published" ? `已将该版本恢复为正式${resource.label}` : "已将该版本恢复为草稿");
+      onOpenChange(false);
+      await onRestored?.();
+    } catch (restoreError) {
+      const message = restoreError instanceof Error ? restoreError.message : `恢复${resource.label}版本失败`;
+      toast.error(message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !submitting && onOpenChange(value)}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>恢复历史版本</DialogTitle>
+          <DialogDescription>
+            {`将 ${formatDateTime(version?.createdAt)} 的${resource.label}版本恢复为新的草稿或正式版，原有内容仍保留在历史中。`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup
+            value={target}
+            onValueChange={(value) => setTarget(value as VersionRestoreTarget)}
+            className="flex flex-wrap gap-6"
+          >
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="draft" id="version-restore-draft" />
+              <Label htmlFor="version-restore-draft">恢复为草稿（覆盖当前草稿）</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="published" id="version-restore-published" />
+              <Label htmlFor="version-restore-published">直接恢复为正式版</Label>
+            </div>
+          </RadioGroup>
+
+          <div className="text-muted-foreground text-xs">
+            {currentTarget
+              ? `下方对比当前${VERSION_STATUS_LABEL[target]}版本（${formatDateTime(currentTarget.updatedAt)}）与将要恢复的内容。`
+              : `当前没有${VERSION_STATUS_LABEL[target]}版本，恢复后将新建一个。`}
+          </div>
+
+          {version && (
+            <VersionDiffView
+              oldText={resource.formatContent(currentTarget?.content)}
+              newText={resource.formatContent(version.content)}
+              oldLabel={`当前${VERSION_STATUS_LABEL[target]}`}
+              newLabel="恢复后"
+            />
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            取消
+          </Button>
+          <Button onClick={handleConfirm} disabled={!version || submitting}>
+            {submitting ? "恢复中..." : "确认恢复"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
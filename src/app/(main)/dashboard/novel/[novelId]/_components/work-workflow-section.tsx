@@ -0,0 +1,210 @@
+"use client";
+
+import * as React from "react";
+import useSWR from "swr";
+import { toast } from "sonner";
+import { ArrowRight, History } from "lucide-react";
+
+import { ROLE_LABEL, toWorkStatusLabel } from "@/lib/enum-labels";
+import { getAvailableTransitions, WORK_TRANSITION_LABEL, WorkTransition } from "@/lib/work-workflow";
+import { Role } from "@/types/auth";
+import { Work, WorkStatusEvent, WorkTransitionRequest } from "@/types/work";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuthStore } from "@/stores/auth/auth-store";
+import { fetchWithAuth } from "@/utils/fetch-with-auth";
+
+const COMMENT_MAX_LENGTH = 500;
+
+const historyFetcher = async (url: string) => {
+  const res = await fetchWithAuth(url);
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    const message = errorData?.message?.message || `获取状态记录失败: ${res.status} ${res.statusText}`;
+    throw new Error(message);
+  }
+  const json = await res.json();
+  const data = json?.success ? json.data : json;
+  return (Array.isArray(data) ? data : (data?.items ?? [])) as WorkStatusEvent[];
+};
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString("zh-CN");
+
+function StatusHistoryItem({ event }: { event: WorkStatusEvent }) {
+  return (
+    <li className="flex flex-col gap-1 border-l-2 pl-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium">{event.actorName || event.actorId}</span>
+        {event.actorRole && <Badge variant="outline">{ROLE_LABEL[event.actorRole as Role] ?? event.actorRole}</Badge>}
+        <span>{WORK_TRANSITION_LABEL[event.action] ?? event.action}</span>
+        <span className="text-muted-foreground flex items-center gap-1">
+          {toWorkStatusLabel(event.fromStatus)}
+          <ArrowRight className="h-3.5 w-3.5" />
+          {toWorkStatusLabel(event.toStatus)}
+        </span>
+      </div>
+      <span className="text-muted-foreground text-xs">{formatDateTime(event.createdAt)}</span>
+      {event.comment && <p className="bg-muted rounded-md px-3 py-2 text-sm whitespace-pre-wrap">{event.comment}</p>}
+    </li>
+  );
+}
+
+/**
+ * 作品审核流程：按当前状态与角色展示可执行的流转操作，并列出状态变更记录
+ */
+export function WorkWorkflowSection({ work, onChanged }: { work: Work; onChanged?: () => void }) {
+  const user = useAuthStore((s) => s.user);
+  const [pending, setPending] = React.useState<WorkTransition | null>(null);
+  const [comment, setComment] = React.useState("");
+  const [submitting, setSubmitting] = React.useState(false);
+
+  const {
+    data: history,
+    error,
+    isLoading,
+    mutate,
+  } = useSWR<WorkStatusEvent[]>(`/api/v1/novels/works/${work.novelId}/status-history`, historyFetcher, {
+    revalidateOnFocus: false,
+  });
+
+  const transitions = getAvailableTransitions(work.status, user?.role);
+  const commentMissing = Boolean(pending?.requiresComment) && !comment.trim();
+
+  const openTransition = (transition: WorkTransition) => {
+    setComment("");
+    setPending(transition);
+  };
+
+  const handleConfirm = async () => {
+    if (!pending || commentMissing) return;
+    setSubmitting(true);
+    try {
+      const body: WorkTransitionRequest = {
+        action: pending.action,
+        comment: comment.trim() || undefined,
+        expectedUpdatedAt: work.updatedAt,
+      };
+      const res = await fetchWithAuth(`/api/v1/novels/works/${work.novelId}/transitions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      // 作品状态已被他人变更：刷新后由用户重新判断
+      if (res.status === 409) {
+        toast.error("作品状态已被其他人更新，请确认最新状态后重试");
+        setPending(null);
+        onChanged?.();
+        mutate();
+        return;
+      }
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        const message = errorData?.message?.message || `${pending.label}失败: ${res.status} ${res.statusText}`;
+        throw new Error(message);
+      }
+      toast.success(`已${pending.label}，当前状态：${toWorkStatusLabel(pending.to)}`);
+      setPending(null);
+      onChanged?.();
+      mutate();
+    } catch (transitionError) {
+      toast.error(transitionError instanceof Error ? transitionError.message : `${pending.label}失败`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-xs">
+      <CardHeader>
+        <CardTitle>审核流程</CardTitle>
+        <CardDescription>草稿 → 审核中 → 已通过 → 已发布 → 已归档，审核与发布操作仅管理员可执行。</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-center gap-2">
+          {transitions.length ? (
+            transitions.map((transition) => (
+              <Button
+                key={transition.action}
+                size="sm"
+                variant={transition.destructive ? "destructive" : "default"}
+                onClick={() => openTransition(transition)}
+              >
+                {transition.label}
+              </Button>
+            ))
+          ) : (
+            <p className="text-muted-foreground text-sm">当前状态下没有可执行的操作。</p>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <History className="h-4 w-4" />
+            状态变更记录
+          </div>
+          {isLoading ? (
+            <Skeleton className="h-20 w-full" />
+          ) : error ? (
+            <p className="text-muted-foreground text-sm">加载状态记录失败: {error.message}</p>
+          ) : history?.length ? (
+            <ol className="space-y-4">
+              {history.map((event) => (
+                <StatusHistoryItem key={event.eventId} event={event} />
+              ))}
+            </ol>
+          ) : (
+            <p className="text-muted-foreground text-sm">暂无状态变更记录。</p>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={Boolean(pending)} onOpenChange={(open) => !open && !submitting && setPending(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{pending?.label}</DialogTitle>
+            <DialogDescription>
+              {pending &&
+                `作品状态将从“${toWorkStatusLabel(pending.from)}”变为“${toWorkStatusLabel(pending.to)}”，操作人与时间会记入状态变更记录。`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2">
+            <Label htmlFor="work-transition-comment">{pending?.requiresComment ? "审核意见" : "备注（可选）"}</Label>
+            <Textarea
+              id="work-transition-comment"
+              value={comment}
+              maxLength={COMMENT_MAX_LENGTH}
+              onChange={(event) => setComment(event.target.value)}
+              placeholder={pending?.requiresComment ? "请说明驳回原因，作者将据此修改" : "补充说明..."}
+              className="min-h-24"
+            />
+            {commentMissing && <p className="text-destructive text-xs">驳回时必须填写审核意见</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)} disabled={submitting}>
+              取消
+            </Button>
+            <Button
+              variant={pending?.destructive ? "destructive" : "default"}
+              onClick={handleConfirm}
+              disabled={submitting || commentMissing}
+            >
+              {submitting ? "提交中..." : `确认${pending?.label ?? ""}`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import * as React from "react";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { useSWRConfig } from "swr";
+import { toast } from "sonner";
+import { Target } from "lucide-react";
+
+import { isWritingStatsKey } from "@/hooks/use-writing-stats";
+import { Work, WritingGoals } from "@/types/work";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { RecordConflict, RecordConflictDialog, RecordConflictField } from "@/components/record-conflict-dialog";
+import { useFetchWithAuth } from "@/utils/fetch-with-auth";
+
+const optionalCount = z.string().regex(/^\d*$/, "请输入非负整数");
+
+const formSchema = z
+  .object({
+    dailyWords: optionalCount,
+    targetWords: optionalCount,
+    chapterTarget: optionalCount,
+    chapterDeadline: z.string(),
+  })
+  .refine((values) => Boolean(values.chapterTarget) === Boolean(values.chapterDeadline), {
+    message: "章节目标需要同时填写章节数与截止日期",
+    path: ["chapterDeadline"],
+  });
+
+type WritingGoalsInput = z.infer<typeof formSchema>;
+
+const CONFLICT_FIELDS: RecordConflictField<WritingGoalsInput>[] = [
+  { key: "dailyWords", label: "每日字数" },
+  { key: "targetWords", label: "目标总字数" },
+  { key: "chapterTarget", label: "目标章节数" },
+  { key: "chapterDeadline", label: "章节截止日期" },
+];
+
+const toFormValues = (goals?: WritingGoals | null): WritingGoalsInput => ({
+  dailyWords: goals?.dailyWords ? String(goals.dailyWords) : "",
+  targetWords: goals?.targetWords ? String(goals.targetWords) : "",
+  chapterTarget: goals?.chapterTarget ? String(goals.chapterTarget) : "",
+  chapterDeadline: goals?.chapterDeadline?.slice(0, 10) ?? "",
+});
+
+// 空值或 0 视为未设置该项目标
+const toGoals = (values: WritingGoalsInput): WritingGoals => {
+  const toCount = (value: string) => Number(value) || undefined;
+  const chapterTarget = toCount(values.chapterTarget);
+  return {
+    dailyWords: toCount(values.dailyWords),
+    targetWords: toCount(values.targetWords),
+    chapterTarget,
+    chapterDeadline: chapterTarget ? values.chapterDeadline : undefined,
+  };
+};
+
+const FIELDS: { name: keyof WritingGoalsInput; label: string; placeholder?: string; description: string }[] = [
+  {
+    name: "dailyWords",
+    label: "每日字数",
+    placeholder: "如：3000",
+    description: "每天新增的字数目标，用于计算连续达成天数",
+  },
+  { name: "targetWords", label: "目标总字数", placeholder: "如：300000", description: "作品完成时的预计篇幅" },
+  { name: "chapterTarget", label: "目标章节数", placeholder: "如：30", description: "截止日期前需要完成的章节数" },
+  { name: "chapterDeadline", label: "章节截止日期", description: "与目标章节数一起设置" },
+];
+
+interface WritingGoalsDialogProps {
+  work: Work;
+  onUpdated?: () => void;
+}
+
+/**
+ * 设置作品的写作目标：每日字数、目标总字数与章节截止日期，留空表示不设置
+ */
+export function WritingGoalsDialog({ work, onUpdated }: WritingGoalsDialogProps) {
+  const fetchWithAuth = useFetchWithAuth();
+  const { mutate } = useSWRConfig();
+  const [open, setOpen] = React.useState(false);
+  const [submitting, setSubmitting] = React.useState(false);
+  // 编辑所基于的作品数据，保存时以其 updatedAt 作为前置条件
+  const [baseWork, setBaseWork] = React.useState<Work>(work);
+  const [conflict, setConflict] = React.useState<RecordConflict<WritingGoalsInput> | null>(null);
+
+  const form = useForm<WritingGoalsInput>({
+    resolver: zodResolver(formSchema),
+    defaultValues: toFormValues(work.goals),
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      form.reset(toFormValues(work.goals));
+      setBaseWork(work);
+      setConflict(null);
+    }
+    setOpen(next);
+  };
+
+  const fetchLatestWork = async () => {
+    const res = await fetchWithAuth(`/api/v1/novels/works/${work.novelId}`);
+    if (!res.ok) {
+      throw new Error(`获取最新作品信息失败: ${res.status} ${res.statusText}`);
+    }
+    const json = await res.json();
+    const data = json?.success ? json.data : json;
+    return (data?.work ?? data) as Work;
+  };
+
+  const saveGoals = async (values: WritingGoalsInput, base: Work) => {
+    setSubmitting(true);
+    try {
+      const res = await fetchWithAuth(`/api/v1/novels/works/${work.novelId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ goals: toGoals(values), expectedUpdatedAt: base.updatedAt }),
+      });
+      // 作品已被他人修改：取回最新数据进行三方合并
+      if (res.status === 409) {
+        const latest = await fetchLatestWork();
+        setConflict({
+          base: toFormValues(base.goals),
+          mine: values,
+          theirs: toFormValues(latest.goals),
+          theirsUpdatedAt: latest.updatedAt,
+        });
+        return;
+      }
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        const message = errorData?.message?.message || `保存写作目标失败: ${res.status} ${res.statusText}`;
+        throw new Error(message);
+      }
+      toast.success("写作目标已保存");
+      setConflict(null);
+      setOpen(false);
+      onUpdated?.();
+      mutate(isWritingStatsKey);
+    } catch (saveError) {
+      toast.error(saveError instanceof Error ? saveError.message : "保存写作目标失败");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // 以服务器最新数据为新的基准，保存合并结果
+  const handleMergeConfirm = async (merged: WritingGoalsInput) => {
+    if (!conflict) return;
+    const nextBase = {
+      ...baseWork,
+      goals: toGoals(conflict.theirs),
+      updatedAt: conflict.theirsUpdatedAt ?? baseWork.updatedAt,
+    };
+    form.reset(merged);
+    setBaseWork(nextBase);
+    await saveGoals(merged, nextBase);
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogTrigger asChild>
+          <Button variant="outline">
+            <Target className="mr-2 h-4 w-4" />
+            写作目标
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>写作目标</DialogTitle>
+            <DialogDescription>留空表示不设置该项目标。进度与未达成提醒可在“写作统计”中查看。</DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((values) => saveGoals(values, baseWork))} className="grid gap-4">
+              {FIELDS.map((item) => (
+                <FormField
+                  key={item.name}
+                  control={form.control}
+                  name={item.name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{item.label}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type={item.name === "chapterDeadline" ? "date" : "number"}
+                          min={0}
+                          placeholder={item.placeholder}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormDescription>{item.description}</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+
+              <DialogFooter className="mt-2">
+                <Button type="button" variant="outline" onClick={() => setOpen(false)} disabled={submitting}>
+                  取消
+                </Button>
+                <Button type="submit" disabled={submitting}>
+                  {submitting ? "保存中..." : "保存目标"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+      <RecordConflictDialog
+        label="写作目标"
+        fields={CONFLICT_FIELDS}
+        conflict={conflict}
+        submitting={submitting}
+        onCancel={() => setConflict(null)}
+        onConfirm={handleMergeConfirm}
+      />
+    </>
+  );
+}
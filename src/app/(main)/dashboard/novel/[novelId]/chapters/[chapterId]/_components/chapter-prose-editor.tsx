@@ -0,0 +1,194 @@
+"use client";
+
+import * as React from "react";
+import { toast } from "sonner";
+import { RefreshCcw } from "lucide-react";
+
+import { fetchWithAuth } from "@/utils/fetch-with-auth";
+import { useChapters } from "@/hooks/use-chapters";
+import { useUnsavedChangesGuard } from "@/hooks/use-unsaved-changes-guard";
+import { formatChapterTitle, getChapterNumbers } from "@/lib/chapter-title";
+import { CHAPTER_STATUS_BADGE, CHAPTER_STATUS_LABEL } from "@/lib/enum-labels";
+import { countWords, formatWordCount } from "@/lib/word-count";
+import { Chapter, UpdateChapterRequest } from "@/types/chapter";
+import { TaskType, Work } from "@/types/work";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardAction, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+
+import { ChapterProseContext, ChapterProseFields } from "../../../_components/chapter-prose-fields";
+import { DraftConflictDialog } from "../../../_components/draft-conflict-dialog";
+import { DraftSaveIndicator } from "../../../_components/draft-save-indicator";
+import { GenerateDrawer } from "../../../_components/generate-drawer";
+import { GenerationTaskStatus } from "../../../_components/generation-task-status";
+import { useDraftAutosave } from "../../../_components/use-draft-autosave";
+import { useGenerationTask } from "../../../_components/use-generation-task";
+
+interface ChapterProseEditorProps {
+  novelId: string;
+  chapter: Chapter;
+  work?: Work | null;
+  onRefresh: () => Promise<unknown>;
+  isRefreshing?: boolean;
+}
+
+/**
+ * 章节正文编辑：本地暂存、保存冲突合并，以及基于大纲章节生成正文草稿
+ */
+export function ChapterProseEditor({ novelId, chapter, work, onRefresh, isRefreshing }: ChapterProseEditorProps) {
+  const draftEditor = useDraftAutosave(`draftAutosave:${novelId}:chapter:${chapter.chapterId}`, {
+    id: chapter.chapterId,
+    content: chapter.content ?? "",
+    updatedAt: chapter.updatedAt,
+  });
+  const { content, setContent, isDirty, baseUpdatedAt, markSaved } = draftEditor;
+  useUnsavedChangesGuard(isDirty);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [proseContext, setProseContext] = React.useState<ChapterProseContext>({
+    outlineChapter: null,
+    characterIds: [],
+  });
+  const wordCount = React.useMemo(() => countWords(content), [content]);
+
+  const refresh = React.useCallback(async () => {
+    await onRefresh();
+  }, [onRefresh]);
+
+  // 章节序号按作品的全部章节计算，序章等特殊章节不占序号
+  const { data: chapters } = useChapters(novelId);
+  const chapterNumber = React.useMemo(
+    () => getChapterNumbers(chapters ?? [chapter]).get(chapter.chapterId),
+    [chapters, chapter],
+  );
+  const generationTask = useGenerationTask(novelId, TaskType.CHAPTER_PROSE, refresh, chapter.chapterId);
+  const { track: trackGenerationTask } = generationTask;
+
+  const handleGenerateSubmitted = React.useCallback(
+    async (taskId: string | null) => {
+      if (taskId) {
+        trackGenerationTask(taskId);
+      } else {
+        await refresh();
+      }
+    },
+    [refresh, trackGenerationTask],
+  );
+
+  const handleSave = async () => {
+    const body: UpdateChapterRequest = { content, expectedUpdatedAt: baseUpdatedAt ?? undefined };
+    try {
+      setIsSaving(true);
+      const res = await fetchWithAuth(`/api/v1/novels/chapters/${encodeURIComponent(chapter.chapterId)}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+      // 正文已被他人修改或生成任务覆盖：刷新后由冲突对话框进行三方合并
+      if (res.status === 409) {
+        toast.error("章节正文已被其他人修改，请合并后重新保存");
+        await refresh();
+        return;
+      }
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        const message = errorData?.message?.message || `保存章节正文失败: ${res.status} ${res.statusText}`;
+        throw new Error(message);
+      }
+
+      markSaved(content);
+      toast.success("章节正文已保存");
+      await refresh();
+    } catch (saveError) {
+      const message = saveError instanceof Error ? saveError.message : "保存章节正文失败";
+      toast.error(message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const outlineChapter = proseContext.outlineChapter;
+  const extraBody = React.useMemo(
+    () => ({
+      chapterId: chapter.chapterId,
+      outlineChapter: outlineChapter
+        ? { key: outlineChapter.key, title: outlineChapter.title, summary: outlineChapter.summary }
+        : null,
+      characterIds: proseContext.characterIds,
+    }),
+    [chapter.chapterId, outlineChapter, proseContext.characterIds],
+  );
+
+  return (
+    <div className="space-y-6">
+      {generationTask.taskId && (
+        <GenerationTaskStatus
+          label="正文"
+          taskId={generationTask.taskId}
+          task={generationTask.task}
+          error={generationTask.error}
+          onDismiss={generationTask.dismiss}
+        />
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex flex-wrap items-center gap-2">
+            <span>{formatChapterTitle(chapterNumber, chapter.title)}</span>
+            <Badge variant={CHAPTER_STATUS_BADGE[chapter.status]}>
+              {CHAPTER_STATUS_LABEL[chapter.status] ?? chapter.status}
+            </Badge>
+          </CardTitle>
+          <CardDescription className="whitespace-pre-wrap">{chapter.summary || "暂无章节梗概。"}</CardDescription>
+          <CardAction className="flex flex-wrap gap-2">
+            <GenerateDrawer
+              type={TaskType.CHAPTER_PROSE}
+              novelId={novelId}
+              work={work}
+              title="生成章节正文"
+              description="基于已发布大纲中的章节、已发布世界观与出场人物的当前状态生成正文草稿。"
+              placeholder="例如：以紧张的节奏展开本章冲突，结尾留下悬念，对话占比适中。"
+              hint="生成结果将写入本章正文草稿，未保存的本地修改会在完成后提示合并。"
+              extraFields={
+                <ChapterProseFields
+                  novelId={novelId}
+                  value={proseContext}
+                  onChange={setProseContext}
+                  suggestedIndex={chapter.order - 1}
+                />
+              }
+              extraBody={extraBody}
+              extraError={outlineChapter ? null : "请选择要撰写的大纲章节"}
+              onSubmitted={handleGenerateSubmitted}
+            />
+            <Button variant="outline" size="sm" onClick={() => void refresh()} disabled={isRefreshing}>
+              <RefreshCcw className="h-4 w-4" />
+              刷新
+            </Button>
+          </CardAction>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-3">
+              <DraftSaveIndicator isDirty={isDirty} localSavedAt={draftEditor.localSavedAt} />
+              <span className="text-muted-foreground text-xs">{formatWordCount(wordCount)}</span>
+            </div>
+            <Button size="sm" onClick={handleSave} disabled={isSaving || !isDirty}>
+              {isSaving ? "保存中..." : "保存正文"}
+            </Button>
+          </div>
+          <Textarea
+            value={content}
+            onChange={(event) => setContent(event.target.value)}
+            placeholder="在此撰写章节正文，或点击“生成正文”根据大纲生成草稿..."
+            className="min-h-[60vh] text-base leading-8"
+          />
+        </CardContent>
+      </Card>
+
+      <DraftConflictDialog label="章节正文" conflict={draftEditor.conflict} onResolve={draftEditor.resolveConflict} />
+    </div>
+  );
+}
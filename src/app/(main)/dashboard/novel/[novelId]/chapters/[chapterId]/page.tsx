@@ -0,0 +1,85 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import useSWR from "swr";
+import { AlertCircle, ArrowLeft } from "lucide-react";
+
+import { fetchWithAuth } from "@/utils/fetch-with-auth";
+import { useChapter } from "@/hooks/use-chapters";
+import { WorkDetailResponse } from "@/types/work";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+
+import { ChapterProseEditor } from "./_components/chapter-prose-editor";
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: unknown;
+}
+
+const workFetcher = async (url: string) => {
+  const res = await fetchWithAuth(url);
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    const message = errorData?.message?.message || `获取作品详情失败: ${res.status} ${res.statusText}`;
+    throw new Error(message);
+  }
+  const json = (await res.json()) as ApiResponse<WorkDetailResponse>;
+  return json?.success ? json.data : (json as unknown as WorkDetailResponse);
+};
+
+export default function ChapterEditorPage() {
+  const params = useParams();
+  const novelId = params?.novelId as string;
+  const chapterId = params?.chapterId as string;
+
+  const { data: chapter, error, isLoading, isValidating, mutate } = useChapter(chapterId);
+  // 与作品详情页共用 SWR key，用于生成提示词中的作品变量
+  const { data: detail } = useSWR<WorkDetailResponse>(novelId ? `/api/v1/novels/works/${novelId}` : null, workFetcher, {
+    revalidateOnFocus: false,
+  });
+
+  return (
+    <div className="container mx-auto space-y-6 py-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <Button variant="outline" asChild>
+          <Link href={`/dashboard/novel/${novelId}`}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            返回作品
+          </Link>
+        </Button>
+        {detail?.work?.title && <span className="text-muted-foreground text-sm">{detail.work.title}</span>}
+      </div>
+
+      {error ? (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>加载章节失败: {error.message}</AlertDescription>
+        </Alert>
+      ) : isLoading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-8 w-1/2" />
+          <Skeleton className="h-4 w-3/4" />
+          <Skeleton className="h-[60vh] w-full" />
+        </div>
+      ) : chapter ? (
+        <ChapterProseEditor
+          novelId={novelId}
+          chapter={chapter}
+          work={detail?.work}
+          onRefresh={mutate}
+          isRefreshing={isValidating}
+        />
+      ) : (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>未找到章节数据。</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
@@ -4,18 +4,26 @@ import * as React from "react";
 import { useParams } from "next/navigation";
 import useSWR from "swr";
 import { fetchWithAuth } from "@/utils/fetch-with-auth";
-import { WorkDetailResponse, WorkStatus } from "@/types/work";
+import { WorkDetailResponse } from "@/types/work";
+import { TARGET_AUDIENCE_LABEL, toWorkStatusLabel, WORK_LANGUAGE_LABEL, WORK_STATUS_BADGE } from "@/lib/enum-labels";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Label } from "@/components/ui/label";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { AlertCircle, ArrowLeft } from "lucide-react";
+import { AlertCircle, ArrowLeft, BookOpen, GitFork } from "lucide-react";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { NovelWorldbuildingPanel } from "./_components/novel-worldbuilding-panel";
+import { NovelChaptersPanel } from "./_components/novel-chapters-panel";
+import { NovelCharactersPanel } from "./_components/novel-characters-panel";
+import { ExportNovelDialog } from "./_components/export-novel-dialog";
+import { ForkNovelDialog } from "./_components/fork-novel-dialog";
+import { WritingGoalsDialog } from "./_components/writing-goals-dialog";
+import { WorkWorkflowSection } from "./_components/work-workflow-section";
 import { NovelOutlinePanel } from "./_components/novel-outline-panel";
+import { WritingStats } from "../_components/writing-stats";
 
 // 后端统一响应包装
 interface ApiResponse<T> {
@@ -47,38 +55,13 @@ export default function NovelDetailPage() {
     data: detail,
     error,
     isLoading,
+    mutate,
   } = useSWR<WorkDetailResponse>(novelId ? `/api/v1/novels/works/${novelId}` : null, fetcher, {
     revalidateOnFocus: false,
   });
 
   const work = detail?.work;
 
-  const getStatusLabel = (status: WorkStatus) => {
-    switch (status) {
-      case WorkStatus.DRAFT:
-        return "草稿";
-      case WorkStatus.PUBLISHED:
-        return "已发布";
-      case WorkStatus.ARCHIVED:
-        return "已归档";
-      default:
-        return status;
-    }
-  };
-
-  const getStatusVariant = (status: WorkStatus) => {
-    switch (status) {
-      case WorkStatus.DRAFT:
-        return "secondary";
-      case WorkStatus.PUBLISHED:
-        return "default";
-      case WorkStatus.ARCHIVED:
-        return "outline";
-      default:
-        return "outline";
-    }
-  };
-
   const formatDateTime = (value: string) => new Date(value).toLocaleString("zh-CN");
 
   if (error) {
@@ -94,18 +77,40 @@ export default function NovelDetailPage() {
 
   return (
     <div className="container mx-auto py-6">
-      <div className="mb-6">
+      <div className="mb-6 flex flex-wrap items-center gap-3">
         <Button variant="outline" asChild>
           <Link href="/dashboard/novel">
             <ArrowLeft className="mr-2 h-4 w-4" />
             返回列表
           </Link>
         </Button>
+        <Button variant="outline" asChild>
+          <Link href={`/dashboard/novel/${novelId}/read`}>
+            <BookOpen className="mr-2 h-4 w-4" />
+            阅读全文
+          </Link>
+        </Button>
+        {work && <WritingGoalsDialog work={work} onUpdated={() => mutate()} />}
+        {work && <ExportNovelDialog work={work} />}
+        {work && <ForkNovelDialog work={work} />}
       </div>
       <Card>
         <CardHeader>
           <CardTitle>作品详情</CardTitle>
           <CardDescription>查看作品基本信息、剧情提纲与角色设定。</CardDescription>
+          {work?.forkedFrom && (
+            <div className="text-muted-foreground flex flex-wrap items-center gap-1.5 text-sm">
+              <GitFork className="h-4 w-4" />
+              派生自
+              <Link
+                href={`/dashboard/novel/${work.forkedFrom.sourceNovelId}`}
+                className="text-foreground font-medium hover:underline"
+              >
+                《{work.forkedFrom.sourceTitle || work.forkedFrom.sourceNovelId}》
+              </Link>
+              <span>· {formatDateTime(work.forkedFrom.forkedAt)}</span>
+            </div>
+          )}
         </CardHeader>
         <CardContent className="space-y-6">
           {isLoading ? (
@@ -126,64 +131,124 @@ export default function NovelDetailPage() {
                 <TabsTrigger value="introduction">小说介绍</TabsTrigger>
                 <TabsTrigger value="worldview">小说世界观</TabsTrigger>
                 <TabsTrigger value="outline">小说大纲</TabsTrigger>
+                <TabsTrigger value="chapters">章节</TabsTrigger>
                 <TabsTrigger value="characters">小说人物</TabsTrigger>
+                <TabsTrigger value="stats">写作统计</TabsTrigger>
               </TabsList>
               <TabsContent value="introduction" className="space-y-8">
-                <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
-                  <div className="md:col-span-2">
-                    <Label className="text-muted-foreground text-xs font-medium tracking-wider uppercase">标题</Label>
-                    <div className="mt-1 text-lg font-semibold">{work.title}</div>
-                  </div>
-                  <div>
-                    <Label className="text-muted-foreground text-xs font-medium tracking-wider uppercase">状态</Label>
-                    <Badge variant={getStatusVariant(work.status)} className="mt-1">
-                      {getStatusLabel(work.status)}
-                    </Badge>
-                  </div>
-                  <div>
-                    <Label className="text-muted-foreground text-xs font-medium tracking-wider uppercase">
-                      作品 ID
-                    </Label>
-                    <div className="text-muted-foreground mt-1 font-mono text-sm">{work.novelId}</div>
-                  </div>
-                  {work.createdBy && (
+                <div className="flex flex-col gap-8 md:flex-row">
+                  {work.coverImageUrl && (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img
+                      src={work.coverImageUrl}
+                      alt={`${work.title} 封面`}
+                      className="h-64 w-48 shrink-0 rounded-md border object-cover"
+                    />
+                  )}
+                  <div className="grid flex-1 grid-cols-1 gap-6 md:grid-cols-2">
+                    <div className="md:col-span-2">
+                      <Label className="text-muted-foreground text-xs font-medium tracking-wider uppercase">标题</Label>
+                      <div className="mt-1 text-lg font-semibold">{work.title}</div>
+                    </div>
+                    <div>
+                      <Label className="text-muted-foreground text-xs font-medium tracking-wider uppercase">状态</Label>
+                      <Badge variant={WORK_STATUS_BADGE[work.status] ?? "outline"} className="mt-1">
+                        {toWorkStatusLabel(work.status)}
+                      </Badge>
+                    </div>
+                    <div>
+                      <Label className="text-muted-foreground text-xs font-medium tracking-wider uppercase">题材</Label>
+                      <div className="mt-1 text-sm">{work.genre || "未设置"}</div>
+                    </div>
                     <div>
                       <Label className="text-muted-foreground text-xs font-medium tracking-wider uppercase">
-                        创建人
+                        目标受众
                       </Label>
-                      <div className="mt-1 text-sm">{work.createdBy}</div>
+                      <div className="mt-1 text-sm">
+                        {work.targetAudience ? TARGET_AUDIENCE_LABEL[work.targetAudience] : "未设置"}
+                      </div>
+                    </div>
+                    <div>
+                      <Label className="text-muted-foreground text-xs font-medium tracking-wider uppercase">语言</Label>
+                      <div className="mt-1 text-sm">
+                        {work.language ? WORK_LANGUAGE_LABEL[work.language] : "未设置"}
+                      </div>
                     </div>
-                  )}
-                  <div>
-                    <Label className="text-muted-foreground text-xs font-medium tracking-wider uppercase">
-                      创建时间
-                    </Label>
-                    <div className="mt-1 text-sm">{formatDateTime(work.createdAt)}</div>
-                  </div>
-                  <div>
-                    <Label className="text-muted-foreground text-xs font-medium tracking-wider uppercase">
-                      更新时间
-                    </Label>
-                    <div className="mt-1 text-sm">{formatDateTime(work.updatedAt)}</div>
-                  </div>
-                  {work.description && (
                     <div className="md:col-span-2">
-                      <Label className="text-muted-foreground text-xs font-medium tracking-wider uppercase">描述</Label>
-                      <div className="mt-1 text-sm whitespace-pre-wrap">{work.description}</div>
+                      <Label className="text-muted-foreground text-xs font-medium tracking-wider uppercase">标签</Label>
+                      <div className="mt-1 flex flex-wrap gap-2">
+                        {work.tags?.length ? (
+                          work.tags.map((tag) => (
+                            <Badge key={tag} variant="outline">
+                              {tag}
+                            </Badge>
+                          ))
+                        ) : (
+                          <span className="text-muted-foreground text-sm">无</span>
+                        )}
+                      </div>
                     </div>
-                  )}
+                    <div>
+                      <Label className="text-muted-foreground text-xs font-medium tracking-wider uppercase">
+                        作品 ID
+                      </Label>
+                      <div className="text-muted-foreground mt-1 font-mono text-sm">{work.novelId}</div>
+                    </div>
+                    {work.createdBy && (
+                      <div>
+                        <Label className="text-muted-foreground text-xs font-medium tracking-wider uppercase">
+                          创建人
+                        </Label>
+                        <div className="mt-1 text-sm">{work.createdBy}</div>
+                      </div>
+                    )}
+                    <div>
+                      <Label className="text-muted-foreground text-xs font-medium tracking-wider uppercase">
+                        创建时间
+                      </Label>
+                      <div className="mt-1 text-sm">{formatDateTime(work.createdAt)}</div>
+                    </div>
+                    <div>
+                      <Label className="text-muted-foreground text-xs font-medium tracking-wider uppercase">
+                        更新时间
+                      </Label>
+                      <div className="mt-1 text-sm">{formatDateTime(work.updatedAt)}</div>
+                    </div>
+                    {work.description && (
+                      <div className="md:col-span-2">
+                        <Label className="text-muted-foreground text-xs font-medium tracking-wider uppercase">
+                          简介
+                        </Label>
+                        <div className="mt-1 text-sm whitespace-pre-wrap">{work.description}</div>
+                      </div>
+                    )}
+                    {work.synopsis && (
+                      <div className="md:col-span-2">
+                        <Label className="text-muted-foreground text-xs font-medium tracking-wider uppercase">
+                          故事梗概
+                        </Label>
+                        <div className="mt-1 text-sm whitespace-pre-wrap">{work.synopsis}</div>
+                      </div>
+                    )}
+                  </div>
                 </div>
+                <WorkWorkflowSection work={work} onChanged={() => mutate()} />
+              </TabsContent>
+              {/* 编辑类标签页保持挂载，切换标签不会丢失未保存的草稿 */}
+              <TabsContent value="worldview" forceMount className="data-[state=inactive]:hidden">
+                <NovelWorldbuildingPanel novelId={novelId} work={work} />
               </TabsContent>
-              <TabsContent value="worldview">
-                <NovelWorldbuildingPanel novelId={novelId} />
+              <TabsContent value="outline" forceMount className="data-[state=inactive]:hidden">
+                <NovelOutlinePanel novelId={novelId} work={work} />
               </TabsContent>
-              <TabsContent value="outline">
-                <NovelOutlinePanel novelId={novelId} />
+              <TabsContent value="chapters">
+                <NovelChaptersPanel novelId={novelId} />
               </TabsContent>
               <TabsContent value="characters">
-                <div className="text-muted-foreground flex min-h-[200px] items-center justify-center">
-                  小说人物内容敬请期待
-                </div>
+                <NovelCharactersPanel novelId={novelId} />
+              </TabsContent>
+              <TabsContent value="stats">
+                <WritingStats novelId={novelId} />
               </TabsContent>
             </Tabs>
           ) : (
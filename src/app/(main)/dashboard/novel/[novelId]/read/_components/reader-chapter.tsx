@@ -0,0 +1,86 @@
+"use client";
+
+import * as React from "react";
+import { AlertCircle } from "lucide-react";
+
+import { useChapter, useScenes } from "@/hooks/use-chapters";
+import { hasChapterNumber } from "@/lib/chapter-title";
+import { Chapter } from "@/types/chapter";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface ReaderChapterProps {
+  chapter: Chapter;
+  // 正文章节序号，序章等特殊章节没有序号
+  number?: number;
+  // 正文渲染完成后回调，用于恢复上次的阅读位置
+  onReady?: () => void;
+}
+
+const toParagraphs = (text: string) =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+/**
+ * 阅读模式下的单章正文：优先使用章节正文，没有时按顺序拼接各场景内容
+ */
+export function ReaderChapter({ chapter, number, onReady }: ReaderChapterProps) {
+  const { data: detail, error, isLoading } = useChapter(chapter.chapterId);
+  const hasChapterContent = Boolean(detail?.content?.trim());
+  const { data: scenes, isLoading: isScenesLoading } = useScenes(
+    detail && !hasChapterContent ? chapter.chapterId : null,
+  );
+
+  const sections = React.useMemo(() => {
+    if (hasChapterContent) return [toParagraphs(detail?.content ?? "")];
+    return (scenes ?? []).map((scene) => toParagraphs(scene.content ?? "")).filter((section) => section.length);
+  }, [detail?.content, hasChapterContent, scenes]);
+
+  const loading = isLoading || (!hasChapterContent && isScenesLoading);
+  React.useEffect(() => {
+    if (!loading && (detail || error)) onReady?.();
+  }, [detail, error, loading, onReady]);
+
+  return (
+    <article>
+      <header className="mb-10 text-center">
+        {number !== undefined && !hasChapterNumber(chapter.title) && (
+          <p className="text-muted-foreground text-sm">第 {number} 章</p>
+        )}
+        <h1 className="mt-2 text-[1.6em] leading-snug font-semibold">{chapter.title}</h1>
+      </header>
+
+      {error ? (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>加载章节正文失败: {error.message}</AlertDescription>
+        </Alert>
+      ) : loading ? (
+        <div className="space-y-4">
+          {Array.from({ length: 8 }).map((_, i) => (
+            <Skeleton key={i} className="h-5 w-full" />
+          ))}
+        </div>
+      ) : sections.length ? (
+        sections.map((paragraphs, sectionIndex) => (
+          <section key={sectionIndex}>
+            {sectionIndex > 0 && (
+              <p className="text-muted-foreground my-8 text-center tracking-[1em]" aria-hidden>
+                ※※※
+              </p>
+            )}
+            {paragraphs.map((paragraph, paragraphIndex) => (
+              <p key={paragraphIndex} className="mb-[0.8em] indent-[2em] break-words">
+                {paragraph}
+              </p>
+            ))}
+          </section>
+        ))
+      ) : (
+        <p className="text-muted-foreground py-16 text-center text-sm">本章暂无正文。</p>
+      )}
+    </article>
+  );
+}
@@ -0,0 +1,179 @@
+"use client";
+
+import { Type } from "lucide-react";
+
+import { updateThemeMode, updateThemePreset } from "@/lib/theme-utils";
+import { setValueToCookie } from "@/server/server-actions";
+import { usePreferencesStore } from "@/stores/preferences/preferences-provider";
+import { THEME_PRESET_OPTIONS, type ThemeMode, type ThemePreset } from "@/types/preferences/theme";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+import {
+  READER_FONT_FAMILY_OPTIONS,
+  READER_FONT_SIZE_RANGE,
+  READER_LINE_HEIGHT_RANGE,
+  READER_WIDTH_OPTIONS,
+  ReaderFontFamily,
+  ReaderTypography,
+  ReaderWidth,
+} from "./use-reader-preferences";
+
+interface ReaderSettingsProps {
+  typography: ReaderTypography;
+  isCustomized: boolean;
+  onChange: (patch: Partial<ReaderTypography>) => void;
+  onReset: () => void;
+}
+
+/**
+ * 阅读设置：主题预设与明暗模式沿用全站偏好，字体、字号、行距与版心宽度为阅读模式专属
+ */
+export function ReaderSettings({ typography, isCustomized, onChange, onReset }: ReaderSettingsProps) {
+  const themeMode = usePreferencesStore((s) => s.themeMode);
+  const setThemeMode = usePreferencesStore((s) => s.setThemeMode);
+  const themePreset = usePreferencesStore((s) => s.themePreset);
+  const setThemePreset = usePreferencesStore((s) => s.setThemePreset);
+
+  const handlePresetChange = async (value: ThemePreset) => {
+    updateThemePreset(value);
+    setThemePreset(value);
+    await setValueToCookie("theme_preset", value);
+  };
+
+  const handleModeChange = async (value: ThemeMode) => {
+    updateThemeMode(value);
+    setThemeMode(value);
+    await setValueToCookie("theme_mode", value);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="阅读设置">
+          <Type />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72">
+        <div className="flex flex-col gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs font-medium">主题</Label>
+            <Select value={themePreset} onValueChange={(value) => void handlePresetChange(value as ThemePreset)}>
+              <SelectTrigger size="sm" className="w-full text-xs">
+                <SelectValue placeholder="主题" />
+              </SelectTrigger>
+              <SelectContent>
+                {THEME_PRESET_OPTIONS.map((preset) => (
+                  <SelectItem key={preset.value} className="text-xs" value={preset.value}>
+                    <span
+                      className="size-2.5 rounded-full"
+                      style={{
+                        backgroundColor: themeMode === "dark" ? preset.primary.dark : preset.primary.light,
+                      }}
+                    />
+                    {preset.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs font-medium">模式</Label>
+            <ToggleGroup
+              className="w-full"
+              size="sm"
+              variant="outline"
+              type="single"
+              value={themeMode}
+              onValueChange={(value) => value && void handleModeChange(value as ThemeMode)}
+            >
+              <ToggleGroupItem className="flex-1 text-xs" value="light" aria-label="日间">
+                日间
+              </ToggleGroupItem>
+              <ToggleGroupItem className="flex-1 text-xs" value="dark" aria-label="夜间">
+                夜间
+              </ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs font-medium">字体</Label>
+            <ToggleGroup
+              className="w-full"
+              size="sm"
+              variant="outline"
+              type="single"
+              value={typography.fontFamily}
+              onValueChange={(value) => value && onChange({ fontFamily: value as ReaderFontFamily })}
+            >
+              {READER_FONT_FAMILY_OPTIONS.map((option) => (
+                <ToggleGroupItem
+                  key={option.value}
+                  className={`flex-1 text-xs ${option.className}`}
+                  value={option.value}
+                >
+                  {option.label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs font-medium">字号</Label>
+              <span className="text-muted-foreground text-xs">{typography.fontSize}px</span>
+            </div>
+            <Slider
+              min={READER_FONT_SIZE_RANGE.min}
+              max={READER_FONT_SIZE_RANGE.max}
+              step={READER_FONT_SIZE_RANGE.step}
+              value={[typography.fontSize]}
+              onValueChange={([value]) => onChange({ fontSize: value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs font-medium">行距</Label>
+              <span className="text-muted-foreground text-xs">{typography.lineHeight.toFixed(1)}</span>
+            </div>
+            <Slider
+              min={READER_LINE_HEIGHT_RANGE.min}
+              max={READER_LINE_HEIGHT_RANGE.max}
+              step={READER_LINE_HEIGHT_RANGE.step}
+              value={[typography.lineHeight]}
+              onValueChange={([value]) => onChange({ lineHeight: Math.round(value * 10) / 10 })}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs font-medium">版心宽度</Label>
+            <ToggleGroup
+              className="w-full"
+              size="sm"
+              variant="outline"
+              type="single"
+              value={typography.width}
+              onValueChange={(value) => value && onChange({ width: value as ReaderWidth })}
+            >
+              {READER_WIDTH_OPTIONS.map((option) => (
+                <ToggleGroupItem key={option.value} className="flex-1 text-xs" value={option.value}>
+                  {option.label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          <Button variant="outline" size="sm" onClick={onReset} disabled={!isCustomized}>
+            恢复主题默认排版
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import * as React from "react";
+import { List } from "lucide-react";
+
+import { formatChapterTitle, getChapterNumbers } from "@/lib/chapter-title";
+import { cn } from "@/lib/utils";
+import { formatWordCount } from "@/lib/word-count";
+import { Chapter } from "@/types/chapter";
+import { Button } from "@/components/ui/button";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+
+interface ReaderTocProps {
+  chapters: Chapter[];
+  currentIndex: number;
+  onSelect: (index: number) => void;
+}
+
+/**
+ * 阅读目录：列出全部章节，高亮当前章节
+ */
+export function ReaderToc({ chapters, currentIndex, onSelect }: ReaderTocProps) {
+  const [open, setOpen] = React.useState(false);
+  const totalWords = chapters.reduce((sum, chapter) => sum + (chapter.wordCount ?? 0), 0);
+  const chapterNumbers = React.useMemo(() => getChapterNumbers(chapters), [chapters]);
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="目录">
+          <List />
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="left" className="gap-0">
+        <SheetHeader>
+          <SheetTitle>目录</SheetTitle>
+          <SheetDescription>
+            共 {chapters.length} 章 · {formatWordCount(totalWords)}
+          </SheetDescription>
+        </SheetHeader>
+        <nav className="flex-1 overflow-y-auto px-2 pb-4">
+          {chapters.map((chapter, index) => (
+            <button
+              key={chapter.chapterId}
+              type="button"
+              onClick={() => {
+                onSelect(index);
+                setOpen(false);
+              }}
+              className={cn(
+                "hover:bg-muted flex w-full items-center justify-between gap-3 rounded-md px-3 py-2 text-left text-sm",
+                index === currentIndex && "bg-muted text-primary font-medium",
+              )}
+            >
+              <span className="truncate">
+                {formatChapterTitle(chapterNumbers.get(chapter.chapterId), chapter.title)}
+              </span>
+              <span className="text-muted-foreground shrink-0 text-xs">{formatWordCount(chapter.wordCount ?? 0)}</span>
+            </button>
+          ))}
+        </nav>
+      </SheetContent>
+    </Sheet>
+  );
+}
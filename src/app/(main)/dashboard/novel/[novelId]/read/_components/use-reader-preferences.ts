@@ -0,0 +1,87 @@
+"use client";
+
+import * as React from "react";
+
+import { usePreferencesStore } from "@/stores/preferences/preferences-provider";
+import type { ThemePreset } from "@/types/preferences/theme";
+
+export type ReaderFontFamily = "serif" | "sans" | "mono";
+export type ReaderWidth = "narrow" | "medium" | "wide";
+
+export interface ReaderTypography {
+  fontFamily: ReaderFontFamily;
+  fontSize: number;
+  lineHeight: number;
+  width: ReaderWidth;
+}
+
+export const READER_FONT_SIZE_RANGE = { min: 14, max: 28, step: 1 } as const;
+export const READER_LINE_HEIGHT_RANGE = { min: 1.4, max: 2.6, step: 0.1 } as const;
+
+export const READER_FONT_FAMILY_OPTIONS: { value: ReaderFontFamily; label: string; className: string }[] = [
+  { value: "serif", label: "宋体", className: "font-serif" },
+  { value: "sans", label: "黑体", className: "font-sans" },
+  { value: "mono", label: "等宽", className: "font-mono" },
+];
+
+export const READER_WIDTH_OPTIONS: { value: ReaderWidth; label: string; className: string }[] = [
+  { value: "narrow", label: "窄", className: "max-w-xl" },
+  { value: "medium", label: "适中", className: "max-w-3xl" },
+  { value: "wide", label: "宽", className: "max-w-5xl" },
+];
+
+// 各主题预设对应的默认排版，用户调整的项会覆盖在其上
+export const READER_PRESET_TYPOGRAPHY: Record<ThemePreset, ReaderTypography> = {
+  default: { fontFamily: "serif", fontSize: 18, lineHeight: 2, width: "medium" },
+  brutalist: { fontFamily: "mono", fontSize: 17, lineHeight: 1.8, width: "narrow" },
+  "soft-pop": { fontFamily: "sans", fontSize: 18, lineHeight: 2.1, width: "medium" },
+  tangerine: { fontFamily: "serif", fontSize: 19, lineHeight: 2, width: "medium" },
+};
+
+const STORAGE_KEY = "readerTypography";
+
+const readOverrides = (): Partial<ReaderTypography> => {
+  if (typeof window === "undefined") return {};
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? (JSON.parse(raw) as Partial<ReaderTypography>) : {};
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * 阅读模式排版偏好：以当前主题预设的默认排版为基础，叠加本地保存的个人调整
+ */
+export function useReaderTypography() {
+  const themePreset = usePreferencesStore((s) => s.themePreset);
+  const [overrides, setOverrides] = React.useState<Partial<ReaderTypography>>({});
+
+  React.useEffect(() => {
+    setOverrides(readOverrides());
+  }, []);
+
+  const persist = (next: Partial<ReaderTypography>) => {
+    setOverrides(next);
+    try {
+      if (Object.keys(next).length) {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } else {
+        window.localStorage.removeItem(STORAGE_KEY);
+      }
+    } catch {
+      // 本地存储不可用时仅在当前会话生效
+    }
+  };
+
+  const presetTypography = READER_PRESET_TYPOGRAPHY[themePreset] ?? READER_PRESET_TYPOGRAPHY.default;
+  const typography = { ...presetTypography, ...overrides };
+
+  return {
+    typography,
+    isCustomized: Object.keys(overrides).length > 0,
+    update: (patch: Partial<ReaderTypography>) => persist({ ...overrides, ...patch }),
+    reset: () => persist({}),
+  };
+}
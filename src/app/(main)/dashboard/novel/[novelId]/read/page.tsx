@@ -0,0 +1,231 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import useSWR from "swr";
+import { AlertCircle, ArrowLeft, ChevronLeft, ChevronRight } from "lucide-react";
+
+import { getChapterNumbers } from "@/lib/chapter-title";
+import { cn } from "@/lib/utils";
+import { fetchWithAuth } from "@/utils/fetch-with-auth";
+import { useChapters } from "@/hooks/use-chapters";
+import { WorkDetailResponse } from "@/types/work";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+
+import { ReaderChapter } from "./_components/reader-chapter";
+import { ReaderSettings } from "./_components/reader-settings";
+import { ReaderToc } from "./_components/reader-toc";
+import {
+  READER_FONT_FAMILY_OPTIONS,
+  READER_WIDTH_OPTIONS,
+  useReaderTypography,
+} from "./_components/use-reader-preferences";
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: unknown;
+}
+
+// 本地记录的阅读位置：章节与章节内滚动比例
+interface ReaderProgress {
+  chapterId: string;
+  ratio: number;
+}
+
+const workFetcher = async (url: string) => {
+  const res = await fetchWithAuth(url);
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    const message = errorData?.message?.message || `获取作品详情失败: ${res.status} ${res.statusText}`;
+    throw new Error(message);
+  }
+  const json = (await res.json()) as ApiResponse<WorkDetailResponse>;
+  return json?.success ? json.data : (json as unknown as WorkDetailResponse);
+};
+
+const readProgress = (key: string): ReaderProgress | null => {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as ReaderProgress) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeProgress = (key: string, progress: ReaderProgress) => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(progress));
+  } catch {
+    // 本地存储不可用时不记录阅读位置
+  }
+};
+
+// 焦点在输入控件中时不拦截方向键
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+export default function NovelReaderPage() {
+  const params = useParams();
+  const novelId = params?.novelId as string;
+  const progressKey = `readerProgress:${novelId}`;
+
+  const { data: detail } = useSWR<WorkDetailResponse>(novelId ? `/api/v1/novels/works/${novelId}` : null, workFetcher, {
+    revalidateOnFocus: false,
+  });
+  const { data: chapters = [], error, isLoading } = useChapters(novelId);
+  const { typography, isCustomized, update, reset } = useReaderTypography();
+
+  const [currentIndex, setCurrentIndex] = React.useState<number | null>(null);
+  const [ratio, setRatio] = React.useState(0);
+  const scrollRef = React.useRef<HTMLDivElement | null>(null);
+  const pendingRatioRef = React.useRef<number | null>(null);
+  const saveTimerRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // 章节加载后恢复上次阅读的章节与位置
+  React.useEffect(() => {
+    if (currentIndex !== null || !chapters.length) return;
+    const saved = readProgress(progressKey);
+    const savedIndex = saved ? chapters.findIndex((chapter) => chapter.chapterId === saved.chapterId) : -1;
+    pendingRatioRef.current = savedIndex >= 0 ? saved!.ratio : 0;
+    setCurrentIndex(savedIndex >= 0 ? savedIndex : 0);
+  }, [chapters, currentIndex, progressKey]);
+
+  const index = currentIndex === null ? 0 : Math.min(currentIndex, Math.max(chapters.length - 1, 0));
+  const chapter = chapters[index];
+  const chapterNumbers = React.useMemo(() => getChapterNumbers(chapters), [chapters]);
+
+  const goTo = React.useCallback(
+    (nextIndex: number) => {
+      const target = chapters[nextIndex];
+      if (!target) return;
+      pendingRatioRef.current = 0;
+      scrollRef.current?.scrollTo({ top: 0 });
+      setRatio(0);
+      setCurrentIndex(nextIndex);
+      writeProgress(progressKey, { chapterId: target.chapterId, ratio: 0 });
+    },
+    [chapters, progressKey],
+  );
+
+  const handleChapterReady = React.useCallback(() => {
+    const container = scrollRef.current;
+    const pending = pendingRatioRef.current;
+    if (!container || pending === null) return;
+    pendingRatioRef.current = null;
+    container.scrollTo({ top: pending * Math.max(container.scrollHeight - container.clientHeight, 0) });
+  }, []);
+
+  const handleScroll = () => {
+    const container = scrollRef.current;
+    if (!container || !chapter) return;
+    const scrollable = container.scrollHeight - container.clientHeight;
+    const nextRatio = scrollable > 0 ? Math.min(container.scrollTop / scrollable, 1) : 1;
+    setRatio(nextRatio);
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(() => {
+      writeProgress(progressKey, { chapterId: chapter.chapterId, ratio: nextRatio });
+    }, 300);
+  };
+
+  React.useEffect(
+    () => () => {
+      if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    },
+    [],
+  );
+
+  // ← / → 切换上一章、下一章
+  React.useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.altKey || event.ctrlKey || event.metaKey || event.shiftKey) return;
+      if (isEditableTarget(event.target)) return;
+      if (event.key === "ArrowLeft" && index > 0) {
+        event.preventDefault();
+        goTo(index - 1);
+      } else if (event.key === "ArrowRight" && index < chapters.length - 1) {
+        event.preventDefault();
+        goTo(index + 1);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [chapters.length, goTo, index]);
+
+  const overallProgress = chapters.length ? ((index + ratio) / chapters.length) * 100 : 0;
+  const fontClassName = READER_FONT_FAMILY_OPTIONS.find((item) => item.value === typography.fontFamily)?.className;
+  const widthClassName = READER_WIDTH_OPTIONS.find((item) => item.value === typography.width)?.className;
+
+  return (
+    <div className="bg-background text-foreground fixed inset-0 z-50 flex flex-col">
+      <header className="flex items-center gap-2 border-b px-3 py-2">
+        <Button variant="ghost" size="icon" asChild aria-label="退出阅读">
+          <Link href={`/dashboard/novel/${novelId}`}>
+            <ArrowLeft />
+          </Link>
+        </Button>
+        <ReaderToc chapters={chapters} currentIndex={index} onSelect={goTo} />
+        <div className="min-w-0 flex-1 truncate text-center text-sm">
+          <span className="font-medium">{detail?.work?.title ?? "阅读模式"}</span>
+          {chapter && <span className="text-muted-foreground"> · {chapter.title}</span>}
+        </div>
+        <span className="text-muted-foreground hidden text-xs sm:inline">{Math.round(overallProgress)}%</span>
+        <ReaderSettings typography={typography} isCustomized={isCustomized} onChange={update} onReset={reset} />
+      </header>
+      <Progress value={overallProgress} className="h-1 rounded-none" />
+
+      <div ref={scrollRef} onScroll={handleScroll} className="flex-1 overflow-y-auto">
+        <div
+          className={cn("mx-auto px-6 py-12", fontClassName, widthClassName)}
+          style={{ fontSize: typography.fontSize, lineHeight: typography.lineHeight }}
+        >
+          {error ? (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>加载章节列表失败: {error.message}</AlertDescription>
+            </Alert>
+          ) : isLoading || (chapters.length && currentIndex === null) ? (
+            <div className="space-y-4">
+              <Skeleton className="mx-auto h-8 w-1/2" />
+              <Skeleton className="h-5 w-full" />
+              <Skeleton className="h-5 w-full" />
+              <Skeleton className="h-5 w-3/4" />
+            </div>
+          ) : chapter ? (
+            <ReaderChapter
+              key={chapter.chapterId}
+              chapter={chapter}
+              number={chapterNumbers.get(chapter.chapterId)}
+              onReady={handleChapterReady}
+            />
+          ) : (
+            <p className="text-muted-foreground py-16 text-center text-sm">
+              该作品暂无章节，可在作品详情的“章节”标签页中创建。
+            </p>
+          )}
+
+          {chapter && (
+            <nav className="mt-16 flex items-center justify-between gap-3 border-t pt-6 font-sans text-sm">
+              <Button variant="outline" onClick={() => goTo(index - 1)} disabled={index <= 0}>
+                <ChevronLeft className="h-4 w-4" />
+                上一章
+              </Button>
+              <span className="text-muted-foreground text-xs">
+                {index + 1} / {chapters.length} · 可用 ← → 键切换
+              </span>
+              <Button variant="outline" onClick={() => goTo(index + 1)} disabled={index >= chapters.length - 1}>
+                下一章
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </nav>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
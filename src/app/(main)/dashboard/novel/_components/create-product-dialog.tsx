@@ -1,7 +1,6 @@
 "use client";
 
 import * as React from "react";
-import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { toast } from "sonner";
@@ -20,16 +19,13 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { useFetchWithAuth } from "@/utils/fetch-with-auth";
 import { WorkStatus } from "@/types/work";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-
-// CreateWorkDto 对应的前端校验
-const createWorkSchema = z.object({
-  title: z.string({ required_error: "作品标题不能为空" }).min(1, "请输入作品标题"),
-  description: z.string().max(1000, "描述不能超过1000个字符").optional().or(z.literal("")),
-  status: z.nativeEnum(WorkStatus).optional(),
-});
-
-export type CreateWorkInput = z.infer<typeof createWorkSchema>;
+import {
+  toWorkFormValues,
+  toWorkPayload,
+  workFormSchema,
+  WorkFormInput,
+  WorkMetadataFields,
+} from "@/components/work-metadata-fields";
 
 // 注意：为兼容现有引用，仍导出 CreateProductDialog 名称
 export function CreateProductDialog({
@@ -44,20 +40,16 @@ export function CreateProductDialog({
   const fetchWithAuth = useFetchWithAuth();
   const [submitting, setSubmitting] = React.useState(false);
 
-  const form = useForm<CreateWorkInput>({
-    resolver: zodResolver(createWorkSchema),
-    defaultValues: {
-      title: "",
-      description: "",
-      status: WorkStatus.DRAFT,
-    },
+  const form = useForm<WorkFormInput>({
+    resolver: zodResolver(workFormSchema),
+    defaultValues: toWorkFormValues(),
   });
 
-  const onSubmit = async (values: CreateWorkInput) => {
+  const onSubmit = async (values: WorkFormInput) => {
     setSubmitting(true);
     try {
-      const payload: Record<string, unknown> = { ...values };
-      if (!payload.description) delete payload.description;
+      // 新作品一律从草稿开始，后续状态经审核流程变更
+      const payload = { ...toWorkPayload(values), status: WorkStatus.DRAFT };
 
       const res = await fetchWithAuth("/api/v1/novels/works", {
         method: "POST",
@@ -73,7 +65,7 @@ export function CreateProductDialog({
 
       toast.success("作品创建成功");
       onOpenChange(false);
-      form.reset();
+      form.reset(toWorkFormValues());
       onCreated?.();
     } catch (e: any) {
       toast.error(e?.message || "创建作品失败");
@@ -84,10 +76,10 @@ export function CreateProductDialog({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-xl">
+      <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-2xl">
         <DialogHeader>
           <DialogTitle>新增作品</DialogTitle>
-          <DialogDescription>填写作品信息，提交后将创建新作品。</DialogDescription>
+          <DialogDescription>填写作品信息与题材、标签等元数据，提交后将创建新作品。</DialogDescription>
         </DialogHeader>
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="grid grid-cols-1 gap-4">
@@ -110,37 +102,16 @@ export function CreateProductDialog({
               name="description"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>作品描述（可选）</FormLabel>
+                  <FormLabel>简介（可选）</FormLabel>
                   <FormControl>
-                    <Textarea placeholder="A detective story set on Mars." className="min-h-24" {...field} />
+                    <Textarea placeholder="A detective story set on Mars." className="min-h-20" {...field} />
                   </FormControl>
                   <FormMessage />
                 </FormItem>
               )}
             />
 
-            <FormField
-              control={form.control}
-              name="status"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>作品状态</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
-                    <FormControl>
-                      <SelectTrigger className="w-full">
-                        <SelectValue placeholder="选择作品状态" />
-                      </SelectTrigger>
-                    </FormControl>
-                    <SelectContent>
-                      <SelectItem value={WorkStatus.DRAFT}>草稿</SelectItem>
-                      <SelectItem value={WorkStatus.PUBLISHED}>已发布</SelectItem>
-                      <SelectItem value={WorkStatus.ARCHIVED}>已归档</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            <WorkMetadataFields control={form.control} />
 
             <DialogFooter className="mt-2">
               <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
@@ -3,7 +3,7 @@
 import * as React from "react";
 import { useRouter } from "next/navigation";
 
-import { Plus, Search, Filter, Download, Upload, EllipsisVertical } from "lucide-react";
+import { Plus, Search, Filter, Upload, EllipsisVertical } from "lucide-react";
 import { z } from "zod";
 import { ColumnDef } from "@tanstack/react-table";
 
@@ -34,10 +34,28 @@ import { dashboardColumns } from "./columns";
 import { sectionSchema } from "./schema";
 import { CreateProductDialog } from "./create-product-dialog";
 import { EditWorkDialog } from "./edit-work-dialog";
-import { ImportProductDialog } from "./import-product-dialog";
-import { WorkStatus, type Work } from "@/types/work";
+import { ImportManuscriptDialog } from "./import-manuscript-dialog";
+import {
+  TARGET_AUDIENCE_LABEL,
+  toWorkStatusLabel,
+  WORK_LANGUAGE_LABEL,
+  WORK_STATUS_BADGE,
+  WORK_STATUS_LABEL,
+} from "@/lib/enum-labels";
+import { TargetAudience, WORK_GENRES, WorkLanguage, WorkStatus, type Work } from "@/types/work";
 import { useFetchWithAuth } from "@/utils/fetch-with-auth";
 
+// 作品列表筛选项，“all”/空值表示不筛选
+interface WorkFilters {
+  status: string;
+  genre: string;
+  language: string;
+  targetAudience: string;
+  tag: string;
+}
+
+const DEFAULT_FILTERS: WorkFilters = { status: "all", genre: "", language: "all", targetAudience: "all", tag: "" };
+
 // 客户数据表格组件
 export function CustomerDataTable({
   data: initialData,
@@ -47,8 +65,6 @@ export function CustomerDataTable({
   onSearch,
   onFilter,
   onQuery,
-  onExport,
-  exporting,
   onCreated,
   pagination,
 }: {
@@ -59,8 +75,6 @@ export function CustomerDataTable({
   onSearch?: (query: string) => void;
   onFilter?: (filters: any) => void;
   onQuery?: () => void;
-  onExport?: () => void;
-  exporting?: boolean;
   onCreated?: () => void;
   pagination?: {
     page: number; // 1-based
@@ -74,7 +88,7 @@ export function CustomerDataTable({
   const router = useRouter();
   const [data, setData] = React.useState(() => initialData);
   const [searchQuery, setSearchQuery] = React.useState("");
-  const [statusFilter, setStatusFilter] = React.useState<string>("all");
+  const [filters, setFilters] = React.useState<WorkFilters>(DEFAULT_FILTERS);
   const fetchWithAuth = useFetchWithAuth();
   const [createOpen, setCreateOpen] = React.useState(false);
   const [selectedProduct, setSelectedProduct] = React.useState<Work | null>(null);
@@ -114,15 +128,40 @@ export function CustomerDataTable({
         accessorKey: "status",
         header: ({ column }) => <DataTableColumnHeader column={column} title="状态" />,
         cell: ({ row }) => {
-          const status: string = row.original.status;
-          const map: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
-            [WorkStatus.DRAFT]: { label: "草稿", variant: "secondary" },
-            [WorkStatus.PUBLISHED]: { label: "已发布", variant: "default" },
-            [WorkStatus.ARCHIVED]: { label: "已归档", variant: "outline" },
-          };
-          const cfg = map[status] || { label: String(status), variant: "outline" };
-          return <Badge variant={cfg.variant}>{cfg.label}</Badge>;
+          const status = row.original.status as WorkStatus;
+          return <Badge variant={WORK_STATUS_BADGE[status] ?? "outline"}>{toWorkStatusLabel(status)}</Badge>;
+        },
+      },
+      {
+        accessorKey: "genre",
+        header: ({ column }) => <DataTableColumnHeader column={column} title="题材" />,
+        cell: ({ row }) => <div className="text-sm">{row.original.genre || "-"}</div>,
+      },
+      {
+        accessorKey: "tags",
+        header: "标签",
+        cell: ({ row }) => {
+          const tags: string[] = row.original.tags ?? [];
+          if (!tags.length) return <span className="text-muted-foreground text-xs">-</span>;
+          return (
+            <div className="flex max-w-56 flex-wrap gap-1">
+              {tags.slice(0, 3).map((tag) => (
+                <Badge key={tag} variant="outline">
+                  {tag}
+                </Badge>
+              ))}
+              {tags.length > 3 && <Badge variant="secondary">+{tags.length - 3}</Badge>}
+            </div>
+          );
         },
+        enableSorting: false,
+      },
+      {
+        accessorKey: "targetAudience",
+        header: ({ column }) => <DataTableColumnHeader column={column} title="受众" />,
+        cell: ({ row }) => (
+          <div className="text-sm">{TARGET_AUDIENCE_LABEL[row.original.targetAudience as TargetAudience] ?? "-"}</div>
+        ),
       },
       {
         accessorKey: "createdAt",
@@ -160,6 +199,14 @@ export function CustomerDataTable({
               <DropdownMenuItem onClick={() => router.push(`/dashboard/novel/${row.original.novelId}`)}>
                 查看详情
               </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => {
+                  setSelectedProduct(row.original);
+                  setEditOpen(true);
+                }}
+              >
+                编辑
+              </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
         ),
@@ -198,10 +245,16 @@ export function CustomerDataTable({
     onSearch?.(query);
   };
 
-  const handleStatusFilter = (status: string) => {
-    setStatusFilter(status);
+  const handleFilterChange = (patch: Partial<WorkFilters>) => {
+    const next = { ...filters, ...patch };
+    setFilters(next);
+    const toParam = (value: string) => (value === "all" || !value.trim() ? undefined : value.trim());
     onFilter?.({
-      status: status === "all" ? undefined : status,
+      status: toParam(next.status),
+      genre: toParam(next.genre),
+      language: toParam(next.language),
+      targetAudience: toParam(next.targetAudience),
+      tag: toParam(next.tag),
     });
   };
 
@@ -232,18 +285,67 @@ export function CustomerDataTable({
                   className="pl-8"
                 />
               </div>
-              <Select value={statusFilter} onValueChange={handleStatusFilter}>
+              <Select value={filters.status} onValueChange={(status) => handleFilterChange({ status })}>
                 <SelectTrigger className="w-32">
                   <Filter className="mr-2 h-4 w-4" />
                   <SelectValue placeholder="状态" />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">全部状态</SelectItem>
-                  <SelectItem value={WorkStatus.DRAFT}>草稿</SelectItem>
-                  <SelectItem value={WorkStatus.PUBLISHED}>已发布</SelectItem>
-                  <SelectItem value={WorkStatus.ARCHIVED}>已归档</SelectItem>
+                  {Object.values(WorkStatus).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {WORK_STATUS_LABEL[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                list="work-genre-filter-options"
+                placeholder="题材"
+                value={filters.genre}
+                onChange={(e) => handleFilterChange({ genre: e.target.value })}
+                className="w-28"
+              />
+              <datalist id="work-genre-filter-options">
+                {WORK_GENRES.map((genre) => (
+                  <option key={genre} value={genre} />
+                ))}
+              </datalist>
+              <Select value={filters.language} onValueChange={(language) => handleFilterChange({ language })}>
+                <SelectTrigger className="w-28">
+                  <SelectValue placeholder="语言" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">全部语言</SelectItem>
+                  {Object.values(WorkLanguage).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {WORK_LANGUAGE_LABEL[value]}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
+              <Select
+                value={filters.targetAudience}
+                onValueChange={(targetAudience) => handleFilterChange({ targetAudience })}
+              >
+                <SelectTrigger className="w-28">
+                  <SelectValue placeholder="受众" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">全部受众</SelectItem>
+                  {Object.values(TargetAudience).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {TARGET_AUDIENCE_LABEL[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                placeholder="标签"
+                value={filters.tag}
+                onChange={(e) => handleFilterChange({ tag: e.target.value })}
+                className="w-28"
+              />
               <Button size="sm" onClick={() => onQuery?.()}>
                 <Search className="mr-2 h-4 w-4" /> 查询
               </Button>
@@ -254,11 +356,7 @@ export function CustomerDataTable({
               <DataTableViewOptions table={table} />
               <Button variant="outline" size="sm" onClick={() => setImportOpen(true)}>
                 <Upload className="h-4 w-4" />
-                <span className="hidden lg:inline">导入</span>
-              </Button>
-              <Button variant="outline" size="sm" onClick={() => onExport?.()} disabled={exporting}>
-                <Download className="h-4 w-4" />
-                <span className="hidden lg:inline">{exporting ? "导出中..." : "导出"}</span>
+                <span className="hidden lg:inline">导入书稿</span>
               </Button>
               <Button size="sm" onClick={() => setCreateOpen(true)}>
                 <Plus className="h-4 w-4" />
@@ -305,15 +403,15 @@ export function CustomerDataTable({
       <EditWorkDialog
         open={editOpen}
         onOpenChange={setEditOpen}
-        work={selectedProduct as any}
+        work={selectedProduct}
         onUpdated={() => {
           onQuery?.();
           onRefresh?.();
         }}
       />
 
-      {/* 导入产品 Dialog */}
-      <ImportProductDialog
+      {/* 导入书稿 Dialog */}
+      <ImportManuscriptDialog
         open={importOpen}
         onOpenChange={setImportOpen}
         onImported={() => {
@@ -1,7 +1,6 @@
 "use client";
 
 import * as React from "react";
-import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { toast } from "sonner";
@@ -18,17 +17,32 @@ import {
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RecordConflict, RecordConflictDialog, RecordConflictField } from "@/components/record-conflict-dialog";
+import {
+  toWorkFormValues,
+  toWorkPayload,
+  workFormSchema,
+  WorkFormInput,
+  WorkMetadataFields,
+} from "@/components/work-metadata-fields";
+import { TARGET_AUDIENCE_LABEL, WORK_LANGUAGE_LABEL } from "@/lib/enum-labels";
 import { useFetchWithAuth } from "@/utils/fetch-with-auth";
-import { Work, WorkStatus } from "@/types/work";
-
-const formSchema = z.object({
-  title: z.string({ required_error: "作品标题不能为空" }).min(1, "请输入作品标题"),
-  description: z.string().max(1000, "描述不能超过1000个字符").optional().or(z.literal("")),
-  status: z.nativeEnum(WorkStatus, { required_error: "请选择作品状态" }),
-});
+import { TargetAudience, Work, WorkLanguage } from "@/types/work";
 
-type EditWorkInput = z.infer<typeof formSchema>;
+const CONFLICT_FIELDS: RecordConflictField<WorkFormInput>[] = [
+  { key: "title", label: "作品标题" },
+  { key: "description", label: "简介" },
+  { key: "genre", label: "题材" },
+  { key: "tags", label: "标签", format: (value) => (value as string[]).join("、") },
+  { key: "language", label: "语言", format: (value) => WORK_LANGUAGE_LABEL[value as WorkLanguage] ?? "未设置" },
+  {
+    key: "targetAudience",
+    label: "目标受众",
+    format: (value) => TARGET_AUDIENCE_LABEL[value as TargetAudience] ?? "未设置",
+  },
+  { key: "synopsis", label: "故事梗概" },
+  { key: "coverImageKey", label: "封面", format: (value) => (value ? String(value) : "无封面") },
+];
 
 export function EditWorkDialog({
   open,
@@ -43,39 +57,60 @@ export function EditWorkDialog({
 }) {
   const fetchWithAuth = useFetchWithAuth();
   const [submitting, setSubmitting] = React.useState(false);
+  // 编辑所基于的作品数据，保存时以其 updatedAt 作为前置条件
+  const [baseWork, setBaseWork] = React.useState<Partial<Work> | null>(work);
+  const [conflict, setConflict] = React.useState<RecordConflict<WorkFormInput> | null>(null);
 
-  const form = useForm<EditWorkInput>({
-    resolver: zodResolver(formSchema),
-    defaultValues: {
-      title: work?.title || "",
-      description: work?.description || "",
-      status: (work?.status as WorkStatus) || WorkStatus.DRAFT,
-    },
+  const form = useForm<WorkFormInput>({
+    resolver: zodResolver(workFormSchema),
+    defaultValues: toWorkFormValues(work),
   });
 
+  // 仅在打开或切换作品时以最新数据为基准；编辑期间作品在后台刷新不重置输入，保存时由冲突检查处理
   React.useEffect(() => {
-    form.reset({
-      title: work?.title || "",
-      description: work?.description || "",
-      status: (work?.status as WorkStatus) || WorkStatus.DRAFT,
-    });
-  }, [work?.novelId]);
+    if (!open) return;
+    form.reset(toWorkFormValues(work));
+    setBaseWork(work);
+    setConflict(null);
+  }, [open, work?.novelId, form]);
+
+  const fetchLatestWork = async (novelId: string) => {
+    const res = await fetchWithAuth(`/api/v1/novels/works/${novelId}`);
+    if (!res.ok) {
+      throw new Error(`获取最新作品信息失败: ${res.status} ${res.statusText}`);
+    }
+    const json = await res.json();
+    const data = json?.success ? json.data : json;
+    return (data?.work ?? data) as Work;
+  };
 
-  const onSubmit = async (values: EditWorkInput) => {
+  const saveWork = async (values: WorkFormInput, base: Partial<Work> | null) => {
     if (!work?.novelId) return;
     setSubmitting(true);
     try {
       const res = await fetchWithAuth(`/api/v1/novels/works/${work.novelId}`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(values),
+        body: JSON.stringify({ ...toWorkPayload(values, { keepEmpty: true }), expectedUpdatedAt: base?.updatedAt }),
       });
+      // 作品已被他人修改：取回最新数据进行三方合并
+      if (res.status === 409) {
+        const latest = await fetchLatestWork(work.novelId);
+        setConflict({
+          base: toWorkFormValues(base),
+          mine: values,
+          theirs: toWorkFormValues(latest),
+          theirsUpdatedAt: latest.updatedAt,
+        });
+        return;
+      }
       if (!res.ok) {
         const err = await res.json().catch(() => ({}) as any);
         const msg = err?.message?.message || err?.message || `更新失败: ${res.status} ${res.statusText}`;
         throw new Error(msg);
       }
       toast.success("作品已更新");
+      setConflict(null);
       onOpenChange(false);
       onUpdated?.();
     } catch (e: any) {
@@ -85,78 +120,82 @@ export function EditWorkDialog({
     }
   };
 
+  const onSubmit = (values: WorkFormInput) => saveWork(values, baseWork);
+
+  // 以服务器最新数据为新的基准，保存合并结果
+  const handleMergeConfirm = async (merged: WorkFormInput) => {
+    if (!conflict) return;
+    const nextBase = {
+      ...baseWork,
+      ...toWorkPayload(conflict.theirs, { keepEmpty: true }),
+      updatedAt: conflict.theirsUpdatedAt,
+    };
+    form.reset(merged);
+    setBaseWork(nextBase);
+    await saveWork(merged, nextBase);
+  };
+
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-xl">
-        <DialogHeader>
-          <DialogTitle>编辑作品</DialogTitle>
-          <DialogDescription>修改作品的标题、状态与描述。</DialogDescription>
-        </DialogHeader>
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>编辑作品</DialogTitle>
+            <DialogDescription>修改作品的标题、简介与题材、标签等元数据。</DialogDescription>
+          </DialogHeader>
 
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="grid grid-cols-1 gap-4">
-            <FormField
-              control={form.control}
-              name="title"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>作品标题</FormLabel>
-                  <FormControl>
-                    <Input placeholder="如：重生之快递大亨" {...field} />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="grid grid-cols-1 gap-4">
+              <FormField
+                control={form.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>作品标题</FormLabel>
+                    <FormControl>
+                      <Input placeholder="如：重生之快递大亨" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
 
-            <FormField
-              control={form.control}
-              name="status"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>作品状态</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>简介（可选）</FormLabel>
                     <FormControl>
-                      <SelectTrigger className="w-full">
-                        <SelectValue placeholder="选择作品状态" />
-                      </SelectTrigger>
+                      <Textarea placeholder="作品简介..." className="min-h-24" {...field} />
                     </FormControl>
-                    <SelectContent>
-                      <SelectItem value={WorkStatus.DRAFT}>草稿</SelectItem>
-                      <SelectItem value={WorkStatus.PUBLISHED}>已发布</SelectItem>
-                      <SelectItem value={WorkStatus.ARCHIVED}>已归档</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
 
-            <FormField
-              control={form.control}
-              name="description"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>作品描述（可选）</FormLabel>
-                  <FormControl>
-                    <Textarea placeholder="作品简介..." className="min-h-24" {...field} />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+              <WorkMetadataFields control={form.control} coverUrl={work?.coverImageUrl} />
 
-            <DialogFooter className="mt-2">
-              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
-                取消
-              </Button>
-              <Button type="submit" disabled={submitting}>
-                {submitting ? "保存中..." : "保存修改"}
-              </Button>
-            </DialogFooter>
-          </form>
-        </Form>
-      </DialogContent>
-    </Dialog>
+              <DialogFooter className="mt-2">
+                <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+                  取消
+                </Button>
+                <Button type="submit" disabled={submitting}>
+                  {submitting ? "保存中..." : "保存修改"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+      <RecordConflictDialog
+        label="作品"
+        fields={CONFLICT_FIELDS}
+        conflict={conflict}
+        submitting={submitting}
+        onCancel={() => setConflict(null)}
+        onConfirm={handleMergeConfirm}
+      />
+    </>
   );
 }
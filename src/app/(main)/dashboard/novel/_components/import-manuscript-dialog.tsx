@@ -0,0 +1,313 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { FileText, RotateCcw, UploadCloud } from "lucide-react";
+
+import {
+  MANUSCRIPT_ACCEPT,
+  MANUSCRIPT_MAX_SIZE,
+  ManuscriptSource,
+  detectChapterBreaks,
+  getManuscriptMime,
+  readManuscriptFile,
+  splitManuscript,
+} from "@/lib/manuscript-import";
+import { uploadWithPresignedUrl } from "@/lib/presigned-upload";
+import { ChapterStatus, CreateChapterRequest } from "@/types/chapter";
+import { CreateWorkDto, Work, WorkStatus } from "@/types/work";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import { useFetchWithAuth } from "@/utils/fetch-with-auth";
+
+import { getSectionTitle, ManuscriptSplitPreview } from "./manuscript-split-preview";
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: unknown;
+}
+
+interface ImportManuscriptDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported?: () => void;
+}
+
+const readErrorMessage = async (res: Response, fallback: string) => {
+  const errorData = await res.json().catch(() => ({}));
+  return errorData?.message?.message || `${fallback}: ${res.status} ${res.statusText}`;
+};
+
+/**
+ * 导入书稿：本地解析 TXT / Markdown / DOCX 并识别章节，确认拆分后上传原稿、创建作品与章节
+ */
+export function ImportManuscriptDialog({ open, onOpenChange, onImported }: ImportManuscriptDialogProps) {
+  const router = useRouter();
+  const fetchWithAuth = useFetchWithAuth();
+  const [file, setFile] = React.useState<File | null>(null);
+  const [source, setSource] = React.useState<ManuscriptSource | null>(null);
+  const [parsing, setParsing] = React.useState(false);
+  const [breaks, setBreaks] = React.useState<number[]>([]);
+  const [titles, setTitles] = React.useState<Record<number, string>>({});
+  const [workTitle, setWorkTitle] = React.useState("");
+  const [description, setDescription] = React.useState("");
+  const [progress, setProgress] = React.useState<{ done: number; total: number } | null>(null);
+  const busy = parsing || progress !== null;
+
+  const sections = React.useMemo(() => (source ? splitManuscript(source.lines, breaks) : []), [breaks, source]);
+
+  const reset = () => {
+    setFile(null);
+    setSource(null);
+    setBreaks([]);
+    setTitles({});
+    setWorkTitle("");
+    setDescription("");
+    setProgress(null);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const next = event.target.files?.[0] ?? null;
+    event.target.value = "";
+    if (!next) return;
+    if (next.size > MANUSCRIPT_MAX_SIZE) {
+      toast.error("文件过大，请拆分后分批导入（上限 20 MB）");
+      return;
+    }
+    try {
+      setParsing(true);
+      const parsed = await readManuscriptFile(next);
+      setFile(next);
+      setSource(parsed);
+      setBreaks(detectChapterBreaks(parsed.lines));
+      setTitles({});
+      setWorkTitle(parsed.title);
+    } catch (parseError) {
+      const message = parseError instanceof Error ? parseError.message : "解析书稿失败";
+      toast.error(message);
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const handleMerge = (start: number) => {
+    setBreaks((prev) => prev.filter((item) => item !== start));
+    setTitles(({ [start]: _removed, ...rest }) => rest);
+  };
+
+  const handleSplit = (line: number) => {
+    setBreaks((prev) => (prev.includes(line) ? prev : [...prev, line].sort((a, b) => a - b)));
+  };
+
+  const handleRedetect = () => {
+    if (!source) return;
+    setBreaks(detectChapterBreaks(source.lines));
+    setTitles({});
+  };
+
+  const handleImport = async () => {
+    if (!file || !source) return;
+    const title = workTitle.trim();
+    if (!title) {
+      toast.error("请填写作品标题");
+      return;
+    }
+    const chapters = sections
+      .map((section, index) => ({ title: getSectionTitle(sections, index, titles).trim(), content: section.content }))
+      .filter((chapter) => chapter.content || chapter.title);
+    if (chapters.some((chapter) => !chapter.title)) {
+      toast.error("存在未命名的章节，请补充标题");
+      return;
+    }
+
+    let novelId: string | null = null;
+    let created = 0;
+    try {
+      setProgress({ done: 0, total: chapters.length });
+      const sourceFileKey = await uploadWithPresignedUrl(fetchWithAuth, file, {
+        contentType: getManuscriptMime(file),
+        type: "manuscript",
+      });
+
+      const payload: CreateWorkDto = { title, status: WorkStatus.DRAFT, sourceFileKey };
+      if (description.trim()) payload.description = description.trim();
+      const workRes = await fetchWithAuth("/api/v1/novels/works", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      if (!workRes.ok) throw new Error(await readErrorMessage(workRes, "创建作品失败"));
+      const workJson = await workRes.json().catch(() => null);
+      const work = (workJson?.success ? (workJson as ApiResponse<Work>).data : workJson) as Work | null;
+      novelId = work?.novelId ?? null;
+      if (!novelId) throw new Error("创建作品接口未返回作品 ID");
+
+      // 按顺序逐章创建，保证章节排序与原稿一致
+      for (const chapter of chapters) {
+        const body: CreateChapterRequest = {
+          novelId,
+          title: chapter.title,
+          status: ChapterStatus.DRAFTING,
+          content: chapter.content,
+        };
+        const res = await fetchWithAuth("/api/v1/novels/chapters", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        });
+        if (!res.ok) throw new Error(await readErrorMessage(res, `创建章节「${chapter.title}」失败`));
+        created += 1;
+        setProgress({ done: created, total: chapters.length });
+      }
+
+      toast.success(`导入完成：已创建作品《${title}》及 ${created} 个章节`);
+      onOpenChange(false);
+      reset();
+      onImported?.();
+      router.push(`/dashboard/novel/${novelId}`);
+    } catch (importError) {
+      const message = importError instanceof Error ? importError.message : "导入失败，请稍后再试";
+      setProgress(null);
+      if (!novelId) {
+        toast.error(message);
+        return;
+      }
+      // 作品已创建时不再重复导入，保留已创建的章节并跳转到详情页继续处理
+      toast.error(`${message}（已导入 ${created}/${chapters.length} 章，可在作品详情中补充）`);
+      onOpenChange(false);
+      reset();
+      onImported?.();
+      router.push(`/dashboard/novel/${novelId}`);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (busy) return;
+        if (!next) reset();
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-h-[92vh] overflow-y-auto sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>导入书稿</DialogTitle>
+          <DialogDescription>
+            支持 TXT、Markdown 与 DOCX。系统会自动识别“第X章”、Markdown 标题等章节标题，确认拆分后创建作品与章节。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="flex min-w-64 flex-1 flex-col gap-2">
+              <Label htmlFor="manuscript-import-file">书稿文件</Label>
+              <Input
+                id="manuscript-import-file"
+                type="file"
+                accept={MANUSCRIPT_ACCEPT}
+                onChange={handleFileChange}
+                disabled={busy}
+              />
+            </div>
+            {file && (
+              <div className="text-muted-foreground flex items-center gap-2 pb-2 text-sm">
+                <FileText className="h-4 w-4" />
+                <span className="max-w-64 truncate">{file.name}</span>
+                <span>({(file.size / 1024).toFixed(1)} KB)</span>
+              </div>
+            )}
+          </div>
+
+          {parsing && <p className="text-muted-foreground text-sm">正在解析书稿...</p>}
+
+          {source && (
+            <>
+              <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                <div className="flex flex-col gap-2">
+                  <Label htmlFor="manuscript-work-title">作品标题</Label>
+                  <Input
+                    id="manuscript-work-title"
+                    value={workTitle}
+                    onChange={(event) => setWorkTitle(event.target.value)}
+                    disabled={busy}
+                  />
+                </div>
+                <div className="flex flex-col gap-2">
+                  <Label htmlFor="manuscript-work-description">作品简介（可选）</Label>
+                  <Textarea
+                    id="manuscript-work-description"
+                    value={description}
+                    onChange={(event) => setDescription(event.target.value)}
+                    className="min-h-9"
+                    rows={1}
+                    disabled={busy}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-muted-foreground text-xs">
+                  识别到 {breaks.length} 个章节标题。可修改章节名、将章节并入上一章，或在右侧原文中从任意行拆分。
+                </p>
+                <Button variant="outline" size="sm" onClick={handleRedetect} disabled={busy}>
+                  <RotateCcw className="h-4 w-4" />
+                  重新识别
+                </Button>
+              </div>
+
+              <ManuscriptSplitPreview
+                lines={source.lines}
+                sections={sections}
+                titles={titles}
+                disabled={busy}
+                onTitleChange={(start, value) => setTitles((prev) => ({ ...prev, [start]: value }))}
+                onMerge={handleMerge}
+                onSplit={handleSplit}
+              />
+            </>
+          )}
+
+          {progress && (
+            <div className="flex flex-col gap-2">
+              <Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} />
+              <p className="text-muted-foreground text-xs">
+                正在创建章节 {progress.done}/{progress.total}...
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => {
+              reset();
+              onOpenChange(false);
+            }}
+            disabled={busy}
+          >
+            取消
+          </Button>
+          <Button onClick={handleImport} disabled={!source || !sections.length || busy}>
+            <UploadCloud className="mr-2 h-4 w-4" />
+            {progress ? "导入中..." : `导入 ${sections.length} 个章节`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
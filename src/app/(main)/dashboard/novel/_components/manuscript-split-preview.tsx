@@ -0,0 +1,159 @@
+"use client";
+
+import * as React from "react";
+import { Merge, Scissors } from "lucide-react";
+
+import { isSpecialChapterTitle } from "@/lib/chapter-title";
+import { cn } from "@/lib/utils";
+import { ManuscriptSection } from "@/lib/manuscript-import";
+import { formatWordCount } from "@/lib/word-count";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+// 单次渲染的原文行数上限，避免长篇书稿卡顿
+const PAGE_SIZE = 300;
+
+interface ManuscriptSplitPreviewProps {
+  lines: string[];
+  sections: ManuscriptSection[];
+  titles: Record<number, string>;
+  disabled?: boolean;
+  onTitleChange: (start: number, title: string) => void;
+  // 取消该章节的拆分点，并入上一章
+  onMerge: (start: number) => void;
+  // 在指定行新增拆分点
+  onSplit: (line: number) => void;
+}
+
+const getOwnTitle = (section: ManuscriptSection, titles: Record<number, string>) =>
+  titles[section.start] ?? section.title;
+
+/**
+ * 未命名的章节按正文章节序号命名，序、楔子等特殊章节不占序号
+ */
+export const getSectionTitle = (sections: ManuscriptSection[], index: number, titles: Record<number, string>) => {
+  const section = sections[index];
+  if (section.start in titles || section.title) return getOwnTitle(section, titles);
+  const number = sections
+    .slice(0, index + 1)
+    .filter((item) => !isSpecialChapterTitle(getOwnTitle(item, titles))).length;
+  return `第${number}章`;
+};
+
+/**
+ * 拆分预览：左侧为章节列表（可改名、并入上一章），右侧为所选章节原文（可从任意行拆分）
+ */
+export function ManuscriptSplitPreview({
+  lines,
+  sections,
+  titles,
+  disabled,
+  onTitleChange,
+  onMerge,
+  onSplit,
+}: ManuscriptSplitPreviewProps) {
+  const [selectedStart, setSelectedStart] = React.useState<number>(sections[0]?.start ?? 0);
+  const [visibleCount, setVisibleCount] = React.useState(PAGE_SIZE);
+
+  // 拆分或合并后所选章节可能已不存在，回退到包含该行的章节
+  const selectedIndex = Math.max(
+    sections.findIndex((section) => section.start <= selectedStart && selectedStart < section.end),
+    0,
+  );
+  const selected = sections[selectedIndex];
+
+  React.useEffect(() => {
+    setVisibleCount(PAGE_SIZE);
+  }, [selected?.start]);
+
+  const selectedLines = selected ? lines.slice(selected.start, selected.end) : [];
+
+  return (
+    <div className="grid min-h-0 grid-cols-1 gap-4 md:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+      <div className="flex min-h-0 flex-col rounded-md border">
+        <div className="text-muted-foreground border-b px-3 py-2 text-xs">
+          共 {sections.length} 章 · {formatWordCount(sections.reduce((sum, section) => sum + section.wordCount, 0))}
+        </div>
+        <div className="max-h-[50vh] overflow-y-auto">
+          {sections.map((section, index) => (
+            <div
+              key={section.start}
+              className={cn(
+                "flex items-center gap-2 border-b px-3 py-2 last:border-b-0",
+                index === selectedIndex && "bg-muted",
+              )}
+              onClick={() => setSelectedStart(section.start)}
+            >
+              <span className="text-muted-foreground w-8 shrink-0 text-xs">{index + 1}</span>
+              <Input
+                value={getSectionTitle(sections, index, titles)}
+                onChange={(event) => onTitleChange(section.start, event.target.value)}
+                onFocus={() => setSelectedStart(section.start)}
+                className="h-8 min-w-0 flex-1"
+                disabled={disabled}
+              />
+              <span className="text-muted-foreground shrink-0 text-xs">{formatWordCount(section.wordCount)}</span>
+              {!section.content && <Badge variant="outline">空</Badge>}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0"
+                title="并入上一章"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  onMerge(section.start);
+                }}
+                disabled={disabled || index === 0}
+              >
+                <Merge className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex min-h-0 flex-col rounded-md border">
+        <div className="text-muted-foreground border-b px-3 py-2 text-xs">
+          原文第 {(selected?.start ?? 0) + 1}–{selected?.end ?? 0} 行 · 点击行首剪刀从该行起拆分为新章节
+        </div>
+        <div className="max-h-[50vh] overflow-y-auto py-1 font-mono text-xs leading-6">
+          {selectedLines.slice(0, visibleCount).map((line, offset) => {
+            const lineIndex = (selected?.start ?? 0) + offset;
+            const canSplit = offset > 0 && Boolean(line.trim()) && !disabled;
+            return (
+              <div key={lineIndex} className="group hover:bg-muted/60 flex items-start gap-2 px-2">
+                <span className="text-muted-foreground w-10 shrink-0 text-right select-none">{lineIndex + 1}</span>
+                <button
+                  type="button"
+                  className="text-muted-foreground hover:text-primary mt-1 shrink-0 opacity-0 group-hover:opacity-100 disabled:invisible"
+                  title="从此行拆分"
+                  onClick={() => onSplit(lineIndex)}
+                  disabled={!canSplit}
+                >
+                  <Scissors className="h-3.5 w-3.5" />
+                </button>
+                <span
+                  className={cn(
+                    "min-w-0 flex-1 break-words whitespace-pre-wrap",
+                    offset === 0 && selected?.isHeading && "text-primary font-semibold",
+                  )}
+                >
+                  {line || " "}
+                </span>
+              </div>
+            );
+          })}
+          {selectedLines.length > visibleCount && (
+            <div className="px-2 py-2 text-center">
+              <Button variant="ghost" size="sm" onClick={() => setVisibleCount((count) => count + PAGE_SIZE)}>
+                显示更多（剩余 {selectedLines.length - visibleCount} 行）
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
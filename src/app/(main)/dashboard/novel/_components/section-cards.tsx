@@ -1,83 +1,79 @@
-import { TrendingUp, TrendingDown } from "lucide-react";
+import { BookCheck, PenLine, Sparkles, Users } from "lucide-react";
 
+import { formatWordCount } from "@/lib/word-count";
+import { WritingStats } from "@/types/stats";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardAction, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface SectionCardsProps {
+  stats?: WritingStats;
+  days: number;
+  loading?: boolean;
+  // 单部作品的统计不展示作品数
+  scoped?: boolean;
+}
+
+const toPercent = (value: number, total: number) => (total ? `${Math.round((value / total) * 100)}%` : "-");
+
+/**
+ * 写作统计概览卡片：新增字数、章节完成度、生成任务成功率与人物数
+ */
+export function SectionCards({ stats, days, loading, scoped }: SectionCardsProps) {
+  const totals = stats?.totals;
+  const taskSuccess = stats?.tasksByType.reduce((sum, item) => sum + item.success, 0) ?? 0;
+  const taskFinished = stats?.tasksByType.reduce((sum, item) => sum + item.success + item.failed, 0) ?? 0;
+
+  const cards = [
+    {
+      label: `近 ${days} 天新增字数`,
+      value: formatWordCount(Math.max(totals?.wordsInRange ?? 0, 0)),
+      badge: `日均 ${formatWordCount(Math.round(Math.max(totals?.wordsInRange ?? 0, 0) / days))}`,
+      icon: PenLine,
+      footer: `累计 ${formatWordCount(totals?.words ?? 0)}`,
+    },
+    {
+      label: "章节完成度",
+      value: `${totals?.completedChapters ?? 0} / ${totals?.chapters ?? 0}`,
+      badge: toPercent(totals?.completedChapters ?? 0, totals?.chapters ?? 0),
+      icon: BookCheck,
+      footer: "已完成章节 / 全部章节",
+    },
+    {
+      label: `近 ${days} 天生成任务`,
+      value: (totals?.tasks ?? 0).toLocaleString("zh-CN"),
+      badge: `成功率 ${toPercent(taskSuccess, taskFinished)}`,
+      icon: Sparkles,
+      footer: `成功 ${taskSuccess} · 失败 ${taskFinished - taskSuccess}`,
+    },
+    {
+      label: "人物",
+      value: (totals?.characters ?? 0).toLocaleString("zh-CN"),
+      badge: scoped ? "本作品" : `${totals?.novels ?? 0} 部作品`,
+      icon: Users,
+      footer: scoped ? "作品内已创建的人物" : "全部作品的人物总数",
+    },
+  ];
 
-export function SectionCards() {
   return (
     <div className="*:data-[slot=card]:from-primary/5 *:data-[slot=card]:to-card dark:*:data-[slot=card]:bg-card grid grid-cols-1 gap-4 *:data-[slot=card]:bg-gradient-to-t *:data-[slot=card]:shadow-xs @xl/main:grid-cols-2 @5xl/main:grid-cols-4">
-      <Card className="@container/card">
-        <CardHeader>
-          <CardDescription>Total Revenue</CardDescription>
-          <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">$1,250.00</CardTitle>
-          <CardAction>
-            <Badge variant="outline">
-              <TrendingUp />
-              +12.5%
-            </Badge>
-          </CardAction>
-        </CardHeader>
-        <CardFooter className="flex-col items-start gap-1.5 text-sm">
-          <div className="line-clamp-1 flex gap-2 font-medium">
-            Trending up this month <TrendingUp className="size-4" />
-          </div>
-          <div className="text-muted-foreground">Visitors for the last 6 months</div>
-        </CardFooter>
-      </Card>
-      <Card className="@container/card">
-        <CardHeader>
-          <CardDescription>New Customers</CardDescription>
-          <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">1,234</CardTitle>
-          <CardAction>
-            <Badge variant="outline">
-              <TrendingDown />
-              -20%
-            </Badge>
-          </CardAction>
-        </CardHeader>
-        <CardFooter className="flex-col items-start gap-1.5 text-sm">
-          <div className="line-clamp-1 flex gap-2 font-medium">
-            Down 20% this period <TrendingDown className="size-4" />
-          </div>
-          <div className="text-muted-foreground">Acquisition needs attention</div>
-        </CardFooter>
-      </Card>
-      <Card className="@container/card">
-        <CardHeader>
-          <CardDescription>Active Accounts</CardDescription>
-          <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">45,678</CardTitle>
-          <CardAction>
-            <Badge variant="outline">
-              <TrendingUp />
-              +12.5%
-            </Badge>
-          </CardAction>
-        </CardHeader>
-        <CardFooter className="flex-col items-start gap-1.5 text-sm">
-          <div className="line-clamp-1 flex gap-2 font-medium">
-            Strong user retention <TrendingUp className="size-4" />
-          </div>
-          <div className="text-muted-foreground">Engagement exceed targets</div>
-        </CardFooter>
-      </Card>
-      <Card className="@container/card">
-        <CardHeader>
-          <CardDescription>Growth Rate</CardDescription>
-          <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">4.5%</CardTitle>
-          <CardAction>
-            <Badge variant="outline">
-              <TrendingUp />
-              +4.5%
-            </Badge>
-          </CardAction>
-        </CardHeader>
-        <CardFooter className="flex-col items-start gap-1.5 text-sm">
-          <div className="line-clamp-1 flex gap-2 font-medium">
-            Steady performance increase <TrendingUp className="size-4" />
-          </div>
-          <div className="text-muted-foreground">Meets growth projections</div>
-        </CardFooter>
-      </Card>
+      {cards.map((card) => (
+        <Card key={card.label} className="@container/card">
+          <CardHeader>
+            <CardDescription>{card.label}</CardDescription>
+            <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">
+              {loading && !stats ? <Skeleton className="h-8 w-24" /> : card.value}
+            </CardTitle>
+            <CardAction>
+              <Badge variant="outline">
+                <card.icon />
+                {card.badge}
+              </Badge>
+            </CardAction>
+          </CardHeader>
+          <CardFooter className="text-muted-foreground text-sm">{card.footer}</CardFooter>
+        </Card>
+      ))}
     </div>
   );
 }
@@ -0,0 +1,237 @@
+"use client";
+
+import * as React from "react";
+
+import { Bar, BarChart, CartesianGrid, Label, Pie, PieChart, XAxis, YAxis } from "recharts";
+
+import { fillDailySeries, formatDateKey } from "@/lib/daily-series";
+import { CHAPTER_STATUS_LABEL, TASK_TYPE_LABEL } from "@/lib/enum-labels";
+import { ChapterStatus } from "@/types/chapter";
+import { StatsRangeDays, WritingStats } from "@/types/stats";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+
+// 人物分布最多展示的作品数
+const MAX_NOVEL_BARS = 10;
+
+const chapterStatusConfig = {
+  count: { label: "章节数" },
+  [ChapterStatus.PLANNED]: { label: CHAPTER_STATUS_LABEL[ChapterStatus.PLANNED], color: "var(--chart-4)" },
+  [ChapterStatus.DRAFTING]: { label: CHAPTER_STATUS_LABEL[ChapterStatus.DRAFTING], color: "var(--chart-3)" },
+  [ChapterStatus.REVISING]: { label: CHAPTER_STATUS_LABEL[ChapterStatus.REVISING], color: "var(--chart-2)" },
+  [ChapterStatus.COMPLETED]: { label: CHAPTER_STATUS_LABEL[ChapterStatus.COMPLETED], color: "var(--chart-1)" },
+} satisfies ChartConfig;
+
+const taskConfig = {
+  success: { label: "成功", color: "var(--chart-1)" },
+  failed: { label: "失败", color: "var(--destructive)" },
+  pending: { label: "进行中", color: "var(--chart-4)" },
+} satisfies ChartConfig;
+
+const characterConfig = {
+  count: { label: "人物数", color: "var(--chart-2)" },
+} satisfies ChartConfig;
+
+const cadenceConfig = {
+  outline: { label: "大纲", color: "var(--chart-1)" },
+  worldbuilding: { label: "世界观", color: "var(--chart-3)" },
+} satisfies ChartConfig;
+
+const EmptyChart = ({ text }: { text: string }) => (
+  <div className="text-muted-foreground flex h-[220px] items-center justify-center text-sm">{text}</div>
+);
+
+interface StatsBreakdownChartsProps {
+  stats?: WritingStats;
+  days: StatsRangeDays;
+  // 单部作品的统计不展示各作品人物分布
+  scoped?: boolean;
+}
+
+/**
+ * 写作统计分项图表：章节状态、生成任务、人物分布与设定发布节奏
+ */
+export function StatsBreakdownCharts({ stats, days, scoped }: StatsBreakdownChartsProps) {
+  const chapterData = (stats?.chaptersByStatus ?? [])
+    .filter((item) => item.count > 0)
+    .map((item) => ({ ...item, fill: `var(--color-${item.status})` }));
+  const chapterTotal = chapterData.reduce((sum, item) => sum + item.count, 0);
+
+  const taskData = (stats?.tasksByType ?? []).map((item) => ({
+    type: TASK_TYPE_LABEL[item.type] ?? item.type,
+    success: item.success,
+    failed: item.failed,
+    pending: Math.max(item.total - item.success - item.failed, 0),
+    rate: item.success + item.failed ? Math.round((item.success / (item.success + item.failed)) * 100) : null,
+  }));
+
+  const characterData = [...(stats?.charactersByNovel ?? [])]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_NOVEL_BARS);
+
+  const cadenceData = React.useMemo(
+    () =>
+      fillDailySeries(stats?.publishCadence ?? [], days, stats?.to, (date) => ({ date, outline: 0, worldbuilding: 0 })),
+    [days, stats],
+  );
+  const publishTotal = cadenceData.reduce((sum, point) => sum + point.outline + point.worldbuilding, 0);
+
+  return (
+    <div className="grid grid-cols-1 gap-4 *:data-[slot=card]:shadow-xs @3xl/main:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle>章节状态</CardTitle>
+          <CardDescription>各写作阶段的章节数量</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {chapterTotal ? (
+            <ChartContainer config={chapterStatusConfig} className="mx-auto aspect-auto h-[220px] w-full">
+              <PieChart>
+                <ChartTooltip cursor={false} content={<ChartTooltipContent nameKey="status" hideLabel />} />
+                <Pie
+                  data={chapterData}
+                  dataKey="count"
+                  nameKey="status"
+                  innerRadius={60}
+                  outerRadius={85}
+                  paddingAngle={2}
+                >
+                  <Label
+                    content={({ viewBox }) => {
+                      if (viewBox && "cx" in viewBox && "cy" in viewBox) {
+                        return (
+                          <text x={viewBox.cx} y={viewBox.cy} textAnchor="middle" dominantBaseline="middle">
+                            <tspan x={viewBox.cx} y={viewBox.cy} className="fill-foreground text-2xl font-bold">
+                              {chapterTotal.toLocaleString("zh-CN")}
+                            </tspan>
+                            <tspan x={viewBox.cx} y={(viewBox.cy ?? 0) + 22} className="fill-muted-foreground">
+                              章
+                            </tspan>
+                          </text>
+                        );
+                      }
+                    }}
+                  />
+                </Pie>
+                <ChartLegend content={<ChartLegendContent nameKey="status" />} />
+              </PieChart>
+            </ChartContainer>
+          ) : (
+            <EmptyChart text="暂无章节" />
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>生成任务</CardTitle>
+          <CardDescription>
+            近 {days} 天各类型任务的成功与失败情况
+            {taskData.some((item) => item.rate !== null) &&
+              `（${taskData
+                .filter((item) => item.rate !== null)
+                .map((item) => `${item.type}成功率 ${item.rate}%`)
+                .join("，")}）`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {taskData.length ? (
+            <ChartContainer config={taskConfig} className="aspect-auto h-[220px] w-full">
+              <BarChart accessibilityLayer data={taskData} layout="vertical" margin={{ left: 8 }}>
+                <CartesianGrid horizontal={false} />
+                <YAxis dataKey="type" type="category" tickLine={false} axisLine={false} width={72} />
+                <XAxis type="number" hide allowDecimals={false} />
+                <ChartTooltip cursor={false} content={<ChartTooltipContent indicator="dot" />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="success" stackId="task" fill="var(--color-success)" />
+                <Bar dataKey="failed" stackId="task" fill="var(--color-failed)" />
+                <Bar dataKey="pending" stackId="task" fill="var(--color-pending)" radius={[0, 4, 4, 0]} />
+              </BarChart>
+            </ChartContainer>
+          ) : (
+            <EmptyChart text={`近 ${days} 天没有生成任务`} />
+          )}
+        </CardContent>
+      </Card>
+
+      {!scoped && (
+        <Card>
+          <CardHeader>
+            <CardTitle>人物分布</CardTitle>
+            <CardDescription>人物数最多的作品（至多 {MAX_NOVEL_BARS} 部）</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {characterData.length ? (
+              <ChartContainer config={characterConfig} className="aspect-auto h-[220px] w-full">
+                <BarChart accessibilityLayer data={characterData} layout="vertical" margin={{ left: 8 }}>
+                  <CartesianGrid horizontal={false} />
+                  <YAxis
+                    dataKey="novelName"
+                    type="category"
+                    tickLine={false}
+                    axisLine={false}
+                    width={96}
+                    tickFormatter={(value: string) => (value.length > 8 ? `${value.slice(0, 8)}…` : value)}
+                  />
+                  <XAxis type="number" hide allowDecimals={false} />
+                  <ChartTooltip cursor={false} content={<ChartTooltipContent indicator="line" />} />
+                  <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            ) : (
+              <EmptyChart text="暂无人物" />
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className={scoped ? "@3xl/main:col-span-2" : undefined}>
+        <CardHeader>
+          <CardTitle>设定发布节奏</CardTitle>
+          <CardDescription>
+            近 {days} 天共发布 {publishTotal} 个大纲 / 世界观版本
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {publishTotal ? (
+            <ChartContainer config={cadenceConfig} className="aspect-auto h-[220px] w-full">
+              <BarChart accessibilityLayer data={cadenceData}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="date"
+                  tickLine={false}
+                  axisLine={false}
+                  tickMargin={8}
+                  minTickGap={32}
+                  tickFormatter={formatDateKey}
+                />
+                <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                <ChartTooltip
+                  cursor={false}
+                  content={<ChartTooltipContent labelFormatter={(value) => formatDateKey(String(value))} />}
+                />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="outline" stackId="publish" fill="var(--color-outline)" />
+                <Bar
+                  dataKey="worldbuilding"
+                  stackId="publish"
+                  fill="var(--color-worldbuilding)"
+                  radius={[4, 4, 0, 0]}
+                />
+              </BarChart>
+            </ChartContainer>
+          ) : (
+            <EmptyChart text={`近 ${days} 天没有发布大纲或世界观`} />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import Link from "next/link";
+import { AlertTriangle, Flame } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { formatWordCount } from "@/lib/word-count";
+import { computeGoalProgress, GoalAlert } from "@/lib/writing-goals";
+import { useGoalSnapshots } from "@/hooks/use-writing-stats";
+import { NovelGoalSnapshot } from "@/types/stats";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+
+const GoalRow = ({ label, value, percent, hint }: { label: string; value: string; percent: number; hint?: string }) => (
+  <div className="flex flex-col gap-1.5">
+    <div className="flex items-center justify-between gap-2 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="tabular-nums">{value}</span>
+    </div>
+    <Progress value={percent} />
+    {hint && <p className="text-muted-foreground text-xs">{hint}</p>}
+  </div>
+);
+
+const GoalAlertItem = ({ alert }: { alert: GoalAlert }) => (
+  <p
+    className={cn(
+      "flex items-start gap-1.5 text-xs",
+      alert.level === "danger" ? "text-destructive" : "text-amber-600 dark:text-amber-500",
+    )}
+  >
+    <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+    {alert.message}
+  </p>
+);
+
+function NovelGoalProgress({ snapshot, showTitle }: { snapshot: NovelGoalSnapshot; showTitle: boolean }) {
+  const progress = computeGoalProgress(snapshot);
+
+  return (
+    <div className="flex flex-col gap-3 rounded-md border p-4">
+      <div className="flex items-center justify-between gap-2">
+        {showTitle ? (
+          <Link href={`/dashboard/novel/${snapshot.novelId}`} className="truncate font-medium hover:underline">
+            {snapshot.novelName}
+          </Link>
+        ) : (
+          <span className="text-muted-foreground text-sm">
+            日均 {formatWordCount(Math.round(progress.averageDailyWords))}
+          </span>
+        )}
+        <Badge variant={progress.streak ? "default" : "outline"} className="shrink-0">
+          <Flame />
+          连续 {progress.streak}
+          {progress.streakCapped ? "+" : ""} 天
+        </Badge>
+      </div>
+      {progress.daily && (
+        <GoalRow
+          label="今日字数"
+          value={`${progress.todayWords.toLocaleString("zh-CN")} / ${progress.daily.target.toLocaleString("zh-CN")}`}
+          percent={progress.daily.percent}
+          hint={progress.daily.met ? "今日目标已达成" : undefined}
+        />
+      )}
+      {progress.total && (
+        <GoalRow
+          label="总字数"
+          value={`${formatWordCount(progress.total.current)} / ${formatWordCount(progress.total.target)}`}
+          percent={progress.total.percent}
+          hint={
+            progress.total.percent >= 100
+              ? "已达到目标篇幅"
+              : progress.total.projectedDate
+                ? `按近期日均进度预计 ${progress.total.projectedDate} 完成`
+                : "近期没有新增字数，无法预计完成日期"
+          }
+        />
+      )}
+      {progress.chapters && (
+        <GoalRow
+          label={`章节（截止 ${progress.chapters.deadline}）`}
+          value={`${progress.chapters.completed} / ${progress.chapters.target} 章`}
+          percent={progress.chapters.percent}
+          hint={
+            progress.chapters.percent >= 100
+              ? "章节目标已完成"
+              : `${progress.chapters.daysLeft >= 0 ? `剩余 ${progress.chapters.daysLeft} 天` : "已逾期"}${
+                  progress.chapters.projectedDate ? `，预计 ${progress.chapters.projectedDate} 完成` : ""
+                }`
+          }
+        />
+      )}
+      {progress.alerts.map((alert) => (
+        <GoalAlertItem key={alert.message} alert={alert} />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * 写作目标进度：传入 novelId 时只展示该作品，否则展示所有设置了目标的作品
+ */
+export function WritingGoalsCard({ novelId }: { novelId?: string }) {
+  const { data: snapshots, error, isLoading } = useGoalSnapshots(novelId);
+  const scoped = Boolean(novelId);
+
+  // 汇总视图下没有任何作品设置目标时不占位
+  if (!scoped && !isLoading && !error && !snapshots?.length) return null;
+
+  return (
+    <Card className="shadow-xs">
+      <CardHeader>
+        <CardTitle>写作目标</CardTitle>
+        <CardDescription>每日字数、目标篇幅与章节截止日期的完成进度</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : error ? (
+          <p className="text-muted-foreground text-sm">加载写作目标失败: {error.message}</p>
+        ) : snapshots?.length ? (
+          <div className="grid grid-cols-1 gap-4 @3xl/main:grid-cols-2 @5xl/main:grid-cols-3">
+            {snapshots.map((snapshot) => (
+              <NovelGoalProgress key={snapshot.novelId} snapshot={snapshot} showTitle={!scoped} />
+            ))}
+          </div>
+        ) : (
+          <p className="text-muted-foreground text-sm">尚未设置写作目标，可通过页面上方的“写作目标”按钮设置。</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import * as React from "react";
+import { AlertCircle } from "lucide-react";
+
+import { useWritingStats } from "@/hooks/use-writing-stats";
+import { StatsRangeDays } from "@/types/stats";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+
+import { ChartAreaInteractive } from "./chart-area-interactive";
+import { SectionCards } from "./section-cards";
+import { StatsBreakdownCharts } from "./stats-breakdown-charts";
+import { WritingGoalsCard } from "./writing-goals-card";
+
+interface WritingStatsProps {
+  // 传入时只统计该作品，否则汇总全部作品
+  novelId?: string;
+}
+
+/**
+ * 写作统计面板：概览卡片、写作目标、每日字数与分项图表；统计范围由每日字数图表切换
+ */
+export function WritingStats({ novelId }: WritingStatsProps) {
+  const [days, setDays] = React.useState<StatsRangeDays>(30);
+  const { data: stats, error, isLoading } = useWritingStats({ novelId, days });
+  const scoped = Boolean(novelId);
+
+  return (
+    <div className="@container/main flex flex-col gap-4 md:gap-6">
+      {error && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>加载写作统计失败: {error.message}</AlertDescription>
+        </Alert>
+      )}
+      <SectionCards stats={stats} days={days} loading={isLoading} scoped={scoped} />
+      <WritingGoalsCard novelId={novelId} />
+      <ChartAreaInteractive stats={stats} days={days} onDaysChange={setDays} />
+      <StatsBreakdownCharts stats={stats} days={days} scoped={scoped} />
+    </div>
+  );
+}
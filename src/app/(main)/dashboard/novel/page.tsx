@@ -5,6 +5,7 @@ import useSWR from "swr";
 import { toast } from "sonner";
 import { fetchWithAuth } from "@/utils/fetch-with-auth";
 import { CustomerDataTable } from "./_components/data-table";
+import { WritingStats } from "./_components/writing-stats";
 import { Work } from "@/types/work";
 
 // 后端统一响应包装
@@ -29,20 +30,14 @@ interface QueryParams {
   limit?: number;
   search?: string;
   status?: string;
+  genre?: string;
+  language?: string;
+  targetAudience?: string;
+  tag?: string;
   sortBy?: string;
   sortOrder?: "asc" | "desc";
 }
 
-// 导出接口响应
-interface ExportResponse {
-  downloadUrl: string;
-  expireAt: string;
-  fileName: string;
-  objectKey: string;
-  bucket: string;
-  size: number;
-}
-
 // SWR fetcher for products data
 const fetcher = async (url: string) => {
   const res = await fetchWithAuth(url);
@@ -71,7 +66,6 @@ export default function Page() {
   });
   // 是否允许发起查询
   const [enabled, setEnabled] = React.useState(false);
-  const [exporting, setExporting] = React.useState(false);
 
   // 构建请求 URL
   const paramsString = React.useMemo(() => {
@@ -129,11 +123,15 @@ export default function Page() {
   };
 
   // 仅更新表单参数，不触发请求
-  // 作品筛选参数：仅接收 status
+  // 作品筛选参数：状态、题材、语言、受众与标签
   const handleFilter = (filters: any) => {
     setFormParams((prev) => ({
       ...prev,
       status: filters?.status,
+      genre: filters?.genre,
+      language: filters?.language,
+      targetAudience: filters?.targetAudience,
+      tag: filters?.tag,
       page: 1,
     }));
   };
@@ -144,55 +142,9 @@ export default function Page() {
     setEnabled(true);
   };
 
-  // 导出（按当前表单筛选条件）
-  const handleExport = async () => {
-    try {
-      setExporting(true);
-      const sp = new URLSearchParams();
-      Object.entries(formParams).forEach(([key, value]) => {
-        if (value !== undefined && value !== null && value !== "") {
-          sp.append(key, value.toString());
-        }
-      });
-      const url = `/api/v1/products/export${sp.toString() ? `?${sp.toString()}` : ""}`;
-      const res = await fetchWithAuth(url, { method: "GET" });
-      if (!res.ok) {
-        const errorData = await res.json().catch(() => ({}) as any);
-        const message =
-          errorData?.message?.message ||
-          errorData?.message ||
-          errorData?.error ||
-          "" ||
-          `导出失败: ${res.status} ${res.statusText}`;
-        throw new Error(message);
-      }
-      const json = await res.json();
-      const payload: ExportResponse | undefined =
-        json && typeof json === "object" && "success" in json && "data" in json
-          ? (json.data as ExportResponse)
-          : (json as ExportResponse);
-      if (!payload?.downloadUrl) {
-        throw new Error("导出接口未返回下载链接");
-      }
-      const a = document.createElement("a");
-      a.href = payload.downloadUrl;
-      a.download = payload.fileName || "products.xlsx";
-      a.target = "_blank";
-      document.body.appendChild(a);
-      a.click();
-      a.remove();
-      toast.success(`已开始下载：${payload.fileName || "products.xlsx"}`);
-    } catch (err: any) {
-      toast.error(err?.message || "导出失败，请稍后重试");
-    } finally {
-      setExporting(false);
-    }
-  };
-
   return (
     <div className="@container/main flex flex-col gap-4 md:gap-6">
-      {/* <SectionCards />
-      <ChartAreaInteractive /> */}
+      <WritingStats />
       <CustomerDataTable
         data={products}
         loading={isLoading}
@@ -200,8 +152,6 @@ export default function Page() {
         onSearch={handleSearch}
         onFilter={handleFilter}
         onQuery={handleQuery}
-        onExport={handleExport}
-        exporting={exporting}
         pagination={{
           page,
           limit,
@@ -1,6 +1,7 @@
 "use client";
 
 import * as React from "react";
+import Link from "next/link";
 import { ColumnDef } from "@tanstack/react-table";
 import { Filter, RefreshCw, Search } from "lucide-react";
 
@@ -17,13 +18,8 @@ import { DataTableViewOptions } from "../../../../../components/data-table/data-
 import { QueryActionBar } from "@/components/layouts/query-action-bar";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { useDataTableInstance } from "@/hooks/use-data-table-instance";
+import { TASK_TYPE_LABEL, toGenerationOptionTags } from "@/lib/enum-labels";
 import { TaskItem, TaskStatus, TASK_STATUSES } from "@/types/task";
-import { TaskType } from "@/types/work";
-
-const TASK_TYPE_LABELS: Record<string, string> = {
-  [TaskType.SCENARIO_OUTLINE]: "剧情大纲",
-  [TaskType.WORLDBUILDING]: "世界观设定",
-};
 
 const statusConfig: Record<
   TaskStatus,
@@ -85,7 +81,7 @@ export function TaskDataTable({
         accessorKey: "type",
         header: ({ column }) => <DataTableColumnHeader column={column} title="任务类型" />,
         cell: ({ row }) => {
-          const label = TASK_TYPE_LABELS[row.original.type] ?? row.original.type;
+          const label = TASK_TYPE_LABEL[row.original.type] ?? row.original.type;
           return <span className="text-sm font-medium">{label}</span>;
         },
         meta: { minWidth: 140 },
@@ -294,7 +290,7 @@ export function TaskDataTable({
                   </div>
                   <div>
                     <span className="text-muted-foreground mr-2">任务类型:</span>
-                    <span>{detailTask.type}</span>
+                    <span>{TASK_TYPE_LABEL[detailTask.type] ?? detailTask.type}</span>
                   </div>
                   <div>
                     <span className="text-muted-foreground mr-2">状态:</span>
@@ -308,6 +304,17 @@ export function TaskDataTable({
                       <span className="font-mono">{detailTask.novelId}</span>
                     </div>
                   )}
+                  {detailTask.novelId && detailTask.chapterId && (
+                    <div>
+                      <span className="text-muted-foreground mr-2">章节:</span>
+                      <Link
+                        href={`/dashboard/novel/${detailTask.novelId}/chapters/${detailTask.chapterId}`}
+                        className="text-primary underline-offset-4 hover:underline"
+                      >
+                        {detailTask.chapterTitle || detailTask.chapterId}
+                      </Link>
+                    </div>
+                  )}
                 </div>
               </section>
               <section>
@@ -316,6 +323,18 @@ export function TaskDataTable({
                   {detailTask.prompt || "-"}
                 </pre>
               </section>
+              {detailTask.options && (
+                <section>
+                  <Label className="text-muted-foreground text-xs font-medium uppercase">生成参数</Label>
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {toGenerationOptionTags(detailTask.options).map((tag) => (
+                      <Badge key={tag} variant="outline" className="font-normal">
+                        {tag}
+                      </Badge>
+                    ))}
+                  </div>
+                </section>
+              )}
               <section>
                 <Label className="text-muted-foreground text-xs font-medium uppercase">Result</Label>
                 <pre className="bg-muted/50 mt-2 max-h-48 overflow-auto rounded-md p-3 text-xs">
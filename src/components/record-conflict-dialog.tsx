@@ -0,0 +1,193 @@
+"use client";
+
+import * as React from "react";
+
+import { mergeThreeWayFields, MergeSide } from "@/lib/three-way-merge";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+export interface RecordConflictField<T> {
+  key: keyof T & string;
+  label: string;
+  format?: (value: T[keyof T]) => string;
+}
+
+// base 为开始编辑时的数据，mine 为表单提交值，theirs 为服务器最新数据
+export interface RecordConflict<T> {
+  base: T;
+  mine: T;
+  theirs: T;
+  theirsUpdatedAt?: string;
+}
+
+interface RecordConflictDialogProps<T extends Record<string, unknown>> {
+  // 资源名称，如“作品”“角色”
+  label: string;
+  fields: RecordConflictField<T>[];
+  conflict: RecordConflict<T> | null;
+  submitting?: boolean;
+  onCancel: () => void;
+  onConfirm: (merged: T) => void;
+}
+
+const formatDateTime = (value?: string) => (value ? new Date(value).toLocaleString("zh-CN") : "--");
+
+const formatDefault = (value: unknown) => {
+  if (Array.isArray(value)) return value.join("、");
+  return value === undefined || value === null ? "" : String(value);
+};
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * 保存冲突（409）时按字段三方合并：只有一方修改的字段自动合并，双方都修改的字段由用户选择
+ */
+export function RecordConflictDialog<T extends Record<string, unknown>>({
+  label,
+  fields,
+  conflict,
+  submitting,
+  onCancel,
+  onConfirm,
+}: RecordConflictDialogProps<T>) {
+  const [choices, setChoices] = React.useState<Partial<Record<keyof T, MergeSide>>>({});
+
+  React.useEffect(() => {
+    setChoices({});
+  }, [conflict]);
+
+  const merge = React.useMemo(
+    () =>
+      conflict
+        ? mergeThreeWayFields(
+            conflict.base,
+            conflict.mine,
+            conflict.theirs,
+            fields.map((field) => field.key),
+          )
+        : null,
+    [conflict, fields],
+  );
+
+  // 只展示任一方有改动的字段
+  const changedFields = conflict
+    ? fields.filter(
+        (field) =>
+          !isSameValue(conflict.mine[field.key], conflict.base[field.key]) ||
+          !isSameValue(conflict.theirs[field.key], conflict.base[field.key]),
+      )
+    : [];
+
+  const handleConfirm = () => {
+    if (!conflict || !merge) return;
+    const result = { ...merge.merged };
+    merge.conflicts.forEach((key) => {
+      if (choices[key] === "theirs") result[key] = conflict.theirs[key];
+    });
+    onConfirm(result);
+  };
+
+  const renderValue = (field: RecordConflictField<T>, value: T[keyof T]) => {
+    const text = field.format ? field.format(value) : formatDefault(value);
+    return text ? (
+      <span className="break-all whitespace-pre-wrap">{text}</span>
+    ) : (
+      <span className="text-muted-foreground">（空）</span>
+    );
+  };
+
+  return (
+    <Dialog open={Boolean(conflict)} onOpenChange={(open) => !open && !submitting && onCancel()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>{label}已被其他人修改</DialogTitle>
+          <DialogDescription>
+            {`服务器上的${label}已于 ${formatDateTime(conflict?.theirsUpdatedAt)} 更新。`}
+            {merge?.conflicts.length
+              ? `有 ${merge.conflicts.length} 个字段双方都做了修改，请选择要保留的值。`
+              : "双方修改的字段互不冲突，可直接保存合并结果。"}
+          </DialogDescription>
+        </DialogHeader>
+        {conflict && merge && (
+          <div className="overflow-hidden rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-24">字段</TableHead>
+                  <TableHead>原始值</TableHead>
+                  <TableHead>我的修改</TableHead>
+                  <TableHead>服务器版本</TableHead>
+                  <TableHead className="w-40">处理方式</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {changedFields.map((field) => {
+                  const isConflict = merge.conflicts.includes(field.key);
+                  const choice = choices[field.key] ?? "mine";
+                  return (
+                    <TableRow key={field.key} className={isConflict ? "bg-amber-500/5" : undefined}>
+                      <TableCell className="font-medium">{field.label}</TableCell>
+                      <TableCell className="text-muted-foreground align-top whitespace-normal">
+                        {renderValue(field, conflict.base[field.key])}
+                      </TableCell>
+                      <TableCell className="align-top whitespace-normal">
+                        {renderValue(field, conflict.mine[field.key])}
+                      </TableCell>
+                      <TableCell className="align-top whitespace-normal">
+                        {renderValue(field, conflict.theirs[field.key])}
+                      </TableCell>
+                      <TableCell>
+                        {isConflict ? (
+                          <ToggleGroup
+                            type="single"
+                            size="sm"
+                            variant="outline"
+                            value={choice}
+                            onValueChange={(value) =>
+                              value && setChoices((prev) => ({ ...prev, [field.key]: value as MergeSide }))
+                            }
+                          >
+                            <ToggleGroupItem value="mine" className="px-2 text-xs">
+                              我的
+                            </ToggleGroupItem>
+                            <ToggleGroupItem value="theirs" className="px-2 text-xs">
+                              服务器
+                            </ToggleGroupItem>
+                          </ToggleGroup>
+                        ) : (
+                          <Badge variant="secondary">
+                            {isSameValue(merge.merged[field.key], conflict.mine[field.key])
+                              ? "采用我的修改"
+                              : "采用服务器修改"}
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={submitting}>
+            取消
+          </Button>
+          <Button onClick={handleConfirm} disabled={submitting}>
+            {submitting ? "保存中..." : "保存合并结果"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
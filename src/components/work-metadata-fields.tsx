@@ -0,0 +1,321 @@
+"use client";
+
+import * as React from "react";
+import { z } from "zod";
+import { Control } from "react-hook-form";
+import { toast } from "sonner";
+import { ImagePlus, Loader2, X } from "lucide-react";
+
+import { TARGET_AUDIENCE_LABEL, WORK_LANGUAGE_LABEL } from "@/lib/enum-labels";
+import { uploadWithPresignedUrl } from "@/lib/presigned-upload";
+import { CreateWorkDto, TargetAudience, Work, WORK_GENRES, WorkLanguage } from "@/types/work";
+import { Button } from "@/components/ui/button";
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useFetchWithAuth } from "@/utils/fetch-with-auth";
+
+const COVER_MAX_SIZE = 5 * 1024 * 1024;
+const MAX_TAGS = 20;
+// Select 不支持空字符串作为选项值，用占位值表示“未设置”
+const UNSET = "unset";
+
+// 创建与编辑作品共用的表单校验
+export const workFormSchema = z.object({
+  title: z.string({ required_error: "作品标题不能为空" }).min(1, "请输入作品标题"),
+  description: z.string().max(1000, "简介不能超过1000个字符").optional().or(z.literal("")),
+  genre: z.string().max(20, "题材不能超过20个字符"),
+  tags: z.array(z.string().min(1).max(20, "单个标签请控制在20个字符以内")).max(MAX_TAGS, `最多添加${MAX_TAGS}个标签`),
+  language: z.nativeEnum(WorkLanguage).or(z.literal("")),
+  targetAudience: z.nativeEnum(TargetAudience).or(z.literal("")),
+  synopsis: z.string().max(5000, "梗概不能超过5000个字符"),
+  coverImageKey: z.string(),
+});
+
+export type WorkFormInput = z.infer<typeof workFormSchema>;
+
+export const toWorkFormValues = (work?: Partial<Work> | null): WorkFormInput => ({
+  title: work?.title || "",
+  description: work?.description || "",
+  genre: work?.genre || "",
+  tags: work?.tags ?? [],
+  language: work?.language || "",
+  targetAudience: work?.targetAudience || "",
+  synopsis: work?.synopsis || "",
+  coverImageKey: work?.coverImageKey || "",
+});
+
+/**
+ * 表单值转为请求体；创建时省略空字段，编辑时保留空字段以便清除已有值
+ */
+export const toWorkPayload = (values: WorkFormInput, { keepEmpty = false } = {}) => {
+  const payload: Record<string, unknown> = { ...values, tags: values.tags.map((tag) => tag.trim()).filter(Boolean) };
+  if (!keepEmpty) {
+    Object.keys(payload).forEach((key) => {
+      const value = payload[key];
+      if (value === "" || (Array.isArray(value) && !value.length)) delete payload[key];
+    });
+  }
+  return payload as Partial<CreateWorkDto>;
+};
+
+function TagsInput({ value, onChange }: { value: string[]; onChange: (next: string[]) => void }) {
+  const [draft, setDraft] = React.useState("");
+
+  const handleAdd = () => {
+    const tag = draft.trim();
+    if (!tag) return;
+    if (value.includes(tag)) {
+      toast.warning("该标签已存在");
+    } else {
+      onChange([...value, tag]);
+    }
+    setDraft("");
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((tag) => (
+            <span
+              key={tag}
+              className="bg-muted text-muted-foreground flex items-center gap-1 rounded-md px-2 py-1 text-xs"
+            >
+              <span className="text-foreground text-sm">{tag}</span>
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((item) => item !== tag))}
+                className="hover:text-foreground transition"
+                aria-label={`移除标签 ${tag}`}
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <Input
+        placeholder="输入标签后回车添加，如：系统、重生"
+        value={draft}
+        onChange={(event) => setDraft(event.target.value)}
+        onBlur={handleAdd}
+        onKeyDown={(event) => {
+          if (event.key === "Enter" || event.key === ",") {
+            event.preventDefault();
+            handleAdd();
+          }
+        }}
+      />
+    </div>
+  );
+}
+
+function CoverUpload({
+  value,
+  initialUrl,
+  onChange,
+}: {
+  value: string;
+  initialUrl?: string;
+  onChange: (key: string) => void;
+}) {
+  const fetchWithAuth = useFetchWithAuth();
+  const [preview, setPreview] = React.useState<string | null>(null);
+  const [uploading, setUploading] = React.useState(false);
+
+  // 释放本地预览地址
+  React.useEffect(() => {
+    if (!preview) return;
+    return () => URL.revokeObjectURL(preview);
+  }, [preview]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    if (!file.type.startsWith("image/")) {
+      toast.error("请选择图片文件");
+      return;
+    }
+    if (file.size > COVER_MAX_SIZE) {
+      toast.error("封面图片不能超过 5 MB");
+      return;
+    }
+    try {
+      setUploading(true);
+      const key = await uploadWithPresignedUrl(fetchWithAuth, file, { contentType: file.type, type: "cover" });
+      setPreview(URL.createObjectURL(file));
+      onChange(key);
+    } catch (uploadError) {
+      toast.error(uploadError instanceof Error ? uploadError.message : "封面上传失败");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  // 新上传的封面优先；清除后不再展示原封面
+  const src = preview ?? (value ? initialUrl : undefined);
+
+  return (
+    <div className="flex items-end gap-4">
+      <div className="bg-muted text-muted-foreground flex h-32 w-24 shrink-0 items-center justify-center overflow-hidden rounded-md border text-xs">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        {src ? <img src={src} alt="作品封面" className="h-full w-full object-cover" /> : value ? "已上传" : "无封面"}
+      </div>
+      <div className="flex flex-col gap-2">
+        <Button type="button" variant="outline" size="sm" disabled={uploading} asChild>
+          <label className="cursor-pointer">
+            {uploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <ImagePlus className="h-4 w-4" />}
+            {value ? "更换封面" : "上传封面"}
+            <input type="file" accept="image/*" className="hidden" onChange={handleFileChange} disabled={uploading} />
+          </label>
+        </Button>
+        {value && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setPreview(null);
+              onChange("");
+            }}
+            disabled={uploading}
+          >
+            移除封面
+          </Button>
+        )}
+        <p className="text-muted-foreground text-xs">建议 3:4 比例，不超过 5 MB</p>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 作品元数据表单项：题材、标签、语言、目标受众、梗概与封面
+ */
+export function WorkMetadataFields({ control, coverUrl }: { control: Control<WorkFormInput>; coverUrl?: string }) {
+  return (
+    <>
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <FormField
+          control={control}
+          name="genre"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>题材</FormLabel>
+              <FormControl>
+                <Input list="work-genre-options" placeholder="选择或输入" {...field} />
+              </FormControl>
+              <datalist id="work-genre-options">
+                {WORK_GENRES.map((genre) => (
+                  <option key={genre} value={genre} />
+                ))}
+              </datalist>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name="language"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>语言</FormLabel>
+              <Select
+                value={field.value || UNSET}
+                onValueChange={(value) => field.onChange(value === UNSET ? "" : value)}
+              >
+                <FormControl>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={UNSET}>未设置</SelectItem>
+                  {Object.values(WorkLanguage).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {WORK_LANGUAGE_LABEL[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name="targetAudience"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>目标受众</FormLabel>
+              <Select
+                value={field.value || UNSET}
+                onValueChange={(value) => field.onChange(value === UNSET ? "" : value)}
+              >
+                <FormControl>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={UNSET}>未设置</SelectItem>
+                  {Object.values(TargetAudience).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {TARGET_AUDIENCE_LABEL[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <FormField
+        control={control}
+        name="tags"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>标签（可选）</FormLabel>
+            <FormControl>
+              <TagsInput value={field.value} onChange={field.onChange} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={control}
+        name="synopsis"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>故事梗概（可选）</FormLabel>
+            <FormControl>
+              <Textarea placeholder="完整的剧情概述，供创作与生成参考..." className="min-h-32" {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={control}
+        name="coverImageKey"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>封面（可选）</FormLabel>
+            <FormControl>
+              <CoverUpload value={field.value} initialUrl={coverUrl} onChange={field.onChange} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import useSWR from "swr";
+
+import { fetchWithAuth } from "@/utils/fetch-with-auth";
+import { Chapter, Scene } from "@/types/chapter";
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: unknown;
+}
+
+export const getChaptersKey = (novelId: string) => `/api/v1/novels/chapters?novelId=${encodeURIComponent(novelId)}`;
+
+export const getChapterKey = (chapterId: string) => `/api/v1/novels/chapters/${encodeURIComponent(chapterId)}`;
+
+export const getScenesKey = (chapterId: string) => `/api/v1/novels/chapters/${encodeURIComponent(chapterId)}/scenes`;
+
+const createListFetcher =
+  <T extends { order: number }>(label: string) =>
+  async (url: string) => {
+    const res = await fetchWithAuth(url);
+    if (!res.ok) {
+      const errorData = await res.json().catch(() => ({}));
+      const message = errorData?.message?.message || `获取${label}列表失败: ${res.status} ${res.statusText}`;
+      throw new Error(message);
+    }
+    const json = (await res.json()) as ApiResponse<T[]>;
+    const list = json?.success ? json.data : (json as unknown as T[]);
+    return Array.isArray(list) ? [...list].sort((a, b) => a.order - b.order) : [];
+  };
+
+const chapterFetcher = async (url: string) => {
+  const res = await fetchWithAuth(url);
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    const message = errorData?.message?.message || `获取章节详情失败: ${res.status} ${res.statusText}`;
+    throw new Error(message);
+  }
+  const json = (await res.json()) as ApiResponse<Chapter>;
+  return json?.success ? json.data : (json as unknown as Chapter);
+};
+
+const chaptersFetcher = createListFetcher<Chapter>("章节");
+const scenesFetcher = createListFetcher<Scene>("场景");
+
+/**
+ * 作品下的章节列表，按 order 排序；novelId 为空时不请求
+ */
+export function useChapters(novelId?: string | null) {
+  return useSWR<Chapter[]>(novelId ? getChaptersKey(novelId) : null, chaptersFetcher, {
+    revalidateOnFocus: false,
+  });
+}
+
+/**
+ * 章节下的场景列表，按 order 排序；chapterId 为空时不请求
+ */
+export function useScenes(chapterId?: string | null) {
+  return useSWR<Scene[]>(chapterId ? getScenesKey(chapterId) : null, scenesFetcher, {
+    revalidateOnFocus: false,
+  });
+}
+
+/**
+ * 单个章节详情（含正文）；chapterId 为空时不请求
+ */
+export function useChapter(chapterId?: string | null) {
+  return useSWR<Chapter>(chapterId ? getChapterKey(chapterId) : null, chapterFetcher, {
+    revalidateOnFocus: false,
+  });
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import useSWR from "swr";
+
+import { fetchWithAuth } from "@/utils/fetch-with-auth";
+import {
+  Character,
+  CharacterRelationshipCurrent,
+  CharacterRelationshipHistoryEvent,
+  RelationshipType,
+  UpdateRelationshipEventDto,
+} from "@/types/work";
+
+// 分页接口每页条数，列表按页依次拉取直到取完
+export const RELATIONSHIP_PAGE_SIZE = 500;
+const CHARACTER_PAGE_SIZE = 100;
+// 最多拉取的页数，防止接口忽略分页参数时无限请求
+const MAX_PAGES = 100;
+
+// key 不含页码，由 fetcher 逐页追加 page 参数
+export const getNovelCharactersKey = (novelId: string) =>
+  `/api/v1/novels/characters?novelId=${encodeURIComponent(novelId)}&limit=${CHARACTER_PAGE_SIZE}&sortBy=createdAt&sortOrder=asc`;
+
+const RELATIONSHIP_EVENTS_PATH = "/api/v1/novels/characters/relationships/events";
+const RELATIONSHIP_TYPES_PATH = "/api/v1/novels/characters/relationships/types";
+const CURRENT_RELATIONSHIPS_KEY = "novel-relationships-current";
+
+// 不传 novelId 时返回全部作品的关系事件
+export const getRelationshipEventsKey = (novelId?: string) =>
+  `${RELATIONSHIP_EVENTS_PATH}?${novelId ? `novelId=${encodeURIComponent(novelId)}&` : ""}limit=${RELATIONSHIP_PAGE_SIZE}`;
+
+export const getCurrentRelationshipsKey = (novelId: string) => [CURRENT_RELATIONSHIPS_KEY, novelId] as const;
+
+export const getRelationshipEventKey = (eventId: string) =>
+  `${RELATIONSHIP_EVENTS_PATH}/${encodeURIComponent(eventId)}`;
+
+// 供 mutate 按条件批量刷新：任意作品（含全部作品）的关系事件、当前关系与关系类型缓存
+export const isRelationshipEventsKey = (key: unknown) =>
+  typeof key === "string" && key.startsWith(RELATIONSHIP_EVENTS_PATH);
+
+export const isCurrentRelationshipsKey = (key: unknown) => Array.isArray(key) && key[0] === CURRENT_RELATIONSHIPS_KEY;
+
+export const isRelationshipTypesKey = (key: unknown) =>
+  typeof key === "string" && key.startsWith(RELATIONSHIP_TYPES_PATH);
+
+/**
+ * 修正单条关系事件，修改说明记入事件的修正记录
+ */
+export const updateRelationshipEvent = (eventId: string, body: UpdateRelationshipEventDto) =>
+  fetchWithAuth(getRelationshipEventKey(eventId), {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+/**
+ * 删除单条关系事件，删除说明由后端写入审计记录
+ */
+export const deleteRelationshipEvent = (eventId: string, correctionNote: string) =>
+  fetchWithAuth(`${getRelationshipEventKey(eventId)}?${new URLSearchParams({ correctionNote })}`, {
+    method: "DELETE",
+  });
+
+/**
+ * 按剩余的关系事件重新计算一对人物的当前关系
+ */
+export const recomputeCurrentRelationship = (pair: { novelId?: string; characterAId: string; characterBId: string }) =>
+  fetchWithAuth("/api/v1/novels/characters/relationships/current/recompute", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(pair),
+  });
+
+// 传入 novelId 时返回全局类型与该作品的专属类型，否则只返回全局类型
+export const getRelationshipTypesKey = (novelId?: string) =>
+  `${RELATIONSHIP_TYPES_PATH}${novelId ? `?novelId=${encodeURIComponent(novelId)}` : ""}`;
+
+const readErrorMessage = async (res: Response, label: string) => {
+  const errorData = await res.json().catch(() => ({}));
+  return errorData?.message?.message || `${label}: ${res.status} ${res.statusText}`;
+};
+
+// 兼容 { success, data: { data: [], totalPages } }、{ data: [] } 与直接返回数组
+const readPage = async <T>(res: Response) => {
+  const json = await res.json().catch(() => null);
+  const data = json?.success ? json.data : json;
+  const list = Array.isArray(data) ? data : data?.data;
+  const totalPages: number | undefined = Array.isArray(data) ? undefined : data?.totalPages;
+  return { list: (Array.isArray(list) ? list : []) as T[], totalPages };
+};
+
+const readList = async <T>(res: Response) => (await readPage<T>(res)).list;
+
+/**
+ * 逐页拉取完整列表：不足一页或到达 totalPages 即停止；超过页数上限时报错，不返回截断的数据
+ */
+const fetchAllPages = async <T>(requestPage: (page: number) => Promise<Response>, pageSize: number, label: string) => {
+  const items: T[] = [];
+  for (let page = 1; page <= MAX_PAGES; page += 1) {
+    const res = await requestPage(page);
+    if (!res.ok) throw new Error(await readErrorMessage(res, label));
+    const { list, totalPages } = await readPage<T>(res);
+    items.push(...list);
+    if (list.length < pageSize || (totalPages && page >= totalPages)) return items;
+  }
+  throw new Error(`${label}: 数据超过 ${MAX_PAGES * pageSize} 条，无法完整加载`);
+};
+
+const charactersFetcher = (url: string) =>
+  fetchAllPages<Character>((page) => fetchWithAuth(`${url}&page=${page}`), CHARACTER_PAGE_SIZE, "获取人物列表失败");
+
+/**
+ * 拉取作品下的全部人物（非 SWR 场景使用，如导出人物附录）
+ */
+export const fetchNovelCharacters = (novelId: string) => charactersFetcher(getNovelCharactersKey(novelId));
+
+const eventsFetcher = (url: string) =>
+  fetchAllPages<CharacterRelationshipHistoryEvent>(
+    (page) => fetchWithAuth(`${url}&page=${page}`),
+    RELATIONSHIP_PAGE_SIZE,
+    "获取关系事件失败",
+  );
+
+const typesFetcher = async (url: string) => {
+  const res = await fetchWithAuth(url);
+  if (!res.ok) throw new Error(await readErrorMessage(res, "获取关系类型失败"));
+  return readList<RelationshipType>(res);
+};
+
+const currentFetcher = ([, novelId]: readonly [string, string]) =>
+  fetchAllPages<CharacterRelationshipCurrent>(
+    (page) =>
+      fetchWithAuth("/api/v1/novels/characters/relationships/current", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ novelId, page, limit: RELATIONSHIP_PAGE_SIZE }),
+      }),
+    RELATIONSHIP_PAGE_SIZE,
+    "获取人物关系失败",
+  );
+
+/**
+ * 作品下的全部人物（与正文生成的人物选择共用同一 key）
+ */
+export function useNovelCharacters(novelId: string) {
+  return useSWR<Character[]>(getNovelCharactersKey(novelId), charactersFetcher, { revalidateOnFocus: false });
+}
+
+/**
+ * 作品下各对人物的当前关系
+ */
+export function useCurrentRelationships(novelId: string) {
+  return useSWR(getCurrentRelationshipsKey(novelId), currentFetcher, { revalidateOnFocus: false });
+}
+
+/**
+ * 作品下的全部关系事件（不传 novelId 时为全部作品）；enabled 为 false 时不请求
+ */
+export function useRelationshipEvents(novelId: string | undefined, enabled = true) {
+  return useSWR<CharacterRelationshipHistoryEvent[]>(
+    enabled ? getRelationshipEventsKey(novelId) : null,
+    eventsFetcher,
+    { revalidateOnFocus: false },
+  );
+}
+
+/**
+ * 关系类型目录（全局类型，及传入作品的专属类型）
+ */
+export function useRelationshipTypes(novelId?: string) {
+  return useSWR<RelationshipType[]>(getRelationshipTypesKey(novelId), typesFetcher, { revalidateOnFocus: false });
+}
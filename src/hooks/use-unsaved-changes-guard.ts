@@ -0,0 +1,41 @@
+import * as React from "react";
+
+const DEFAULT_MESSAGE = "有尚未保存的修改，确定要离开当前页面吗？";
+
+/**
+ * 存在未保存修改时拦截页面关闭/刷新，以及站内链接跳转
+ * Next.js App Router 没有路由拦截 API，这里在捕获阶段拦截 <a> 点击
+ */
+export function useUnsavedChangesGuard(when: boolean, message = DEFAULT_MESSAGE) {
+  React.useEffect(() => {
+    if (!when) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      // 兼容旧版浏览器，需要设置 returnValue 才会弹出提示
+      event.returnValue = message;
+    };
+
+    const handleClick = (event: MouseEvent) => {
+      if (event.defaultPrevented || event.button !== 0 || event.metaKey || event.ctrlKey || event.shiftKey) return;
+      const anchor = (event.target as HTMLElement | null)?.closest("a[href]");
+      if (!(anchor instanceof HTMLAnchorElement) || anchor.target === "_blank" || anchor.hasAttribute("download")) {
+        return;
+      }
+      const url = new URL(anchor.href, window.location.href);
+      if (url.origin !== window.location.origin) return;
+      if (url.pathname === window.location.pathname && url.search === window.location.search) return;
+      if (!window.confirm(message)) {
+        event.preventDefault();
+        event.stopPropagation();
+      }
+    };
+
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    document.addEventListener("click", handleClick, true);
+    return () => {
+      window.removeEventListener("beforeunload", handleBeforeUnload);
+      document.removeEventListener("click", handleClick, true);
+    };
+  }, [message, when]);
+}
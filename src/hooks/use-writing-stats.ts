@@ -0,0 +1,59 @@
+"use client";
+
+import useSWR from "swr";
+
+import { fetchWithAuth } from "@/utils/fetch-with-auth";
+import { NovelGoalSnapshot, StatsQuery, WritingStats } from "@/types/stats";
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: unknown;
+}
+
+export const getWritingStatsKey = ({ novelId, days }: StatsQuery) => {
+  const sp = new URLSearchParams({ days: String(days) });
+  if (novelId) sp.append("novelId", novelId);
+  return `/api/v1/novels/stats?${sp.toString()}`;
+};
+
+export const getGoalSnapshotsKey = (novelId?: string) =>
+  `/api/v1/novels/stats/goals${novelId ? `?novelId=${encodeURIComponent(novelId)}` : ""}`;
+
+const createStatsFetcher =
+  <T>(label: string) =>
+  async (url: string) => {
+    const res = await fetchWithAuth(url);
+    if (!res.ok) {
+      const errorData = await res.json().catch(() => ({}));
+      const message = errorData?.message?.message || `获取${label}失败: ${res.status} ${res.statusText}`;
+      throw new Error(message);
+    }
+    const json = (await res.json()) as ApiResponse<T>;
+    return json?.success ? json.data : (json as unknown as T);
+  };
+
+const statsFetcher = createStatsFetcher<WritingStats>("写作统计");
+const goalSnapshotsFetcher = createStatsFetcher<NovelGoalSnapshot[]>("写作目标进度");
+
+/**
+ * 写作统计；传入 novelId 时只统计该作品，否则汇总全部作品
+ */
+export function useWritingStats(query: StatsQuery) {
+  return useSWR<WritingStats>(getWritingStatsKey(query), statsFetcher, {
+    revalidateOnFocus: false,
+    keepPreviousData: true,
+  });
+}
+
+/**
+ * 设置了写作目标的作品及其进度数据；传入 novelId 时只返回该作品
+ */
+export function useGoalSnapshots(novelId?: string) {
+  return useSWR<NovelGoalSnapshot[]>(getGoalSnapshotsKey(novelId), goalSnapshotsFetcher, {
+    revalidateOnFocus: false,
+  });
+}
+
+// 作品目标或章节变化后刷新所有统计缓存
+export const isWritingStatsKey = (key: unknown) => typeof key === "string" && key.startsWith("/api/v1/novels/stats");
@@ -0,0 +1,40 @@
+/**
+ * 章节标题：识别自带序号的标题（如“第一章 风起”“Chapter 1”），展示时避免重复加序号
+ */
+
+// 带序号的章节标题前缀
+export const CHAPTER_NUMBER_RES = [
+  /^第\s*[0-9０-９零〇一二两三四五六七八九十百千万]+\s*[章回节卷集部篇]/,
+  /^(chapter|ch\.)\s*([0-9]+|[ivxlc]+)\b/i,
+];
+
+// 序章、楔子等不编号但本身即为章节名的标题
+const SPECIAL_CHAPTER_RE = /^(序章|序言|序|楔子|引子|前言|尾声|后记|终章|番外)([\s:：·、]|$)/;
+
+export const CHAPTER_HEADING_RES = [...CHAPTER_NUMBER_RES, SPECIAL_CHAPTER_RE];
+
+export const hasChapterNumber = (title?: string) => CHAPTER_NUMBER_RES.some((re) => re.test(title?.trim() ?? ""));
+
+export const isSpecialChapterTitle = (title?: string) => SPECIAL_CHAPTER_RE.test(title?.trim() ?? "");
+
+/**
+ * 按章节顺序为正文章节编号（从 1 开始）；序章、楔子、尾声等特殊章节不占序号
+ */
+export const getChapterNumbers = (chapters: { chapterId: string; order: number; title?: string }[]) => {
+  const numbers = new Map<string, number>();
+  [...chapters]
+    .sort((a, b) => a.order - b.order)
+    .forEach((chapter) => {
+      if (!isSpecialChapterTitle(chapter.title)) numbers.set(chapter.chapterId, numbers.size + 1);
+    });
+  return numbers;
+};
+
+/**
+ * 展示用章节标题：标题已自带序号、为特殊章节或没有序号时原样返回，否则加上“第N章”
+ */
+export const formatChapterTitle = (number: number | undefined, title?: string) => {
+  const text = title?.trim() ?? "";
+  if (number === undefined || CHAPTER_HEADING_RES.some((re) => re.test(text))) return text;
+  return text ? `第${number}章 ${text}` : `第${number}章`;
+};
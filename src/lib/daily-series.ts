@@ -0,0 +1,43 @@
+// 按日统计的日期工具：日期统一使用本地时区的 YYYY-MM-DD
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+export const toDateKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const parseDateKey = (key: string) => {
+  const [year, month, day] = key.slice(0, 10).split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const addDays = (key: string, days: number) => {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+// 两个日期相差的天数（to - from）
+export const diffDays = (from: string, to: string) =>
+  Math.round((parseDateKey(to).getTime() - parseDateKey(from).getTime()) / 86400000);
+
+// 坐标轴与提示框使用的短日期，如“6月3日”
+export const formatDateKey = (key: string) => {
+  const [, month, day] = key.split("-");
+  return `${Number(month)}月${Number(day)}日`;
+};
+
+/**
+ * 补齐截至 end 的连续 days 天，缺失日期用 empty 生成空记录
+ */
+export function fillDailySeries<T extends { date: string }>(
+  points: T[],
+  days: number,
+  end: string | undefined,
+  empty: (date: string) => T,
+): T[] {
+  const byDate = new Map(points.map((point) => [point.date.slice(0, 10), point]));
+  const last = end?.slice(0, 10) || toDateKey(new Date());
+  return Array.from({ length: days }, (_, index) => {
+    const date = addDays(last, index - days + 1);
+    return byDate.get(date) ?? empty(date);
+  });
+}
@@ -1,4 +1,8 @@
+import { Role } from "@/types/auth";
+import { ChapterStatus } from "@/types/chapter";
+import { GenerationLength, GenerationOptions, GenerationPov } from "@/types/generation";
 import { PaymentMethod, TransactionStatus, TransactionType } from "@/types/transaction";
+import { TargetAudience, TaskType, WorkLanguage, WorkStatus } from "@/types/work";
 
 // 通用中文标签映射（与后端枚举值保持一致）
 export const TRANSACTION_TYPE_LABEL: Record<TransactionType, string> = {
@@ -54,3 +58,98 @@ export const toPaymentMethodLabel = (value?: string | null): string => {
   if (!value) return "-";
   return (PAYMENT_METHOD_LABEL as Record<string, string>)[value] ?? String(value);
 };
+
+export const GENERATION_LENGTH_LABEL: Record<GenerationLength, string> = {
+  [GenerationLength.SHORT]: "简短",
+  [GenerationLength.MEDIUM]: "适中",
+  [GenerationLength.LONG]: "详尽",
+};
+
+export const GENERATION_POV_LABEL: Record<GenerationPov, string> = {
+  [GenerationPov.FIRST_PERSON]: "第一人称",
+  [GenerationPov.THIRD_LIMITED]: "第三人称限知",
+  [GenerationPov.THIRD_OMNISCIENT]: "第三人称全知",
+};
+
+// 生成参数摘要，用于任务详情、版本历史等只读展示
+export const toGenerationOptionTags = (options?: GenerationOptions | null): string[] => {
+  if (!options) return [];
+  const tags = [
+    `篇幅：${GENERATION_LENGTH_LABEL[options.length] ?? options.length}`,
+    `视角：${GENERATION_POV_LABEL[options.pov] ?? options.pov}`,
+    `创造性：${Math.round(options.creativity * 100)}%`,
+  ];
+  if (options.genre) tags.push(`题材：${options.genre}`);
+  if (options.tone) tags.push(`基调：${options.tone}`);
+  if (options.chapterCount) tags.push(`目标章节：${options.chapterCount}`);
+  const context = [
+    options.context?.includeWorldbuilding && "世界观",
+    options.context?.includeOutline && "大纲",
+    options.context?.includeCharacters && "人物",
+  ].filter(Boolean);
+  tags.push(context.length ? `参考：${context.join("、")}` : "不参考现有设定");
+  return tags;
+};
+
+export const CHAPTER_STATUS_LABEL: Record<ChapterStatus, string> = {
+  [ChapterStatus.PLANNED]: "待写",
+  [ChapterStatus.DRAFTING]: "写作中",
+  [ChapterStatus.REVISING]: "修订中",
+  [ChapterStatus.COMPLETED]: "已完成",
+};
+
+export const CHAPTER_STATUS_BADGE: Record<ChapterStatus, "default" | "secondary" | "outline"> = {
+  [ChapterStatus.PLANNED]: "outline",
+  [ChapterStatus.DRAFTING]: "secondary",
+  [ChapterStatus.REVISING]: "secondary",
+  [ChapterStatus.COMPLETED]: "default",
+};
+
+// 生成任务类型（后端可能新增类型，按 string 索引并回退原值）
+export const TASK_TYPE_LABEL: Record<string, string> = {
+  [TaskType.SCENARIO_OUTLINE]: "剧情大纲",
+  [TaskType.WORLDBUILDING]: "世界观设定",
+  [TaskType.CHAPTER_PROSE]: "章节正文",
+};
+
+export const TARGET_AUDIENCE_LABEL: Record<TargetAudience, string> = {
+  [TargetAudience.GENERAL]: "大众",
+  [TargetAudience.MALE]: "男频",
+  [TargetAudience.FEMALE]: "女频",
+  [TargetAudience.YOUNG_ADULT]: "青少年",
+  [TargetAudience.CHILDREN]: "儿童",
+};
+
+export const WORK_LANGUAGE_LABEL: Record<WorkLanguage, string> = {
+  [WorkLanguage.ZH_CN]: "简体中文",
+  [WorkLanguage.ZH_TW]: "繁体中文",
+  [WorkLanguage.EN]: "英语",
+  [WorkLanguage.JA]: "日语",
+};
+
+export const WORK_STATUS_LABEL: Record<WorkStatus, string> = {
+  [WorkStatus.DRAFT]: "草稿",
+  [WorkStatus.IN_REVIEW]: "审核中",
+  [WorkStatus.APPROVED]: "已通过",
+  [WorkStatus.PUBLISHED]: "已发布",
+  [WorkStatus.ARCHIVED]: "已归档",
+};
+
+export const WORK_STATUS_BADGE: Record<WorkStatus, "default" | "secondary" | "outline"> = {
+  [WorkStatus.DRAFT]: "secondary",
+  [WorkStatus.IN_REVIEW]: "outline",
+  [WorkStatus.APPROVED]: "outline",
+  [WorkStatus.PUBLISHED]: "default",
+  [WorkStatus.ARCHIVED]: "outline",
+};
+
+export const toWorkStatusLabel = (value?: string | null): string => {
+  if (!value) return "-";
+  return (WORK_STATUS_LABEL as Record<string, string>)[value] ?? String(value);
+};
+
+export const ROLE_LABEL: Record<Role, string> = {
+  [Role.USER]: "作者",
+  [Role.ADMIN]: "管理员",
+  [Role.SUPER_ADMIN]: "超级管理员",
+};
@@ -0,0 +1,164 @@
+/**
+ * 书稿导入：读取 TXT / Markdown / DOCX 文本，识别章节标题并按拆分点切分为章节
+ */
+import JSZip from "jszip";
+
+import { CHAPTER_HEADING_RES } from "./chapter-title";
+import { countWords } from "./word-count";
+
+export const MANUSCRIPT_ACCEPT = ".txt,.md,.markdown,.docx";
+export const MANUSCRIPT_MAX_SIZE = 20 * 1024 * 1024;
+
+export interface ManuscriptSource {
+  // 建议的作品标题：Markdown 一级标题或文件名
+  title: string;
+  lines: string[];
+}
+
+export interface ManuscriptSection {
+  // 章节起始行（含），为标题行时不计入正文
+  start: number;
+  end: number;
+  title: string;
+  content: string;
+  wordCount: number;
+  isHeading: boolean;
+}
+
+const MAX_HEADING_LENGTH = 40;
+const MARKDOWN_HEADING_RE = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+const getExtension = (name: string) => name.toLowerCase().split(".").pop() ?? "";
+
+export const getManuscriptMime = (file: File) => {
+  if (file.type) return file.type;
+  const ext = getExtension(file.name);
+  if (ext === "docx") return "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+  if (ext === "md" || ext === "markdown") return "text/markdown";
+  return "text/plain";
+};
+
+// 优先按 UTF-8 解码，失败时按 GB18030 解码（兼容 Windows 下保存的中文 TXT）
+const decodeText = (buffer: ArrayBuffer) => {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder("gb18030").decode(buffer);
+  }
+};
+
+const decodeXmlEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+
+/**
+ * 从 DOCX 的 document.xml 提取段落文本；标题样式的段落转为 Markdown 标题，便于统一识别
+ */
+export function extractDocxLines(documentXml: string): string[] {
+  const paragraphs = documentXml.match(/<w:p[\s>][\s\S]*?<\/w:p>|<w:p\/>/g) ?? [];
+  return paragraphs.map((paragraph) => {
+    const text = (paragraph.match(/<w:t[\s>][^<]*<\/w:t>|<w:t>[^<]*<\/w:t>|<w:tab\/>|<w:br\/>/g) ?? [])
+      .map((token) => {
+        if (token === "<w:tab/>") return "\t";
+        if (token === "<w:br/>") return "\n";
+        return decodeXmlEntities(token.replace(/<[^>]+>/g, ""));
+      })
+      .join("");
+    const style = /<w:pStyle w:val="([^"]+)"/.exec(paragraph)?.[1] ?? "";
+    const level = /^(?:heading|标题)\s*([1-6])$/i.exec(style)?.[1];
+    if (level && text.trim()) return `${"#".repeat(Number(level))} ${text.trim()}`;
+    if (/^title$/i.test(style) && text.trim()) return `# ${text.trim()}`;
+    return text;
+  });
+}
+
+export async function readManuscriptFile(file: File): Promise<ManuscriptSource> {
+  const ext = getExtension(file.name);
+  const baseName = file.name.replace(/\.[^.]+$/, "");
+  let lines: string[];
+
+  if (ext === "docx") {
+    const zip = await JSZip.loadAsync(await file.arrayBuffer());
+    const documentXml = await zip.file("word/document.xml")?.async("string");
+    if (!documentXml) throw new Error("无法读取 DOCX 正文，请确认文件未损坏");
+    lines = extractDocxLines(documentXml).flatMap((line) => line.split("\n"));
+  } else if (["txt", "md", "markdown"].includes(ext)) {
+    lines = decodeText(await file.arrayBuffer())
+      .replace(/^\ufeff/, "")
+      .replace(/\r\n?/g, "\n")
+      .split("\n");
+  } else {
+    throw new Error("仅支持 TXT、Markdown 与 DOCX 文件");
+  }
+
+  return { title: getBookTitle(lines) ?? baseName, lines: lines.map((line) => line.replace(/\s+$/, "")) };
+}
+
+const H1_RE = /^#\s+\S/;
+
+// 只有一个一级标题且位于首个非空行时视为书名
+const getBookTitle = (lines: string[]) => {
+  const h1 = lines.filter((line) => H1_RE.test(line.trim()));
+  const first = lines.find((line) => line.trim());
+  return h1.length === 1 && first?.trim() === h1[0].trim() ? h1[0].replace(/^#\s+/, "").trim() : undefined;
+};
+
+const isChapterHeading = (line: string) => {
+  const text = line.trim();
+  return Boolean(text) && text.length <= MAX_HEADING_LENGTH && CHAPTER_HEADING_RES.some((re) => re.test(text));
+};
+
+/**
+ * 识别章节起始行：Markdown 取出现至少两次的最高标题层级，其余文本按“第X章”等常见格式识别
+ */
+export function detectChapterBreaks(lines: string[]): number[] {
+  const headingLevels = lines.map((line) => MARKDOWN_HEADING_RE.exec(line.trim())?.[1].length ?? 0);
+  const counts = new Map<number, number>();
+  headingLevels.forEach((level) => level && counts.set(level, (counts.get(level) ?? 0) + 1));
+  const chapterLevel = [...counts.entries()]
+    .filter(([, count]) => count >= 2)
+    .map(([level]) => level)
+    .sort((a, b) => a - b)[0];
+
+  return lines.reduce<number[]>((breaks, line, index) => {
+    const isMarkdownChapter = chapterLevel !== undefined && headingLevels[index] === chapterLevel;
+    const plain = line.trim().replace(/^#{1,6}\s+/, "");
+    if (isMarkdownChapter || (!headingLevels[index] && isChapterHeading(plain))) breaks.push(index);
+    return breaks;
+  }, []);
+}
+
+// 去掉 Markdown 标题符号，作为章节标题
+export const toHeadingTitle = (line: string) => line.trim().replace(MARKDOWN_HEADING_RE, "$2").trim();
+
+const isHeadingLine = (line: string) => MARKDOWN_HEADING_RE.test(line.trim()) || isChapterHeading(line);
+
+/**
+ * 按拆分点切分书稿；首个拆分点之前的非空内容作为“序”，无拆分点时整篇作为一章
+ */
+export function splitManuscript(lines: string[], breaks: number[]): ManuscriptSection[] {
+  const starts = [...new Set(breaks)].filter((index) => index >= 0 && index < lines.length).sort((a, b) => a - b);
+  // 书名行（一级标题）不算作序的内容
+  const hasPreface = lines.slice(0, starts[0] ?? lines.length).some((line) => line.trim() && !H1_RE.test(line.trim()));
+  const boundaries = hasPreface || !starts.length ? [0, ...starts.filter((index) => index > 0)] : starts;
+
+  return boundaries.map((start, index) => {
+    const end = boundaries[index + 1] ?? lines.length;
+    const isPreface = hasPreface && index === 0 && start !== starts[0];
+    const isHeading = !isPreface && isHeadingLine(lines[start]);
+    const bodyLines = lines.slice(isHeading ? start + 1 : start, end);
+    // 去掉首尾空行，连续空行合并为一个
+    const content = bodyLines
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+    const title = isPreface ? (starts.length ? "序" : "正文") : isHeading ? toHeadingTitle(lines[start]) : "";
+    return { start, end, title, content, wordCount: countWords(content), isHeading };
+  });
+}
@@ -0,0 +1,245 @@
+// 轻量 Markdown 解析：只覆盖设定文档常用的语法，输出结构化数据交由组件渲染，避免注入 HTML
+
+export type MarkdownInline =
+  | { type: "text"; value: string }
+  | { type: "strong" | "em" | "del"; children: MarkdownInline[] }
+  | { type: "code"; value: string }
+  | { type: "link"; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: "heading"; level: number; text: string; id: string; line: number }
+  | { type: "paragraph"; text: string; line: number }
+  | { type: "list"; ordered: boolean; items: string[]; line: number }
+  | { type: "blockquote"; text: string; line: number }
+  | { type: "code"; lang: string; value: string; line: number }
+  | { type: "table"; header: string[]; rows: string[][]; line: number }
+  | { type: "hr"; line: number };
+
+export interface MarkdownHeading {
+  id: string;
+  level: number;
+  text: string;
+  // 标题所在行（从 0 开始），用于在编辑器中定位
+  line: number;
+}
+
+const HEADING_RE = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_RE = /^\s*(```|~~~)\s*([\w-]*)\s*$/;
+const HR_RE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const LIST_RE = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+const QUOTE_RE = /^\s*>\s?(.*)$/;
+const TABLE_DIVIDER_RE = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const splitTableRow = (line: string) =>
+  line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split("|")
+    .map((cell) => cell.trim());
+
+const isBlockStart = (line: string, next?: string) =>
+  HEADING_RE.test(line) ||
+  FENCE_RE.test(line) ||
+  HR_RE.test(line) ||
+  LIST_RE.test(line) ||
+  QUOTE_RE.test(line) ||
+  (line.includes("|") && next !== undefined && TABLE_DIVIDER_RE.test(next));
+
+/**
+ * 将 Markdown 文本解析为块级结构，标题会按出现顺序分配 id
+ */
+export function parseMarkdown(text: string, idPrefix = "md-heading"): MarkdownBlock[] {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: MarkdownBlock[] = [];
+  let headingIndex = 0;
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const start = i;
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE_RE.exec(line);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        body.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({ type: "code", lang: fence[2], value: body.join("\n"), line: start });
+      continue;
+    }
+
+    const heading = HEADING_RE.exec(line);
+    if (heading) {
+      blocks.push({
+        type: "heading",
+        level: heading[1].length,
+        text: heading[2],
+        id: `${idPrefix}-${headingIndex++}`,
+        line: start,
+      });
+      i++;
+      continue;
+    }
+
+    if (HR_RE.test(line)) {
+      blocks.push({ type: "hr", line: start });
+      i++;
+      continue;
+    }
+
+    if (line.includes("|") && i + 1 < lines.length && TABLE_DIVIDER_RE.test(lines[i + 1])) {
+      const header = splitTableRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes("|") && lines[i].trim()) {
+        rows.push(splitTableRow(lines[i]));
+        i++;
+      }
+      blocks.push({ type: "table", header, rows, line: start });
+      continue;
+    }
+
+    if (QUOTE_RE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE_RE.test(lines[i])) {
+        body.push(QUOTE_RE.exec(lines[i])![1]);
+        i++;
+      }
+      blocks.push({ type: "blockquote", text: body.join("\n"), line: start });
+      continue;
+    }
+
+    const listItem = LIST_RE.exec(line);
+    if (listItem) {
+      const ordered = /\d/.test(listItem[1]);
+      const items: string[] = [];
+      while (i < lines.length) {
+        const item = LIST_RE.exec(lines[i]);
+        if (item && /\d/.test(item[1]) === ordered) {
+          items.push(item[2]);
+        } else if (lines[i].trim() && /^\s{2,}/.test(lines[i]) && items.length) {
+          // 缩进的续行并入上一项
+          items[items.length - 1] += `\n${lines[i].trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({ type: "list", ordered, items, line: start });
+      continue;
+    }
+
+    const body: string[] = [];
+    while (i < lines.length && lines[i].trim() && (i === start || !isBlockStart(lines[i], lines[i + 1]))) {
+      body.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: "paragraph", text: body.join("\n"), line: start });
+  }
+
+  return blocks;
+}
+
+export function getMarkdownHeadings(blocks: MarkdownBlock[]): MarkdownHeading[] {
+  return blocks.flatMap((block) =>
+    block.type === "heading" ? [{ id: block.id, level: block.level, text: block.text, line: block.line }] : [],
+  );
+}
+
+const INLINE_RE =
+  /(`+)([\s\S]*?)\1|\*\*([\s\S]+?)\*\*|__([\s\S]+?)__|~~([\s\S]+?)~~|\*([^*\n]+)\*|_([^_\n]+)_|\[([^\]]+)\]\(([^)\s]+)\)/;
+
+// 只允许常见协议与站内链接，防止 javascript: 等伪协议
+const isSafeHref = (href: string) => /^(https?:|mailto:|\/|#)/i.test(href);
+
+/**
+ * 解析行内语法：粗体、斜体、删除线、行内代码与链接
+ */
+export function parseMarkdownInline(text: string): MarkdownInline[] {
+  const result: MarkdownInline[] = [];
+  let rest = text;
+
+  while (rest) {
+    const match = INLINE_RE.exec(rest);
+    if (!match) {
+      result.push({ type: "text", value: rest });
+      break;
+    }
+    if (match.index > 0) {
+      result.push({ type: "text", value: rest.slice(0, match.index) });
+    }
+
+    const [raw, , code, strong, strongAlt, del, em, emAlt, linkText, href] = match;
+    if (code !== undefined) {
+      result.push({ type: "code", value: code.trim() });
+    } else if (strong ?? strongAlt) {
+      result.push({ type: "strong", children: parseMarkdownInline(strong ?? strongAlt) });
+    } else if (del) {
+      result.push({ type: "del", children: parseMarkdownInline(del) });
+    } else if (em ?? emAlt) {
+      result.push({ type: "em", children: parseMarkdownInline(em ?? emAlt) });
+    } else if (linkText && isSafeHref(href)) {
+      result.push({ type: "link", href, children: parseMarkdownInline(linkText) });
+    } else {
+      result.push({ type: "text", value: raw });
+    }
+    rest = rest.slice(match.index + raw.length);
+  }
+
+  return result;
+}
+
+const inlineToText = (tokens: MarkdownInline[]): string =>
+  tokens.map((token) => ("value" in token ? token.value : inlineToText(token.children))).join("");
+
+// 用于目录等场景：去掉行内标记，只保留纯文本
+export const stripMarkdownInline = (text: string) => inlineToText(parseMarkdownInline(text));
+
+/**
+ * 获取光标所在的标题章节（从该标题到下一个同级或更高级标题之前），返回字符区间
+ */
+export function getMarkdownSectionRange(text: string, cursor: number): { start: number; end: number } | null {
+  const lines = text.split("\n");
+  const offsets: number[] = [];
+  lines.reduce((acc, line) => {
+    offsets.push(acc);
+    return acc + line.length + 1;
+  }, 0);
+
+  const cursorLine = offsets.findLastIndex((offset) => offset <= cursor);
+  let startLine = -1;
+  let level = 0;
+  for (let index = cursorLine; index >= 0; index--) {
+    const heading = HEADING_RE.exec(lines[index]);
+    if (heading) {
+      startLine = index;
+      level = heading[1].length;
+      break;
+    }
+  }
+  if (startLine < 0) return null;
+
+  let endLine = lines.length;
+  for (let index = startLine + 1; index < lines.length; index++) {
+    const heading = HEADING_RE.exec(lines[index]);
+    if (heading && heading[1].length <= level) {
+      endLine = index;
+      break;
+    }
+  }
+
+  // 去掉章节末尾的空行，替换后保留原有的段落间距
+  while (endLine - 1 > startLine && !lines[endLine - 1].trim()) endLine--;
+  const start = offsets[startLine];
+  const end = offsets[endLine - 1] + lines[endLine - 1].length;
+  return { start, end };
+}
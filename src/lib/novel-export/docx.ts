@@ -0,0 +1,198 @@
+import JSZip from "jszip";
+
+import { MarkdownInline, parseMarkdown, parseMarkdownInline } from "../markdown";
+
+import { escapeXml, toParagraphs, toW3CDate } from "./text";
+import { ExportManuscript } from "./types";
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+}
+
+const W_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>
+`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>
+`;
+
+const DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>
+`;
+
+// 字号单位为半磅：正文小四（12pt），首行缩进两字符
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${W_NS}">
+<w:docDefaults>
+<w:rPrDefault><w:rPr><w:rFonts w:ascii="Times New Roman" w:hAnsi="Times New Roman" w:eastAsia="宋体"/><w:sz w:val="24"/><w:lang w:eastAsia="zh-CN"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="360" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+</w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+<w:style w:type="paragraph" w:styleId="Prose"><w:name w:val="Prose"/><w:basedOn w:val="Normal"/><w:pPr><w:ind w:firstLineChars="200"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:pPr><w:jc w:val="center"/><w:spacing w:before="2400" w:after="480"/></w:pPr><w:rPr><w:rFonts w:eastAsia="黑体"/><w:b/><w:sz w:val="44"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:pPr><w:pageBreakBefore/><w:jc w:val="center"/><w:spacing w:before="480" w:after="360"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:rFonts w:eastAsia="黑体"/><w:b/><w:sz w:val="32"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:rFonts w:eastAsia="黑体"/><w:b/><w:sz w:val="28"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading3"><w:name w:val="heading 3"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:before="200" w:after="100"/><w:outlineLvl w:val="2"/></w:pPr><w:rPr><w:b/><w:sz w:val="26"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:pPr><w:ind w:left="720"/></w:pPr><w:rPr><w:i/><w:color w:val="555555"/></w:rPr></w:style>
+</w:styles>
+`;
+
+const run = (text: string, style: RunStyle = {}) => {
+  const props = [
+    style.bold ? "<w:b/>" : "",
+    style.italic ? "<w:i/>" : "",
+    style.strike ? "<w:strike/>" : "",
+    style.code ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/>' : "",
+  ].join("");
+  // 段内换行转为 <w:br/>
+  const content = text
+    .split("\n")
+    .map((line) => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`)
+    .join("<w:br/>");
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ""}${content}</w:r>`;
+};
+
+const renderInline = (tokens: MarkdownInline[], style: RunStyle = {}): string =>
+  tokens
+    .map((token) => {
+      switch (token.type) {
+        case "text":
+          return run(token.value, style);
+        case "code":
+          return run(token.value, { ...style, code: true });
+        case "strong":
+          return renderInline(token.children, { ...style, bold: true });
+        case "em":
+          return renderInline(token.children, { ...style, italic: true });
+        case "del":
+          return renderInline(token.children, { ...style, strike: true });
+        case "link":
+          return renderInline(token.children, style);
+        default:
+          return "";
+      }
+    })
+    .join("");
+
+const paragraph = (runs: string, styleId?: string) =>
+  `<w:p>${styleId ? `<w:pPr><w:pStyle w:val="${styleId}"/></w:pPr>` : ""}${runs}</w:p>`;
+
+const inlineParagraph = (text: string, styleId?: string) => paragraph(renderInline(parseMarkdownInline(text)), styleId);
+
+const table = (rows: string[][]) => {
+  const border =
+    '<w:top w:val="single" w:sz="4"/><w:left w:val="single" w:sz="4"/><w:bottom w:val="single" w:sz="4"/><w:right w:val="single" w:sz="4"/><w:insideH w:val="single" w:sz="4"/><w:insideV w:val="single" w:sz="4"/>';
+  const body = rows
+    .map(
+      (row, rowIndex) =>
+        `<w:tr>${row
+          .map((cell) => `<w:tc>${paragraph(renderInline(parseMarkdownInline(cell), { bold: rowIndex === 0 }))}</w:tc>`)
+          .join("")}</w:tr>`,
+    )
+    .join("");
+  return `<w:tbl><w:tblPr><w:tblW w:w="0" w:type="auto"/><w:tblBorders>${border}</w:tblBorders></w:tblPr>${body}</w:tbl>`;
+};
+
+/**
+ * 附录 Markdown 转 WordprocessingML 段落，标题下移一级（一级标题留给附录标题）
+ */
+export function markdownToDocxParagraphs(markdown: string): string {
+  return parseMarkdown(markdown)
+    .map((block) => {
+      switch (block.type) {
+        case "heading":
+          return inlineParagraph(block.text, block.level === 1 ? "Heading2" : "Heading3");
+        case "paragraph":
+          return inlineParagraph(block.text);
+        case "blockquote":
+          return inlineParagraph(block.text, "Quote");
+        case "list":
+          return block.items
+            .map((item, index) => inlineParagraph(`${block.ordered ? `${index + 1}.` : "•"} ${item}`))
+            .join("");
+        case "code":
+          return paragraph(run(block.value, { code: true }));
+        case "table":
+          return table([block.header, ...block.rows]);
+        case "hr":
+          return paragraph(run("* * *"));
+        default:
+          return "";
+      }
+    })
+    .join("");
+}
+
+const buildDocument = (manuscript: ExportManuscript) => {
+  const body: string[] = [paragraph(run(manuscript.title), "Title")];
+  if (manuscript.author) body.push(paragraph(run(manuscript.author), "Title"));
+  toParagraphs(manuscript.description ?? "").forEach((text) => body.push(paragraph(run(text), "Prose")));
+
+  manuscript.chapters.forEach((chapter) => {
+    body.push(paragraph(run(chapter.title), "Heading1"));
+    toParagraphs(chapter.content).forEach((text) => body.push(paragraph(run(text), "Prose")));
+  });
+
+  manuscript.appendices.forEach((appendix) => {
+    body.push(paragraph(run(appendix.title), "Heading1"));
+    body.push(markdownToDocxParagraphs(appendix.content));
+  });
+
+  // A4 纸张，页边距 2.54cm / 3.17cm
+  const section =
+    '<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1800" w:bottom="1440" w:left="1800" w:header="851" w:footer="992" w:gutter="0"/></w:sectPr>';
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NS}"><w:body>${body.join("")}${section}</w:body></w:document>
+`;
+};
+
+const buildCoreProps = (manuscript: ExportManuscript) => {
+  const modified = toW3CDate(manuscript.exportedAt);
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<dc:title>${escapeXml(manuscript.title)}</dc:title>
+${manuscript.author ? `<dc:creator>${escapeXml(manuscript.author)}</dc:creator>` : ""}
+<dc:language>${manuscript.language ?? "zh-CN"}</dc:language>
+<dcterms:created xsi:type="dcterms:W3CDTF">${modified}</dcterms:created>
+<dcterms:modified xsi:type="dcterms:W3CDTF">${modified}</dcterms:modified>
+</cp:coreProperties>
+`;
+};
+
+/**
+ * 打包 DOCX：每章以一级标题另起一页，便于在 Word 导航窗格中跳转
+ */
+export async function buildDocx(manuscript: ExportManuscript): Promise<Uint8Array> {
+  const date = new Date(manuscript.exportedAt);
+  const zip = new JSZip();
+
+  zip.file("[Content_Types].xml", CONTENT_TYPES, { date });
+  zip.file("_rels/.rels", ROOT_RELS, { date });
+  zip.file("docProps/core.xml", buildCoreProps(manuscript), { date });
+  zip.file("word/_rels/document.xml.rels", DOCUMENT_RELS, { date });
+  zip.file("word/styles.xml", STYLES, { date });
+  zip.file("word/document.xml", buildDocument(manuscript), { date });
+
+  return zip.generateAsync({
+    type: "uint8array",
+    compression: "DEFLATE",
+    mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  });
+}
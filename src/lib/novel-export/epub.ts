@@ -0,0 +1,228 @@
+import JSZip from "jszip";
+
+import { MarkdownInline, parseMarkdown, parseMarkdownInline } from "../markdown";
+
+import { escapeXml, toParagraphs, toW3CDate } from "./text";
+import { ExportManuscript } from "./types";
+
+interface EpubDocument {
+  id: string;
+  href: string;
+  title: string;
+  body: string;
+}
+
+const STYLESHEET = `body { font-family: serif; line-height: 1.8; margin: 0 5%; }
+h1 { font-size: 1.6em; text-align: center; margin: 2em 0 1.5em; }
+h2, h3, h4, h5, h6 { margin: 1.2em 0 0.6em; }
+p { margin: 0 0 0.6em; }
+p.prose { text-indent: 2em; }
+.title-page { text-align: center; margin-top: 30%; }
+.title-page .author { margin-top: 2em; }
+.title-page .description { text-align: left; text-indent: 2em; margin-top: 3em; }
+blockquote { margin: 0.8em 1.5em; color: #555; }
+pre { white-space: pre-wrap; font-family: monospace; font-size: 0.9em; }
+table { border-collapse: collapse; margin: 0.8em 0; }
+th, td { border: 1px solid #999; padding: 0.2em 0.5em; }
+`;
+
+const pad = (value: number) => String(value).padStart(3, "0");
+
+const renderInline = (tokens: MarkdownInline[]): string =>
+  tokens
+    .map((token) => {
+      switch (token.type) {
+        case "text":
+          return escapeXml(token.value);
+        case "code":
+          return `<code>${escapeXml(token.value)}</code>`;
+        case "strong":
+          return `<strong>${renderInline(token.children)}</strong>`;
+        case "em":
+          return `<em>${renderInline(token.children)}</em>`;
+        case "del":
+          return `<del>${renderInline(token.children)}</del>`;
+        case "link":
+          return `<a href="${escapeXml(token.href)}">${renderInline(token.children)}</a>`;
+        default:
+          return "";
+      }
+    })
+    .join("");
+
+const inline = (text: string) => renderInline(parseMarkdownInline(text));
+
+/**
+ * 附录 Markdown 转 XHTML，标题统一下移一级（h1 留给附录标题）
+ */
+export function markdownToXhtml(markdown: string): string {
+  return parseMarkdown(markdown)
+    .map((block) => {
+      switch (block.type) {
+        case "heading": {
+          const level = Math.min(block.level + 1, 6);
+          return `<h${level}>${inline(block.text)}</h${level}>`;
+        }
+        case "paragraph":
+          return `<p>${inline(block.text).replace(/\n/g, "<br/>")}</p>`;
+        case "blockquote":
+          return `<blockquote><p>${inline(block.text).replace(/\n/g, "<br/>")}</p></blockquote>`;
+        case "list": {
+          const tag = block.ordered ? "ol" : "ul";
+          return `<${tag}>${block.items.map((item) => `<li>${inline(item)}</li>`).join("")}</${tag}>`;
+        }
+        case "code":
+          return `<pre><code>${escapeXml(block.value)}</code></pre>`;
+        case "table": {
+          const head = `<tr>${block.header.map((cell) => `<th>${inline(cell)}</th>`).join("")}</tr>`;
+          const rows = block.rows.map((row) => `<tr>${row.map((cell) => `<td>${inline(cell)}</td>`).join("")}</tr>`);
+          return `<table>${head}${rows.join("")}</table>`;
+        }
+        case "hr":
+          return "<hr/>";
+        default:
+          return "";
+      }
+    })
+    .join("\n");
+}
+
+const xhtmlPage = (title: string, body: string, language: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="styles.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+const buildDocuments = (manuscript: ExportManuscript): EpubDocument[] => {
+  const titleBody = [
+    `<section class="title-page" epub:type="titlepage">`,
+    `<h1>${escapeXml(manuscript.title)}</h1>`,
+    manuscript.author ? `<p class="author">${escapeXml(manuscript.author)}</p>` : "",
+    ...toParagraphs(manuscript.description ?? "").map((p) => `<p class="description">${escapeXml(p)}</p>`),
+    "</section>",
+  ].join("\n");
+
+  const chapters = manuscript.chapters.map((chapter, index) => ({
+    id: `chapter-${pad(index + 1)}`,
+    href: `chapter-${pad(index + 1)}.xhtml`,
+    title: chapter.title,
+    body: [
+      `<section epub:type="chapter">`,
+      `<h1>${escapeXml(chapter.title)}</h1>`,
+      ...toParagraphs(chapter.content).map((p) => `<p class="prose">${escapeXml(p)}</p>`),
+      "</section>",
+    ].join("\n"),
+  }));
+
+  const appendices = manuscript.appendices.map((appendix, index) => ({
+    id: `appendix-${pad(index + 1)}`,
+    href: `appendix-${pad(index + 1)}.xhtml`,
+    title: appendix.title,
+    body: [
+      `<section epub:type="appendix">`,
+      `<h1>${escapeXml(appendix.title)}</h1>`,
+      markdownToXhtml(appendix.content),
+      "</section>",
+    ].join("\n"),
+  }));
+
+  return [{ id: "title", href: "title.xhtml", title: manuscript.title, body: titleBody }, ...chapters, ...appendices];
+};
+
+const buildNav = (manuscript: ExportManuscript, documents: EpubDocument[], language: string) => {
+  const items = documents
+    .slice(1)
+    .map((doc) => `<li><a href="${doc.href}">${escapeXml(doc.title)}</a></li>`)
+    .join("\n");
+  return xhtmlPage(
+    manuscript.title,
+    `<nav epub:type="toc" id="toc">\n<h1>目录</h1>\n<ol>\n${items}\n</ol>\n</nav>`,
+    language,
+  );
+};
+
+// 兼容只识别 EPUB 2 目录的阅读器
+const buildNcx = (manuscript: ExportManuscript, documents: EpubDocument[]) => {
+  const points = documents
+    .slice(1)
+    .map(
+      (doc, index) =>
+        `<navPoint id="nav-${doc.id}" playOrder="${index + 1}"><navLabel><text>${escapeXml(doc.title)}</text></navLabel><content src="${doc.href}"/></navPoint>`,
+    )
+    .join("\n");
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+<head><meta name="dtb:uid" content="urn:gen-novel:${escapeXml(manuscript.id)}"/></head>
+<docTitle><text>${escapeXml(manuscript.title)}</text></docTitle>
+<navMap>
+${points}
+</navMap>
+</ncx>
+`;
+};
+
+const buildOpf = (manuscript: ExportManuscript, documents: EpubDocument[], language: string) => {
+  const manifest = documents
+    .map((doc) => `<item id="${doc.id}" href="${doc.href}" media-type="application/xhtml+xml"/>`)
+    .join("\n");
+  const spine = documents.map((doc) => `<itemref idref="${doc.id}"/>`).join("\n");
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">urn:gen-novel:${escapeXml(manuscript.id)}</dc:identifier>
+<dc:title>${escapeXml(manuscript.title)}</dc:title>
+<dc:language>${language}</dc:language>
+${manuscript.author ? `<dc:creator>${escapeXml(manuscript.author)}</dc:creator>` : ""}
+${manuscript.description ? `<dc:description>${escapeXml(manuscript.description)}</dc:description>` : ""}
+<meta property="dcterms:modified">${toW3CDate(manuscript.exportedAt)}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>
+<item id="css" href="styles.css" media-type="text/css"/>
+${manifest}
+</manifest>
+<spine toc="ncx">
+${spine}
+</spine>
+</package>
+`;
+};
+
+/**
+ * 打包 EPUB 3：mimetype 必须为压缩包首个且不压缩的文件
+ */
+export async function buildEpub(manuscript: ExportManuscript): Promise<Uint8Array> {
+  const language = manuscript.language ?? "zh-CN";
+  const date = new Date(manuscript.exportedAt);
+  const documents = buildDocuments(manuscript);
+  const zip = new JSZip();
+
+  zip.file("mimetype", "application/epub+zip", { compression: "STORE", date });
+  zip.file(
+    "META-INF/container.xml",
+    `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>
+`,
+    { date },
+  );
+  zip.file("OEBPS/content.opf", buildOpf(manuscript, documents, language), { date });
+  zip.file("OEBPS/nav.xhtml", buildNav(manuscript, documents, language), { date });
+  zip.file("OEBPS/toc.ncx", buildNcx(manuscript, documents), { date });
+  zip.file("OEBPS/styles.css", STYLESHEET, { date });
+  documents.forEach((doc) => {
+    zip.file(`OEBPS/${doc.href}`, xhtmlPage(doc.title, doc.body, language), { date });
+  });
+
+  return zip.generateAsync({ type: "uint8array", compression: "DEFLATE", mimeType: "application/epub+zip" });
+}
@@ -0,0 +1,50 @@
+import { buildDocx, markdownToDocxParagraphs } from "./docx";
+import { buildEpub, markdownToXhtml } from "./epub";
+import { buildMarkdown, buildPlainText, markdownToPlainText, sanitizeFileName } from "./text";
+import {
+  EXPORT_FORMAT_OPTIONS,
+  ExportAppendix,
+  ExportChapter,
+  ExportFile,
+  ExportFormat,
+  ExportManuscript,
+} from "./types";
+
+export type { ExportAppendix, ExportChapter, ExportFile, ExportFormat, ExportManuscript };
+export {
+  EXPORT_FORMAT_OPTIONS,
+  buildDocx,
+  buildEpub,
+  buildMarkdown,
+  buildPlainText,
+  markdownToDocxParagraphs,
+  markdownToPlainText,
+  markdownToXhtml,
+};
+
+/**
+ * 按格式打包作品，纯函数实现，浏览器与 Node 中均可运行
+ */
+export async function exportManuscript(manuscript: ExportManuscript, format: ExportFormat): Promise<ExportFile> {
+  const option = EXPORT_FORMAT_OPTIONS.find((item) => item.value === format);
+  if (!option) {
+    throw new Error(`不支持的导出格式: ${format}`);
+  }
+
+  let data: Uint8Array;
+  if (format === "epub") {
+    data = await buildEpub(manuscript);
+  } else if (format === "docx") {
+    data = await buildDocx(manuscript);
+  } else {
+    // TXT 带 BOM，避免 Windows 记事本按本地编码打开中文乱码
+    const text = format === "md" ? buildMarkdown(manuscript) : `\ufeff${buildPlainText(manuscript)}`;
+    data = new TextEncoder().encode(text);
+  }
+
+  return {
+    fileName: `${sanitizeFileName(manuscript.title)}.${option.extension}`,
+    mimeType: option.mimeType,
+    data,
+  };
+}
@@ -0,0 +1,110 @@
+import { parseMarkdown, stripMarkdownInline } from "../markdown";
+
+import { ExportManuscript } from "./types";
+
+// 正文按行分段，忽略空行与首尾空白（含全角缩进）
+export const toParagraphs = (text: string) =>
+  text
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+// XML 1.0 不允许的控制字符
+// eslint-disable-next-line no-control-regex
+const INVALID_XML_RE = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g;
+
+export const escapeXml = (text: string) =>
+  text
+    .replace(INVALID_XML_RE, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+// 文件名中去掉各系统不允许的字符
+export const sanitizeFileName = (name: string) =>
+  // eslint-disable-next-line no-control-regex
+  name.replace(/[\\/:*?"<>|\u0000-\u001f]/g, "_").trim() || "未命名作品";
+
+// EPUB/DOCX 元数据要求不带毫秒的 UTC 时间
+export const toW3CDate = (iso: string) => new Date(iso).toISOString().replace(/\.\d{3}Z$/, "Z");
+
+/**
+ * Markdown 附录转为纯文本：去掉标题符号与行内标记，列表与表格保留可读的结构
+ */
+export function markdownToPlainText(markdown: string): string {
+  return parseMarkdown(markdown)
+    .map((block) => {
+      switch (block.type) {
+        case "heading":
+          return stripMarkdownInline(block.text);
+        case "paragraph":
+        case "blockquote":
+          return stripMarkdownInline(block.text);
+        case "list":
+          return block.items
+            .map((item, index) => `${block.ordered ? `${index + 1}.` : "·"} ${stripMarkdownInline(item)}`)
+            .join("\n");
+        case "code":
+          return block.value;
+        case "table":
+          return [block.header, ...block.rows].map((row) => row.map(stripMarkdownInline).join(" | ")).join("\n");
+        case "hr":
+          return "——";
+        default:
+          return "";
+      }
+    })
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+// 附录中的标题降级，避免与章节标题同级
+const demoteHeadings = (markdown: string, offset: number) =>
+  markdown.replace(/^(#{1,6})(\s)/gm, (_, hashes: string, space: string) => {
+    return `${"#".repeat(Math.min(hashes.length + offset, 6))}${space}`;
+  });
+
+export function buildMarkdown(manuscript: ExportManuscript): string {
+  const parts: string[] = [`# ${manuscript.title}`];
+  if (manuscript.author) parts.push(`作者：${manuscript.author}`);
+  if (manuscript.description) parts.push(`> ${toParagraphs(manuscript.description).join("\n> ")}`);
+
+  manuscript.chapters.forEach((chapter) => {
+    parts.push(`## ${chapter.title}`, toParagraphs(chapter.content).join("\n\n"));
+  });
+
+  if (manuscript.appendices.length) {
+    parts.push("---", "## 附录");
+    manuscript.appendices.forEach((appendix) => {
+      parts.push(`### ${appendix.title}`, demoteHeadings(appendix.content.trim(), 3));
+    });
+  }
+
+  return `${parts.filter(Boolean).join("\n\n")}\n`;
+}
+
+export function buildPlainText(manuscript: ExportManuscript): string {
+  const parts: string[] = [manuscript.title];
+  if (manuscript.author) parts.push(`作者：${manuscript.author}`);
+  if (manuscript.description) parts.push(toParagraphs(manuscript.description).join("\n"));
+
+  // 中文排版习惯：段首两个全角空格
+  manuscript.chapters.forEach((chapter) => {
+    const body = toParagraphs(chapter.content)
+      .map((paragraph) => `\u3000\u3000${paragraph}`)
+      .join("\n");
+    parts.push(`${chapter.title}\n\n${body}`);
+  });
+
+  if (manuscript.appendices.length) {
+    parts.push("附录");
+    manuscript.appendices.forEach((appendix) => {
+      parts.push(`【${appendix.title}】\n\n${markdownToPlainText(appendix.content)}`);
+    });
+  }
+
+  return `${parts.filter(Boolean).join("\n\n\n")}\n`;
+}
@@ -0,0 +1,47 @@
+// 作品导出相关类型定义：与接口数据解耦，便于离线使用固定数据验证打包结果
+
+export type ExportFormat = "epub" | "docx" | "md" | "txt";
+
+export interface ExportChapter {
+  id: string;
+  title: string;
+  // 纯文本正文，按换行分段
+  content: string;
+}
+
+export interface ExportAppendix {
+  id: string;
+  title: string;
+  // Markdown 文本（世界观、大纲、人物设定等）
+  content: string;
+}
+
+export interface ExportManuscript {
+  id: string;
+  title: string;
+  author?: string;
+  description?: string;
+  language?: string;
+  // ISO 时间，写入 EPUB/DOCX 元数据与压缩包内文件时间，固定后输出可复现
+  exportedAt: string;
+  chapters: ExportChapter[];
+  appendices: ExportAppendix[];
+}
+
+export interface ExportFile {
+  fileName: string;
+  mimeType: string;
+  data: Uint8Array;
+}
+
+export const EXPORT_FORMAT_OPTIONS: { value: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: "epub", label: "EPUB 电子书", extension: "epub", mimeType: "application/epub+zip" },
+  {
+    value: "docx",
+    label: "Word 文档（DOCX）",
+    extension: "docx",
+    mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  },
+  { value: "md", label: "Markdown", extension: "md", mimeType: "text/markdown;charset=utf-8" },
+  { value: "txt", label: "纯文本（TXT）", extension: "txt", mimeType: "text/plain;charset=utf-8" },
+];
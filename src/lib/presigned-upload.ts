@@ -0,0 +1,90 @@
+// 预签名上传：先向后端申请 S3 预签名链接，再由浏览器直传文件
+
+export const PRESIGNED_API = "/api/v1/import-export/imports/presigned-url";
+
+type PresignedPut = { url: string; key?: string; objectKey?: string; method?: "PUT" | "put" };
+type PresignedPost = {
+  url: string;
+  fields: Record<string, string>;
+  key?: string;
+  objectKey?: string;
+  method?: "POST" | "post";
+};
+export type PresignedData = PresignedPut | PresignedPost;
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: unknown;
+}
+
+type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+export function normalizePresigned(input: any): PresignedData | null {
+  if (!input) return null;
+  const d =
+    typeof input === "object" && input && "success" in input && "data" in input
+      ? (input as ApiResponse<any>).data
+      : input;
+  if (d && typeof d === "object") {
+    const putUrl = d.uploadUrl || d.presignedUrl || d.signedUrl;
+    if (typeof putUrl === "string")
+      return { url: putUrl, key: d.key || d.objectKey, objectKey: d.objectKey, method: "PUT" };
+    if (typeof d.url === "string" && d.fields && typeof d.fields === "object")
+      return { url: d.url, fields: d.fields, key: d.key, objectKey: d.objectKey, method: d.method || "POST" };
+    if (typeof d.url === "string")
+      return { url: d.url, key: d.key || d.objectKey, objectKey: d.objectKey, method: d.method || "PUT" };
+  }
+  return null;
+}
+
+export function pickKeyFromPresigned(p: PresignedData): string | undefined {
+  if ("fields" in p && p.fields?.key) return p.fields.key;
+  if ("key" in p && (p as any).key) return (p as any).key;
+  if ("objectKey" in p && (p as any).objectKey) return (p as any).objectKey;
+  return undefined;
+}
+
+export async function uploadToS3(presigned: PresignedData, file: File, contentType: string): Promise<Response> {
+  if ("fields" in presigned) {
+    const formData = new FormData();
+    Object.entries(presigned.fields).forEach(([k, v]) => formData.append(k, v));
+    formData.append("file", file);
+    return fetch(presigned.url, { method: "POST", body: formData });
+  }
+  return fetch(presigned.url, { method: "PUT", headers: { "Content-Type": contentType }, body: file });
+}
+
+/**
+ * 申请预签名链接并上传文件，返回对象 key（后端未返回时退回文件名）
+ */
+export async function uploadWithPresignedUrl(
+  fetchWithAuth: FetchLike,
+  file: File,
+  { contentType, type }: { contentType: string; type: string },
+): Promise<string> {
+  const presignedRes = await fetchWithAuth(PRESIGNED_API, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ fileName: file.name, contentType, type }),
+  });
+  if (!presignedRes.ok) {
+    const err = await presignedRes.json().catch(() => ({}) as any);
+    const msg =
+      err?.message?.message || err?.message || `获取预签名链接失败: ${presignedRes.status} ${presignedRes.statusText}`;
+    throw new Error(msg);
+  }
+  const presignedJson = await presignedRes.json().catch(() => null);
+  if (!presignedJson) throw new Error("预签名响应为空");
+  const presigned = normalizePresigned(presignedJson);
+  if (!presigned || !("url" in presigned) || !presigned.url) throw new Error("预签名数据无效");
+
+  const objectKey = pickKeyFromPresigned(presigned);
+  const uploadRes = await uploadToS3(presigned, file, contentType);
+  if (!uploadRes.ok) {
+    const text = await uploadRes.text().catch(() => "");
+    throw new Error(`上传到 S3 失败: ${uploadRes.status} ${uploadRes.statusText}${text ? ` - ${text}` : ""}`);
+  }
+
+  return objectKey || file.name;
+}
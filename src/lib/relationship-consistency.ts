@@ -0,0 +1,194 @@
+/**
+ * 人物关系一致性检查：回放作品内的关系事件，找出前后矛盾、重复、跨作品与双向不一致的记录
+ */
+import { formatChapterTitle, getChapterNumbers } from "@/lib/chapter-title";
+import { toDateKey } from "@/lib/daily-series";
+import { toPairKey } from "@/lib/relationship-graph";
+import { getEventPairKey, getEventTime } from "@/lib/relationship-timeline";
+import { findRelationshipType, getInverseType } from "@/lib/relationship-types";
+import { Chapter } from "@/types/chapter";
+import {
+  Character,
+  CharacterRelationshipCurrent,
+  CharacterRelationshipHistoryEvent,
+  RelationshipType,
+} from "@/types/work";
+
+export type ConsistencyIssueType = "mismatch" | "duplicate" | "foreign" | "asymmetric" | "order";
+
+export const CONSISTENCY_ISSUE_LABEL: Record<ConsistencyIssueType, string> = {
+  mismatch: "前后关系不符",
+  duplicate: "重复事件",
+  foreign: "跨作品人物",
+  asymmetric: "双向关系不一致",
+  order: "章节顺序错乱",
+};
+
+// 一键修复方式：修正事件的原关系、删除事件，或按事件重新计算该对人物的当前关系
+export type ConsistencyFix =
+  | { kind: "update-prev"; eventId: string; prevRelType: string }
+  | { kind: "delete-event"; eventId: string }
+  | { kind: "recompute-pair"; characterAId: string; characterBId: string };
+
+export interface ConsistencyIssue {
+  id: string;
+  type: ConsistencyIssueType;
+  message: string;
+  // 可定位的事件
+  eventId?: string;
+  fix?: ConsistencyFix;
+}
+
+interface ConsistencyInput {
+  novelId: string;
+  events: CharacterRelationshipHistoryEvent[];
+  chapters: Chapter[];
+  characters: Character[];
+  relationships: CharacterRelationshipCurrent[];
+  // 关系类型目录，用于识别别名与有向关系的反向类型
+  relationshipTypes: RelationshipType[];
+}
+
+const relLabel = (value?: string) => value?.trim() || "无关系";
+
+// 一条带方向的关系记录：characterAId 一方记录的与另一方的关系
+type RelationRecord = Pick<CharacterRelationshipCurrent, "characterAId" | "relType">;
+
+/**
+ * 事件按发生时间回放；跨作品与重复的事件不参与回放，避免连带产生误报。
+ * 同一对人物反方向的记录按目录换算为反向类型后再比较，如 A→B“师父”与 B→A“徒弟”视为一致
+ */
+export const checkRelationshipConsistency = ({
+  novelId,
+  events,
+  chapters,
+  characters,
+  relationships,
+  relationshipTypes,
+}: ConsistencyInput) => {
+  const issues: ConsistencyIssue[] = [];
+  const names = new Map(characters.map((character) => [character.characterId, character.name]));
+  const chapterOrder = new Map(chapters.map((chapter) => [chapter.chapterId, chapter]));
+  const chapterNumbers = getChapterNumbers(chapters);
+  const chapterLabel = (chapter: Chapter) =>
+    `“${formatChapterTitle(chapterNumbers.get(chapter.chapterId), chapter.title)}”`;
+  const nameOf = (characterId: string) => names.get(characterId) || characterId;
+  const pairLabel = (event: { characterAId: string; characterBId: string }) =>
+    `${nameOf(event.characterAId)} — ${nameOf(event.characterBId)}`;
+  // 目录中的类型统一为目录名称，别名视为同一类型
+  const catalogLabel = (value: string) => findRelationshipType(relationshipTypes, value)?.label ?? value;
+  // 将 A→B 方向的关系换算为 B→A 方向：有向类型取反向类型，无向类型与目录外的写法保持不变；
+  // 有向类型未设置反向类型时无法换算，返回 undefined
+  const reverseRelType = (value: string) => {
+    const type = findRelationshipType(relationshipTypes, value);
+    return type ? getInverseType(relationshipTypes, type)?.label : value;
+  };
+  // 同向记录类型相同即一致；反向记录需任一方换算后与另一方相同，缺少反向类型时视为不一致
+  const isSameRelation = (a: RelationRecord, b: RelationRecord) => {
+    const typeA = a.relType?.trim() ?? "";
+    const typeB = b.relType?.trim() ?? "";
+    if (a.characterAId === b.characterAId) return catalogLabel(typeA) === catalogLabel(typeB);
+    const reversedA = reverseRelType(typeA);
+    const reversedB = reverseRelType(typeB);
+    return (
+      (reversedA !== undefined && catalogLabel(reversedA) === catalogLabel(typeB)) ||
+      (reversedB !== undefined && catalogLabel(reversedB) === catalogLabel(typeA))
+    );
+  };
+
+  // 每对人物回放到当前的关系及其记录方向
+  const state = new Map<string, RelationRecord>();
+  const seen = new Set<string>();
+  // 每对人物最近一条带章节的事件，用于检查章节顺序
+  const lastChapter = new Map<string, Chapter>();
+
+  [...events]
+    .sort((a, b) => getEventTime(a) - getEventTime(b))
+    .forEach((event) => {
+      const pairKey = getEventPairKey(event);
+      const label = pairLabel(event);
+
+      const foreignIds = [event.characterAId, event.characterBId].filter((id) => !names.has(id));
+      if ((event.novelId && event.novelId !== novelId) || foreignIds.length) {
+        issues.push({
+          id: `foreign-${event.eventId}`,
+          type: "foreign",
+          message: foreignIds.length
+            ? `${label}：人物 ${foreignIds.map(nameOf).join("、")} 不属于本作品`
+            : `${label}：事件记录在其他作品下（${event.novelName || event.novelId}）`,
+          eventId: event.eventId,
+          fix: { kind: "delete-event", eventId: event.eventId },
+        });
+        return;
+      }
+
+      const occurredOn = toDateKey(new Date(getEventTime(event)));
+      const signature = [pairKey, relLabel(event.prevRelType), relLabel(event.newRelType), event.chapterId, occurredOn];
+      if (seen.has(signature.join("|"))) {
+        issues.push({
+          id: `duplicate-${event.eventId}`,
+          type: "duplicate",
+          message: `${label}：与同日同章节的另一条“${relLabel(event.prevRelType)} → ${relLabel(event.newRelType)}”事件重复`,
+          eventId: event.eventId,
+          fix: { kind: "delete-event", eventId: event.eventId },
+        });
+        return;
+      }
+      seen.add(signature.join("|"));
+
+      const last = state.get(pairKey) ?? { characterAId: event.characterAId, relType: "" };
+      const actual = event.prevRelType?.trim() ?? "";
+      if (!isSameRelation(last, { characterAId: event.characterAId, relType: actual })) {
+        // 换算为本事件的方向；有向类型缺少反向类型时无法给出修正值，只提示不自动修复
+        const lastType = last.relType ?? "";
+        const expected = last.characterAId === event.characterAId ? lastType : reverseRelType(lastType);
+        issues.push({
+          id: `mismatch-${event.eventId}`,
+          type: "mismatch",
+          message:
+            expected === undefined
+              ? `${label}：事件记录的原关系为“${relLabel(actual)}”，此前 ${nameOf(last.characterAId)} 一方记录的关系“${lastType}”为有向关系但未设置反向类型，无法核对`
+              : `${label}：事件记录的原关系为“${relLabel(actual)}”，但此前的关系是“${relLabel(expected)}”`,
+          eventId: event.eventId,
+          fix:
+            expected === undefined ? undefined : { kind: "update-prev", eventId: event.eventId, prevRelType: expected },
+        });
+      }
+      state.set(pairKey, { characterAId: event.characterAId, relType: event.newRelType?.trim() ?? "" });
+
+      const chapter = event.chapterId ? chapterOrder.get(event.chapterId) : undefined;
+      const previous = lastChapter.get(pairKey);
+      if (chapter && previous && chapter.order < previous.order) {
+        issues.push({
+          id: `order-${event.eventId}`,
+          type: "order",
+          message: `${label}：发生在${chapterLabel(chapter)}的事件晚于${chapterLabel(previous)}的事件，请核对发生时间或所属章节`,
+          eventId: event.eventId,
+        });
+      }
+      if (chapter) lastChapter.set(pairKey, chapter);
+    });
+
+  // 同一对人物的多条当前关系（如 A→B 与 B→A）统一换算到同一方向后类型不同
+  const pairs = new Map<string, CharacterRelationshipCurrent[]>();
+  relationships.forEach((item) => {
+    if (!item.characterAId || !item.characterBId) return;
+    const key = toPairKey(item.characterAId, item.characterBId);
+    pairs.set(key, [...(pairs.get(key) ?? []), item]);
+  });
+  pairs.forEach((items, key) => {
+    const [first] = items;
+    if (items.every((item) => isSameRelation(first, item))) return;
+    const types = items.map(
+      (item) => `${nameOf(item.characterAId)}→${nameOf(item.characterBId)} ${relLabel(item.relType)}`,
+    );
+    issues.push({
+      id: `asymmetric-${key}`,
+      type: "asymmetric",
+      message: `${pairLabel(first)}：双方记录的当前关系不一致（${types.join(" / ")}）`,
+      fix: { kind: "recompute-pair", characterAId: first.characterAId, characterBId: first.characterBId },
+    });
+  });
+
+  return issues;
+};
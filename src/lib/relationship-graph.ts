@@ -0,0 +1,170 @@
+/**
+ * 人物关系图：由人物与关系当前状态构建节点/边，并提供简单的力导向布局
+ */
+import { Character, CharacterRelationshipCurrent } from "@/types/work";
+
+export interface RelationshipGraphNode {
+  id: string;
+  label: string;
+  role?: string;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  // 被拖动或固定的节点不参与布局计算
+  pinned?: boolean;
+}
+
+export interface RelationshipGraphEdge {
+  id: string;
+  source: string;
+  target: string;
+  relType: string;
+}
+
+export interface GraphViewport {
+  width: number;
+  height: number;
+}
+
+export const UNLABELED_REL_TYPE = "未标记";
+
+const REPULSION = 6000;
+const SPRING = 0.04;
+const LINK_DISTANCE = 140;
+const CENTER_PULL = 0.02;
+const VELOCITY_DECAY = 0.6;
+const PADDING = 40;
+
+// 无 pairKey 时按两个角色 ID 排序拼接，保证同一对角色得到相同的 key
+export const toPairKey = (characterAId: string, characterBId: string) => [characterAId, characterBId].sort().join("#");
+
+/**
+ * 关系记录转为图的边，以 pairKey 去重；source → target 保留该条记录的方向，供有向关系画箭头
+ */
+export const buildGraphEdges = (relationships: CharacterRelationshipCurrent[]) => {
+  const edges = new Map<string, RelationshipGraphEdge>();
+  relationships.forEach((item) => {
+    if (!item.characterAId || !item.characterBId || item.characterAId === item.characterBId) return;
+    const id = item.pairKey || toPairKey(item.characterAId, item.characterBId);
+    edges.set(id, {
+      id,
+      source: item.characterAId,
+      target: item.characterBId,
+      relType: item.relType?.trim() || UNLABELED_REL_TYPE,
+    });
+  });
+  return [...edges.values()];
+};
+
+/**
+ * 关系中出现但不在人物列表内的角色（含 extraIds，如历史事件涉及的角色）也会作为节点，名称退化为 ID
+ */
+export const buildRelationshipGraph = (
+  characters: Character[],
+  relationships: CharacterRelationshipCurrent[],
+  viewport: GraphViewport,
+  extraIds: string[] = [],
+) => {
+  const labels = new Map(characters.map((character) => [character.characterId, character]));
+  const edges = buildGraphEdges(relationships);
+
+  const ids = new Set([...characters.map((character) => character.characterId), ...extraIds]);
+  edges.forEach((edge) => {
+    ids.add(edge.source);
+    ids.add(edge.target);
+  });
+
+  const nodes: RelationshipGraphNode[] = [...ids].map((id) => ({
+    id,
+    label: labels.get(id)?.name || id,
+    role: labels.get(id)?.role,
+    x: 0,
+    y: 0,
+    vx: 0,
+    vy: 0,
+  }));
+  resetGraphLayout(nodes, viewport);
+
+  return { nodes, edges };
+};
+
+/**
+ * 将节点均匀排布在圆周上并取消固定，避免节点重合导致斥力失效
+ */
+export const resetGraphLayout = (nodes: RelationshipGraphNode[], viewport: GraphViewport) => {
+  const radius = Math.min(viewport.width, viewport.height) / 2 - PADDING * 2;
+  nodes.forEach((node, index) => {
+    const angle = (index / nodes.length) * Math.PI * 2;
+    node.x = viewport.width / 2 + radius * Math.cos(angle);
+    node.y = viewport.height / 2 + radius * Math.sin(angle);
+    node.vx = 0;
+    node.vy = 0;
+    node.pinned = false;
+  });
+};
+
+/**
+ * 推进一步布局：节点间互斥、关系边牵引、整体向中心收拢；alpha 越小移动越少
+ */
+export const tickForceLayout = (
+  nodes: RelationshipGraphNode[],
+  edges: RelationshipGraphEdge[],
+  alpha: number,
+  viewport: GraphViewport,
+) => {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      const a = nodes[i];
+      const b = nodes[j];
+      const dx = b.x - a.x || Math.random() - 0.5;
+      const dy = b.y - a.y || Math.random() - 0.5;
+      const distSq = Math.max(dx * dx + dy * dy, 1);
+      const force = (REPULSION * alpha) / distSq;
+      const dist = Math.sqrt(distSq);
+      a.vx -= (dx / dist) * force;
+      a.vy -= (dy / dist) * force;
+      b.vx += (dx / dist) * force;
+      b.vy += (dy / dist) * force;
+    }
+  }
+
+  edges.forEach((edge) => {
+    const a = byId.get(edge.source);
+    const b = byId.get(edge.target);
+    if (!a || !b) return;
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const dist = Math.sqrt(dx * dx + dy * dy) || 1;
+    const force = (dist - LINK_DISTANCE) * SPRING * alpha;
+    a.vx += (dx / dist) * force;
+    a.vy += (dy / dist) * force;
+    b.vx -= (dx / dist) * force;
+    b.vy -= (dy / dist) * force;
+  });
+
+  nodes.forEach((node) => {
+    if (node.pinned) {
+      node.vx = 0;
+      node.vy = 0;
+      return;
+    }
+    node.vx = (node.vx + (viewport.width / 2 - node.x) * CENTER_PULL * alpha) * VELOCITY_DECAY;
+    node.vy = (node.vy + (viewport.height / 2 - node.y) * CENTER_PULL * alpha) * VELOCITY_DECAY;
+    node.x = clamp(node.x + node.vx, PADDING, viewport.width - PADDING);
+    node.y = clamp(node.y + node.vy, PADDING, viewport.height - PADDING);
+  });
+};
+
+export const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * 关系类型按出现次数降序排列，用于筛选项与配色
+ */
+export const collectRelTypes = (edges: RelationshipGraphEdge[]) => {
+  const counts = new Map<string, number>();
+  edges.forEach((edge) => counts.set(edge.relType, (counts.get(edge.relType) ?? 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([relType, count]) => ({ relType, count }));
+};
@@ -0,0 +1,104 @@
+/**
+ * 人物关系时间线：按章节或日期对关系事件分组，回放到任意一步得到当时的关系状态
+ */
+import { formatChapterTitle, getChapterNumbers } from "@/lib/chapter-title";
+import { toDateKey } from "@/lib/daily-series";
+import { toPairKey } from "@/lib/relationship-graph";
+import { Chapter } from "@/types/chapter";
+import { CharacterRelationshipCurrent, CharacterRelationshipHistoryEvent } from "@/types/work";
+
+export type RelationshipTimelineMode = "chapter" | "date";
+
+export const RELATIONSHIP_TIMELINE_MODE_LABEL: Record<RelationshipTimelineMode, string> = {
+  chapter: "按章节",
+  date: "按日期",
+};
+
+export interface RelationshipTimelineStep {
+  // 章节 ID 或 YYYY-MM-DD
+  key: string;
+  label: string;
+  events: CharacterRelationshipHistoryEvent[];
+}
+
+// 事件发生时间，未填写 occurredAt 时退回创建时间
+export const getEventTime = (event: CharacterRelationshipHistoryEvent) => {
+  const time = new Date(event.occurredAt || event.createdAt || 0).getTime();
+  return Number.isNaN(time) ? 0 : time;
+};
+
+export const getEventPairKey = (event: CharacterRelationshipHistoryEvent) =>
+  event.pairKey || toPairKey(event.characterAId, event.characterBId);
+
+const byTime = (a: CharacterRelationshipHistoryEvent, b: CharacterRelationshipHistoryEvent) =>
+  getEventTime(a) - getEventTime(b);
+
+/**
+ * 章节模式按章节顺序分组，未关联章节（或章节已删除）的事件计入 unplaced；日期模式按发生日期分组
+ */
+export const buildTimelineSteps = (
+  events: CharacterRelationshipHistoryEvent[],
+  chapters: Chapter[],
+  mode: RelationshipTimelineMode,
+) => {
+  const groups = new Map<string, CharacterRelationshipHistoryEvent[]>();
+  let unplaced = 0;
+  const chapterById = new Map(chapters.map((chapter) => [chapter.chapterId, chapter]));
+  const chapterNumbers = getChapterNumbers(chapters);
+
+  [...events].sort(byTime).forEach((event) => {
+    const key =
+      mode === "chapter"
+        ? event.chapterId && chapterById.has(event.chapterId)
+          ? event.chapterId
+          : null
+        : toDateKey(new Date(getEventTime(event)));
+    if (!key) {
+      unplaced += 1;
+      return;
+    }
+    groups.set(key, [...(groups.get(key) ?? []), event]);
+  });
+
+  const steps: RelationshipTimelineStep[] =
+    mode === "chapter"
+      ? chapters
+          .filter((chapter) => groups.has(chapter.chapterId))
+          .map((chapter) => ({
+            key: chapter.chapterId,
+            label: formatChapterTitle(chapterNumbers.get(chapter.chapterId), chapter.title),
+            events: groups.get(chapter.chapterId) ?? [],
+          }))
+      : [...groups.entries()]
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([key, items]) => ({ key, label: key, events: items }));
+
+  return { steps, unplaced };
+};
+
+/**
+ * 依次应用第 0 步到第 index 步的事件；newRelType 为空视为关系解除
+ */
+export const replayRelationships = (steps: RelationshipTimelineStep[], index: number) => {
+  const state = new Map<string, CharacterRelationshipCurrent>();
+  steps.slice(0, index + 1).forEach((step) =>
+    step.events.forEach((event) => {
+      const pairKey = getEventPairKey(event);
+      const relType = event.newRelType?.trim();
+      if (!relType) {
+        state.delete(pairKey);
+        return;
+      }
+      state.set(pairKey, {
+        pairKey,
+        characterAId: event.characterAId,
+        characterBId: event.characterBId,
+        relType,
+        sinceTs: event.occurredAt,
+        lastEventId: event.eventId,
+        novelId: event.novelId,
+      });
+    }),
+  );
+  return [...state.values()];
+};
@@ -0,0 +1,73 @@
+/**
+ * 关系类型目录：按名称或别名匹配目录中的类型，并统计尚未纳入目录的自由文本写法
+ */
+import { CharacterRelationshipHistoryEvent, RelationshipType } from "@/types/work";
+
+// 新建关系类型时可选的颜色
+export const RELATIONSHIP_TYPE_COLORS = [
+  "#2563eb",
+  "#16a34a",
+  "#dc2626",
+  "#d97706",
+  "#9333ea",
+  "#0891b2",
+  "#db2777",
+  "#4b5563",
+];
+
+export interface UncatalogedRelType {
+  value: string;
+  // 在事件中出现的次数（原关系与新关系都计入）
+  count: number;
+  // 名称相近的目录类型，作为合并目标的建议
+  suggestion?: RelationshipType;
+}
+
+// 比较时忽略首尾空白与大小写
+export const normalizeRelType = (value: string) => value.trim().toLowerCase();
+
+export const findRelationshipType = (types: RelationshipType[], value?: string) => {
+  const key = value ? normalizeRelType(value) : "";
+  if (!key) return undefined;
+  return (
+    types.find((type) => normalizeRelType(type.label) === key) ??
+    types.find((type) => type.aliases?.some((alias) => normalizeRelType(alias) === key))
+  );
+};
+
+export const getInverseType = (types: RelationshipType[], type: RelationshipType) =>
+  type.directed ? types.find((item) => item.relTypeId === type.inverseTypeId) : type;
+
+/**
+ * 同名类型以作品内定义为准，作品类型排在全局类型之前
+ */
+export const mergeRelationshipTypeScopes = (types: RelationshipType[]) => {
+  const byLabel = new Map<string, RelationshipType>();
+  [...types]
+    .sort((a, b) => Number(Boolean(b.novelId)) - Number(Boolean(a.novelId)))
+    .forEach((type) => {
+      const key = normalizeRelType(type.label);
+      if (!byLabel.has(key)) byLabel.set(key, type);
+    });
+  return [...byLabel.values()];
+};
+
+/**
+ * 统计事件中与目录类型名称不完全一致的写法，别名匹配到的类型作为合并建议
+ */
+export const collectUncatalogedRelTypes = (
+  types: RelationshipType[],
+  events: CharacterRelationshipHistoryEvent[],
+): UncatalogedRelType[] => {
+  const labels = new Set(types.map((type) => type.label));
+  const counts = new Map<string, number>();
+  events.forEach((event) => {
+    [event.prevRelType, event.newRelType].forEach((raw) => {
+      const value = raw?.trim();
+      if (value && !labels.has(value)) counts.set(value, (counts.get(value) ?? 0) + 1);
+    });
+  });
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count, suggestion: findRelationshipType(types, value) }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value, "zh-Hans-CN"));
+};
@@ -0,0 +1,278 @@
+/**
+ * 文本差异工具
+ * 基于最长公共子序列（LCS）的按行对比，用于版本历史、局部重写等场景
+ */
+
+export type DiffLineType = "equal" | "added" | "removed";
+
+export interface DiffLine {
+  type: DiffLineType;
+  value: string;
+  // 行号从 1 开始；新增行没有旧行号，删除行没有新行号
+  oldLineNumber?: number;
+  newLineNumber?: number;
+}
+
+export interface SideBySideRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+export const splitLines = (text: string) => (text ? text.replace(/\r\n/g, "\n").split("\n") : []);
+
+type DiffOp = Pick<DiffLine, "type" | "value">;
+
+// LCS 矩阵的单元数上限（约 16MB），超出时先以两侧各只出现一次的相同行为锚点切分
+const MAX_LCS_CELLS = 4_000_000;
+
+const lcsDiff = (a: string[], b: string[], ops: DiffOp[]) => {
+  const cols = b.length + 1;
+  const table = new Uint32Array((a.length + 1) * cols);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * cols + j] =
+        a[i] === b[j]
+          ? table[(i + 1) * cols + j + 1] + 1
+          : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: "equal", value: a[i] });
+      i++;
+      j++;
+    } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+      ops.push({ type: "removed", value: a[i++] });
+    } else {
+      ops.push({ type: "added", value: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ type: "removed", value: a[i++] });
+  while (j < b.length) ops.push({ type: "added", value: b[j++] });
+};
+
+/**
+ * 两侧都只出现一次的相同行作为锚点，取其中在两侧顺序一致的最长序列（patience diff）
+ */
+const findAnchors = (a: string[], b: string[]) => {
+  const counts = new Map<string, { a: number; b: number; indexA: number; indexB: number }>();
+  a.forEach((line, index) => {
+    const entry = counts.get(line) ?? { a: 0, b: 0, indexA: index, indexB: -1 };
+    entry.a++;
+    counts.set(line, entry);
+  });
+  b.forEach((line, index) => {
+    const entry = counts.get(line);
+    if (!entry) return;
+    entry.b++;
+    entry.indexB = index;
+  });
+  const candidates = [...counts.values()]
+    .filter((entry) => entry.a === 1 && entry.b === 1)
+    .sort((x, y) => x.indexA - y.indexA);
+
+  // 按新文本中的位置求最长递增子序列
+  const tails: number[] = [];
+  const prev = new Array<number>(candidates.length).fill(-1);
+  candidates.forEach((entry, index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (candidates[tails[mid]].indexB < entry.indexB) low = mid + 1;
+      else high = mid;
+    }
+    if (low > 0) prev[index] = tails[low - 1];
+    tails[low] = index;
+  });
+
+  const anchors: [number, number][] = [];
+  for (let index = tails[tails.length - 1] ?? -1; index >= 0; index = prev[index]) {
+    anchors.unshift([candidates[index].indexA, candidates[index].indexB]);
+  }
+  return anchors;
+};
+
+const diffRange = (a: string[], b: string[], ops: DiffOp[]) => {
+  // 先剥离公共前后缀，缩小 LCS 矩阵规模
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  a.slice(0, prefix).forEach((value) => ops.push({ type: "equal", value }));
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  if ((midA.length + 1) * (midB.length + 1) <= MAX_LCS_CELLS) {
+    lcsDiff(midA, midB, ops);
+  } else {
+    const anchors = findAnchors(midA, midB);
+    let i = 0;
+    let j = 0;
+    anchors.forEach(([anchorA, anchorB]) => {
+      diffRange(midA.slice(i, anchorA), midB.slice(j, anchorB), ops);
+      ops.push({ type: "equal", value: midA[anchorA] });
+      i = anchorA + 1;
+      j = anchorB + 1;
+    });
+    // 没有锚点时剩余部分整体视为删除后新增
+    const restA = midA.slice(i);
+    const restB = midB.slice(j);
+    if (anchors.length) {
+      diffRange(restA, restB, ops);
+    } else {
+      restA.forEach((value) => ops.push({ type: "removed", value }));
+      restB.forEach((value) => ops.push({ type: "added", value }));
+    }
+  }
+
+  a.slice(a.length - suffix).forEach((value) => ops.push({ type: "equal", value }));
+};
+
+/**
+ * 按行对比两段文本，返回逐行差异；文本过长时以唯一行为锚点分段对比，结果可能不是最短差异
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const ops: DiffOp[] = [];
+  diffRange(splitLines(oldText), splitLines(newText), ops);
+
+  let oldNo = 1;
+  let newNo = 1;
+  return ops.map(({ type, value }) => {
+    if (type === "added") return { type, value, newLineNumber: newNo++ };
+    if (type === "removed") return { type, value, oldLineNumber: oldNo++ };
+    return { type, value, oldLineNumber: oldNo++, newLineNumber: newNo++ };
+  });
+}
+
+/**
+ * 统计新增/删除行数
+ */
+export function getDiffStats(lines: DiffLine[]): DiffStats {
+  return lines.reduce<DiffStats>(
+    (acc, line) => {
+      if (line.type === "added") acc.added++;
+      if (line.type === "removed") acc.removed++;
+      return acc;
+    },
+    { added: 0, removed: 0 },
+  );
+}
+
+/**
+ * 将逐行差异转换为左右对照的行，连续的删除/新增块两两配对
+ */
+export function toSideBySideRows(lines: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    const count = Math.max(removed.length, added.length);
+    for (let index = 0; index < count; index++) {
+      rows.push({ left: removed[index], right: added[index] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  lines.forEach((line) => {
+    if (line.type === "removed") {
+      removed.push(line);
+    } else if (line.type === "added") {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  });
+  flush();
+
+  return rows;
+}
+
+export interface DiffHunk {
+  id: number;
+  // 变更块前后的若干未改动行，便于逐块审阅
+  before: DiffLine[];
+  removed: DiffLine[];
+  added: DiffLine[];
+  after: DiffLine[];
+}
+
+/**
+ * 将逐行差异按连续的变更块分组，每块附带上下文行
+ */
+export function getDiffHunks(lines: DiffLine[], contextSize = 2): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+
+  lines.forEach((line, index) => {
+    if (line.type === "equal") {
+      current = null;
+      return;
+    }
+    if (!current) {
+      const before: DiffLine[] = [];
+      for (let k = index - 1; k >= 0 && lines[k].type === "equal" && before.length < contextSize; k--) {
+        before.unshift(lines[k]);
+      }
+      current = { id: hunks.length, before, removed: [], added: [], after: [] };
+      hunks.push(current);
+    }
+    if (line.type === "removed") {
+      current.removed.push(line);
+    } else {
+      current.added.push(line);
+    }
+  });
+
+  // 补充每个变更块之后的上下文
+  let hunkIndex = -1;
+  lines.forEach((line, index) => {
+    if (line.type !== "equal") {
+      if (index === 0 || lines[index - 1].type === "equal") hunkIndex++;
+      return;
+    }
+    const hunk = hunks[hunkIndex];
+    if (hunk && hunk.after.length < contextSize) hunk.after.push(line);
+  });
+
+  return hunks;
+}
+
+/**
+ * 按接受的变更块合并文本：接受的块采用新内容，其余保留旧内容
+ */
+export function mergeDiffHunks(lines: DiffLine[], acceptedIds: ReadonlySet<number>): string {
+  const result: string[] = [];
+  let hunkIndex = -1;
+
+  lines.forEach((line, index) => {
+    if (line.type === "equal") {
+      result.push(line.value);
+      return;
+    }
+    if (index === 0 || lines[index - 1].type === "equal") hunkIndex++;
+    const accepted = acceptedIds.has(hunkIndex);
+    if ((line.type === "added") === accepted) result.push(line.value);
+  });
+
+  return result.join("\n");
+}
@@ -0,0 +1,177 @@
+/**
+ * 三方合并工具
+ * 以双方共同的基准版本为参照，合并“我的修改”与“服务器修改”，用于保存冲突（409）时的处理
+ */
+
+import { diffLines, splitLines } from "./text-diff";
+
+export type MergeSide = "mine" | "theirs";
+
+// 冲突块的取舍：采用我的、采用服务器的，或两者都保留（我的在前）
+export type MergeResolution = MergeSide | "both";
+
+export type MergeChunk =
+  | { type: "stable"; lines: string[] }
+  | { type: "conflict"; id: number; base: string[]; mine: string[]; theirs: string[] };
+
+export interface ThreeWayMergeResult {
+  chunks: MergeChunk[];
+  conflictCount: number;
+}
+
+// 相对基准的一处修改：将基准的 [start, end) 行替换为 lines
+interface LineEdit {
+  side: MergeSide;
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+const toLineEdits = (base: string, other: string, side: MergeSide): LineEdit[] => {
+  const edits: LineEdit[] = [];
+  let current: LineEdit | null = null;
+  let baseIndex = 0;
+
+  diffLines(base, other).forEach((line) => {
+    if (line.type === "equal") {
+      current = null;
+      baseIndex++;
+      return;
+    }
+    if (!current) {
+      current = { side, start: baseIndex, end: baseIndex, lines: [] };
+      edits.push(current);
+    }
+    if (line.type === "removed") {
+      current.end++;
+      baseIndex++;
+    } else {
+      current.lines.push(line.value);
+    }
+  });
+
+  return edits;
+};
+
+// 在基准的 [start, end) 区间上应用某一方的修改
+const applyEdits = (baseLines: string[], start: number, end: number, edits: LineEdit[]) => {
+  const result: string[] = [];
+  let position = start;
+  edits.forEach((edit) => {
+    result.push(...baseLines.slice(position, edit.start), ...edit.lines);
+    position = edit.end;
+  });
+  result.push(...baseLines.slice(position, end));
+  return result;
+};
+
+const isSameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, i) => line === b[i]);
+
+/**
+ * 按行三方合并：只有一方修改的区域自动采用该方内容，双方修改重叠（或相邻）且结果不同时记为冲突
+ */
+export function mergeThreeWay(base: string, mine: string, theirs: string): ThreeWayMergeResult {
+  const baseLines = splitLines(base);
+  const edits = [...toLineEdits(base, mine, "mine"), ...toLineEdits(base, theirs, "theirs")].sort(
+    (a, b) => a.start - b.start || a.end - b.end,
+  );
+
+  const chunks: MergeChunk[] = [];
+  let conflictCount = 0;
+  let position = 0;
+  const pushStable = (lines: string[]) => {
+    if (!lines.length) return;
+    const last = chunks[chunks.length - 1];
+    if (last?.type === "stable") {
+      last.lines.push(...lines);
+    } else {
+      chunks.push({ type: "stable", lines: [...lines] });
+    }
+  };
+
+  let index = 0;
+  while (index < edits.length) {
+    // 收集相互重叠的修改，组成一个合并区域
+    const cluster = [edits[index]];
+    const start = edits[index].start;
+    let end = edits[index].end;
+    index++;
+    while (index < edits.length && edits[index].start <= end) {
+      end = Math.max(end, edits[index].end);
+      cluster.push(edits[index]);
+      index++;
+    }
+
+    pushStable(baseLines.slice(position, start));
+    position = end;
+
+    const mineEdits = cluster.filter((edit) => edit.side === "mine");
+    const theirsEdits = cluster.filter((edit) => edit.side === "theirs");
+    const mineLines = applyEdits(baseLines, start, end, mineEdits);
+    const theirsLines = applyEdits(baseLines, start, end, theirsEdits);
+
+    if (!theirsEdits.length || isSameLines(mineLines, theirsLines)) {
+      pushStable(mineLines);
+    } else if (!mineEdits.length) {
+      pushStable(theirsLines);
+    } else {
+      chunks.push({
+        type: "conflict",
+        id: conflictCount++,
+        base: baseLines.slice(start, end),
+        mine: mineLines,
+        theirs: theirsLines,
+      });
+    }
+  }
+  pushStable(baseLines.slice(position));
+
+  return { chunks, conflictCount };
+}
+
+/**
+ * 按冲突块的取舍生成合并结果，未指定的冲突块默认采用我的修改
+ */
+export function resolveThreeWayMerge(
+  chunks: MergeChunk[],
+  resolutions: Readonly<Record<number, MergeResolution>>,
+): string {
+  const lines = chunks.flatMap((chunk) => {
+    if (chunk.type === "stable") return chunk.lines;
+    const resolution = resolutions[chunk.id] ?? "mine";
+    if (resolution === "both") return [...chunk.mine, ...chunk.theirs];
+    return resolution === "mine" ? chunk.mine : chunk.theirs;
+  });
+  return lines.join("\n");
+}
+
+export interface FieldMergeResult<T> {
+  // 已自动合并的字段值；冲突字段暂取我的值
+  merged: T;
+  conflicts: (keyof T)[];
+}
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * 按字段三方合并表单数据：只有一方修改的字段采用该方的值，双方改成不同值的字段记为冲突
+ */
+export function mergeThreeWayFields<T extends Record<string, unknown>>(
+  base: T,
+  mine: T,
+  theirs: T,
+  keys: (keyof T)[],
+): FieldMergeResult<T> {
+  const merged = { ...mine };
+  const conflicts: (keyof T)[] = [];
+
+  keys.forEach((key) => {
+    if (isSameValue(mine[key], base[key])) {
+      merged[key] = theirs[key];
+    } else if (!isSameValue(theirs[key], base[key]) && !isSameValue(mine[key], theirs[key])) {
+      conflicts.push(key);
+    }
+  });
+
+  return { merged, conflicts };
+}
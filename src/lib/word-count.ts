@@ -0,0 +1,20 @@
+/**
+ * 字数统计
+ * 与常见中文写作平台一致：每个汉字（含全角标点）计 1 字，连续的英文单词或数字计 1 字，空白不计
+ */
+
+const CJK_PATTERN = /[\u3000-\u303f\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff00-\uffef]/g;
+const WORD_PATTERN = /[A-Za-z0-9]+(?:['’-][A-Za-z0-9]+)*/g;
+
+export function countWords(text?: string | null): number {
+  if (!text) return 0;
+  const cjk = text.match(CJK_PATTERN)?.length ?? 0;
+  const words = text.replace(CJK_PATTERN, " ").match(WORD_PATTERN)?.length ?? 0;
+  return cjk + words;
+}
+
+// 万字以上按“x.x 万字”展示
+export function formatWordCount(count: number): string {
+  if (count >= 10000) return `${(count / 10000).toFixed(1)} 万字`;
+  return `${count.toLocaleString("zh-CN")} 字`;
+}
@@ -0,0 +1,87 @@
+/**
+ * 作品生命周期流转规则：每个操作限定起始状态与可执行的角色，后端按同一规则校验
+ */
+import { Role } from "@/types/auth";
+import { WorkStatus, WorkTransitionAction } from "@/types/work";
+
+export interface WorkTransition {
+  action: WorkTransitionAction;
+  label: string;
+  from: WorkStatus;
+  to: WorkStatus;
+  roles: Role[];
+  // 驳回等操作必须填写意见
+  requiresComment?: boolean;
+  // 破坏性操作使用醒目的按钮样式
+  destructive?: boolean;
+}
+
+const ALL_ROLES = [Role.USER, Role.ADMIN, Role.SUPER_ADMIN];
+const REVIEWER_ROLES = [Role.ADMIN, Role.SUPER_ADMIN];
+
+export const WORK_TRANSITIONS: WorkTransition[] = [
+  {
+    action: WorkTransitionAction.SUBMIT,
+    label: "提交审核",
+    from: WorkStatus.DRAFT,
+    to: WorkStatus.IN_REVIEW,
+    roles: ALL_ROLES,
+  },
+  {
+    action: WorkTransitionAction.WITHDRAW,
+    label: "撤回审核",
+    from: WorkStatus.IN_REVIEW,
+    to: WorkStatus.DRAFT,
+    roles: ALL_ROLES,
+  },
+  {
+    action: WorkTransitionAction.APPROVE,
+    label: "审核通过",
+    from: WorkStatus.IN_REVIEW,
+    to: WorkStatus.APPROVED,
+    roles: REVIEWER_ROLES,
+  },
+  {
+    action: WorkTransitionAction.REJECT,
+    label: "驳回",
+    from: WorkStatus.IN_REVIEW,
+    to: WorkStatus.DRAFT,
+    roles: REVIEWER_ROLES,
+    requiresComment: true,
+    destructive: true,
+  },
+  {
+    action: WorkTransitionAction.PUBLISH,
+    label: "发布",
+    from: WorkStatus.APPROVED,
+    to: WorkStatus.PUBLISHED,
+    roles: REVIEWER_ROLES,
+  },
+  {
+    action: WorkTransitionAction.ARCHIVE,
+    label: "归档",
+    from: WorkStatus.PUBLISHED,
+    to: WorkStatus.ARCHIVED,
+    roles: REVIEWER_ROLES,
+    destructive: true,
+  },
+  {
+    action: WorkTransitionAction.RESTORE,
+    label: "恢复为草稿",
+    from: WorkStatus.ARCHIVED,
+    to: WorkStatus.DRAFT,
+    roles: [Role.SUPER_ADMIN],
+  },
+];
+
+export const WORK_TRANSITION_LABEL = Object.fromEntries(
+  WORK_TRANSITIONS.map((transition) => [transition.action, transition.label]),
+) as Record<WorkTransitionAction, string>;
+
+/**
+ * 当前状态下该角色可执行的操作
+ */
+export const getAvailableTransitions = (status: WorkStatus, role?: string | null) =>
+  WORK_TRANSITIONS.filter(
+    (transition) => transition.from === status && !!role && (transition.roles as string[]).includes(role),
+  );
@@ -0,0 +1,124 @@
+/**
+ * 写作目标进度：按作品的每日字数、目标总字数与章节截止日期计算进度、连续天数与预计完成日期
+ */
+import { GOAL_HISTORY_DAYS, NovelGoalSnapshot } from "@/types/stats";
+import { WritingGoals } from "@/types/work";
+
+import { addDays, diffDays, fillDailySeries, toDateKey } from "./daily-series";
+
+export type GoalAlertLevel = "warning" | "danger";
+
+export interface GoalAlert {
+  level: GoalAlertLevel;
+  message: string;
+}
+
+export interface GoalProgress {
+  today: string;
+  todayWords: number;
+  // 连续达成每日目标的天数（未设每日目标时为连续有写作的天数），今日未达成不中断
+  streak: number;
+  // 连续天数覆盖了全部回看窗口，实际可能更长
+  streakCapped: boolean;
+  // 回看窗口内的日均新增字数
+  averageDailyWords: number;
+  daily?: { target: number; percent: number; met: boolean };
+  total?: { target: number; current: number; percent: number; projectedDate: string | null };
+  chapters?: {
+    target: number;
+    completed: number;
+    percent: number;
+    deadline: string;
+    daysLeft: number;
+    projectedDate: string | null;
+  };
+  alerts: GoalAlert[];
+}
+
+const toPercent = (value: number, target: number) => (target > 0 ? Math.min(100, (value / target) * 100) : 0);
+
+// 按当前速度推算剩余量完成的日期；速度为 0 时无法估算
+const projectDate = (today: string, remaining: number, perDay: number) => {
+  if (remaining <= 0) return today;
+  if (perDay <= 0) return null;
+  return addDays(today, Math.ceil(remaining / perDay));
+};
+
+export function computeGoalProgress(snapshot: NovelGoalSnapshot): GoalProgress {
+  const { goals } = snapshot;
+  const today = snapshot.today?.slice(0, 10) || toDateKey(new Date());
+  const series = fillDailySeries(snapshot.dailyWords, GOAL_HISTORY_DAYS, today, (date) => ({ date, words: 0 }));
+  const todayWords = Math.max(series[series.length - 1]?.words ?? 0, 0);
+  const averageDailyWords = Math.max(series.reduce((sum, point) => sum + point.words, 0) / series.length, 0);
+  const alerts: GoalAlert[] = [];
+
+  const dailyTarget = goals.dailyWords ?? 0;
+  const isMet = (words: number) => (dailyTarget > 0 ? words >= dailyTarget : words > 0);
+  // 今日尚未达成时从昨天开始往前数
+  const history = isMet(todayWords) ? series : series.slice(0, -1);
+  const brokenAt = [...history].reverse().findIndex((point) => !isMet(point.words));
+  const streak = brokenAt === -1 ? history.length : brokenAt;
+
+  const progress: GoalProgress = {
+    today,
+    todayWords,
+    streak,
+    streakCapped: brokenAt === -1 && history.length === GOAL_HISTORY_DAYS,
+    averageDailyWords,
+    alerts,
+  };
+
+  if (dailyTarget > 0) {
+    progress.daily = { target: dailyTarget, percent: toPercent(todayWords, dailyTarget), met: isMet(todayWords) };
+    const yesterday = series[series.length - 2];
+    if (yesterday && !isMet(yesterday.words)) {
+      alerts.push({
+        level: "warning",
+        message: `昨日新增 ${Math.max(yesterday.words, 0)} 字，未达到每日 ${dailyTarget} 字的目标`,
+      });
+    }
+  }
+
+  if (goals.targetWords) {
+    const remaining = goals.targetWords - snapshot.totalWords;
+    progress.total = {
+      target: goals.targetWords,
+      current: snapshot.totalWords,
+      percent: toPercent(snapshot.totalWords, goals.targetWords),
+      projectedDate: projectDate(today, remaining, averageDailyWords),
+    };
+  }
+
+  if (goals.chapterTarget && goals.chapterDeadline) {
+    const deadline = goals.chapterDeadline.slice(0, 10);
+    const remaining = goals.chapterTarget - snapshot.completedChapters;
+    const daysLeft = diffDays(today, deadline);
+    const projectedDate = projectDate(today, remaining, snapshot.completedChaptersInRange / GOAL_HISTORY_DAYS);
+    progress.chapters = {
+      target: goals.chapterTarget,
+      completed: snapshot.completedChapters,
+      percent: toPercent(snapshot.completedChapters, goals.chapterTarget),
+      deadline,
+      daysLeft,
+      projectedDate,
+    };
+    if (remaining > 0 && daysLeft < 0) {
+      alerts.push({
+        level: "danger",
+        message: `章节目标已于 ${deadline} 截止，仍差 ${remaining} 章`,
+      });
+    } else if (remaining > 0 && (!projectedDate || projectedDate > deadline)) {
+      alerts.push({
+        level: "warning",
+        message: projectedDate
+          ? `按当前进度预计 ${projectedDate} 完成 ${goals.chapterTarget} 章，晚于截止日期 ${deadline}`
+          : `近 ${GOAL_HISTORY_DAYS} 天没有完成章节，${deadline} 前还需完成 ${remaining} 章`,
+      });
+    }
+  }
+
+  return progress;
+}
+
+export const hasWritingGoals = (goals?: WritingGoals | null) =>
+  Boolean(goals && (goals.dailyWords || goals.targetWords || (goals.chapterTarget && goals.chapterDeadline)));
@@ -0,0 +1,133 @@
+/**
+ * Script: export-novel-fixture.ts
+ *
+ * Builds every export format (EPUB, DOCX, Markdown, TXT) from the fixture manuscript in
+ * ./fixtures/novel-export.json and runs structural checks on the results, without any network access.
+ * Because the fixture pins `exportedAt`, repeated runs produce byte-identical packages.
+ *
+ * Usage:
+ *     npm run export:fixture              # writes into the system temp directory
+ *     npm run export:fixture -- ./out     # writes into ./out
+ *
+ * The script exits with code 1 when any check fails.
+ */
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import JSZip from "jszip";
+
+import { EXPORT_FORMAT_OPTIONS, ExportManuscript, exportManuscript } from "../lib/novel-export";
+
+import fixture from "./fixtures/novel-export.json";
+
+const manuscript = fixture as ExportManuscript;
+const outputDir = path.resolve(process.argv[2] ?? path.join(os.tmpdir(), "gen-novel-export-fixture"));
+const failures: string[] = [];
+
+const check = (condition: boolean, message: string) => {
+  if (!condition) failures.push(message);
+};
+
+// 粗略校验 XML 标签是否成对闭合
+const checkBalancedXml = (label: string, xml: string) => {
+  const stack: string[] = [];
+  const tagRe = /<(\/?)([\w:.-]+)[^>]*?(\/?)>/g;
+  const body = xml.replace(/<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<!--[\s\S]*?-->/g, "");
+  let match: RegExpExecArray | null;
+  while ((match = tagRe.exec(body))) {
+    const [, closing, name, selfClosing] = match;
+    if (selfClosing) continue;
+    if (!closing) {
+      stack.push(name);
+    } else if (stack.pop() !== name) {
+      failures.push(`${label}: unexpected closing tag </${name}>`);
+      return;
+    }
+  }
+  check(stack.length === 0, `${label}: unclosed tags ${stack.join(", ")}`);
+};
+
+const readZip = async (data: Uint8Array) => {
+  const zip = await JSZip.loadAsync(data);
+  const read = async (name: string) => (await zip.file(name)?.async("string")) ?? "";
+  return { zip, read };
+};
+
+async function checkEpub(data: Uint8Array) {
+  // mimetype 必须是第一个条目且不压缩：本地文件头偏移 8 为压缩方式，30 起为文件名
+  const firstName = new TextDecoder().decode(data.slice(30, 38));
+  check(firstName === "mimetype", "epub: mimetype must be the first entry");
+  check(data[8] === 0 && data[9] === 0, "epub: mimetype must be stored without compression");
+
+  const { zip, read } = await readZip(data);
+  check((await read("mimetype")) === "application/epub+zip", "epub: invalid mimetype content");
+  check((await read("META-INF/container.xml")).includes("OEBPS/content.opf"), "epub: container.xml missing rootfile");
+
+  const opf = await read("OEBPS/content.opf");
+  const spineCount = (opf.match(/<itemref /g) ?? []).length;
+  const expected = 1 + manuscript.chapters.length + manuscript.appendices.length;
+  check(spineCount === expected, `epub: expected ${expected} spine items, got ${spineCount}`);
+  check(opf.includes(`<dc:title>${manuscript.title}</dc:title>`), "epub: missing dc:title");
+
+  const nav = await read("OEBPS/nav.xhtml");
+  manuscript.chapters.forEach((chapter) => check(nav.includes(chapter.title), `epub: nav missing "${chapter.title}"`));
+
+  for (const name of Object.keys(zip.files).filter((item) => /\.(xhtml|opf|ncx|xml)$/.test(item))) {
+    checkBalancedXml(`epub/${name}`, await read(name));
+  }
+}
+
+async function checkDocx(data: Uint8Array) {
+  const { read } = await readZip(data);
+  const required = ["[Content_Types].xml", "_rels/.rels", "word/document.xml", "word/styles.xml", "docProps/core.xml"];
+  for (const name of required) {
+    const xml = await read(name);
+    check(Boolean(xml), `docx: missing ${name}`);
+    checkBalancedXml(`docx/${name}`, xml);
+  }
+
+  const document = await read("word/document.xml");
+  const headings = (document.match(/<w:pStyle w:val="Heading1"\/>/g) ?? []).length;
+  const expected = manuscript.chapters.length + manuscript.appendices.length;
+  check(headings === expected, `docx: expected ${expected} Heading1 paragraphs, got ${headings}`);
+  check(document.includes("&amp; waited &lt;quietly&gt;"), "docx: special characters not escaped");
+}
+
+function checkText(format: string, text: string) {
+  manuscript.chapters.forEach((chapter) =>
+    check(text.includes(chapter.title), `${format}: missing "${chapter.title}"`),
+  );
+  manuscript.appendices.forEach((appendix) =>
+    check(text.includes(appendix.title), `${format}: missing appendix "${appendix.title}"`),
+  );
+  check(!text.includes("\r"), `${format}: contains carriage returns`);
+}
+
+async function main() {
+  // eslint-disable-next-line security/detect-non-literal-fs-filename
+  fs.mkdirSync(outputDir, { recursive: true });
+
+  for (const option of EXPORT_FORMAT_OPTIONS) {
+    const file = await exportManuscript(manuscript, option.value);
+    const target = path.join(outputDir, file.fileName);
+    // eslint-disable-next-line security/detect-non-literal-fs-filename
+    fs.writeFileSync(target, file.data);
+    console.log(`📦 ${option.value.padEnd(4)} ${file.data.byteLength.toString().padStart(7)} bytes → ${target}`);
+
+    if (option.value === "epub") await checkEpub(file.data);
+    if (option.value === "docx") await checkDocx(file.data);
+    if (option.value === "md" || option.value === "txt") checkText(option.value, new TextDecoder().decode(file.data));
+  }
+
+  if (failures.length) {
+    failures.forEach((failure) => console.error(`❌ ${failure}`));
+    process.exit(1);
+  }
+  console.log("✅ All export formats passed the fixture checks.");
+}
+
+main().catch((error) => {
+  console.error("❌ Export fixture failed:", error);
+  process.exit(1);
+});
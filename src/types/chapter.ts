@@ -0,0 +1,73 @@
+// 章节与场景相关类型定义
+
+export enum ChapterStatus {
+  PLANNED = "planned",
+  DRAFTING = "drafting",
+  REVISING = "revising",
+  COMPLETED = "completed",
+}
+
+export interface Chapter {
+  chapterId: string;
+  novelId: string;
+  title: string;
+  summary?: string;
+  // 章节正文草稿，可由正文生成任务写入
+  content?: string;
+  // 在作品内的排序，从 1 开始
+  order: number;
+  status: ChapterStatus;
+  // 各场景字数之和
+  wordCount: number;
+  sceneCount?: number;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
+}
+
+export interface Scene {
+  sceneId: string;
+  chapterId: string;
+  novelId: string;
+  title: string;
+  summary?: string;
+  content?: string;
+  // 在章节内的排序，从 1 开始
+  order: number;
+  status: ChapterStatus;
+  wordCount: number;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
+}
+
+export interface CreateChapterRequest {
+  novelId: string;
+  title: string;
+  summary?: string;
+  status: ChapterStatus;
+  // 导入书稿时随章节一并写入正文
+  content?: string;
+}
+
+export type UpdateChapterRequest = Partial<Omit<CreateChapterRequest, "novelId">> & {
+  expectedUpdatedAt?: string;
+};
+
+export interface CreateSceneRequest {
+  novelId: string;
+  chapterId: string;
+  title: string;
+  summary?: string;
+  content?: string;
+  status: ChapterStatus;
+}
+
+export type UpdateSceneRequest = Partial<Omit<CreateSceneRequest, "novelId" | "chapterId">> & {
+  expectedUpdatedAt?: string;
+};
+
+// 拖拽排序后提交完整的 ID 顺序
+export interface ReorderRequest {
+  ids: string[];
+}
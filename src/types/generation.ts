@@ -0,0 +1,32 @@
+// 生成参数相关类型定义
+
+export enum GenerationLength {
+  SHORT = "short",
+  MEDIUM = "medium",
+  LONG = "long",
+}
+
+export enum GenerationPov {
+  FIRST_PERSON = "first-person",
+  THIRD_LIMITED = "third-limited",
+  THIRD_OMNISCIENT = "third-omniscient",
+}
+
+// 生成时是否将作品现有设定作为上下文提供给模型
+export interface GenerationContextOptions {
+  includeWorldbuilding: boolean;
+  includeOutline: boolean;
+  includeCharacters: boolean;
+}
+
+export interface GenerationOptions {
+  length: GenerationLength;
+  tone?: string;
+  genre?: string;
+  pov: GenerationPov;
+  // 目标章节数，主要用于大纲生成
+  chapterCount?: number;
+  // 创造性程度，0 ~ 1，越高越发散
+  creativity: number;
+  context: GenerationContextOptions;
+}
@@ -1,5 +1,7 @@
 // 小说大纲相关类型定义
 
+import { GenerationOptions } from "./generation";
+
 export enum OutlineStatus {
   DRAFT = "draft",
   PUBLISHED = "published",
@@ -9,6 +11,7 @@ export interface OutlineVersion {
   outlineId: string;
   novelId?: string;
   prompt?: string;
+  options?: GenerationOptions;
   content?: string;
   status: OutlineStatus;
   createdAt: string;
@@ -0,0 +1,26 @@
+// 生成提示词模板相关类型定义
+
+import { TaskType } from "./work";
+
+export interface PromptTemplate {
+  templateId: string;
+  name: string;
+  // 适用的生成类型
+  type: TaskType;
+  content: string;
+  // 是否对团队成员共享；未共享的模板仅创建者可见
+  shared: boolean;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
+  createdByName?: string;
+}
+
+export interface CreatePromptTemplateRequest {
+  name: string;
+  type: TaskType;
+  content: string;
+  shared: boolean;
+}
+
+export type UpdatePromptTemplateRequest = Partial<Omit<CreatePromptTemplateRequest, "type">>;
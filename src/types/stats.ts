@@ -0,0 +1,94 @@
+// 写作统计相关类型定义
+
+import { ChapterStatus } from "./chapter";
+import { WritingGoals } from "./work";
+
+// 统计时间范围（天）
+export const STATS_RANGE_DAYS = [7, 30, 90] as const;
+
+export type StatsRangeDays = (typeof STATS_RANGE_DAYS)[number];
+
+export interface StatsQuery {
+  // 为空时统计当前用户的全部作品
+  novelId?: string;
+  days: StatsRangeDays;
+}
+
+export interface DailyWordCount {
+  // YYYY-MM-DD
+  date: string;
+  // 当日新增字数（删减为负数）
+  words: number;
+}
+
+export interface ChapterStatusCount {
+  status: ChapterStatus;
+  count: number;
+}
+
+export interface TaskTypeStats {
+  type: string;
+  total: number;
+  success: number;
+  failed: number;
+}
+
+export interface NovelCharacterCount {
+  novelId: string;
+  novelName: string;
+  count: number;
+}
+
+export interface PublishCadencePoint {
+  // YYYY-MM-DD
+  date: string;
+  // 当日发布的大纲 / 世界观版本数
+  outline: number;
+  worldbuilding: number;
+}
+
+export interface WritingStatsTotals {
+  novels: number;
+  // 当前全部章节字数
+  words: number;
+  // 统计范围内新增字数
+  wordsInRange: number;
+  chapters: number;
+  completedChapters: number;
+  characters: number;
+  // 统计范围内的生成任务数
+  tasks: number;
+}
+
+export interface WritingStats {
+  novelId?: string;
+  from: string;
+  to: string;
+  totals: WritingStatsTotals;
+  // 后端只返回有记录的日期，缺失日期按 0 处理
+  dailyWords: DailyWordCount[];
+  chaptersByStatus: ChapterStatusCount[];
+  tasksByType: TaskTypeStats[];
+  charactersByNovel: NovelCharacterCount[];
+  publishCadence: PublishCadencePoint[];
+}
+
+// 写作目标进度所需的作品数据，仅返回设置了目标的作品
+export interface NovelGoalSnapshot {
+  novelId: string;
+  novelName: string;
+  goals: WritingGoals;
+  // 当前全部章节字数
+  totalWords: number;
+  chapters: number;
+  completedChapters: number;
+  // 近 GOAL_HISTORY_DAYS 天内完成的章节数，用于估算章节进度
+  completedChaptersInRange: number;
+  // 近 GOAL_HISTORY_DAYS 天每日新增字数，缺失日期按 0 处理
+  dailyWords: DailyWordCount[];
+  // 服务器当前日期（YYYY-MM-DD），缺省时使用本地日期
+  today?: string;
+}
+
+// 计算连续天数与预计完成日期时回看的天数
+export const GOAL_HISTORY_DAYS = 60;
@@ -1,20 +1,33 @@
 // 生成任务相关类型定义
 
+import { GenerationOptions } from "./generation";
+
 export const TASK_STATUSES = ["queued", "running", "success", "failed"] as const;
 
 export type TaskStatus = (typeof TASK_STATUSES)[number];
 
+export const isTaskFinished = (status?: TaskStatus) => status === "success" || status === "failed";
+
 export interface TaskItem {
   taskId: string;
   type: string;
   status: TaskStatus;
   prompt?: string;
+  // 提交生成时选择的参数
+  options?: GenerationOptions;
   novelId?: string;
   novelName?: string;
+  // 章节正文任务对应的章节
+  chapterId?: string;
+  chapterTitle?: string;
   createdAt: string;
   updatedAt: string;
   result?: unknown;
   error?: { message: string; stack?: string } | null;
+  // 运行中已生成的部分内容，任务结束后以 result 为准
+  partialOutput?: string;
+  // 进度百分比（0 ~ 100），后端无法估算时为空
+  progress?: number;
 }
 
 export interface TaskListResponse {
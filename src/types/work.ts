@@ -1,17 +1,120 @@
 // 小说作品相关类型定义
 
+// 作品生命周期：草稿 → 审核中 → 已通过 → 已发布 → 已归档，只能通过流程操作流转
 export enum WorkStatus {
   DRAFT = "draft",
+  IN_REVIEW = "in_review",
+  APPROVED = "approved",
   PUBLISHED = "published",
   ARCHIVED = "archived",
 }
 
+export enum WorkTransitionAction {
+  SUBMIT = "submit",
+  WITHDRAW = "withdraw",
+  APPROVE = "approve",
+  REJECT = "reject",
+  PUBLISH = "publish",
+  ARCHIVE = "archive",
+  RESTORE = "restore",
+}
+
+export interface WorkTransitionRequest {
+  action: WorkTransitionAction;
+  // 驳回时必填
+  comment?: string;
+  expectedUpdatedAt?: string;
+}
+
+// 作品状态流转记录
+export interface WorkStatusEvent {
+  eventId: string;
+  novelId: string;
+  action: WorkTransitionAction;
+  fromStatus: WorkStatus;
+  toStatus: WorkStatus;
+  comment?: string;
+  actorId: string;
+  actorName?: string;
+  actorRole?: string;
+  createdAt: string;
+}
+
+export enum TargetAudience {
+  GENERAL = "general",
+  MALE = "male",
+  FEMALE = "female",
+  YOUNG_ADULT = "young_adult",
+  CHILDREN = "children",
+}
+
+// 作品语言（BCP 47），同时用于导出电子书的语言声明
+export enum WorkLanguage {
+  ZH_CN = "zh-CN",
+  ZH_TW = "zh-TW",
+  EN = "en",
+  JA = "ja",
+}
+
+// 常用题材，表单中也允许自定义
+export const WORK_GENRES = [
+  "玄幻",
+  "奇幻",
+  "仙侠",
+  "武侠",
+  "都市",
+  "言情",
+  "历史",
+  "科幻",
+  "悬疑",
+  "游戏",
+  "轻小说",
+  "其他",
+] as const;
+
+// 作品的题材、标签、语言、受众等元数据，创建与编辑时均可选
+export interface WorkMetadata {
+  genre?: string;
+  tags?: string[];
+  language?: WorkLanguage;
+  targetAudience?: TargetAudience;
+  // 故事梗概（完整剧情概述）；description 为对外展示的简介
+  synopsis?: string;
+  // 通过预签名上传到 S3 的封面 key
+  coverImageKey?: string;
+}
+
+// 写作目标，各项均可单独设置
+export interface WritingGoals {
+  // 每日新增字数目标
+  dailyWords?: number;
+  // 目标总字数
+  targetWords?: number;
+  // 在截止日期（YYYY-MM-DD）前完成的章节数
+  chapterTarget?: number;
+  chapterDeadline?: string;
+}
+
+// 派生来源：从哪部作品复制而来
+export interface WorkLineage {
+  sourceNovelId: string;
+  // 派生时源作品的标题，源作品删除后仍可展示
+  sourceTitle?: string;
+  forkedAt: string;
+  forkedBy?: string;
+}
+
 // 作品实体（可按需扩展）
-export interface Work {
+export interface Work extends WorkMetadata {
   novelId: string;
   title: string;
+  // 简介（对外展示的一两句话）
   description?: string;
   status: WorkStatus;
+  // 后端根据 coverImageKey 生成的可访问地址
+  coverImageUrl?: string;
+  goals?: WritingGoals;
+  forkedFrom?: WorkLineage;
   createdAt: string;
   updatedAt: string;
   createdBy?: string;
@@ -84,6 +187,66 @@ export interface CharacterRelationshipHistoryEvent {
   ownerAId?: string;
   ownerBId?: string;
   notes?: string;
+  // 最近一次修正的操作人与时间，历次修正见 corrections
+  updatedAt?: string;
+  updatedBy?: string;
+  updatedByName?: string;
+  corrections?: RelationshipEventCorrection[];
+}
+
+// 关系事件的一次修正，操作人由后端按当前登录用户记录
+export interface RelationshipEventCorrection {
+  note: string;
+  // 被修改的字段及修改前的值
+  previous?: Partial<Record<Exclude<keyof UpdateRelationshipEventDto, "correctionNote">, string>>;
+  correctedAt: string;
+  correctedBy?: string;
+  correctedByName?: string;
+}
+
+// 修正关系事件入参：只提交有变化的字段，correctionNote 为必填的修改说明
+export interface UpdateRelationshipEventDto {
+  prevRelType?: string;
+  newRelType?: string;
+  reason?: string;
+  chapterId?: string;
+  sceneId?: string;
+  occurredAt?: string;
+  notes?: string;
+  correctionNote: string;
+}
+
+// 关系类型目录：novelId 为空表示全局类型，作品内可额外定义专属类型
+export interface RelationshipType {
+  relTypeId: string;
+  label: string;
+  color: string;
+  // 有方向的关系（如师父→徒弟）需要指定反向类型；无方向表示双方对等（如朋友）
+  directed: boolean;
+  inverseTypeId?: string;
+  // 已归并到该类型的旧写法，如“好友”“friend”
+  aliases?: string[];
+  novelId?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// 新建 / 编辑关系类型入参
+export interface RelationshipTypeDto {
+  label: string;
+  color: string;
+  directed: boolean;
+  inverseTypeId?: string;
+  aliases?: string[];
+  novelId?: string;
+}
+
+// 合并关系类型入参：将事件与当前关系中的 sourceValues 统一改写为目标类型，并记为目标类型的别名
+export interface MergeRelationshipTypesDto {
+  targetTypeId: string;
+  sourceValues: string[];
+  // 仅处理该作品内的记录，为空时处理全部作品
+  novelId?: string;
 }
 
 export interface WorkDetailResponse {
@@ -91,13 +254,22 @@ export interface WorkDetailResponse {
 }
 
 // 创建作品入参
-export interface CreateWorkDto {
+export interface CreateWorkDto extends WorkMetadata {
   title: string;
   description?: string;
   status?: WorkStatus;
+  // 导入书稿时上传到 S3 的原始文件 key
+  sourceFileKey?: string;
+}
+
+// 派生作品入参：复制源作品的大纲、世界观（已发布与草稿）、人物与人物关系，新作品从草稿开始
+export interface ForkWorkDto {
+  title: string;
+  description?: string;
 }
 
 export enum TaskType {
   SCENARIO_OUTLINE = "scenario-outline",
   WORLDBUILDING = "worldbuilding",
+  CHAPTER_PROSE = "chapter-prose",
 }
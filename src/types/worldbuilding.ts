@@ -1,5 +1,7 @@
 // 小说世界观相关类型定义
 
+import { GenerationOptions } from "./generation";
+
 export enum WorldbuildingStatus {
   DRAFT = "draft",
   PUBLISHED = "published",
@@ -15,6 +17,8 @@ export interface Worldbuilding {
   createdAt: string;
   updatedAt: string;
   createdBy?: string;
+  prompt?: string;
+  options?: GenerationOptions;
   sourceTaskId?: string;
 }
 